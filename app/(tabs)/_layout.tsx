@@ -3,7 +3,7 @@
  */
 
 import { Tabs } from 'expo-router';
-import { LibraryIcon, SearchIcon, BookOpenIcon, SettingsIcon, StatisticsIcon } from '@/components/Icons';
+import { LibraryIcon, SearchIcon, BookOpenIcon, SettingsIcon, StatisticsIcon, FolderIcon } from '@/components/Icons';
 import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
 
 export default function TabsLayout() {
@@ -29,6 +29,13 @@ export default function TabsLayout() {
           tabBarIcon: ({ color, size }) => <LibraryIcon size={size} color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="collections"
+        options={{
+          title: 'Collections',
+          tabBarIcon: ({ color, size }) => <FolderIcon size={size} color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="highlights"
         options={{
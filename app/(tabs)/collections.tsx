@@ -0,0 +1,471 @@
+/**
+ * Collections screen
+ * Browse nested collection folders, manually order the documents in each,
+ * and open rule-based smart collections
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { PlusIcon, FolderIcon, ChevronRightIcon, XIcon, FilterIcon } from '@/components/Icons';
+import { EmptyState } from '@/components/EmptyState';
+import { ReorderableList } from '@/components/ReorderableList';
+import { SmartCollectionEditor } from '@/components/SmartCollectionEditor';
+import { useCollectionStore } from '@/stores/collectionStore';
+import { useSmartCollectionStore } from '@/stores/smartCollectionStore';
+import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
+import { Collection, Document, SmartCollection } from '@/types';
+
+export default function CollectionsScreen() {
+  const router = useRouter();
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
+  const {
+    createCollection,
+    updateCollectionName,
+    deleteCollectionById,
+    removeDocument,
+    reorderDocuments,
+    getDocuments,
+    getChildCollections,
+  } = useCollectionStore();
+  const { smartCollections, loadSmartCollections, getDocuments: getSmartCollectionDocuments } =
+    useSmartCollectionStore();
+
+  // Breadcrumb trail from the root; the last entry is the open folder
+  const [path, setPath] = useState<Collection[]>([]);
+  const [folders, setFolders] = useState<Collection[]>([]);
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [openSmartCollection, setOpenSmartCollection] = useState<SmartCollection | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingSmartCollection, setEditingSmartCollection] = useState<SmartCollection | null>(null);
+
+  const current = path.length > 0 ? path[path.length - 1] : null;
+
+  const loadContents = useCallback(async () => {
+    // Smart collections are evaluated on every load so they always reflect the library
+    if (openSmartCollection) {
+      setFolders([]);
+      setDocuments(await getSmartCollectionDocuments(openSmartCollection));
+      return;
+    }
+    if (!current) {
+      loadSmartCollections();
+    }
+    const [childFolders, folderDocuments] = await Promise.all([
+      getChildCollections(current?.id ?? null),
+      current ? getDocuments(current.id) : Promise.resolve([]),
+    ]);
+    setFolders(childFolders);
+    setDocuments(folderDocuments);
+  }, [current?.id, openSmartCollection]);
+
+  // Reload on focus too: documents may have been added from the library meanwhile
+  useFocusEffect(
+    useCallback(() => {
+      loadContents();
+    }, [loadContents])
+  );
+
+  const handleOpenFolder = (folder: Collection) => {
+    setRenaming(null);
+    setPath([...path, folder]);
+  };
+
+  const handleBreadcrumb = (depth: number) => {
+    setRenaming(null);
+    setOpenSmartCollection(null);
+    setPath(path.slice(0, depth));
+  };
+
+  const handleEditSmartCollection = (smartCollection: SmartCollection | null) => {
+    setEditingSmartCollection(smartCollection);
+    setEditorVisible(true);
+  };
+
+  const handleAdd = () => {
+    if (current) {
+      setNewFolderName('');
+      return;
+    }
+    Alert.alert('New', undefined, [
+      { text: 'Collection', onPress: () => setNewFolderName('') },
+      { text: 'Smart Collection', onPress: () => handleEditSmartCollection(null) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleCreateFolder = async () => {
+    const name = newFolderName?.trim();
+    if (!name) {
+      setNewFolderName(null);
+      return;
+    }
+    await createCollection(name, undefined, undefined, current?.id ?? null);
+    setNewFolderName(null);
+    await loadContents();
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    if (name) {
+      await updateCollectionName(renaming.id, name);
+    }
+    setRenaming(null);
+    await loadContents();
+  };
+
+  const handleFolderOptions = (folder: Collection) => {
+    Alert.alert(folder.name, undefined, [
+      { text: 'Rename', onPress: () => setRenaming({ id: folder.id, name: folder.name }) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          Alert.alert(
+            'Delete Collection',
+            `Delete "${folder.name}" and all collections inside it? Documents stay in your library.`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                  await deleteCollectionById(folder.id);
+                  await loadContents();
+                },
+              },
+            ]
+          ),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleReorder = async (reordered: Document[]) => {
+    if (!current) return;
+    setDocuments(reordered);
+    await reorderDocuments(current.id, reordered.map((document) => document.id));
+  };
+
+  const handleRemoveDocument = async (document: Document) => {
+    if (!current) return;
+    await removeDocument(current.id, document.id);
+    setDocuments((docs) => docs.filter((doc) => doc.id !== document.id));
+  };
+
+  const renderFolder = (folder: Collection) => (
+    <TouchableOpacity
+      key={folder.id}
+      style={[styles.row, { backgroundColor: colors.card }]}
+      onPress={() => handleOpenFolder(folder)}
+      onLongPress={() => handleFolderOptions(folder)}
+      accessibilityRole="button"
+      accessibilityLabel={`Open collection ${folder.name}`}
+      accessibilityHint="Long press to rename or delete"
+    >
+      <FolderIcon size={22} color={folder.color || colors.primary} />
+      {renaming?.id === folder.id ? (
+        <TextInput
+          value={renaming.name}
+          onChangeText={(name) => setRenaming({ id: folder.id, name })}
+          onBlur={handleRename}
+          autoFocus
+          style={[styles.rowInput, { color: colors.text, borderColor: colors.border }]}
+          returnKeyType="done"
+          accessibilityLabel="Collection name"
+        />
+      ) : (
+        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+          {folder.name}
+        </Text>
+      )}
+      <ChevronRightIcon size={20} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  const renderDocument = (document: Document, isActive: boolean) => (
+    <TouchableOpacity
+      style={[styles.row, styles.documentRow, { backgroundColor: isActive ? colors.surface : colors.card }]}
+      onPress={() => router.push(`/reader/${document.id}`)}
+      accessibilityRole="button"
+      accessibilityLabel={`Open ${document.title}`}
+    >
+      <View style={styles.documentInfo}>
+        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+          {document.title}
+        </Text>
+        <Text style={[styles.documentMeta, { color: colors.textSecondary }]}>
+          {document.format.toUpperCase()} • {document.estimatedReadingTime} min
+        </Text>
+      </View>
+      {!openSmartCollection && (
+        <TouchableOpacity
+          onPress={() => handleRemoveDocument(document)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel={`Remove ${document.title} from collection`}
+        >
+          <XIcon size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderSmartCollection = (smartCollection: SmartCollection) => (
+    <TouchableOpacity
+      key={smartCollection.id}
+      style={[styles.row, { backgroundColor: colors.card }]}
+      onPress={() => setOpenSmartCollection(smartCollection)}
+      onLongPress={() => handleEditSmartCollection(smartCollection)}
+      accessibilityRole="button"
+      accessibilityLabel={`Open smart collection ${smartCollection.name}`}
+      accessibilityHint="Long press to edit rules"
+    >
+      <FilterIcon size={22} color={smartCollection.color || colors.primary} />
+      <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+        {smartCollection.name}
+      </Text>
+      <ChevronRightIcon size={20} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  const crumbs: { id: string; name: string }[] = [
+    { id: 'root', name: 'All Collections' },
+    ...path,
+    ...(openSmartCollection ? [openSmartCollection] : []),
+  ];
+  const currentDepth = crumbs.length - 1;
+  const showSmartCollections = !current && !openSmartCollection && smartCollections.length > 0;
+  const isEmpty =
+    folders.length === 0 && documents.length === 0 && newFolderName === null && !showSmartCollections;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface }]}>
+      <View style={[styles.header, { backgroundColor: colors.background, borderBottomColor: colors.border }]}>
+        <Text style={[styles.title, { color: colors.text }]}>Collections</Text>
+        {openSmartCollection ? (
+          <TouchableOpacity
+            onPress={() => handleEditSmartCollection(openSmartCollection)}
+            style={styles.addButton}
+            accessibilityLabel="Edit smart collection rules"
+          >
+            <FilterIcon size={24} color={colors.primary} />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity onPress={handleAdd} style={styles.addButton} accessibilityLabel="New collection">
+            <PlusIcon size={24} color={colors.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={[styles.breadcrumbsContainer, { backgroundColor: colors.background, borderBottomColor: colors.border }]}
+        contentContainerStyle={styles.breadcrumbs}
+      >
+        {crumbs.map((crumb, depth) => (
+          <View key={crumb.id} style={styles.breadcrumb}>
+            {depth > 0 && <ChevronRightIcon size={14} color={colors.textSecondary} />}
+            <TouchableOpacity
+              onPress={() => handleBreadcrumb(depth)}
+              disabled={depth === currentDepth}
+              accessibilityRole="link"
+            >
+              <Text
+                style={[
+                  styles.breadcrumbText,
+                  { color: depth === currentDepth ? colors.text : colors.primary },
+                  depth === currentDepth && styles.breadcrumbCurrent,
+                ]}
+              >
+                {crumb.name}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </ScrollView>
+
+      {openSmartCollection ? (
+        documents.length === 0 ? (
+          <EmptyState title="No matching documents" message="No documents match this smart collection's rules yet" />
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            {documents.map((document) => (
+              <View key={document.id}>{renderDocument(document, false)}</View>
+            ))}
+          </ScrollView>
+        )
+      ) : isEmpty ? (
+        <EmptyState
+          title={current ? 'Empty collection' : 'No collections'}
+          message={
+            current
+              ? 'Add documents from the library, or tap + to create a collection inside this one'
+              : 'Tap the + button to create your first collection'
+          }
+        />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} scrollEnabled={!isDragging}>
+          {newFolderName !== null && (
+            <View style={[styles.row, { backgroundColor: colors.card }]}>
+              <FolderIcon size={22} color={colors.primary} />
+              <TextInput
+                value={newFolderName}
+                onChangeText={setNewFolderName}
+                onBlur={handleCreateFolder}
+                autoFocus
+                placeholder="Collection name"
+                placeholderTextColor={colors.textSecondary}
+                style={[styles.rowInput, { color: colors.text, borderColor: colors.border }]}
+                returnKeyType="done"
+                accessibilityLabel="New collection name"
+              />
+            </View>
+          )}
+
+          {showSmartCollections && (
+            <>
+              <Text style={[styles.sectionTitle, styles.firstSectionTitle, { color: colors.textSecondary }]}>
+                Smart Collections
+              </Text>
+              {smartCollections.map(renderSmartCollection)}
+              {folders.length > 0 && (
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Collections</Text>
+              )}
+            </>
+          )}
+
+          {folders.map(renderFolder)}
+
+          {documents.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                Documents · drag to reorder
+              </Text>
+              <ReorderableList
+                data={documents}
+                keyExtractor={(document) => document.id}
+                renderItem={renderDocument}
+                onReorder={handleReorder}
+                onDragActiveChange={setIsDragging}
+                handleColor={colors.textSecondary}
+              />
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      <SmartCollectionEditor
+        visible={editorVisible}
+        onClose={() => setEditorVisible(false)}
+        smartCollection={editingSmartCollection}
+        onSaved={(saved) => {
+          if (openSmartCollection?.id === saved.id) {
+            setOpenSmartCollection(saved);
+          }
+        }}
+        onDeleted={() => setOpenSmartCollection(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  addButton: {
+    padding: 8,
+  },
+  breadcrumbsContainer: {
+    borderBottomWidth: 1,
+    maxHeight: 44,
+  },
+  breadcrumbs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  breadcrumb: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 4,
+  },
+  breadcrumbText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  breadcrumbCurrent: {
+    fontWeight: '700',
+  },
+  content: {
+    padding: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  rowInput: {
+    flex: 1,
+    fontSize: 16,
+    borderBottomWidth: 1,
+    paddingVertical: 4,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  firstSectionTitle: {
+    marginTop: 0,
+  },
+  documentRow: {
+    marginBottom: 0,
+    marginVertical: 4,
+  },
+  documentInfo: {
+    flex: 1,
+  },
+  documentMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
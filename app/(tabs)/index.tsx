@@ -17,9 +17,13 @@ import {
   ScrollView,
 } from 'react-native';
 import { useRouter, useFocusEffect } from 'expo-router';
-import { PlusIcon, ListIcon } from '@/components/Icons';
+import { PlusIcon, ListIcon, TagIcon } from '@/components/Icons';
 import { useDocumentStore } from '@/stores/documentStore';
+import { useTagStore } from '@/stores/tagStore';
 import { DocumentCard } from '@/components/DocumentCard';
+import { TagChip } from '@/components/TagChip';
+import { TagEditorSheet } from '@/components/TagEditorSheet';
+import { AddToCollectionSheet } from '@/components/AddToCollectionSheet';
 import { EmptyState } from '@/components/EmptyState';
 import { DocumentCardSkeleton } from '@/components/SkeletonLoader';
 import { importDocument } from '@/services/documentImport';
@@ -28,6 +32,7 @@ import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
 import { getReadingPosition } from '@/services/database';
 
 type LibraryView = 'all' | 'reading' | 'finished' | 'unread' | 'favorites';
+type TagMatchMode = 'and' | 'or';
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -43,6 +48,12 @@ export default function LibraryScreen() {
   const [view, setView] = useState<LibraryView>('all');
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
   const [readingPositions, setReadingPositions] = useState<Record<string, number>>({});
+  const { tags, documentTagIds, loadTags, getTagsForDocument } = useTagStore();
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('or');
+  const [tagEditorVisible, setTagEditorVisible] = useState(false);
+  const [tagEditorDocument, setTagEditorDocument] = useState<Document | null>(null);
+  const [collectionDocument, setCollectionDocument] = useState<Document | null>(null);
 
   const handleViewModeToggle = () => {
     LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
@@ -51,7 +62,8 @@ export default function LibraryScreen() {
 
   useEffect(() => {
     loadDocuments();
-  }, [loadDocuments]);
+    loadTags();
+  }, [loadDocuments, loadTags]);
 
   // Memoize document IDs string to prevent unnecessary re-renders
   const documentIdsString = useMemo(() => {
@@ -96,6 +108,7 @@ export default function LibraryScreen() {
       const refresh = async () => {
         await refreshDocumentsRef.current();
         if (!isMounted) return;
+        useTagStore.getState().loadTags();
         
         // Reload reading positions after documents are refreshed to ensure consistency
         // Use a small delay to ensure store is updated, then get fresh documents
@@ -136,17 +149,43 @@ export default function LibraryScreen() {
     const document = await importDocument();
     if (document) {
       await refreshDocuments();
+      // Imports can add tags from the file's keywords
+      useTagStore.getState().loadTags();
     }
   };
 
-  const filteredDocuments = documents.filter((doc) => {
+  // Ignore selections for tags that were deleted or merged away
+  const activeTagIds = selectedTagIds.filter((id) => tags.some((tag) => tag.id === id));
+
+  const matchesTags = (doc: Document) => {
+    if (activeTagIds.length === 0) return true;
+    const docTagIds = documentTagIds[doc.id] ?? [];
+    return tagMatchMode === 'and'
+      ? activeTagIds.every((id) => docTagIds.includes(id))
+      : activeTagIds.some((id) => docTagIds.includes(id));
+  };
+
+  const matchesView = (doc: Document) => {
     if (view === 'all') return true;
     if (view === 'reading') return doc.status === 'reading';
     if (view === 'finished') return doc.status === 'finished';
     if (view === 'unread') return doc.status === 'unread';
     if (view === 'favorites') return doc.isFavorite === true;
     return true;
-  });
+  };
+
+  const filteredDocuments = documents.filter((doc) => matchesView(doc) && matchesTags(doc));
+
+  const handleToggleTagFilter = (tagId: string) => {
+    setSelectedTagIds((current) =>
+      current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]
+    );
+  };
+
+  const handleEditTags = (document: Document | null) => {
+    setTagEditorDocument(document);
+    setTagEditorVisible(true);
+  };
 
   const handleDocumentPress = (document: Document) => {
     router.push(`/reader/${document.id}`);
@@ -222,6 +261,44 @@ export default function LibraryScreen() {
         ))}
       </ScrollView>
 
+      {tags.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={[styles.filtersContainer, { backgroundColor: colors.background, borderBottomColor: colors.border }]}
+          contentContainerStyle={styles.filters}
+        >
+          <TouchableOpacity
+            onPress={() => setTagMatchMode(tagMatchMode === 'and' ? 'or' : 'and')}
+            style={[styles.matchModeButton, { borderColor: colors.border }]}
+            accessibilityRole="button"
+            accessibilityLabel={
+              tagMatchMode === 'and' ? 'Showing documents with all selected tags' : 'Showing documents with any selected tag'
+            }
+          >
+            <Text style={[styles.matchModeText, { color: colors.textSecondary }]}>
+              {tagMatchMode === 'and' ? 'AND' : 'OR'}
+            </Text>
+          </TouchableOpacity>
+          {tags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              size="medium"
+              selected={activeTagIds.includes(tag.id)}
+              onPress={() => handleToggleTagFilter(tag.id)}
+            />
+          ))}
+          <TouchableOpacity
+            onPress={() => handleEditTags(null)}
+            style={styles.manageTagsButton}
+            accessibilityLabel="Manage tags"
+          >
+            <TagIcon size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
       {isLoading && filteredDocuments.length === 0 ? (
         <FlatList
           key={`skeleton-${viewMode}`}
@@ -235,10 +312,17 @@ export default function LibraryScreen() {
           ]}
         />
       ) : filteredDocuments.length === 0 ? (
-        <EmptyState
-          title="No documents"
-          message="Tap the + button to import your first document"
-        />
+        activeTagIds.length > 0 ? (
+          <EmptyState
+            title="No matching documents"
+            message="No documents match the selected tags"
+          />
+        ) : (
+          <EmptyState
+            title="No documents"
+            message="Tap the + button to import your first document"
+          />
+        )
       ) : (
         <FlatList
           key={`documents-${viewMode}`}
@@ -251,6 +335,9 @@ export default function LibraryScreen() {
               onPress={() => handleDocumentPress(item)}
               onRemove={() => handleRemoveDocument(item)}
               onToggleFavorite={() => toggleFavorite(item.id)}
+              onEditTags={() => handleEditTags(item)}
+              onAddToCollection={() => setCollectionDocument(item)}
+              tags={getTagsForDocument(item.id)}
               viewMode={viewMode}
               currentPage={readingPositions[item.id]}
             />
@@ -275,6 +362,20 @@ export default function LibraryScreen() {
           }) : undefined}
         />
       )}
+
+      <TagEditorSheet
+        visible={tagEditorVisible}
+        onClose={() => setTagEditorVisible(false)}
+        documentId={tagEditorDocument?.id}
+        documentTitle={tagEditorDocument?.title}
+      />
+
+      <AddToCollectionSheet
+        visible={collectionDocument !== null}
+        onClose={() => setCollectionDocument(null)}
+        documentId={collectionDocument?.id ?? null}
+        documentTitle={collectionDocument?.title}
+      />
     </View>
   );
 }
@@ -331,6 +432,19 @@ const styles = StyleSheet.create({
     fontWeight: '500',
   },
   filterTextActive: {},
+  matchModeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  matchModeText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  manageTagsButton: {
+    padding: 6,
+  },
   list: {
     padding: 16,
   },
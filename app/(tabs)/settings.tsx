@@ -2,13 +2,26 @@
  * Settings screen
  */
 
-import React, { useEffect } from 'react';
-import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Switch, Alert } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Switch, Alert, ActivityIndicator } from 'react-native';
 import { useReaderStore } from '@/stores/readerStore';
 import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
 import { ReaderTheme } from '@/types';
+import { useRouter } from 'expo-router';
+import { shareBackup, pickBackupFile, promptRestoreMode, RestoreMode } from '@/services/backupService';
+import { runScheduledBackup } from '@/services/backupScheduler';
+import { useBackupRestore } from '@/hooks/useBackupRestore';
+
+const BACKUP_INTERVALS = [
+  { hours: 24, label: 'Daily' },
+  { hours: 72, label: '3 Days' },
+  { hours: 168, label: 'Weekly' },
+];
+
+const BACKUP_KEEP_COUNTS = [3, 7, 14];
 
 export default function SettingsScreen() {
+  const router = useRouter();
   const {
     settings,
     loadSettings,
@@ -28,6 +41,53 @@ export default function SettingsScreen() {
   }, [loadSettings, loadTheme]);
 
   const themes: ReaderTheme[] = ['light', 'dark', 'sepia'];
+  const [backupBusy, setBackupBusy] = useState<'backup' | 'restore' | null>(null);
+  const restoreBackupFile = useBackupRestore();
+
+  const handleCreateBackup = async () => {
+    setBackupBusy('backup');
+    try {
+      await shareBackup();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      Alert.alert('Backup Failed', error instanceof Error ? error.message : 'Could not create backup.');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const runRestore = async (fileUri: string, mode: RestoreMode) => {
+    setBackupBusy('restore');
+    try {
+      await restoreBackupFile(fileUri, mode);
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    let fileUri: string | null = null;
+    try {
+      fileUri = await pickBackupFile();
+    } catch (error) {
+      Alert.alert('Feature Not Available', error instanceof Error ? error.message : 'Could not open file picker.');
+      return;
+    }
+    if (!fileUri) return;
+
+    const mode = await promptRestoreMode();
+    if (mode) {
+      await runRestore(fileUri, mode);
+    }
+  };
+
+  const handleToggleAutoBackup = async (value: boolean) => {
+    await updateSettings({ autoBackup: value });
+    if (value) {
+      // Back up right away if there is no recent backup
+      runScheduledBackup(useReaderStore.getState().settings);
+    }
+  };
 
   return (
     <ScrollView style={[styles.container, { backgroundColor: colors.surface }]}>
@@ -168,12 +228,70 @@ export default function SettingsScreen() {
             <Text style={[styles.settingLabel, { color: colors.text }]}>Auto Backup</Text>
             <Switch
               value={settings.autoBackup}
-              onValueChange={(value: boolean) => updateSettings({ autoBackup: value })}
+              onValueChange={handleToggleAutoBackup}
               trackColor={{ false: colors.border, true: colors.primary }}
             />
           </View>
         </View>
 
+        {settings.autoBackup && (
+          <>
+            <View style={styles.setting}>
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Backup Frequency</Text>
+              <View style={styles.themeOptions}>
+                {BACKUP_INTERVALS.map(({ hours, label }) => {
+                  const selected = (settings.autoBackupIntervalHours ?? 24) === hours;
+                  return (
+                    <TouchableOpacity
+                      key={hours}
+                      onPress={() => updateSettings({ autoBackupIntervalHours: hours })}
+                      style={[styles.themeOption, { backgroundColor: selected ? colors.primary : colors.surface }]}
+                    >
+                      <Text style={[styles.themeOptionText, { color: selected ? '#ffffff' : colors.textSecondary }]}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={styles.setting}>
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Backups to Keep</Text>
+              <View style={styles.themeOptions}>
+                {BACKUP_KEEP_COUNTS.map((count) => {
+                  const selected = (settings.autoBackupKeepCount ?? 7) === count;
+                  return (
+                    <TouchableOpacity
+                      key={count}
+                      onPress={() => updateSettings({ autoBackupKeepCount: count })}
+                      style={[styles.themeOption, { backgroundColor: selected ? colors.primary : colors.surface }]}
+                    >
+                      <Text style={[styles.themeOptionText, { color: selected ? '#ffffff' : colors.textSecondary }]}>
+                        {count}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
+            <View style={styles.setting}>
+              <View style={styles.settingRow}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>Include Document Files</Text>
+                <Switch
+                  value={settings.autoBackupIncludeDocuments ?? false}
+                  onValueChange={(value: boolean) => updateSettings({ autoBackupIncludeDocuments: value })}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+              <Text style={[styles.settingHint, { color: colors.textSecondary }]}>
+                Needed to restore on another device, but each backup then takes as much space as your library.
+              </Text>
+            </View>
+          </>
+        )}
+
         <View style={styles.setting}>
           <View style={styles.settingRow}>
             <Text style={[styles.settingLabel, { color: colors.text }]}>Biometric Lock</Text>
@@ -186,6 +304,51 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      <View style={[styles.section, { backgroundColor: colors.background, borderColor: colors.border }]}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Backup & Restore</Text>
+
+        <View style={styles.setting}>
+          <TouchableOpacity
+            onPress={handleCreateBackup}
+            disabled={backupBusy !== null}
+            style={[styles.button, { backgroundColor: colors.surface }]}
+          >
+            {backupBusy === 'backup' ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.text }]}>Create Backup</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.setting}>
+          <TouchableOpacity
+            onPress={handleRestoreBackup}
+            disabled={backupBusy !== null}
+            style={[styles.button, { backgroundColor: colors.surface }]}
+          >
+            {backupBusy === 'restore' ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.text }]}>Restore from Backup</Text>
+            )}
+          </TouchableOpacity>
+          <Text style={[styles.settingHint, { color: colors.textSecondary }]}>
+            Backups include documents, highlights, notes, bookmarks, tags, collections and reading history. Automatic
+            backups leave out document files unless you include them.
+          </Text>
+        </View>
+
+        <View style={styles.setting}>
+          <TouchableOpacity
+            onPress={() => router.push('/backups')}
+            style={[styles.button, { backgroundColor: colors.surface }]}
+          >
+            <Text style={[styles.buttonText, { color: colors.text }]}>Manage Backups</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
       <View style={[styles.section, { backgroundColor: colors.background, borderColor: colors.border }]}>
         <Text style={[styles.sectionTitle, { color: colors.text }]}>Cache Management</Text>
 
@@ -295,4 +458,8 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  settingHint: {
+    fontSize: 13,
+    marginTop: 8,
+  },
 });
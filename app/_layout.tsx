@@ -7,7 +7,9 @@ import { Stack } from 'expo-router';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import '../global.css';
 import { initDatabase } from '@/services/database';
-import { initDocumentsDirectory } from '@/services/documentImport';
+import { initDocumentsDirectory, reindexPDFDocuments } from '@/services/documentImport';
+import { startBackupScheduler } from '@/services/backupScheduler';
+import { queueThumbnailBackfill } from '@/services/imageOptimization';
 import { useReaderStore } from '@/stores/readerStore';
 import { useThemeStore } from '@/stores/themeStore';
 import { useDocumentStore } from '@/stores/documentStore';
@@ -18,6 +20,9 @@ export default function RootLayout() {
   const loadDocuments = useDocumentStore((state) => state.loadDocuments);
 
   useEffect(() => {
+    let stopBackupScheduler: (() => void) | null = null;
+    let cancelled = false;
+
     // Initialize database and directories, then load documents
     const initialize = async () => {
       try {
@@ -29,12 +34,36 @@ export default function RootLayout() {
         // Load documents after database is ready
         await loadDocuments();
         console.log('App initialization complete');
+
+        // Make previously imported PDFs searchable (non-blocking)
+        reindexPDFDocuments()
+          .then((count) => {
+            if (count > 0) {
+              loadDocuments();
+            }
+          })
+          .catch((error) => console.error('PDF reindex error:', error))
+          // Covers for documents imported before thumbnails were generated
+          .finally(() =>
+            queueThumbnailBackfill(useDocumentStore.getState().documents, useDocumentStore.getState().setDocumentCover)
+          );
+
+        // Automatic backups on start and when returning to the foreground,
+        // unless the layout unmounted while initialization was still running
+        if (!cancelled) {
+          stopBackupScheduler = startBackupScheduler(() => useReaderStore.getState().settings);
+        }
       } catch (error) {
         console.error('Initialization error:', error);
       }
     };
 
     initialize();
+
+    return () => {
+      cancelled = true;
+      stopBackupScheduler?.();
+    };
   }, [loadSettings, loadTheme, loadDocuments]);
 
   return (
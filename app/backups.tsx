@@ -0,0 +1,255 @@
+/**
+ * Backups screen
+ * Lists local automatic backups with share, restore and delete actions
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ChevronLeftIcon, ShareIcon, TrashIcon } from '@/components/Icons';
+import { EmptyState } from '@/components/EmptyState';
+import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
+import { useReaderStore } from '@/stores/readerStore';
+import {
+  BackupFileInfo,
+  listBackups,
+  deleteBackup,
+  shareBackupFile,
+  promptRestoreMode,
+} from '@/services/backupService';
+import { runScheduledBackup } from '@/services/backupScheduler';
+import { useBackupRestore } from '@/hooks/useBackupRestore';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function BackupsScreen() {
+  const router = useRouter();
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+  const [backups, setBackups] = useState<BackupFileInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyUri, setBusyUri] = useState<string | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const restoreBackupFile = useBackupRestore();
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await listBackups());
+    } catch (error) {
+      console.error('Error listing backups:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const handleBackupNow = async () => {
+    setIsBackingUp(true);
+    try {
+      const result = await runScheduledBackup(useReaderStore.getState().settings, true);
+      if (result.status === 'skipped') {
+        // A forced run is only skipped while an automatic backup is being written
+        Alert.alert('Backup In Progress', 'A backup is already being created. It will appear here when it finishes.');
+      } else if (result.status === 'failed') {
+        Alert.alert(
+          'Backup Failed',
+          result.error instanceof Error ? result.error.message : 'Could not create a backup. Please try again.'
+        );
+      }
+      await loadBackups();
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleShare = async (backup: BackupFileInfo) => {
+    try {
+      await shareBackupFile(backup.uri);
+    } catch (error) {
+      console.error('Error sharing backup:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not share backup.');
+    }
+  };
+
+  const handleRestore = async (backup: BackupFileInfo) => {
+    const mode = await promptRestoreMode();
+    if (!mode) return;
+
+    setBusyUri(backup.uri);
+    try {
+      await restoreBackupFile(backup.uri, mode);
+    } finally {
+      setBusyUri(null);
+    }
+  };
+
+  const handleDelete = (backup: BackupFileInfo) => {
+    Alert.alert('Delete Backup', `Delete the backup from ${backup.createdAt.toLocaleString()}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteBackup(backup.uri);
+            await loadBackups();
+          } catch (error) {
+            console.error('Error deleting backup:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderBackup = ({ item }: { item: BackupFileInfo }) => (
+    <View style={[styles.backupItem, { backgroundColor: colors.background, borderColor: colors.border }]}>
+      <TouchableOpacity
+        style={styles.backupInfo}
+        onPress={() => handleRestore(item)}
+        disabled={busyUri !== null}
+        accessibilityRole="button"
+        accessibilityLabel={`Restore backup from ${item.createdAt.toLocaleString()}`}
+      >
+        <Text style={[styles.backupDate, { color: colors.text }]}>{item.createdAt.toLocaleString()}</Text>
+        <Text style={[styles.backupMeta, { color: colors.textSecondary }]}>
+          {formatSize(item.size)} · Tap to restore
+        </Text>
+      </TouchableOpacity>
+      {busyUri === item.uri ? (
+        <ActivityIndicator color={colors.primary} />
+      ) : (
+        <View style={styles.backupActions}>
+          <TouchableOpacity
+            onPress={() => handleShare(item)}
+            style={styles.actionButton}
+            accessibilityRole="button"
+            accessibilityLabel="Share backup"
+          >
+            <ShareIcon size={20} color={colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleDelete(item)}
+            style={styles.actionButton}
+            accessibilityRole="button"
+            accessibilityLabel="Delete backup"
+          >
+            <TrashIcon size={20} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface }]}>
+      <View style={[styles.header, { backgroundColor: colors.background, borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton} accessibilityLabel="Back">
+          <ChevronLeftIcon size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Backups</Text>
+      </View>
+
+      <TouchableOpacity
+        onPress={handleBackupNow}
+        disabled={isBackingUp}
+        style={[styles.backupNowButton, { backgroundColor: colors.primary }]}
+      >
+        {isBackingUp ? (
+          <ActivityIndicator color="#ffffff" />
+        ) : (
+          <Text style={styles.backupNowText}>Back Up Now</Text>
+        )}
+      </TouchableOpacity>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color={colors.primary} />
+      ) : backups.length === 0 ? (
+        <EmptyState
+          title="No backups yet"
+          message="Turn on Auto Backup in Settings or tap Back Up Now."
+        />
+      ) : (
+        <FlatList
+          data={backups}
+          keyExtractor={(item) => item.uri}
+          renderItem={renderBackup}
+          contentContainerStyle={styles.list}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  backupNowButton: {
+    margin: 16,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  backupNowText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  backupItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  backupInfo: {
+    flex: 1,
+  },
+  backupDate: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  backupMeta: {
+    fontSize: 13,
+  },
+  backupActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    padding: 8,
+  },
+});
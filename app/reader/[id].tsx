@@ -2,7 +2,7 @@
  * Document reader screen
  */
 
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,35 +10,76 @@ import {
   TouchableOpacity,
   Modal,
   ScrollView,
+  FlatList,
   TextInput,
   Alert,
   Animated,
   AccessibilityInfo,
   PanResponder,
   Dimensions,
+  Linking,
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Platform } from 'react-native';
 import { XIcon, SettingsIcon, EyeIcon, EyeOffIcon, ListIcon, BookmarkIcon } from '@/components/Icons';
 import { PlayIcon, PauseIcon } from '@/components/Icons';
 import { TOCModal } from '@/components/TOCModal';
+import { NotePopover } from '@/components/NotePopover';
 import { ReaderHeader } from '@/components/ReaderHeader';
 import { ReaderFooter } from '@/components/ReaderFooter';
 import { ReaderSettingsModal } from '@/components/ReaderSettings';
 import { TextSelectionToolbar } from '@/components/TextSelectionToolbar';
+import { PagedContent, PageLayout } from '@/components/PagedContent';
+import { ChunkedText } from '@/components/ChunkedText';
+import { ChunkedHTML } from '@/components/ChunkedHTML';
+import { ComicViewer } from '@/components/ComicViewer';
 import { useDocumentStore } from '@/stores/documentStore';
 import { useReaderStore } from '@/stores/readerStore';
 import { useHighlightStore } from '@/stores/highlightStore';
 import { getDocumentById, getReadingPosition, upsertReadingPosition, updateDocument, insertBookmark, getBookmarksByDocumentId, deleteBookmark } from '@/services/database';
 import { startReadingSession, endReadingSession } from '@/services/readingStatistics';
-import { Bookmark } from '@/types';
-import { Document, HighlightType } from '@/types';
-import * as FileSystemLegacy from 'expo-file-system/legacy';
-import { parseEPUB, getEPUBTOC, getEPUBChapterContent, EPUBChapter, EPUBContent } from '@/services/epubParser';
+import { Bookmark, TextLocator, TOCEntry } from '@/types';
+import { Document, Highlight, HighlightType } from '@/types';
+import {
+  loadEPUBStructure,
+  getEPUBChapter,
+  getAdjacentChapterIndex,
+  getEPUBNotes,
+  buildEPUBTOCEntries,
+  EPUBChapter,
+  EPUBNote,
+  EPUBStructure,
+  evictEPUBArchive,
+} from '@/services/epubParser';
+import { parseEPUBLink, isEPUBNoteRef, ResolvedEPUBChapter } from '@/services/epubResources';
 import { parseDOCX, DOCXContent } from '@/services/docxParser';
-import RenderHTML from 'react-native-render-html';
+import { parseMarkdownFile, MarkdownContent } from '@/services/markdownParser';
+import { parseFB2, FB2Content } from '@/services/fb2Parser';
+import { getCBZPages, evictCBZArchive } from '@/services/cbzParser';
+import { parseHTMLFile, HTMLContent } from '@/services/htmlParser';
+import { parseTXTFile, buildTXTTOCEntries } from '@/services/txtParser';
+import { TXTChapter } from '@/utils/plainText';
+import { getPDFOutline } from '@/services/pdfTextExtractor';
+import RenderHTML, {
+  MixedStyleDeclaration,
+  MixedStyleRecord,
+  RenderHTMLConfigProvider,
+  RenderHTMLSource,
+  TRenderEngineProvider,
+} from 'react-native-render-html';
 import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
-import { HighlightedText } from '@/utils/textRenderer';
+import { HighlightedText, resolveHighlights } from '@/utils/textRenderer';
+import { splitTextChunks, findChunkIndex, TextChunk } from '@/utils/textChunks';
+import { splitHTMLChunks, HTMLChunk } from '@/utils/htmlChunks';
+import { buildHeadingTOCEntries, flattenHeadings } from '@/utils/htmlOutline';
+import { getAdjacentSpread, getSpreadPages } from '@/utils/comicSpreads';
+import {
+  createPositionLocator,
+  createTextLocator,
+  findAnchorOffset,
+  htmlToLocatorText,
+  resolveTextLocator,
+} from '@/utils/textLocator';
 
 // Conditional import for react-native-pdf
 let Pdf: any = null;
@@ -50,6 +91,24 @@ try {
   console.warn('react-native-pdf not available:', e);
 }
 
+// Tick interval for auto-scroll mode
+const AUTO_SCROLL_INTERVAL = 50; // ms
+
+// Smallest window dimension that gets a two-column layout
+const TABLET_MIN_WIDTH = 600;
+
+// Longest text laid out into pages; longer texts are read by scrolling
+const MAX_PAGED_TEXT_LENGTH = 2 * 1024 * 1024;
+
+// Short content (loading and empty messages) laid out as a single chunk
+const SINGLE_CHUNK: TextChunk[] = [{ start: 0, end: 0 }];
+
+// Characters of the document shown in the reader settings preview
+const PREVIEW_TEXT_LENGTH = 300;
+
+// Names of the formats rendered from converted HTML, for loading and empty states
+const HTML_FORMAT_NAMES: Record<string, string> = { docx: 'DOCX', md: 'Markdown', fb2: 'FB2', html: 'HTML' };
+
 export default function ReaderScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
@@ -90,11 +149,22 @@ export default function ReaderScreen() {
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [totalPages, setTotalPages] = useState<number | null>(null);
   const [maxPageSeen, setMaxPageSeen] = useState<number>(1);
-  const [epubContent, setEpubContent] = useState<EPUBContent | null>(null);
+  const [epubStructure, setEpubStructure] = useState<EPUBStructure | null>(null);
   const [currentChapter, setCurrentChapter] = useState<number>(0);
   const [epubChapters, setEpubChapters] = useState<EPUBChapter[]>([]);
+  const [epubNotes, setEpubNotes] = useState<EPUBNote[]>([]);
+  const [activeNote, setActiveNote] = useState<EPUBNote | null>(null);
+  const notesRequestRef = useRef(0);
+  const [epubChapterStyles, setEpubChapterStyles] = useState<Pick<ResolvedEPUBChapter, 'tagsStyles' | 'classesStyles'> | null>(null);
   const [showTOC, setShowTOC] = useState(false);
+  // EPUB chapters could not be loaded; the text extracted at import is shown instead
+  const [showingEPUBText, setShowingEPUBText] = useState(false);
   const [docxContent, setDocxContent] = useState<DOCXContent | null>(null);
+  const [markdownContent, setMarkdownContent] = useState<MarkdownContent | null>(null);
+  const [fb2Content, setFb2Content] = useState<FB2Content | null>(null);
+  const [htmlContent, setHtmlContent] = useState<HTMLContent | null>(null);
+  const [txtChapters, setTxtChapters] = useState<TXTChapter[]>([]);
+  const [comicPages, setComicPages] = useState<string[]>([]);
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
   const [showBookmarks, setShowBookmarks] = useState(false);
   const [readingSessionId, setReadingSessionId] = useState<string | null>(null);
@@ -107,9 +177,109 @@ export default function ReaderScreen() {
   const swipeX = useRef(new Animated.Value(0)).current;
   const [isTransitioning, setIsTransitioning] = useState(false);
 
+  // Scroll tracking for text formats, used to map scroll offsets to text locators
+  const scrollViewRef = useRef<ScrollView>(null);
+  const scrollMetrics = useRef({ y: 0, contentHeight: 0, viewportHeight: 0 });
+  // Scrolled text and HTML render as virtualized lists of chunks; positions are tracked by chunk
+  const chunkListRef = useRef<FlatList<TextChunk>>(null);
+  const firstVisibleChunkRef = useRef(0);
+  // Locator to scroll to once the content has been laid out
+  const pendingLocatorRef = useRef<TextLocator | null>(null);
+  const currentLocatorRef = useRef<TextLocator | null>(null);
+
+  // Reading mode: paged layouts for page/column, ScrollView for scroll/auto-scroll
+  const readingMode = settings.readingMode ?? 'page';
+  const windowSize = Dimensions.get('window');
+  const columns =
+    readingMode === 'column' && Math.min(windowSize.width, windowSize.height) >= TABLET_MIN_WIDTH ? 2 : 1;
+  const [layoutPage, setLayoutPage] = useState(0);
+  const [layoutPageCount, setLayoutPageCount] = useState(1);
+  const layoutPageRef = useRef(0);
+  const pageOffsetsRef = useRef<number[]>([]);
+  // Show the last page once the previous chapter has been laid out
+  const landOnLastPageRef = useRef(false);
+  const [autoScrollPaused, setAutoScrollPaused] = useState(false);
+  const touchStartRef = useRef<number | null>(null);
+  // PDFs and comics are shown as page images: positions are page numbers, not text locators
+  const isPageImageDocument = document?.format === 'pdf' || document?.format === 'cbz';
+  // Comics pair facing pages when the screen is wider than it is tall
+  const comicSpreads = (settings.comicSpreads ?? true) && windowSize.width > windowSize.height;
+  // Paging measures every chunk before pages can be counted, so very long texts always scroll
+  const isPagedText =
+    !isPageImageDocument &&
+    (readingMode === 'page' || readingMode === 'column') &&
+    textContent.length <= MAX_PAGED_TEXT_LENGTH;
+
+  // DOCX, Markdown, FB2 and web articles render converted HTML with a heading outline
+  const htmlDocument =
+    document?.format === 'docx'
+      ? docxContent
+      : document?.format === 'md'
+        ? markdownContent
+        : document?.format === 'fb2'
+          ? fb2Content
+          : document?.format === 'html'
+            ? htmlContent
+            : null;
+
+  // Plain text (TXT, or the extracted text of a DOCX/EPUB that can't be shown
+  // as HTML) is split into chunks: scrolled through a virtualized list, or
+  // paged a chunk at a time
+  const isPlainText =
+    document?.format === 'txt' ||
+    (document?.format === 'docx' && !docxContent?.html) ||
+    (document?.format === 'epub' && showingEPUBText);
+  const isChunkedText = !isPagedText && isPlainText;
+  const textChunks = useMemo(
+    () => (isPlainText ? splitTextChunks(textContent) : []),
+    [isPlainText, textContent]
+  );
+
+  // HTML (converted documents and EPUB chapters) is split the same way
+  const contentHTML = document?.format === 'epub' ? (showingEPUBText ? null : textContent) : htmlDocument?.html;
+  const htmlChunks = useMemo(() => (contentHTML ? splitHTMLChunks(contentHTML) : []), [contentHTML]);
+  const contentChunks: TextChunk[] = isPlainText ? textChunks : htmlChunks;
+  const isChunked = !isPagedText && contentChunks.length > 0;
+
+  // Plain text that locator offsets index into
+  const locatorText = useMemo(() => {
+    if (document?.format === 'epub' && !showingEPUBText) return htmlToLocatorText(textContent);
+    // Converted HTML is what's shown, so offsets follow its text rather than the parser's raw text
+    if (htmlDocument?.html) return htmlToLocatorText(htmlDocument.html);
+    return textContent;
+  }, [document?.format, textContent, htmlDocument, showingEPUBText]);
+
+  // Locator offsets of headings (or TXT chapter lines), indexed by TOC position (document order)
+  const headingOffsets = useMemo((): (number | null)[] => {
+    if (htmlDocument) {
+      return flattenHeadings(htmlDocument.outline).map((heading) => findAnchorOffset(htmlDocument.html, heading.id));
+    }
+    if (document?.format === 'txt') return txtChapters.map((chapter) => chapter.offset);
+    return [];
+  }, [htmlDocument, document?.format, txtChapters]);
+  const [headingSection, setHeadingSection] = useState(-1);
+  const [pdfOutline, setPdfOutline] = useState<TOCEntry[]>([]);
+
+  // Table of contents in the shared model, whatever the format
+  const tocEntries = useMemo((): TOCEntry[] => {
+    if (document?.format === 'epub') return buildEPUBTOCEntries(epubChapters, epubStructure?.toc);
+    if (htmlDocument) return buildHeadingTOCEntries(htmlDocument.outline);
+    if (document?.format === 'pdf') return pdfOutline;
+    if (document?.format === 'txt') return buildTXTTOCEntries(txtChapters);
+    return [];
+  }, [document?.format, epubChapters, epubStructure, htmlDocument, pdfOutline, txtChapters]);
+
+  // Re-anchor the reading spot when layout-affecting settings change
+  useEffect(() => {
+    if (currentLocatorRef.current) {
+      pendingLocatorRef.current = currentLocatorRef.current;
+    }
+  }, [settings.fontSize, settings.lineSpacing, settings.margin, settings.fontFamily, settings.readingMode]);
+
   // Handler refs to be set later (after document loads)
   const handlePreviousPageRef = useRef<(() => void) | null>(null);
   const handleNextPageRef = useRef<(() => void) | null>(null);
+  const handleTextScrollEndRef = useRef<(() => void) | null>(null);
 
   // Swipe gesture handler for text documents - must be defined before any early returns
   const panResponder = useRef(
@@ -247,6 +417,11 @@ export default function ReaderScreen() {
   }, [document]);
 
   const [highlights, setHighlights] = useState<any[]>([]);
+  // Highlights resolved once against the whole text, for paged chunks
+  const pagedHighlights = useMemo(
+    () => (isPagedText && isPlainText ? resolveHighlights(textContent, highlights) : []),
+    [isPagedText, isPlainText, textContent, highlights]
+  );
 
   const loadHighlights = async () => {
     if (!document) return;
@@ -278,6 +453,7 @@ export default function ReaderScreen() {
       page: currentPage,
       note: null,
       createdAt: new Date().toISOString(),
+      locator: isPageImageDocument ? null : getVisibleLocator(),
     };
     await insertBookmark(bookmark);
     await loadBookmarks();
@@ -305,10 +481,11 @@ export default function ReaderScreen() {
       const position = await getReadingPosition(id);
       let initialPage = 1;
       if (position) {
-        if (doc.format === 'pdf') {
+        if (doc.format === 'pdf' || doc.format === 'cbz') {
           initialPage = position.position;
         } else {
-          // For text documents, we could use position for scroll position later
+          // Text documents restore their scroll offset from the locator once laid out
+          pendingLocatorRef.current = position.locator ?? null;
           initialPage = 1;
         }
       }
@@ -325,7 +502,12 @@ export default function ReaderScreen() {
       }
       
       // Load text content for non-PDF files
-      if (doc.format !== 'pdf') {
+      if (doc.format === 'pdf') {
+        // Bookmarks for the TOC; the viewer doesn't wait for them
+        getPDFOutline(doc.id, doc.filePath).then(setPdfOutline);
+      } else if (doc.format === 'cbz') {
+        await loadComicPages(doc);
+      } else {
         await loadTextContent(doc);
       }
     }
@@ -360,63 +542,78 @@ export default function ReaderScreen() {
     }
   }, [document, totalPages, Pdf, refreshDocuments]);
 
+  const loadComicPages = async (doc: Document) => {
+    setLoadingContent(true);
+    try {
+      const pages = await getCBZPages(doc.filePath);
+      setComicPages(pages);
+      if (pages.length > 0) {
+        setTotalPages(pages.length);
+        if (doc.pageCount !== pages.length) {
+          updateDocumentPageCount(doc.id, pages.length);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading comic pages:', error);
+    } finally {
+      setLoadingContent(false);
+    }
+  };
+
+  // Release the book's archive (and a comic's extracted pages) when the reader closes
+  useEffect(() => {
+    if (document?.format !== 'cbz' && document?.format !== 'epub') return;
+    const { format, filePath } = document;
+    return () => {
+      if (format === 'cbz') {
+        evictCBZArchive(filePath);
+      } else {
+        evictEPUBArchive(filePath);
+      }
+    };
+  }, [document?.format, document?.filePath]);
+
   const loadTextContent = async (doc: Document) => {
     setLoadingContent(true);
     try {
       if (doc.format === 'txt') {
-        // For large text files, read in chunks or limit size
-        const content = await FileSystemLegacy.readAsStringAsync(doc.filePath);
-        // Limit content size to prevent memory issues (10MB limit)
-        const maxSize = 10 * 1024 * 1024; // 10MB
-        if (content.length > maxSize) {
-          setTextContent(content.substring(0, maxSize) + '\n\n[... Content truncated for performance ...]');
-        } else {
-          setTextContent(content);
-        }
+        // Decoded from the detected encoding, with chapter headings found
+        const { text, chapters } = await parseTXTFile(doc.filePath);
+        setTextContent(text);
+        setTxtChapters(chapters);
       } else if (doc.format === 'epub') {
         // Parse EPUB file - lazy load chapters
-        const epubData = await parseEPUB(doc.filePath);
-        setEpubContent(epubData);
-        const chapters = epubData.toc.length > 0 ? epubData.toc : epubData.chapters;
+        // Spine and TOC come from the persisted structure; chapters load on demand
+        const epubData = await loadEPUBStructure(doc.id, doc.filePath);
+        setEpubStructure(epubData);
+        // Content files are the reading units; the nested TOC points into them
+        const chapters = epubData.chapters;
         setEpubChapters(chapters);
         
-        // Load first chapter content if available
+        // Fallback to the text extracted at import if chapters cannot be shown
+        const showExtractedText = () => {
+          setShowingEPUBText(true);
+          setTextContent(doc.extractedText || 'EPUB file loaded but no content extracted.');
+        };
+
+        // Load the saved chapter (or the first one) if available
         if (chapters.length > 0) {
+          const initialChapter = Math.min(pendingLocatorRef.current?.chapterIndex ?? 0, chapters.length - 1);
           try {
-            const firstChapter = chapters[0];
-            const chapterHtml = await getEPUBChapterContent(doc.filePath, firstChapter.href);
-            // Limit content size for memory management
-            const maxSize = 5 * 1024 * 1024; // 5MB limit
-            if (chapterHtml.length > maxSize) {
-              setTextContent(chapterHtml.substring(0, maxSize) + '\n\n[... Content truncated ...]');
-            } else {
-              setTextContent(chapterHtml);
+            const chapter = await getEPUBChapter(doc.filePath, chapters[initialChapter].href, settings.fontSize);
+            if (__DEV__) {
+              console.log(`EPUB chapter ${initialChapter} loaded in ${chapter.loadMs}ms`);
             }
-            setCurrentChapter(0);
+            setEpubChapterStyles({ tagsStyles: chapter.tagsStyles, classesStyles: chapter.classesStyles });
+            loadChapterNotes(doc.filePath, chapter);
+            setTextContent(chapter.html);
+            setCurrentChapter(initialChapter);
           } catch (error) {
             console.error('Error loading first chapter:', error);
-            // Fallback to full text if chapter loading fails
-            if (epubData.text) {
-              const maxTextSize = 5 * 1024 * 1024; // 5MB limit
-              if (epubData.text.length > maxTextSize) {
-                setTextContent(epubData.text.substring(0, maxTextSize) + '\n\n[... Content truncated ...]');
-              } else {
-                setTextContent(epubData.text);
-              }
-            } else {
-              setTextContent('EPUB file loaded but no content extracted.');
-            }
-          }
-        } else if (epubData.text) {
-          // Fallback to full text if no chapters
-          const maxTextSize = 5 * 1024 * 1024; // 5MB limit
-          if (epubData.text.length > maxTextSize) {
-            setTextContent(epubData.text.substring(0, maxTextSize) + '\n\n[... Content truncated ...]');
-          } else {
-            setTextContent(epubData.text);
+            showExtractedText();
           }
         } else {
-          setTextContent('EPUB file loaded but no content extracted.');
+          showExtractedText();
         }
         
         // Update page count based on chapters
@@ -429,16 +626,42 @@ export default function ReaderScreen() {
         // Parse DOCX file
         const docxData = await parseDOCX(doc.filePath);
         setDocxContent(docxData);
-        // Limit text size for memory management
-        const maxTextSize = 5 * 1024 * 1024; // 5MB limit
-        if (docxData.text.length > maxTextSize) {
-          setTextContent(docxData.text.substring(0, maxTextSize) + '\n\n[... Content truncated ...]');
-        } else {
-          setTextContent(docxData.text);
-        }
+        setTextContent(docxData.text);
         
-        // Update page count based on text length
-        const estimatedPages = Math.max(1, Math.ceil(docxData.text.length / 2000));
+        // The page count the editor saved in the file wins; estimate from the text only without one
+        const pageCount = docxData.metadata.pageCount ?? Math.max(1, Math.ceil(docxData.text.length / 2000));
+        if (doc.pageCount !== pageCount) {
+          updateDocumentPageCount(doc.id, pageCount);
+          setTotalPages(pageCount);
+        }
+      } else if (doc.format === 'md') {
+        const markdownData = await parseMarkdownFile(doc.filePath);
+        setMarkdownContent(markdownData);
+        setTextContent(markdownData.text);
+
+        const estimatedPages = Math.max(1, Math.ceil(markdownData.text.length / 2000));
+        if (doc.pageCount !== estimatedPages) {
+          updateDocumentPageCount(doc.id, estimatedPages);
+          setTotalPages(estimatedPages);
+        }
+      } else if (doc.format === 'fb2') {
+        // Sections become headings, so the TOC follows the book's section nesting
+        const fb2Data = await parseFB2(doc.filePath);
+        setFb2Content(fb2Data);
+        setTextContent(fb2Data.text);
+
+        const estimatedPages = Math.max(1, Math.ceil(fb2Data.text.length / 2000));
+        if (doc.pageCount !== estimatedPages) {
+          updateDocumentPageCount(doc.id, estimatedPages);
+          setTotalPages(estimatedPages);
+        }
+      } else if (doc.format === 'html') {
+        // Only the article extracted from the saved page is shown
+        const htmlData = await parseHTMLFile(doc.filePath);
+        setHtmlContent(htmlData);
+        setTextContent(htmlData.text);
+
+        const estimatedPages = Math.max(1, Math.ceil(htmlData.text.length / 2000));
         if (doc.pageCount !== estimatedPages) {
           updateDocumentPageCount(doc.id, estimatedPages);
           setTotalPages(estimatedPages);
@@ -454,7 +677,7 @@ export default function ReaderScreen() {
     }
   };
 
-  const saveReadingPosition = async (page: number) => {
+  const saveReadingPosition = async (page: number, locator: TextLocator | null = currentLocatorRef.current) => {
     if (!document) return;
     
     const currentTotalPages = totalPages !== null ? totalPages : (document.pageCount || 1);
@@ -465,6 +688,7 @@ export default function ReaderScreen() {
       position: page,
       progress: Math.min(100, Math.max(0, progress)),
       updatedAt: new Date().toISOString(),
+      locator: isPageImageDocument ? null : locator,
     });
 
     // Update document last opened
@@ -490,6 +714,132 @@ export default function ReaderScreen() {
     }
   };
 
+  /**
+   * Approximate character offset at the top of the visible text
+   */
+  const getVisibleOffset = (): number => {
+    if (isPagedText) {
+      return pageOffsetsRef.current[layoutPageRef.current] ?? 0;
+    }
+    if (isChunked) {
+      return contentChunks[firstVisibleChunkRef.current]?.start ?? 0;
+    }
+    const { y, contentHeight } = scrollMetrics.current;
+    if (!locatorText || contentHeight <= 0) return 0;
+    return Math.min(locatorText.length, Math.max(0, Math.round((y / contentHeight) * locatorText.length)));
+  };
+
+  const getVisibleLocator = (): TextLocator | null => {
+    if (!locatorText) return null;
+    return createPositionLocator(locatorText, getVisibleOffset(), document?.format === 'epub' ? currentChapter : 0);
+  };
+
+  const scrollToLocator = (locator: TextLocator, pageCount: number = layoutPageCount) => {
+    const { contentHeight } = scrollMetrics.current;
+    const range = resolveTextLocator(locatorText, locator);
+    if (range && isChunked) {
+      const index = findChunkIndex(contentChunks, range.start);
+      chunkListRef.current?.scrollToIndex({ index, animated: false });
+      firstVisibleChunkRef.current = index;
+      currentLocatorRef.current = createPositionLocator(locatorText, range.start, locator.chapterIndex);
+      return;
+    }
+    if (range && isPagedText) {
+      // The last page starting at or before the locator
+      const next = pageOffsetsRef.current.findIndex((offset) => offset > range.start);
+      showLayoutPage(next === -1 ? pageOffsetsRef.current.length - 1 : Math.max(0, next - 1), pageCount);
+      currentLocatorRef.current = createPositionLocator(locatorText, range.start, locator.chapterIndex);
+      return;
+    }
+    if (!range || contentHeight <= 0) return;
+    const y = (range.start / Math.max(1, locatorText.length)) * contentHeight;
+    scrollViewRef.current?.scrollTo({ y, animated: false });
+    scrollMetrics.current.y = y;
+    currentLocatorRef.current = createPositionLocator(locatorText, range.start, locator.chapterIndex);
+  };
+
+  /**
+   * Show a laid-out page (aligned to the first column) and return its index
+   */
+  const showLayoutPage = (page: number, pageCount: number = layoutPageCount): number => {
+    const clamped = Math.max(0, Math.min(page, pageCount - 1));
+    const aligned = Math.floor(clamped / columns) * columns;
+    setLayoutPage(aligned);
+    layoutPageRef.current = aligned;
+    if (document?.format !== 'epub') {
+      setCurrentPage(aligned + 1);
+    }
+    return aligned;
+  };
+
+  const turnLayoutPage = (page: number) => {
+    const shown = showLayoutPage(page);
+    const locator = getVisibleLocator();
+    currentLocatorRef.current = locator;
+    saveReadingPosition(document?.format === 'epub' ? currentPage : shown + 1, locator);
+  };
+
+  const handlePagesLaidOut = ({ pageCount, pageHeight, contentHeight, pageOffsets }: PageLayout) => {
+    pageOffsetsRef.current = pageOffsets;
+    scrollMetrics.current.contentHeight = contentHeight;
+    scrollMetrics.current.viewportHeight = pageHeight;
+    setLayoutPageCount(pageCount);
+    if (document?.format !== 'epub') {
+      setTotalPages(pageCount);
+    }
+    if (loadingContent) return;
+
+    const pending = pendingLocatorRef.current;
+    const chapterIndex = document?.format === 'epub' ? currentChapter : 0;
+    if (landOnLastPageRef.current) {
+      landOnLastPageRef.current = false;
+      turnLayoutPage(pageCount - 1);
+    } else if (pending && locatorText && pending.chapterIndex === chapterIndex) {
+      pendingLocatorRef.current = null;
+      scrollToLocator(pending, pageCount);
+    } else {
+      showLayoutPage(layoutPage, pageCount);
+    }
+  };
+
+  const handleTextScroll = (event: any) => {
+    scrollMetrics.current.y = event.nativeEvent.contentOffset.y;
+  };
+
+  const handleTextLayout = (event: any) => {
+    scrollMetrics.current.viewportHeight = event.nativeEvent.layout.height;
+  };
+
+  // In auto-scroll mode a tap toggles pause; holding a finger down stops scrolling meanwhile
+  const handleTextTouchStart = () => {
+    touchStartRef.current = Date.now();
+  };
+
+  const handleTextTouchEnd = () => {
+    const startedAt = touchStartRef.current;
+    touchStartRef.current = null;
+    if (readingMode === 'auto-scroll' && startedAt !== null && Date.now() - startedAt < 250) {
+      setAutoScrollPaused((paused) => !paused);
+    }
+  };
+
+  const handleTextScrollEnd = () => {
+    const locator = getVisibleLocator();
+    if (!locator) return;
+    currentLocatorRef.current = locator;
+    saveReadingPosition(currentPage, locator);
+  };
+
+  const handleTextContentSizeChange = (_width: number, height: number) => {
+    scrollMetrics.current.contentHeight = height;
+    const pending = pendingLocatorRef.current;
+    const chapterIndex = document?.format === 'epub' ? currentChapter : 0;
+    if (pending && locatorText && !loadingContent && pending.chapterIndex === chapterIndex) {
+      pendingLocatorRef.current = null;
+      scrollToLocator(pending);
+    }
+  };
+
   const handlePageChange = (page: number, numberOfPages?: number) => {
     setCurrentPage(page);
     // Track maximum page seen as fallback for total pages
@@ -621,25 +971,93 @@ export default function ReaderScreen() {
   const handleCreateHighlight = async () => {
     if (!document || !selectedText) return;
 
-    await addHighlight({
+    // Anchor text selections to the occurrence nearest the visible part of the document
+    const chapterIndex = document.format === 'epub' ? currentChapter : 0;
+    const visibleOffset = getVisibleOffset();
+    const range =
+      document.format === 'pdf'
+        ? null
+        : resolveTextLocator(
+            locatorText,
+            { chapterIndex, startOffset: visibleOffset, endOffset: visibleOffset, prefix: '', suffix: '' },
+            selectedText
+          );
+    const locator = range ? createTextLocator(locatorText, range.start, range.end, chapterIndex) : null;
+
+    const highlight = await addHighlight({
       documentId: document.id,
       type: highlightType,
       text: selectedText,
-      startPosition: currentPage, // Simplified - would need actual text position
-      endPosition: currentPage,
+      startPosition: range ? range.start : currentPage,
+      endPosition: range ? range.end : currentPage,
       color: settings.defaultHighlightColor,
+      locator,
     });
 
-    if (noteText.trim()) {
-      // Create note associated with highlight
-      // This is simplified - in production, you'd need the highlight ID
+    if (highlight && noteText.trim()) {
+      await addNote({
+        documentId: document.id,
+        highlightId: highlight.id,
+        text: noteText.trim(),
+        position: highlight.startPosition,
+        locator,
+      });
     }
+    await loadHighlights();
 
     setShowHighlightModal(false);
     setSelectedText('');
     setNoteText('');
   };
 
+  // Counted without splitting, which would copy every word of a huge text
+  const wordCount = useMemo(() => {
+    const pattern = /\S+/g;
+    let count = 0;
+    while (pattern.exec(locatorText)) count++;
+    return count;
+  }, [locatorText]);
+
+  // Auto-scroll at the configured reading speed
+  useEffect(() => {
+    if (
+      readingMode !== 'auto-scroll' ||
+      autoScrollPaused ||
+      loadingContent ||
+      !document ||
+      isPageImageDocument
+    ) {
+      return;
+    }
+
+    const wordsPerMinute = settings.autoScrollSpeed ?? 200;
+    const interval = setInterval(() => {
+      const { y, contentHeight, viewportHeight } = scrollMetrics.current;
+      if (touchStartRef.current !== null || contentHeight <= 0 || wordCount === 0) return;
+
+      const pixelsPerWord = contentHeight / wordCount;
+      const delta = pixelsPerWord * (wordsPerMinute / 60) * (AUTO_SCROLL_INTERVAL / 1000);
+      const maxY = Math.max(0, contentHeight - viewportHeight);
+      if (y >= maxY) {
+        setAutoScrollPaused(true);
+        return;
+      }
+      const nextY = Math.min(maxY, y + delta);
+      scrollMetrics.current.y = nextY;
+      if (isChunked) {
+        chunkListRef.current?.scrollToOffset({ offset: nextY, animated: false });
+      } else {
+        scrollViewRef.current?.scrollTo({ y: nextY, animated: false });
+      }
+    }, AUTO_SCROLL_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      // Remember where auto-scroll stopped, with the current position and page
+      handleTextScrollEndRef.current?.();
+    };
+  }, [readingMode, autoScrollPaused, loadingContent, document, settings.autoScrollSpeed, wordCount, isChunked]);
+
   const getThemeColors = () => {
     switch (settings.theme) {
       case 'dark':
@@ -653,6 +1071,78 @@ export default function ReaderScreen() {
 
   const themeColors = getThemeColors();
 
+  // Book CSS for the current EPUB chapter, with the reader theme taking precedence
+  const epubTagsStyles = useMemo(() => {
+    const themed: MixedStyleRecord = {
+      div: { color: themeColors.text },
+      p: { color: themeColors.text, marginBottom: 10 },
+      h1: { color: themeColors.text, fontSize: settings.fontSize * 1.5, fontWeight: 'bold', marginBottom: 10 },
+      h2: { color: themeColors.text, fontSize: settings.fontSize * 1.3, fontWeight: 'bold', marginBottom: 8 },
+      h3: { color: themeColors.text, fontSize: settings.fontSize * 1.1, fontWeight: 'bold', marginBottom: 6 },
+    };
+    const bookStyles = epubChapterStyles?.tagsStyles ?? {};
+    const merged: Record<string, MixedStyleRecord[string]> = { ...bookStyles };
+    for (const [tag, style] of Object.entries(themed)) {
+      merged[tag] = { ...bookStyles[tag], ...style };
+    }
+    return merged;
+  }, [epubChapterStyles, themeColors.text, settings.fontSize]);
+
+  const htmlBaseStyle = useMemo(
+    (): MixedStyleDeclaration => ({
+      color: themeColors.text,
+      fontSize: settings.fontSize,
+      lineHeight: settings.fontSize * settings.lineSpacing,
+      fontFamily: settings.fontFamily && settings.fontFamily !== 'System' ? settings.fontFamily : undefined,
+    }),
+    [themeColors.text, settings.fontSize, settings.lineSpacing, settings.fontFamily]
+  );
+
+  // Converted documents (DOCX, Markdown, FB2, web articles) in the reader theme
+  const documentTagsStyles = useMemo(
+    (): MixedStyleRecord => ({
+      div: { color: themeColors.text },
+      p: { color: themeColors.text, marginBottom: 10 },
+      h1: { color: themeColors.text, fontSize: settings.fontSize * 1.5, fontWeight: 'bold', marginBottom: 10 },
+      h2: { color: themeColors.text, fontSize: settings.fontSize * 1.3, fontWeight: 'bold', marginBottom: 8 },
+      h3: { color: themeColors.text, fontSize: settings.fontSize * 1.1, fontWeight: 'bold', marginBottom: 6 },
+      strong: { fontWeight: 'bold', color: themeColors.text },
+      em: { fontStyle: 'italic', color: themeColors.text },
+      ul: { color: themeColors.text, marginBottom: 10 },
+      ol: { color: themeColors.text, marginBottom: 10 },
+      li: { color: themeColors.text, marginBottom: 5 },
+      h4: { color: themeColors.text, fontSize: settings.fontSize, fontWeight: 'bold', marginBottom: 6 },
+      h5: { color: themeColors.text, fontSize: settings.fontSize * 0.9, fontWeight: 'bold', marginBottom: 4 },
+      h6: { color: themeColors.text, fontSize: settings.fontSize * 0.85, fontWeight: 'bold', marginBottom: 4 },
+      a: { color: colors.primary },
+      blockquote: {
+        color: themeColors.text,
+        borderLeftWidth: 3,
+        borderLeftColor: themeColors.border,
+        paddingLeft: 12,
+        marginLeft: 0,
+        marginBottom: 10,
+      },
+      code: {
+        fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+        fontSize: settings.fontSize * 0.9,
+        backgroundColor: 'rgba(127, 127, 127, 0.15)',
+      },
+      pre: {
+        backgroundColor: 'rgba(127, 127, 127, 0.15)',
+        borderRadius: 6,
+        padding: 12,
+        marginBottom: 10,
+      },
+      table: { borderWidth: 1, borderColor: themeColors.border, marginBottom: 10 },
+      tr: { flexDirection: 'row' },
+      th: { flex: 1, padding: 6, borderWidth: 1, borderColor: themeColors.border, fontWeight: 'bold' },
+      td: { flex: 1, padding: 6, borderWidth: 1, borderColor: themeColors.border },
+      hr: { backgroundColor: themeColors.border, height: 1, marginVertical: 12 },
+    }),
+    [themeColors.text, themeColors.border, colors.primary, settings.fontSize]
+  );
+
   if (!document) {
     return (
       <View style={[styles.container, { backgroundColor: themeColors.bg }]}>
@@ -696,32 +1186,433 @@ export default function ReaderScreen() {
     if (document?.format === 'pdf' && pdfRef.current) {
       pdfRef.current.setPage(page);
     } else if (document?.format === 'epub' && epubChapters.length > 0) {
-      // For EPUB, we'd need to calculate which chapter contains this page
-      // For now, just update currentPage
-      setCurrentPage(page);
-      saveReadingPosition(page);
+      // EPUB pages in the footer are chapters
+      handleSelectChapter(page - 1);
+    } else if (document?.format === 'cbz') {
+      // Show the whole spread; its last page is the furthest read
+      const spread = getSpreadPages(page, comicPages.length, comicSpreads);
+      setCurrentPage(spread[0]);
+      saveReadingPosition(spread[spread.length - 1]);
+    } else if (isPagedText) {
+      turnLayoutPage(page - 1);
     } else {
       setCurrentPage(page);
       saveReadingPosition(page);
     }
   };
 
+  const handleSelectChapter = async (index: number, locator?: TextLocator, fragment?: string) => {
+    if (!document || !epubChapters[index]) return;
+    pendingLocatorRef.current = locator ?? null;
+    setCurrentChapter(index);
+    setCurrentPage(index + 1);
+    setLayoutPage(0);
+    layoutPageRef.current = 0;
+    scrollMetrics.current.y = 0;
+    scrollViewRef.current?.scrollTo({ y: 0, animated: false });
+    setLoadingContent(true);
+    try {
+      const chapter = await getEPUBChapter(document.filePath, epubChapters[index].href, settings.fontSize);
+      if (__DEV__) {
+        console.log(`EPUB chapter ${index} loaded in ${chapter.loadMs}ms`);
+      }
+      const chapterHtml = chapter.html;
+      // Land on the TOC anchor once the chapter has been laid out
+      const anchorOffset = !locator && fragment ? findAnchorOffset(chapterHtml, fragment) : null;
+      const anchorLocator =
+        anchorOffset !== null ? createPositionLocator(htmlToLocatorText(chapterHtml), anchorOffset, index) : undefined;
+      if (anchorLocator) {
+        pendingLocatorRef.current = anchorLocator;
+      }
+      setEpubChapterStyles({ tagsStyles: chapter.tagsStyles, classesStyles: chapter.classesStyles });
+      loadChapterNotes(document.filePath, chapter);
+      setShowingEPUBText(false);
+      setTextContent(chapterHtml);
+      setShowTOC(false);
+      // Update reading position to reflect chapter change
+      const chapterLocator = locator ?? anchorLocator ?? createPositionLocator('', 0, index);
+      currentLocatorRef.current = chapterLocator;
+      const chapterNumber = index + 1;
+      await saveReadingPosition(chapterNumber, chapterLocator);
+    } catch (error) {
+      console.error('Error loading chapter content:', error);
+      Alert.alert('Error', 'Failed to load chapter content. Please try again.');
+    } finally {
+      setLoadingContent(false);
+    }
+  };
+
+  const handleShowTOC = () => {
+    if (headingOffsets.length > 0) {
+      // Mark the last heading (in document order) at or above the visible text
+      const visibleOffset = getVisibleOffset();
+      let section = -1;
+      headingOffsets.forEach((offset, index) => {
+        if (offset !== null && offset <= visibleOffset) section = index;
+      });
+      setHeadingSection(section);
+    }
+    setShowTOC(true);
+  };
+
+  const handleSelectTOCEntry = (entry: TOCEntry) => {
+    if (entry.position === undefined) return;
+    if (document?.format === 'pdf') {
+      handleJumpToPage(entry.position);
+    } else if (document?.format === 'epub') {
+      handleOpenEPUBLocation(entry.position, entry.fragment);
+    } else {
+      const offset = headingOffsets[entry.position];
+      if (offset !== null && offset !== undefined) {
+        scrollToLocator(createPositionLocator(locatorText, offset, 0));
+      }
+    }
+  };
+
+  const handleOpenEPUBLocation = (index: number, fragment?: string) => {
+    if (index === currentChapter && fragment) {
+      // Same file: scroll to the anchor without reloading
+      setShowTOC(false);
+      const anchorOffset = findAnchorOffset(textContent, fragment);
+      if (anchorOffset !== null) {
+        scrollToLocator(createPositionLocator(locatorText, anchorOffset, index));
+      }
+      return;
+    }
+    handleSelectChapter(index, undefined, fragment);
+  };
+
+  /**
+   * Look up the notes referenced from a newly shown chapter, ignoring results
+   * that arrive after the reader has moved on
+   */
+  const loadChapterNotes = (filePath: string, chapter: ResolvedEPUBChapter) => {
+    const request = ++notesRequestRef.current;
+    setEpubNotes([]);
+    getEPUBNotes(filePath, chapter.noteRefs).then((notes) => {
+      if (notesRequestRef.current === request) setEpubNotes(notes);
+    });
+  };
+
+  const handleGoToNote = (note: EPUBNote) => {
+    setActiveNote(null);
+    const index = epubChapters.findIndex((chapter) => chapter.href === note.ref.path);
+    if (index !== -1) {
+      handleOpenEPUBLocation(index, note.ref.fragment);
+    }
+  };
+
+  // Links in converted HTML: `#anchor` targets scroll within the document
+  const handleHTMLLinkPress = (_event: unknown, href: string) => {
+    if (href.startsWith('#') && htmlDocument) {
+      const offset = findAnchorOffset(htmlDocument.html, decodeURIComponent(href.substring(1)));
+      if (offset !== null) scrollToLocator(createPositionLocator(locatorText, offset, 0));
+      return;
+    }
+    Linking.openURL(href).catch((error) => console.error('Error opening link:', error));
+  };
+
+  // Links inside EPUB chapters: note references open a popover, other
+  // book-internal targets navigate in the reader
+  const handleEPUBLinkPress = async (_event: unknown, href: string, htmlAttribs: Record<string, string>) => {
+    const target = parseEPUBLink(href);
+    if (!target) {
+      Linking.openURL(href).catch((error) => console.error('Error opening link:', error));
+      return;
+    }
+    if (document && target.fragment && isEPUBNoteRef(htmlAttribs)) {
+      const fragment = target.fragment;
+      const known = epubNotes.find((note) => note.ref.path === target.path && note.ref.fragment === fragment);
+      const [note] = known ? [known] : await getEPUBNotes(document.filePath, [{ label: '', path: target.path, fragment }]);
+      if (note) {
+        setActiveNote(note);
+        return;
+      }
+    }
+    const index = epubChapters.findIndex((chapter) => chapter.href === target.path);
+    if (index !== -1) {
+      handleOpenEPUBLocation(index, target.fragment);
+    }
+  };
+
+  const handleOpenBookmark = (bookmark: Bookmark) => {
+    setShowBookmarks(false);
+    const { locator } = bookmark;
+    if (!locator || isPageImageDocument) {
+      setCurrentPage(bookmark.page);
+    } else if (document?.format === 'epub' && locator.chapterIndex !== currentChapter) {
+      handleSelectChapter(locator.chapterIndex, locator);
+    } else {
+      scrollToLocator(locator);
+    }
+  };
+
   const handlePreviousPage = () => {
-    if (currentPage > 1 && !isTransitioning) {
+    if (isTransitioning) return;
+    if (isPagedText) {
+      if (layoutPage > 0) {
+        turnLayoutPage(layoutPage - columns);
+      } else if (document?.format === 'epub') {
+        const previousChapter = getAdjacentChapterIndex(epubChapters, currentChapter, -1);
+        if (previousChapter !== null) {
+          landOnLastPageRef.current = true;
+          handleSelectChapter(previousChapter);
+        }
+      }
+      return;
+    }
+    if (document?.format === 'epub' && epubChapters.length > 0) {
+      const previousChapter = getAdjacentChapterIndex(epubChapters, currentChapter, -1);
+      if (previousChapter !== null) {
+        handleJumpToPage(previousChapter + 1);
+      }
+      return;
+    }
+    if (document?.format === 'cbz') {
+      const previousSpread = getAdjacentSpread(currentPage, comicPages.length, comicSpreads, -1);
+      if (previousSpread !== null) {
+        handleJumpToPage(previousSpread);
+      }
+      return;
+    }
+    if (currentPage > 1) {
       handleJumpToPage(currentPage - 1);
     }
   };
 
   const handleNextPage = () => {
+    if (isPagedText) {
+      if (isTransitioning) return;
+      if (layoutPage + columns < layoutPageCount) {
+        turnLayoutPage(layoutPage + columns);
+      } else if (document?.format === 'epub') {
+        const nextChapter = getAdjacentChapterIndex(epubChapters, currentChapter, 1);
+        if (nextChapter !== null) {
+          handleSelectChapter(nextChapter);
+        }
+      }
+      return;
+    }
+    if (document?.format === 'epub' && epubChapters.length > 0) {
+      const nextChapter = getAdjacentChapterIndex(epubChapters, currentChapter, 1);
+      if (nextChapter !== null && !isTransitioning) {
+        handleJumpToPage(nextChapter + 1);
+      }
+      return;
+    }
+    if (document?.format === 'cbz') {
+      const nextSpread = getAdjacentSpread(currentPage, comicPages.length, comicSpreads, 1);
+      if (nextSpread !== null && !isTransitioning) {
+        handleJumpToPage(nextSpread);
+      }
+      return;
+    }
     const currentTotalPages = totalPages !== null ? totalPages : (document?.pageCount || 1);
     if (currentPage < currentTotalPages && !isTransitioning) {
       handleJumpToPage(currentPage + 1);
     }
   };
 
-  // Update handler refs so panResponder can call them
+  /**
+   * Pages of chunked content. Text settings change every chunk's height, so
+   * they lay the pages out again from scratch.
+   */
+  const renderPages = (chunks: TextChunk[], renderChunk: (chunk: TextChunk) => React.ReactNode) => (
+    <PagedContent
+      key={`${settings.fontSize}:${settings.lineSpacing}:${settings.fontFamily}`}
+      chunks={chunks}
+      renderChunk={renderChunk}
+      page={layoutPage}
+      columns={columns}
+      lineHeight={settings.fontSize * settings.lineSpacing}
+      margin={settings.margin}
+      onLayoutPages={handlePagesLaidOut}
+    />
+  );
+
+  const renderTextContainer = (content: React.ReactNode, accessibilityLabel?: string) =>
+    isPagedText ? (
+      renderPages(SINGLE_CHUNK, () => content)
+    ) : (
+      <ScrollView
+        ref={scrollViewRef}
+        style={styles.textContainer}
+        contentContainerStyle={[
+          styles.textContent,
+          {
+            padding: settings.margin,
+          },
+        ]}
+        accessibilityLabel={accessibilityLabel}
+        accessibilityHint={accessibilityLabel ? 'Scroll to read the document' : undefined}
+        scrollEnabled={true}
+        onScroll={handleTextScroll}
+        scrollEventThrottle={200}
+        onScrollEndDrag={handleTextScrollEnd}
+        onMomentumScrollEnd={handleTextScrollEnd}
+        onContentSizeChange={handleTextContentSizeChange}
+        onLayout={handleTextLayout}
+        onTouchStart={handleTextTouchStart}
+        onTouchEnd={handleTextTouchEnd}
+      >
+        {content}
+      </ScrollView>
+    );
+
+  const handleHighlightPress = (highlight: Highlight) => {
+    Alert.alert(
+      'Highlight',
+      highlight.text,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const { deleteHighlight } = await import('@/services/database');
+              await deleteHighlight(highlight.id);
+              await loadHighlights();
+            } catch (error) {
+              console.error('Error deleting highlight:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Plain text with highlights, scrolled or paged a chunk at a time
+   */
+  const renderPlainText = (loadingMessage: string, emptyMessage: string, accessibilityLabel: string) => {
+    const fontFamily = settings.fontFamily && settings.fontFamily !== 'System' ? settings.fontFamily : undefined;
+    if (loadingContent) {
+      return renderTextContainer(
+        <Text style={[styles.loadingText, { color: themeColors.text }]}>{loadingMessage}</Text>
+      );
+    }
+    if (isChunkedText && textContent) {
+      return (
+        <ChunkedText
+          listRef={chunkListRef}
+          text={textContent}
+          chunks={textChunks}
+          highlights={highlights}
+          onHighlightPress={handleHighlightPress}
+          onFirstVisibleChunk={(index) => {
+            firstVisibleChunkRef.current = index;
+          }}
+          padding={settings.margin}
+          fontSize={settings.fontSize}
+          lineHeight={settings.fontSize * settings.lineSpacing}
+          color={themeColors.text}
+          fontFamily={fontFamily}
+          accessibilityLabel={accessibilityLabel}
+          onScroll={handleTextScroll}
+          onScrollEndDrag={handleTextScrollEnd}
+          onMomentumScrollEnd={handleTextScrollEnd}
+          onContentSizeChange={handleTextContentSizeChange}
+          onLayout={handleTextLayout}
+          onTouchStart={handleTextTouchStart}
+          onTouchEnd={handleTextTouchEnd}
+        />
+      );
+    }
+    if (isPagedText && isPlainText && textContent) {
+      return renderPages(textChunks, (chunk) => (
+        <HighlightedText
+          text={textContent.substring(chunk.start, chunk.end)}
+          highlights={highlights}
+          resolved={pagedHighlights}
+          offset={chunk.start}
+          onHighlightPress={handleHighlightPress}
+          fontSize={settings.fontSize}
+          lineHeight={settings.fontSize * settings.lineSpacing}
+          color={themeColors.text}
+          fontFamily={fontFamily}
+        />
+      ));
+    }
+    return renderTextContainer(
+      <HighlightedText
+        text={textContent || emptyMessage}
+        highlights={highlights}
+        onHighlightPress={handleHighlightPress}
+        style={styles.text}
+        fontSize={settings.fontSize}
+        lineHeight={settings.fontSize * settings.lineSpacing}
+        color={themeColors.text}
+        fontFamily={fontFamily}
+      />,
+      accessibilityLabel
+    );
+  };
+
+  /**
+   * Converted HTML or an EPUB chapter, scrolled or paged a chunk at a time
+   */
+  const renderHTMLContent = (
+    html: string,
+    tagsStyles: MixedStyleRecord,
+    classesStyles: MixedStyleRecord | undefined,
+    onLinkPress: (event: unknown, href: string, htmlAttribs: Record<string, string>) => void,
+    accessibilityLabel: string
+  ) => {
+    const renderersProps = { a: { onPress: onLinkPress } };
+    if (isChunked) {
+      return (
+        <ChunkedHTML
+          listRef={chunkListRef}
+          chunks={htmlChunks}
+          onFirstVisibleChunk={(index) => {
+            firstVisibleChunkRef.current = index;
+          }}
+          padding={settings.margin}
+          contentWidth={300}
+          baseStyle={htmlBaseStyle}
+          tagsStyles={tagsStyles}
+          classesStyles={classesStyles}
+          renderersProps={renderersProps}
+          accessibilityLabel={accessibilityLabel}
+          onScroll={handleTextScroll}
+          onScrollEndDrag={handleTextScrollEnd}
+          onMomentumScrollEnd={handleTextScrollEnd}
+          onContentSizeChange={handleTextContentSizeChange}
+          onLayout={handleTextLayout}
+          onTouchStart={handleTextTouchStart}
+          onTouchEnd={handleTextTouchEnd}
+        />
+      );
+    }
+    if (isPagedText && htmlChunks.length > 0) {
+      return (
+        <TRenderEngineProvider baseStyle={htmlBaseStyle} tagsStyles={tagsStyles} classesStyles={classesStyles}>
+          <RenderHTMLConfigProvider renderersProps={renderersProps}>
+            {renderPages(htmlChunks, (chunk) => (
+              <RenderHTMLSource contentWidth={300} source={{ html: (chunk as HTMLChunk).html }} />
+            ))}
+          </RenderHTMLConfigProvider>
+        </TRenderEngineProvider>
+      );
+    }
+    return renderTextContainer(
+      <RenderHTML
+        contentWidth={300}
+        source={{ html }}
+        baseStyle={htmlBaseStyle}
+        tagsStyles={tagsStyles}
+        classesStyles={classesStyles}
+        renderersProps={renderersProps}
+      />,
+      accessibilityLabel
+    );
+  };
+
+  // Update handler refs so panResponder and effect cleanups can call them
   handlePreviousPageRef.current = handlePreviousPage;
   handleNextPageRef.current = handleNextPage;
+  handleTextScrollEndRef.current = handleTextScrollEnd;
 
   const progress = document
     ? ((currentPage / (totalPages !== null ? totalPages : (document.pageCount || 1))) * 100)
@@ -745,8 +1636,8 @@ export default function ReaderScreen() {
         isBookmarked={isBookmarked}
         bookmarkCount={bookmarks.length}
         onShowBookmarks={() => setShowBookmarks(true)}
-        onShowTOC={() => setShowTOC(true)}
-        showTOC={document.format === 'epub' && epubChapters.length > 0}
+        onShowTOC={handleShowTOC}
+        showTOC={tocEntries.length > 0}
         onToggleFocus={toggleFocusMode}
         onShowSettings={() => setShowSettings(true)}
         readingTimeRemaining={timeRemaining}
@@ -864,6 +1755,25 @@ export default function ReaderScreen() {
             spacing={10}
           />
         )
+      ) : document.format === 'cbz' ? (
+        loadingContent || comicPages.length === 0 ? (
+          <View style={styles.fallbackContainer}>
+            <Text style={[styles.fallbackText, { color: themeColors.text }]}>
+              {loadingContent ? 'Loading comic...' : 'No pages found in this comic archive.'}
+            </Text>
+          </View>
+        ) : (
+          <ComicViewer
+            filePath={document.filePath}
+            pages={comicPages}
+            page={currentPage}
+            spreads={comicSpreads}
+            rightToLeft={settings.comicRightToLeft ?? false}
+            onNextPage={handleNextPage}
+            onPreviousPage={handlePreviousPage}
+            textColor={themeColors.text}
+          />
+        )
       ) : document.format === 'epub' ? (
         <Animated.View
           style={[
@@ -875,70 +1785,31 @@ export default function ReaderScreen() {
           ]}
           {...panResponder.panHandlers}
         >
-          <ScrollView
-            style={styles.textContainer}
-            contentContainerStyle={[
-              styles.textContent,
-              {
-                padding: settings.margin,
-              },
-            ]}
-            scrollEnabled={true}
-          >
-          {loadingContent ? (
-            <Text style={[styles.loadingText, { color: themeColors.text }]}>
-              Loading EPUB content...
-            </Text>
-          ) : textContent ? (
-            <RenderHTML
-              contentWidth={300}
-              source={{ html: textContent }}
-              baseStyle={{
-                color: themeColors.text,
-                fontSize: settings.fontSize,
-                lineHeight: settings.fontSize * settings.lineSpacing,
-                fontFamily:
-                  settings.fontFamily && settings.fontFamily !== 'System'
-                    ? settings.fontFamily
-                    : undefined,
-              }}
-              tagsStyles={{
-                div: { color: themeColors.text },
-                p: { color: themeColors.text, marginBottom: 10 },
-                h1: { color: themeColors.text, fontSize: settings.fontSize * 1.5, fontWeight: 'bold', marginBottom: 10 },
-                h2: { color: themeColors.text, fontSize: settings.fontSize * 1.3, fontWeight: 'bold', marginBottom: 8 },
-                h3: { color: themeColors.text, fontSize: settings.fontSize * 1.1, fontWeight: 'bold', marginBottom: 6 },
-              }}
-            />
-          ) : epubContent && epubContent.text ? (
-            <RenderHTML
-              contentWidth={300}
-              source={{ html: `<div style="color: ${themeColors.text}; font-size: ${settings.fontSize}px; line-height: ${settings.fontSize * settings.lineSpacing}px;">${epubContent.text.replace(/\n/g, '<br/>')}</div>` }}
-              baseStyle={{
-                color: themeColors.text,
-                fontSize: settings.fontSize,
-                lineHeight: settings.fontSize * settings.lineSpacing,
-                fontFamily:
-                  settings.fontFamily && settings.fontFamily !== 'System'
-                    ? settings.fontFamily
-                    : undefined,
-              }}
-              tagsStyles={{
-                div: { color: themeColors.text },
-                p: { color: themeColors.text, marginBottom: 10 },
-                h1: { color: themeColors.text, fontSize: settings.fontSize * 1.5, fontWeight: 'bold', marginBottom: 10 },
-                h2: { color: themeColors.text, fontSize: settings.fontSize * 1.3, fontWeight: 'bold', marginBottom: 8 },
-                h3: { color: themeColors.text, fontSize: settings.fontSize * 1.1, fontWeight: 'bold', marginBottom: 6 },
-              }}
-            />
+          {showingEPUBText ? (
+            renderPlainText('Loading EPUB content...', 'No EPUB content available.', 'EPUB content')
+          ) : loadingContent ? (
+            renderTextContainer(
+              <Text style={[styles.loadingText, { color: themeColors.text }]}>
+                Loading EPUB content...
+              </Text>
+            )
+          ) : !textContent ? (
+            renderTextContainer(
+              <Text style={[styles.text, { color: themeColors.text }]}>
+                No EPUB content available.
+              </Text>
+            )
           ) : (
-            <Text style={[styles.text, { color: themeColors.text }]}>
-              No EPUB content available.
-            </Text>
+            renderHTMLContent(
+              textContent,
+              epubTagsStyles,
+              epubChapterStyles?.classesStyles,
+              handleEPUBLinkPress,
+              'EPUB content'
+            )
           )}
-          </ScrollView>
         </Animated.View>
-      ) : document.format === 'docx' ? (
+      ) : document.format === 'docx' || document.format === 'md' || document.format === 'fb2' || document.format === 'html' ? (
         <Animated.View
           style={[
             styles.textContainer,
@@ -949,86 +1820,21 @@ export default function ReaderScreen() {
           ]}
           {...panResponder.panHandlers}
         >
-          <ScrollView
-            style={styles.textContainer}
-            contentContainerStyle={[
-              styles.textContent,
-              {
-                padding: settings.margin,
-              },
-            ]}
-            accessibilityLabel="DOCX content"
-            accessibilityHint="Scroll to read the document"
-            scrollEnabled={true}
-          >
-          {loadingContent ? (
-            <Text style={[styles.loadingText, { color: themeColors.text }]}>
-              Loading DOCX content...
-            </Text>
-          ) : docxContent && docxContent.html ? (
-            <RenderHTML
-              contentWidth={300}
-              source={{ html: docxContent.html }}
-              baseStyle={{
-                color: themeColors.text,
-                fontSize: settings.fontSize,
-                lineHeight: settings.fontSize * settings.lineSpacing,
-                fontFamily:
-                  settings.fontFamily && settings.fontFamily !== 'System'
-                    ? settings.fontFamily
-                    : undefined,
-              }}
-              tagsStyles={{
-                div: { color: themeColors.text },
-                p: { color: themeColors.text, marginBottom: 10 },
-                h1: { color: themeColors.text, fontSize: settings.fontSize * 1.5, fontWeight: 'bold', marginBottom: 10 },
-                h2: { color: themeColors.text, fontSize: settings.fontSize * 1.3, fontWeight: 'bold', marginBottom: 8 },
-                h3: { color: themeColors.text, fontSize: settings.fontSize * 1.1, fontWeight: 'bold', marginBottom: 6 },
-                strong: { fontWeight: 'bold', color: themeColors.text },
-                em: { fontStyle: 'italic', color: themeColors.text },
-                ul: { color: themeColors.text, marginBottom: 10 },
-                ol: { color: themeColors.text, marginBottom: 10 },
-                li: { color: themeColors.text, marginBottom: 5 },
-              }}
-            />
+          {loadingContent || !htmlDocument?.html ? (
+            renderPlainText(
+              `Loading ${HTML_FORMAT_NAMES[document.format]} content...`,
+              `No ${HTML_FORMAT_NAMES[document.format]} content available.`,
+              `${HTML_FORMAT_NAMES[document.format]} content`
+            )
           ) : (
-            <HighlightedText
-              text={textContent || 'No DOCX content available.'}
-              highlights={highlights}
-              onHighlightPress={(highlight) => {
-                Alert.alert(
-                  'Highlight',
-                  highlight.text,
-                  [
-                    { text: 'Cancel', style: 'cancel' },
-                    {
-                      text: 'Delete',
-                      style: 'destructive',
-                      onPress: async () => {
-                        try {
-                          const { deleteHighlight } = await import('@/services/database');
-                          await deleteHighlight(highlight.id);
-                          await loadHighlights();
-                        } catch (error) {
-                          console.error('Error deleting highlight:', error);
-                        }
-                      },
-                    },
-                  ]
-                );
-              }}
-              style={styles.text}
-              fontSize={settings.fontSize}
-              lineHeight={settings.fontSize * settings.lineSpacing}
-              color={themeColors.text}
-              fontFamily={
-                settings.fontFamily && settings.fontFamily !== 'System'
-                  ? settings.fontFamily
-                  : undefined
-              }
-            />
+            renderHTMLContent(
+              htmlDocument.html,
+              documentTagsStyles,
+              undefined,
+              handleHTMLLinkPress,
+              `${HTML_FORMAT_NAMES[document.format]} content`
+            )
           )}
-          </ScrollView>
         </Animated.View>
       ) : (
         <Animated.View
@@ -1041,60 +1847,7 @@ export default function ReaderScreen() {
           ]}
           {...panResponder.panHandlers}
         >
-          <ScrollView
-            style={styles.textContainer}
-            contentContainerStyle={[
-              styles.textContent,
-              {
-                padding: settings.margin,
-              },
-            ]}
-            accessibilityLabel="Document content"
-            accessibilityHint="Scroll to read the document"
-            scrollEnabled={true}
-          >
-          {loadingContent ? (
-            <Text style={[styles.loadingText, { color: themeColors.text }]}>
-              Loading content...
-            </Text>
-          ) : (
-            <HighlightedText
-              text={textContent || 'No content available.'}
-              highlights={highlights}
-              onHighlightPress={(highlight) => {
-                Alert.alert(
-                  'Highlight',
-                  highlight.text,
-                  [
-                    { text: 'Cancel', style: 'cancel' },
-                    {
-                      text: 'Delete',
-                      style: 'destructive',
-                      onPress: async () => {
-                        try {
-                          const { deleteHighlight } = await import('@/services/database');
-                          await deleteHighlight(highlight.id);
-                          await loadHighlights();
-                        } catch (error) {
-                          console.error('Error deleting highlight:', error);
-                        }
-                      },
-                    },
-                  ]
-                );
-              }}
-              style={styles.text}
-              fontSize={settings.fontSize}
-              lineHeight={settings.fontSize * settings.lineSpacing}
-              color={themeColors.text}
-              fontFamily={
-                settings.fontFamily && settings.fontFamily !== 'System'
-                  ? settings.fontFamily
-                  : undefined
-              }
-            />
-          )}
-          </ScrollView>
+          {renderPlainText('Loading content...', 'No content available.', 'Document content')}
         </Animated.View>
       )}
 
@@ -1134,7 +1887,7 @@ export default function ReaderScreen() {
       />
 
       {/* TTS Control Button */}
-      {!isFocusMode && document && (document.format === 'txt' || document.format === 'epub' || document.format === 'docx') && (
+      {!isFocusMode && document && (document.format === 'txt' || document.format === 'epub' || document.format === 'docx' || document.format === 'md' || document.format === 'fb2' || document.format === 'html') && (
         <TouchableOpacity
           style={[
             styles.ttsButton,
@@ -1157,6 +1910,30 @@ export default function ReaderScreen() {
         </TouchableOpacity>
       )}
 
+      {/* Auto-scroll Control Button */}
+      {!isFocusMode && readingMode === 'auto-scroll' && !isPageImageDocument && (
+        <TouchableOpacity
+          style={[
+            styles.ttsButton,
+            {
+              backgroundColor: colors.primary,
+              position: 'absolute',
+              bottom: 100,
+              left: 20,
+            },
+          ]}
+          onPress={() => setAutoScrollPaused((paused) => !paused)}
+          accessibilityRole="button"
+          accessibilityLabel={autoScrollPaused ? 'Resume auto-scroll' : 'Pause auto-scroll'}
+        >
+          {autoScrollPaused ? (
+            <PlayIcon size={24} color="#ffffff" />
+          ) : (
+            <PauseIcon size={24} color="#ffffff" />
+          )}
+        </TouchableOpacity>
+      )}
+
       {/* Dictionary Modal */}
       <Modal
         visible={showDictionaryModal}
@@ -1235,7 +2012,8 @@ export default function ReaderScreen() {
         settings={settings}
         onClose={() => setShowSettings(false)}
         onUpdate={updateSettings}
-        previewText={textContent || 'The quick brown fox jumps over the lazy dog. This is a preview of how your text will look with the current settings.'}
+        showComicOptions={document.format === 'cbz'}
+        previewText={locatorText.substring(0, PREVIEW_TEXT_LENGTH) || 'The quick brown fox jumps over the lazy dog. This is a preview of how your text will look with the current settings.'}
       />
 
       {/* Highlight Modal */}
@@ -1315,38 +2093,30 @@ export default function ReaderScreen() {
         </Modal>
 
         {/* TOC Modal */}
-        {document.format === 'epub' && epubChapters.length > 0 && (
+        {tocEntries.length > 0 && (
           <TOCModal
             visible={showTOC}
             onClose={() => setShowTOC(false)}
-            chapters={epubChapters}
-            currentChapter={currentChapter}
-            onChapterSelect={async (index) => {
-              if (!document || !epubChapters[index]) return;
-              setCurrentChapter(index);
-              setLoadingContent(true);
-              try {
-                const chapter = epubChapters[index];
-                const chapterHtml = await getEPUBChapterContent(document.filePath, chapter.href);
-                // Limit content size for memory management
-                const maxSize = 5 * 1024 * 1024; // 5MB limit
-                if (chapterHtml.length > maxSize) {
-                  setTextContent(chapterHtml.substring(0, maxSize) + '\n\n[... Content truncated ...]');
-                } else {
-                  setTextContent(chapterHtml);
-                }
-                setShowTOC(false);
-                // Update reading position to reflect chapter change
-                const chapterNumber = index + 1;
-                await saveReadingPosition(chapterNumber);
-              } catch (error) {
-                console.error('Error loading chapter content:', error);
-                Alert.alert('Error', 'Failed to load chapter content. Please try again.');
-              } finally {
-                setLoadingContent(false);
-              }
-            }}
+            entries={tocEntries}
+            currentPosition={
+              document.format === 'epub' ? currentChapter : document.format === 'pdf' ? currentPage : headingSection
+            }
+            onEntrySelect={handleSelectTOCEntry}
             title="Table of Contents"
+            notes={epubNotes}
+            onNoteSelect={setActiveNote}
+          />
+        )}
+
+        {/* Footnote Popover */}
+        {document.format === 'epub' && (
+          <NotePopover
+            visible={activeNote !== null}
+            onClose={() => setActiveNote(null)}
+            note={activeNote}
+            onGoToNote={
+              activeNote && activeNote.ref.path !== epubChapters[currentChapter]?.href ? handleGoToNote : undefined
+            }
           />
         )}
 
@@ -1377,10 +2147,7 @@ export default function ReaderScreen() {
                     <TouchableOpacity
                       key={bookmark.id}
                       style={[styles.bookmarkItem, { borderBottomColor: themeColors.border }]}
-                      onPress={() => {
-                        setCurrentPage(bookmark.page);
-                        setShowBookmarks(false);
-                      }}
+                      onPress={() => handleOpenBookmark(bookmark)}
                     >
                       <View style={styles.bookmarkContent}>
                         <Text style={[styles.bookmarkPage, { color: colors.primary }]}>
@@ -0,0 +1,237 @@
+/**
+ * Add To Collection Sheet Component
+ * Shows the collection tree with checkmarks for the collections containing a document
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Modal, TouchableOpacity, TextInput, FlatList, StyleSheet } from 'react-native';
+import { XIcon, PlusIcon, CheckIcon, FolderIcon } from './Icons';
+import { Collection } from '@/types';
+import { useCollectionStore } from '@/stores/collectionStore';
+import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
+
+interface AddToCollectionSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  documentId: string | null;
+  documentTitle?: string;
+}
+
+interface CollectionTreeItem {
+  collection: Collection;
+  depth: number;
+}
+
+/**
+ * Flatten collections into depth-first order, children under their parent
+ */
+function flattenCollectionTree(collections: Collection[]): CollectionTreeItem[] {
+  const childrenByParent = new Map<string | null, Collection[]>();
+  for (const collection of collections) {
+    const siblings = childrenByParent.get(collection.parentId) ?? [];
+    siblings.push(collection);
+    childrenByParent.set(collection.parentId, siblings);
+  }
+
+  const items: CollectionTreeItem[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const collection of childrenByParent.get(parentId) ?? []) {
+      items.push({ collection, depth });
+      visit(collection.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return items;
+}
+
+export function AddToCollectionSheet({ visible, onClose, documentId, documentTitle }: AddToCollectionSheetProps) {
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
+  const { collections, loadCollections, createCollection, addDocument, removeDocument, getCollectionsForDocument } =
+    useCollectionStore();
+
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [newCollectionName, setNewCollectionName] = useState('');
+
+  const tree = useMemo(() => flattenCollectionTree(collections), [collections]);
+
+  useEffect(() => {
+    if (!visible || !documentId) return;
+    loadCollections();
+    getCollectionsForDocument(documentId).then((memberships) => {
+      setMemberIds(memberships.map((collection) => collection.id));
+    });
+  }, [visible, documentId]);
+
+  const handleToggle = async (collectionId: string) => {
+    if (!documentId) return;
+    if (memberIds.includes(collectionId)) {
+      await removeDocument(collectionId, documentId);
+      setMemberIds((ids) => ids.filter((id) => id !== collectionId));
+    } else {
+      await addDocument(collectionId, documentId);
+      setMemberIds((ids) => [...ids, collectionId]);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newCollectionName.trim();
+    if (!name || !documentId) return;
+    const collection = await createCollection(name);
+    if (collection) {
+      await addDocument(collection.id, documentId);
+      setMemberIds((ids) => [...ids, collection.id]);
+      setNewCollectionName('');
+    }
+  };
+
+  const renderItem = ({ item }: { item: CollectionTreeItem }) => {
+    const isMember = memberIds.includes(item.collection.id);
+    return (
+      <TouchableOpacity
+        style={[styles.item, { paddingLeft: 16 + item.depth * 20 }]}
+        onPress={() => handleToggle(item.collection.id)}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: isMember }}
+        accessibilityLabel={item.collection.name}
+      >
+        <FolderIcon size={20} color={item.collection.color || colors.textSecondary} />
+        <Text style={[styles.itemName, { color: colors.text }]} numberOfLines={1}>
+          {item.collection.name}
+        </Text>
+        {isMember && <CheckIcon size={20} color={colors.primary} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: colors.surface }]}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: colors.text }]}>Add to Collection</Text>
+              {documentTitle && (
+                <Text style={[styles.subtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {documentTitle}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.createRow}>
+            <TextInput
+              value={newCollectionName}
+              onChangeText={setNewCollectionName}
+              onSubmitEditing={handleCreate}
+              style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+              placeholder="New collection"
+              placeholderTextColor={colors.textSecondary}
+              returnKeyType="done"
+              accessibilityLabel="New collection name"
+            />
+            <TouchableOpacity
+              onPress={handleCreate}
+              style={[styles.addButton, { backgroundColor: colors.primary }]}
+              accessibilityLabel="Create collection"
+            >
+              <PlusIcon size={20} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+
+          {tree.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No collections yet</Text>
+            </View>
+          ) : (
+            <FlatList
+              data={tree}
+              keyExtractor={(item) => item.collection.id}
+              renderItem={renderItem}
+              extraData={memberIds}
+              contentContainerStyle={styles.listContent}
+              keyboardShouldPersistTaps="handled"
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  addButton: {
+    padding: 10,
+    borderRadius: 8,
+  },
+  listContent: {
+    paddingVertical: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingRight: 16,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 16,
+  },
+  emptyContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,95 @@
+/**
+ * Chunked HTML Component
+ * Virtualized HTML reader: the document is split between blocks and only the
+ * chunks near the viewport are rendered, all sharing one render engine
+ */
+
+import React, { useRef } from 'react';
+import { FlatList, FlatListProps, ViewToken } from 'react-native';
+import {
+  MixedStyleDeclaration,
+  MixedStyleRecord,
+  RenderersProps,
+  RenderHTMLConfigProvider,
+  RenderHTMLSource,
+  TRenderEngineProvider,
+} from 'react-native-render-html';
+import { TextChunk } from '@/utils/textChunks';
+import { HTMLChunk } from '@/utils/htmlChunks';
+
+type ScrollProps = Pick<
+  FlatListProps<TextChunk>,
+  'onScroll' | 'onScrollEndDrag' | 'onMomentumScrollEnd' | 'onContentSizeChange' | 'onLayout' | 'onTouchStart' | 'onTouchEnd'
+>;
+
+interface ChunkedHTMLProps extends ScrollProps {
+  listRef: React.RefObject<FlatList<TextChunk> | null>;
+  chunks: HTMLChunk[]; // From splitHTMLChunks(html)
+  onFirstVisibleChunk?: (index: number) => void;
+  padding: number;
+  contentWidth: number;
+  baseStyle?: MixedStyleDeclaration;
+  tagsStyles?: MixedStyleRecord;
+  classesStyles?: MixedStyleRecord;
+  renderersProps?: Partial<RenderersProps>;
+  accessibilityLabel?: string;
+}
+
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 1 };
+
+export function ChunkedHTML({
+  listRef,
+  chunks,
+  onFirstVisibleChunk,
+  padding,
+  contentWidth,
+  baseStyle,
+  tagsStyles,
+  classesStyles,
+  renderersProps,
+  accessibilityLabel,
+  ...scrollProps
+}: ChunkedHTMLProps) {
+  // FlatList requires a stable viewability callback
+  const onFirstVisibleChunkRef = useRef(onFirstVisibleChunk);
+  onFirstVisibleChunkRef.current = onFirstVisibleChunk;
+  const handleViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    const indexes = viewableItems.map((item) => item.index).filter((index): index is number => index !== null);
+    if (indexes.length > 0) {
+      onFirstVisibleChunkRef.current?.(Math.min(...indexes));
+    }
+  }).current;
+
+  const handleScrollToIndexFailed = ({ index, averageItemLength }: { index: number; averageItemLength: number }) => {
+    // Chunks far from the rendered window have no measured position yet:
+    // jump to an estimate, then retry once those chunks have been laid out
+    listRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: false });
+    setTimeout(() => listRef.current?.scrollToIndex({ index, animated: false }), 50);
+  };
+
+  return (
+    <TRenderEngineProvider baseStyle={baseStyle} tagsStyles={tagsStyles} classesStyles={classesStyles}>
+      <RenderHTMLConfigProvider renderersProps={renderersProps}>
+        <FlatList
+          ref={listRef}
+          data={chunks}
+          keyExtractor={(chunk) => String(chunk.start)}
+          renderItem={({ item }) => (
+            <RenderHTMLSource contentWidth={contentWidth} source={{ html: (item as HTMLChunk).html }} />
+          )}
+          contentContainerStyle={{ padding }}
+          initialNumToRender={2}
+          maxToRenderPerBatch={2}
+          windowSize={5}
+          onViewableItemsChanged={handleViewableItemsChanged}
+          viewabilityConfig={VIEWABILITY_CONFIG}
+          onScrollToIndexFailed={handleScrollToIndexFailed}
+          scrollEventThrottle={200}
+          accessibilityLabel={accessibilityLabel}
+          accessibilityHint={accessibilityLabel ? 'Scroll to read the document' : undefined}
+          {...scrollProps}
+        />
+      </RenderHTMLConfigProvider>
+    </TRenderEngineProvider>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Chunked Text Component
+ * Virtualized plain-text reader: renders only the chunks near the viewport,
+ * so very large documents open fully and scroll smoothly
+ */
+
+import React, { useMemo, useRef } from 'react';
+import { FlatList, FlatListProps, ViewToken } from 'react-native';
+import { Highlight } from '@/types';
+import { HighlightedText, resolveHighlights } from '@/utils/textRenderer';
+import { TextChunk } from '@/utils/textChunks';
+
+type ScrollProps = Pick<
+  FlatListProps<TextChunk>,
+  'onScroll' | 'onScrollEndDrag' | 'onMomentumScrollEnd' | 'onContentSizeChange' | 'onLayout' | 'onTouchStart' | 'onTouchEnd'
+>;
+
+interface ChunkedTextProps extends ScrollProps {
+  listRef: React.RefObject<FlatList<TextChunk> | null>;
+  text: string;
+  chunks: TextChunk[]; // From splitTextChunks(text)
+  highlights: Highlight[];
+  onHighlightPress?: (highlight: Highlight) => void;
+  onFirstVisibleChunk?: (index: number) => void;
+  padding: number;
+  fontSize: number;
+  lineHeight: number;
+  color: string;
+  fontFamily?: string;
+  accessibilityLabel?: string;
+}
+
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 1 };
+
+export function ChunkedText({
+  listRef,
+  text,
+  chunks,
+  highlights,
+  onHighlightPress,
+  onFirstVisibleChunk,
+  padding,
+  fontSize,
+  lineHeight,
+  color,
+  fontFamily,
+  accessibilityLabel,
+  ...scrollProps
+}: ChunkedTextProps) {
+  // Resolve highlights once against the whole text; each chunk renders its slice
+  const resolved = useMemo(() => resolveHighlights(text, highlights), [text, highlights]);
+
+  // FlatList requires a stable viewability callback
+  const onFirstVisibleChunkRef = useRef(onFirstVisibleChunk);
+  onFirstVisibleChunkRef.current = onFirstVisibleChunk;
+  const handleViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    const indexes = viewableItems.map((item) => item.index).filter((index): index is number => index !== null);
+    if (indexes.length > 0) {
+      onFirstVisibleChunkRef.current?.(Math.min(...indexes));
+    }
+  }).current;
+
+  const handleScrollToIndexFailed = ({ index, averageItemLength }: { index: number; averageItemLength: number }) => {
+    // Chunks far from the rendered window have no measured position yet:
+    // jump to an estimate, then retry once those chunks have been laid out
+    listRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: false });
+    setTimeout(() => listRef.current?.scrollToIndex({ index, animated: false }), 50);
+  };
+
+  return (
+    <FlatList
+      ref={listRef}
+      data={chunks}
+      keyExtractor={(chunk) => String(chunk.start)}
+      renderItem={({ item }) => (
+        <HighlightedText
+          text={text.substring(item.start, item.end)}
+          highlights={highlights}
+          resolved={resolved}
+          offset={item.start}
+          onHighlightPress={onHighlightPress}
+          fontSize={fontSize}
+          lineHeight={lineHeight}
+          color={color}
+          fontFamily={fontFamily}
+        />
+      )}
+      contentContainerStyle={{ padding }}
+      initialNumToRender={3}
+      maxToRenderPerBatch={3}
+      windowSize={7}
+      onViewableItemsChanged={handleViewableItemsChanged}
+      viewabilityConfig={VIEWABILITY_CONFIG}
+      onScrollToIndexFailed={handleScrollToIndexFailed}
+      scrollEventThrottle={200}
+      accessibilityLabel={accessibilityLabel}
+      accessibilityHint={accessibilityLabel ? 'Scroll to read the document' : undefined}
+      {...scrollProps}
+    />
+  );
+}
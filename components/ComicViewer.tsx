@@ -0,0 +1,324 @@
+/**
+ * Comic Viewer Component
+ * Shows CBZ pages one at a time or as two-page spreads, with pinch and
+ * double-tap zoom, swipe and edge-tap page turns, and right-to-left order
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Image,
+  Text,
+  ActivityIndicator,
+  Animated,
+  PanResponder,
+  StyleSheet,
+  GestureResponderEvent,
+} from 'react-native';
+import { getCBZPageImage, prefetchCBZPages } from '@/services/cbzParser';
+import { getAdjacentSpread, getSpreadPages } from '@/utils/comicSpreads';
+
+interface ComicViewerProps {
+  filePath: string;
+  pages: string[]; // Archive paths in reading order, from getCBZPages
+  page: number; // 1-based page to show, along with the rest of its spread
+  spreads: boolean; // Two pages side by side
+  rightToLeft: boolean; // Manga order: pages advance to the left
+  onNextPage: () => void;
+  onPreviousPage: () => void;
+  textColor: string;
+}
+
+interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+const DOUBLE_TAP_DELAY = 250; // ms
+const SWIPE_DISTANCE = 50;
+const TAP_SLOP = 10;
+// Taps in the outer thirds turn pages; the middle is left alone
+const TAP_ZONE = 1 / 3;
+
+function touchDistance(event: GestureResponderEvent): number {
+  const [first, second] = event.nativeEvent.touches;
+  return first && second ? Math.hypot(first.pageX - second.pageX, first.pageY - second.pageY) : 0;
+}
+
+function ComicPage({ filePath, pagePath, textColor }: { filePath: string; pagePath: string; textColor: string }) {
+  const [uri, setUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUri(null);
+    setFailed(false);
+    getCBZPageImage(filePath, pagePath)
+      .then((pageUri) => {
+        if (!cancelled) setUri(pageUri);
+      })
+      .catch((error) => {
+        console.error('Error loading CBZ page:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, pagePath]);
+
+  return (
+    <View style={styles.page}>
+      {uri ? (
+        <Image source={{ uri }} style={styles.image} resizeMode="contain" />
+      ) : failed ? (
+        <Text style={[styles.message, { color: textColor }]}>This page could not be loaded.</Text>
+      ) : (
+        <ActivityIndicator color={textColor} />
+      )}
+    </View>
+  );
+}
+
+export function ComicViewer({
+  filePath,
+  pages,
+  page,
+  spreads,
+  rightToLeft,
+  onNextPage,
+  onPreviousPage,
+  textColor,
+}: ComicViewerProps) {
+  const pageCount = pages.length;
+  const spread = getSpreadPages(page, pageCount, spreads);
+  // Facing pages are laid out in reading order, so manga spreads start on the right
+  const shownPages = rightToLeft ? [...spread].reverse() : spread;
+
+  const containerRef = useRef<View>(null);
+  const frame = useRef({ x: 0, y: 0, width: 0, height: 0 });
+  const scale = useRef(new Animated.Value(1)).current;
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+  const zoom = useRef<ZoomState>({ scale: 1, x: 0, y: 0 });
+  // Zoom and gesture offsets when the current touch count began
+  const gestureStart = useRef({ zoom: zoom.current, dx: 0, dy: 0, distance: 0, touches: 0, pinched: false });
+  const pendingTap = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // The responder is created once, so route events through the latest props
+  const callbacks = useRef({ onNextPage, onPreviousPage, rightToLeft });
+  callbacks.current = { onNextPage, onPreviousPage, rightToLeft };
+
+  // Keep the zoomed page covering the viewport
+  const clampZoom = (next: ZoomState): ZoomState => {
+    const maxX = (frame.current.width * (next.scale - 1)) / 2;
+    const maxY = (frame.current.height * (next.scale - 1)) / 2;
+    return {
+      scale: next.scale,
+      x: Math.max(-maxX, Math.min(maxX, next.x)),
+      y: Math.max(-maxY, Math.min(maxY, next.y)),
+    };
+  };
+
+  const setZoom = (next: ZoomState, animated: boolean) => {
+    const clamped = clampZoom(next);
+    zoom.current = clamped;
+    if (animated) {
+      Animated.parallel([
+        Animated.spring(scale, { toValue: clamped.scale, useNativeDriver: true, friction: 8 }),
+        Animated.spring(translateX, { toValue: clamped.x, useNativeDriver: true, friction: 8 }),
+        Animated.spring(translateY, { toValue: clamped.y, useNativeDriver: true, friction: 8 }),
+      ]).start();
+    } else {
+      scale.setValue(clamped.scale);
+      translateX.setValue(clamped.x);
+      translateY.setValue(clamped.y);
+    }
+  };
+
+  const turnPage = (forward: boolean) => {
+    if (forward) {
+      callbacks.current.onNextPage();
+    } else {
+      callbacks.current.onPreviousPage();
+    }
+  };
+
+  const handleTap = (pageX: number, pageY: number) => {
+    const x = pageX - frame.current.x;
+    const y = pageY - frame.current.y;
+    if (pendingTap.current) {
+      // Double tap: zoom in around the tapped point, or back out
+      clearTimeout(pendingTap.current);
+      pendingTap.current = null;
+      if (zoom.current.scale > 1) {
+        setZoom({ scale: 1, x: 0, y: 0 }, true);
+      } else {
+        const factor = DOUBLE_TAP_ZOOM - 1;
+        setZoom(
+          {
+            scale: DOUBLE_TAP_ZOOM,
+            x: (frame.current.width / 2 - x) * factor,
+            y: (frame.current.height / 2 - y) * factor,
+          },
+          true
+        );
+      }
+      return;
+    }
+
+    // Wait to see whether a second tap follows before turning the page
+    pendingTap.current = setTimeout(() => {
+      pendingTap.current = null;
+      if (zoom.current.scale > 1) return;
+      const { width } = frame.current;
+      const { rightToLeft: reversed } = callbacks.current;
+      if (x < width * TAP_ZONE) {
+        turnPage(reversed);
+      } else if (x > width * (1 - TAP_ZONE)) {
+        turnPage(!reversed);
+      }
+    }, DOUBLE_TAP_DELAY);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => zoom.current.scale === 1,
+      onPanResponderGrant: (event) => {
+        const touches = event.nativeEvent.touches.length;
+        gestureStart.current = {
+          zoom: zoom.current,
+          dx: 0,
+          dy: 0,
+          distance: touchDistance(event),
+          touches,
+          pinched: touches >= 2,
+        };
+      },
+      onPanResponderMove: (event, gestureState) => {
+        const touches = event.nativeEvent.touches.length;
+        const start = gestureStart.current;
+        if (touches !== start.touches) {
+          // A finger landed or lifted: continue from where the zoom is now
+          gestureStart.current = {
+            zoom: zoom.current,
+            dx: gestureState.dx,
+            dy: gestureState.dy,
+            distance: touchDistance(event),
+            touches,
+            pinched: start.pinched || touches >= 2,
+          };
+          return;
+        }
+
+        if (touches >= 2 && start.distance > 0) {
+          const nextScale = Math.max(1, Math.min(MAX_ZOOM, (start.zoom.scale * touchDistance(event)) / start.distance));
+          setZoom({ ...start.zoom, scale: nextScale }, false);
+        } else if (zoom.current.scale > 1) {
+          setZoom(
+            {
+              scale: zoom.current.scale,
+              x: start.zoom.x + gestureState.dx - start.dx,
+              y: start.zoom.y + gestureState.dy - start.dy,
+            },
+            false
+          );
+        }
+      },
+      onPanResponderRelease: (_, gestureState) => {
+        const { dx, dy } = gestureState;
+        if (gestureStart.current.pinched) {
+          // Snap almost-unzoomed pages back to fit
+          if (zoom.current.scale < 1.05) setZoom({ scale: 1, x: 0, y: 0 }, true);
+          return;
+        }
+        if (Math.abs(dx) < TAP_SLOP && Math.abs(dy) < TAP_SLOP) {
+          handleTap(gestureState.x0, gestureState.y0);
+        } else if (zoom.current.scale === 1 && Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+          // Swiping left moves forward, except in right-to-left books
+          turnPage(dx < 0 !== callbacks.current.rightToLeft);
+        }
+      },
+    })
+  ).current;
+
+  // Each spread opens fitted to the screen
+  useEffect(() => {
+    setZoom({ scale: 1, x: 0, y: 0 }, false);
+  }, [page, spreads]);
+
+  useEffect(() => {
+    return () => {
+      if (pendingTap.current) clearTimeout(pendingTap.current);
+    };
+  }, []);
+
+  // Decode the spreads on either side so page turns show no loading state
+  useEffect(() => {
+    const next = getAdjacentSpread(page, pageCount, spreads, 1);
+    const afterNext = next !== null ? getAdjacentSpread(next, pageCount, spreads, 1) : null;
+    const previous = getAdjacentSpread(page, pageCount, spreads, -1);
+    const nearby = [next, afterNext, previous].flatMap((start) =>
+      start !== null ? getSpreadPages(start, pageCount, spreads) : []
+    );
+    prefetchCBZPages(filePath, nearby.map((number) => pages[number - 1]));
+  }, [filePath, pages, pageCount, page, spreads]);
+
+  const handleLayout = () => {
+    containerRef.current?.measureInWindow((x, y, width, height) => {
+      frame.current = { x, y, width, height };
+    });
+  };
+
+  return (
+    <View
+      ref={containerRef}
+      style={styles.container}
+      onLayout={handleLayout}
+      accessibilityLabel={
+        spread.length > 1 ? `Pages ${spread[0]} and ${spread[1]} of ${pageCount}` : `Page ${spread[0]} of ${pageCount}`
+      }
+      {...panResponder.panHandlers}
+    >
+      <Animated.View
+        style={[
+          styles.spread,
+          { transform: [{ translateX }, { translateY }, { scale }] },
+        ]}
+      >
+        {shownPages.map((number) => (
+          <ComicPage key={pages[number - 1]} filePath={filePath} pagePath={pages[number - 1]} textColor={textColor} />
+        ))}
+      </Animated.View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  spread: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  page: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  message: {
+    fontSize: 14,
+    textAlign: 'center',
+    padding: 16,
+  },
+});
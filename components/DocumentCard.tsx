@@ -4,9 +4,10 @@
 
 import React, { useRef, useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Animated, Image } from 'react-native';
-import { Document, DocumentStatus } from '@/types';
+import { Document, DocumentStatus, Tag } from '@/types';
 import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
-import { TrashIcon, StarIcon } from './Icons';
+import { TrashIcon, StarIcon, TagIcon, FolderIcon } from './Icons';
+import { TagChip } from './TagChip';
 import { scale } from '@/utils/animations';
 import { getDocumentThumbnail } from '@/services/imageOptimization';
 
@@ -15,6 +16,9 @@ interface DocumentCardProps {
   onPress: () => void;
   onRemove?: () => void;
   onToggleFavorite?: () => void;
+  onEditTags?: () => void;
+  onAddToCollection?: () => void;
+  tags?: Tag[];
   viewMode?: 'list' | 'grid';
   currentPage?: number; // Current reading position
 }
@@ -25,7 +29,17 @@ const statusColors: Record<DocumentStatus, string> = {
   finished: '#6f5f4d',
 };
 
-export function DocumentCard({ document, onPress, onRemove, onToggleFavorite, viewMode = 'list', currentPage }: DocumentCardProps) {
+export function DocumentCard({
+  document,
+  onPress,
+  onRemove,
+  onToggleFavorite,
+  onEditTags,
+  onAddToCollection,
+  tags = [],
+  viewMode = 'list',
+  currentPage,
+}: DocumentCardProps) {
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
   const statusColor = statusColors[document.status];
@@ -33,6 +47,11 @@ export function DocumentCard({ document, onPress, onRemove, onToggleFavorite, vi
   const [thumbnailUri, setThumbnailUri] = useState<string | null>(document.coverImagePath);
   const [imageLoading, setImageLoading] = useState(false);
 
+  // Thumbnails can arrive after the card is shown (import, background backfill)
+  useEffect(() => {
+    setThumbnailUri(document.coverImagePath);
+  }, [document.coverImagePath]);
+
   const handleRemove = (e: any) => {
     e.stopPropagation();
     if (onRemove) {
@@ -60,6 +79,20 @@ export function DocumentCard({ document, onPress, onRemove, onToggleFavorite, vi
     }
   };
 
+  const handleEditTags = (e: any) => {
+    e.stopPropagation();
+    if (onEditTags) {
+      onEditTags();
+    }
+  };
+
+  const handleAddToCollection = (e: any) => {
+    e.stopPropagation();
+    if (onAddToCollection) {
+      onAddToCollection();
+    }
+  };
+
   const handlePress = () => {
     // Scale animation on press
     Animated.sequence([
@@ -131,6 +164,26 @@ export function DocumentCard({ document, onPress, onRemove, onToggleFavorite, vi
                 />
               </TouchableOpacity>
             )}
+            {onEditTags && (
+              <TouchableOpacity
+                onPress={handleEditTags}
+                style={styles.tagButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel={`Edit tags for ${document.title}`}
+              >
+                <TagIcon size={18} color={tags.length > 0 ? colors.primary : colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+            {onAddToCollection && (
+              <TouchableOpacity
+                onPress={handleAddToCollection}
+                style={styles.collectionButton}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel={`Add ${document.title} to a collection`}
+              >
+                <FolderIcon size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
             {onRemove && (
               <TouchableOpacity
                 onPress={handleRemove}
@@ -143,6 +196,11 @@ export function DocumentCard({ document, onPress, onRemove, onToggleFavorite, vi
           </View>
         </View>
         <View style={styles.meta}>
+          {(document.author || document.siteName) && (
+            <Text style={[styles.byline, { color: colors.textSecondary }]} numberOfLines={1}>
+              {[document.author, document.siteName].filter(Boolean).join(' • ')}
+            </Text>
+          )}
           <Text style={[styles.metaText, { color: colors.textSecondary }]}>
             {(() => {
               // Get total pages from document - ensure it's a valid number
@@ -160,6 +218,13 @@ export function DocumentCard({ document, onPress, onRemove, onToggleFavorite, vi
             })()} • {document.estimatedReadingTime} min
           </Text>
         </View>
+        {tags.length > 0 && (
+          <View style={styles.tags}>
+            {tags.map((tag) => (
+              <TagChip key={tag.id} tag={tag} />
+            ))}
+          </View>
+        )}
         <View style={styles.footer}>
           <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
             <Text style={styles.statusText}>{document.status}</Text>
@@ -215,6 +280,12 @@ const styles = StyleSheet.create({
   favoriteButton: {
     padding: 4,
   },
+  tagButton: {
+    padding: 4,
+  },
+  collectionButton: {
+    padding: 4,
+  },
   removeButton: {
     padding: 4,
   },
@@ -224,6 +295,17 @@ const styles = StyleSheet.create({
   metaText: {
     fontSize: 14,
   },
+  byline: {
+    fontSize: 14,
+    marginBottom: 2,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: -4,
+    marginBottom: 12,
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
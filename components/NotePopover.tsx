@@ -0,0 +1,96 @@
+/**
+ * Note Popover Component
+ * Shows a footnote or endnote over the page without moving the reading position
+ */
+
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { XIcon } from './Icons';
+import { EPUBNote } from '@/services/epubParser';
+import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
+
+interface NotePopoverProps {
+  visible: boolean;
+  onClose: () => void;
+  note: EPUBNote | null;
+  onGoToNote?: (note: EPUBNote) => void;
+}
+
+export function NotePopover({ visible, onClose, note, onGoToNote }: NotePopoverProps) {
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} style={[styles.container, { backgroundColor: colors.surface }]}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <Text style={[styles.title, { color: colors.text }]}>Note {note?.ref.label ?? ''}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} accessibilityLabel="Close note">
+              <XIcon size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.body}>
+            <Text style={[styles.noteText, { color: colors.text }]} selectable>
+              {note?.text || 'This note is empty.'}
+            </Text>
+          </ScrollView>
+
+          {note && onGoToNote && (
+            <TouchableOpacity
+              onPress={() => onGoToNote(note)}
+              style={[styles.goToButton, { borderTopColor: colors.border }]}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.goToText, { color: colors.primary }]}>Go to note in book</Text>
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    maxHeight: '50%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  body: {
+    padding: 16,
+  },
+  noteText: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  goToButton: {
+    padding: 16,
+    alignItems: 'center',
+    borderTopWidth: 1,
+  },
+  goToText: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,233 @@
+/**
+ * Paged Content Component
+ * Lays out reflowable content into screen-sized pages, optionally side by side in columns.
+ * Content comes in chunks: their heights are measured a batch at a time, and
+ * each page renders only the chunks it shows.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { TextChunk } from '@/utils/textChunks';
+
+export interface PageLayout {
+  pageCount: number;
+  pageHeight: number;
+  contentHeight: number;
+  pageOffsets: number[]; // Approximate text offset at the top of each page
+}
+
+interface PagedContentProps {
+  chunks: TextChunk[];
+  renderChunk: (chunk: TextChunk, index: number) => React.ReactNode;
+  page: number; // 0-based index of the first visible page
+  columns?: number;
+  lineHeight: number;
+  margin: number;
+  onLayoutPages?: (layout: PageLayout) => void;
+}
+
+// Chunks rendered off screen per measuring pass
+const MEASURE_BATCH_SIZE = 20;
+
+// Identifies a chunk list, so measuring restarts from fresh views when the content changes
+const chunkListIds = new WeakMap<TextChunk[], number>();
+let nextChunkListId = 0;
+
+function chunkListId(chunks: TextChunk[]): number {
+  let id = chunkListIds.get(chunks);
+  if (id === undefined) {
+    id = nextChunkListId++;
+    chunkListIds.set(chunks, id);
+  }
+  return id;
+}
+
+const NO_HEIGHTS: number[] = [];
+
+interface Measurements {
+  chunks: TextChunk[];
+  width: number;
+  heights: number[]; // Of the first heights.length chunks
+}
+
+/**
+ * Where each page starts. A page ends at the last line boundary that fits, so
+ * lines are never cut, even below blocks (headings, images) whose heights
+ * aren't whole lines. Line boundaries are counted from the top of each chunk.
+ */
+function breakPages(tops: number[], heights: number[], pageHeight: number, lineHeight: number): number[] {
+  const contentHeight = heights.length > 0 ? tops[heights.length - 1] + heights[heights.length - 1] : 0;
+  const starts = [0];
+  let y = 0;
+  let chunk = 0;
+  while (y + pageHeight < contentHeight) {
+    const limit = y + pageHeight;
+    while (tops[chunk] + heights[chunk] <= limit) chunk++;
+    let end = tops[chunk] + Math.floor((limit - tops[chunk]) / lineHeight) * lineHeight;
+    // A block taller than a page (a large image) is cut where the page ends
+    if (end <= y) end = limit;
+    starts.push(end);
+    y = end;
+  }
+  return starts;
+}
+
+export function PagedContent({
+  chunks,
+  renderChunk,
+  page,
+  columns = 1,
+  lineHeight,
+  margin,
+  onLayoutPages,
+}: PagedContentProps) {
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [measured, setMeasured] = useState<Measurements>({ chunks, width: 0, heights: [] });
+  const batchRef = useRef<Measurements & { start: number }>({ chunks, width: 0, heights: [], start: 0 });
+
+  // Snap the page height to whole lines so lines are not cut at page boundaries
+  const availableHeight = Math.max(0, viewport.height - margin * 2);
+  const pageHeight = Math.max(lineHeight, Math.floor(availableHeight / lineHeight) * lineHeight);
+  const columnWidth = Math.max(0, (viewport.width - margin * (columns + 1)) / columns);
+
+  // Measurements of other content or another width are discarded
+  const heights = measured.chunks === chunks && measured.width === columnWidth ? measured.heights : NO_HEIGHTS;
+  const isMeasured = heights.length === chunks.length;
+  const batchStart = heights.length;
+  const batchEnd = Math.min(chunks.length, batchStart + MEASURE_BATCH_SIZE);
+
+  const { tops, pageStarts, contentHeight } = useMemo(() => {
+    const chunkTops: number[] = [];
+    let top = 0;
+    for (const height of heights) {
+      chunkTops.push(top);
+      top += height;
+    }
+    return { tops: chunkTops, pageStarts: breakPages(chunkTops, heights, pageHeight, lineHeight), contentHeight: top };
+  }, [heights, pageHeight, lineHeight]);
+
+  const pageOffsets = useMemo(
+    () =>
+      pageStarts.map((y) => {
+        let index = 0;
+        while (index + 1 < heights.length && tops[index + 1] <= y) index++;
+        const chunk = chunks[index];
+        if (!chunk || heights[index] <= 0) return chunk?.start ?? 0;
+        return chunk.start + Math.round(((y - tops[index]) / heights[index]) * (chunk.end - chunk.start));
+      }),
+    [pageStarts, tops, heights, chunks]
+  );
+  const pageCount = pageStarts.length;
+
+  useEffect(() => {
+    if (viewport.height > 0 && isMeasured && contentHeight > 0) {
+      onLayoutPages?.({ pageCount, pageHeight, contentHeight, pageOffsets });
+    }
+  }, [pageCount, pageHeight, contentHeight, viewport.height, isMeasured]);
+
+  const handleViewportLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    if (width !== viewport.width || height !== viewport.height) {
+      setViewport({ width, height });
+    }
+  };
+
+  const handleMeasureLayout = (index: number, event: LayoutChangeEvent) => {
+    const batch = batchRef.current;
+    if (batch.chunks !== chunks || batch.width !== columnWidth || batch.start !== batchStart) {
+      batchRef.current = { chunks, width: columnWidth, heights: [], start: batchStart };
+    }
+    const batchHeights = batchRef.current.heights;
+    batchHeights[index - batchStart] = event.nativeEvent.layout.height;
+    if (batchHeights.filter((height) => height !== undefined).length === batchEnd - batchStart) {
+      setMeasured({ chunks, width: columnWidth, heights: [...heights, ...batchHeights] });
+    }
+  };
+
+  // Shown chunks can still change height (an image finishing loading): re-break the pages
+  const handleShownLayout = (index: number, event: LayoutChangeEvent) => {
+    const { height } = event.nativeEvent.layout;
+    if (index < heights.length && Math.abs(height - heights[index]) > 0.5) {
+      const corrected = [...heights];
+      corrected[index] = height;
+      setMeasured({ chunks, width: columnWidth, heights: corrected });
+    }
+  };
+
+  const renderPage = (pageIndex: number) => {
+    if (pageIndex >= pageCount || heights.length === 0) return null;
+    const top = pageStarts[pageIndex];
+    const bottom = pageStarts[pageIndex + 1] ?? contentHeight;
+    const shown: number[] = [];
+    for (let index = 0; index < heights.length; index++) {
+      if (tops[index] >= bottom) break;
+      if (tops[index] + heights[index] > top || (heights[index] === 0 && tops[index] === top)) shown.push(index);
+    }
+    if (shown.length === 0) return null;
+
+    return (
+      // Clipped at the page's last whole line, then shifted to the page's first
+      <View style={{ height: bottom - top, overflow: 'hidden' }}>
+        <View style={{ transform: [{ translateY: tops[shown[0]] - top }] }}>
+          {shown.map((index) => (
+            <View key={`${chunks[index].start}:${chunks[index].end}`} onLayout={(event) => handleShownLayout(index, event)}>
+              {renderChunk(chunks[index], index)}
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.viewport} onLayout={handleViewportLayout}>
+      {viewport.width > 0 && (
+        <View style={[styles.row, { padding: margin, gap: margin }]}>
+          {Array.from({ length: columns }, (_, column) => (
+            <View
+              key={column}
+              style={[styles.page, { width: columnWidth, height: pageHeight }]}
+            >
+              {renderPage(page + column)}
+            </View>
+          ))}
+        </View>
+      )}
+      {viewport.width > 0 && !isMeasured && (
+        <View
+          key={`${chunkListId(chunks)}:${columnWidth}`}
+          style={[styles.measure, { width: columnWidth }]}
+          pointerEvents="none"
+        >
+          {chunks.slice(batchStart, batchEnd).map((chunk, offset) => (
+            <View
+              key={`${chunk.start}:${chunk.end}`}
+              onLayout={(event) => handleMeasureLayout(batchStart + offset, event)}
+            >
+              {renderChunk(chunk, batchStart + offset)}
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  viewport: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  page: {
+    overflow: 'hidden',
+  },
+  // Off-screen layout of the chunks being measured
+  measure: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    opacity: 0,
+  },
+});
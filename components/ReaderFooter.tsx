@@ -18,7 +18,7 @@ interface ReaderFooterProps {
   onJumpToPage: (page: number) => void;
   readingSpeed?: number; // WPM
   timeRemaining?: number; // in minutes
-  format: 'pdf' | 'epub' | 'txt' | 'docx';
+  format: 'pdf' | 'epub' | 'txt' | 'docx' | 'md' | 'fb2' | 'cbz' | 'html';
   currentChapter?: number;
   totalChapters?: number;
 }
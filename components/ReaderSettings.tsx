@@ -14,7 +14,7 @@ import {
   Animated,
 } from 'react-native';
 import { XIcon } from './Icons';
-import { ReaderSettings, ReaderTheme } from '@/types';
+import { ReaderSettings, ReaderTheme, ReadingMode } from '@/types';
 import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
 
 interface ReaderSettingsProps {
@@ -23,6 +23,7 @@ interface ReaderSettingsProps {
   onClose: () => void;
   onUpdate: (updates: Partial<ReaderSettings>) => Promise<void>;
   previewText?: string;
+  showComicOptions?: boolean; // Page order and spreads, for comic books
 }
 
 // Custom Slider Component
@@ -93,6 +94,94 @@ function Slider({
   );
 }
 
+// Reading Mode Selector
+function ReadingModeSelector({
+  selectedMode,
+  onSelect,
+  colors,
+}: {
+  selectedMode: ReadingMode;
+  onSelect: (mode: ReadingMode) => void;
+  colors: typeof lightColors;
+}) {
+  const modes: { value: ReadingMode; label: string }[] = [
+    { value: 'page', label: 'Page' },
+    { value: 'scroll', label: 'Scroll' },
+    { value: 'column', label: 'Columns' },
+    { value: 'auto-scroll', label: 'Auto-scroll' },
+  ];
+
+  return (
+    <View style={styles.fontFamilyRow}>
+      {modes.map((mode) => (
+        <TouchableOpacity
+          key={mode.value}
+          onPress={() => onSelect(mode.value)}
+          style={[
+            styles.fontOption,
+            {
+              backgroundColor: selectedMode === mode.value ? colors.primary + '20' : 'transparent',
+              borderColor: selectedMode === mode.value ? colors.primary : colors.border,
+            },
+          ]}
+        >
+          <Text
+            style={[
+              styles.fontOptionText,
+              { color: selectedMode === mode.value ? colors.primary : colors.text },
+            ]}
+          >
+            {mode.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+// Two-way choice shown as a row of options, for comic settings
+function ComicOptionSelector({
+  label,
+  options,
+  selected,
+  onSelect,
+  colors,
+}: {
+  label: string;
+  options: [string, string]; // Labels for off, then on
+  selected: boolean;
+  onSelect: (value: boolean) => void;
+  colors: typeof lightColors;
+}) {
+  return (
+    <View style={styles.comicOption}>
+      <Text style={[styles.sliderLabel, styles.comicOptionLabel, { color: colors.text }]}>{label}</Text>
+      <View style={styles.fontFamilyRow}>
+        {options.map((option, index) => {
+          const isSelected = selected === (index === 1);
+          return (
+            <TouchableOpacity
+              key={option}
+              onPress={() => onSelect(index === 1)}
+              style={[
+                styles.fontOption,
+                {
+                  backgroundColor: isSelected ? colors.primary + '20' : 'transparent',
+                  borderColor: isSelected ? colors.primary : colors.border,
+                },
+              ]}
+            >
+              <Text style={[styles.fontOptionText, { color: isSelected ? colors.primary : colors.text }]}>
+                {option}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
 // Theme Selector
 function ThemeSelector({
   selectedTheme,
@@ -169,6 +258,7 @@ export function ReaderSettingsModal({
   onClose,
   onUpdate,
   previewText = 'The quick brown fox jumps over the lazy dog. This is a preview of how your text will look with the current settings.',
+  showComicOptions = false,
 }: ReaderSettingsProps) {
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
@@ -263,6 +353,62 @@ export function ReaderSettingsModal({
               />
             </View>
 
+            {/* Reading Mode Section */}
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Reading Mode</Text>
+              <ReadingModeSelector
+                selectedMode={settings.readingMode ?? 'page'}
+                onSelect={(readingMode) => onUpdate({ readingMode })}
+                colors={colors}
+              />
+              {settings.readingMode === 'column' && (
+                <Text style={[styles.settingHint, { color: colors.textSecondary }]}>
+                  Two columns are used on tablets; phones show a single page.
+                </Text>
+              )}
+              {settings.readingMode === 'auto-scroll' && (
+                <View style={styles.modeOptions}>
+                  <Slider
+                    value={settings.autoScrollSpeed ?? 200}
+                    min={100}
+                    max={600}
+                    step={25}
+                    onValueChange={(value) => onUpdate({ autoScrollSpeed: value })}
+                    label="Auto-scroll Speed"
+                    formatValue={(v) => `${v} WPM`}
+                    color={colors.primary}
+                  />
+                  <Text style={[styles.settingHint, { color: colors.textSecondary }]}>
+                    Tap the page to pause or resume.
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            {/* Comics Section */}
+            {showComicOptions && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>Comics</Text>
+                <ComicOptionSelector
+                  label="Page Order"
+                  options={['Left to right', 'Right to left']}
+                  selected={settings.comicRightToLeft ?? false}
+                  onSelect={(comicRightToLeft) => onUpdate({ comicRightToLeft })}
+                  colors={colors}
+                />
+                <ComicOptionSelector
+                  label="Layout"
+                  options={['Single page', 'Two-page spreads']}
+                  selected={settings.comicSpreads ?? true}
+                  onSelect={(comicSpreads) => onUpdate({ comicSpreads })}
+                  colors={colors}
+                />
+                <Text style={[styles.settingHint, { color: colors.textSecondary }]}>
+                  Spreads are shown when the screen is wider than it is tall. Use right to left for manga.
+                </Text>
+              </View>
+            )}
+
             {/* Theme Section */}
             <ThemeSelector
               selectedTheme={settings.theme}
@@ -451,4 +597,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  settingHint: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  modeOptions: {
+    marginTop: 20,
+  },
+  comicOption: {
+    marginBottom: 16,
+  },
+  comicOptionLabel: {
+    marginBottom: 8,
+  },
 });
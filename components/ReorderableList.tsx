@@ -0,0 +1,174 @@
+/**
+ * Reorderable List Component
+ * Vertical list whose rows can be dragged by their handle into a new order
+ */
+
+import React, { useRef, useState } from 'react';
+import { View, Animated, PanResponder, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { GripIcon } from './Icons';
+
+interface ReorderableListProps<T> {
+  data: T[];
+  keyExtractor: (item: T) => string;
+  renderItem: (item: T, isActive: boolean) => React.ReactNode;
+  onReorder: (data: T[]) => void;
+  onDragActiveChange?: (active: boolean) => void; // e.g. to disable the parent ScrollView
+  handleColor?: string;
+}
+
+interface DragHandleProps {
+  color?: string;
+  onStart: () => void;
+  onMove: (dy: number) => void;
+  onEnd: (dy: number) => void;
+  onStep: (direction: -1 | 1) => void;
+}
+
+function DragHandle({ color, onStart, onMove, onEnd, onStep }: DragHandleProps) {
+  // The responder is created once, so route events through the latest callbacks
+  const callbacks = useRef({ onStart, onMove, onEnd });
+  callbacks.current = { onStart, onMove, onEnd };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => callbacks.current.onStart(),
+      onPanResponderMove: (_, gestureState) => callbacks.current.onMove(gestureState.dy),
+      onPanResponderRelease: (_, gestureState) => callbacks.current.onEnd(gestureState.dy),
+      onPanResponderTerminate: (_, gestureState) => callbacks.current.onEnd(gestureState.dy),
+    })
+  ).current;
+
+  return (
+    <View
+      {...panResponder.panHandlers}
+      style={styles.handle}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel="Reorder"
+      accessibilityActions={[{ name: 'increment', label: 'Move down' }, { name: 'decrement', label: 'Move up' }]}
+      onAccessibilityAction={(event) => onStep(event.nativeEvent.actionName === 'increment' ? 1 : -1)}
+    >
+      <GripIcon size={20} color={color} />
+    </View>
+  );
+}
+
+function moveItem<T>(data: T[], from: number, to: number): T[] {
+  const next = [...data];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export function ReorderableList<T>({
+  data,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  onDragActiveChange,
+  handleColor,
+}: ReorderableListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [targetIndex, setTargetIndex] = useState<number | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+  const rowHeights = useRef<number[]>([]);
+
+  // Rows are assumed to share the dragged row's height
+  const indexForOffset = (from: number, dy: number) => {
+    const height = rowHeights.current[from] || 1;
+    return Math.max(0, Math.min(data.length - 1, from + Math.round(dy / height)));
+  };
+
+  const handleStart = (index: number) => {
+    dragY.setValue(0);
+    setDragIndex(index);
+    setTargetIndex(index);
+    onDragActiveChange?.(true);
+  };
+
+  const handleMove = (index: number, dy: number) => {
+    dragY.setValue(dy);
+    const next = indexForOffset(index, dy);
+    if (next !== targetIndex) {
+      setTargetIndex(next);
+    }
+  };
+
+  const handleEnd = (index: number, dy: number) => {
+    const to = indexForOffset(index, dy);
+    dragY.setValue(0);
+    setDragIndex(null);
+    setTargetIndex(null);
+    onDragActiveChange?.(false);
+    if (to !== index) {
+      onReorder(moveItem(data, index, to));
+    }
+  };
+
+  const handleStep = (index: number, direction: -1 | 1) => {
+    const to = index + direction;
+    if (to >= 0 && to < data.length) {
+      onReorder(moveItem(data, index, to));
+    }
+  };
+
+  // Rows between the dragged row and its target slide over to make room
+  const shiftFor = (index: number): number => {
+    if (dragIndex === null || targetIndex === null || index === dragIndex) return 0;
+    const height = rowHeights.current[dragIndex] || 0;
+    if (dragIndex < targetIndex && index > dragIndex && index <= targetIndex) return -height;
+    if (targetIndex < dragIndex && index >= targetIndex && index < dragIndex) return height;
+    return 0;
+  };
+
+  return (
+    <View>
+      {data.map((item, index) => {
+        const isActive = index === dragIndex;
+        return (
+          <Animated.View
+            key={keyExtractor(item)}
+            onLayout={(event: LayoutChangeEvent) => {
+              rowHeights.current[index] = event.nativeEvent.layout.height;
+            }}
+            style={[
+              styles.row,
+              isActive && styles.activeRow,
+              { transform: [{ translateY: isActive ? dragY : shiftFor(index) }] },
+            ]}
+          >
+            <View style={styles.content}>{renderItem(item, isActive)}</View>
+            <DragHandle
+              color={handleColor}
+              onStart={() => handleStart(index)}
+              onMove={(dy) => handleMove(index, dy)}
+              onEnd={(dy) => handleEnd(index, dy)}
+              onStep={(direction) => handleStep(index, direction)}
+            />
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  activeRow: {
+    zIndex: 1,
+    opacity: 0.9,
+  },
+  content: {
+    flex: 1,
+  },
+  handle: {
+    paddingHorizontal: 8,
+    paddingVertical: 16,
+  },
+});
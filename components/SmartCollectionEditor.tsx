@@ -0,0 +1,405 @@
+/**
+ * Smart Collection Editor Component
+ * Sheet for naming a smart collection and editing its rules
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { XIcon, TrashIcon } from './Icons';
+import { TagChip } from './TagChip';
+import {
+  DocumentFormat,
+  DocumentStatus,
+  SmartCollection,
+  SmartCollectionRule,
+  SmartCollectionRuleField,
+} from '@/types';
+import { useSmartCollectionStore } from '@/stores/smartCollectionStore';
+import { useTagStore } from '@/stores/tagStore';
+import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
+
+interface SmartCollectionEditorProps {
+  visible: boolean;
+  onClose: () => void;
+  smartCollection?: SmartCollection | null; // Edit this one instead of creating a new one
+  onSaved?: (smartCollection: SmartCollection) => void;
+  onDeleted?: () => void;
+}
+
+const FORMATS: DocumentFormat[] = ['pdf', 'epub', 'txt', 'docx', 'md', 'fb2', 'cbz', 'html'];
+const STATUSES: DocumentStatus[] = ['unread', 'reading', 'finished'];
+
+const FIELD_LABELS: Record<SmartCollectionRuleField, string> = {
+  format: 'Format',
+  status: 'Status',
+  tags: 'Tags',
+  isFavorite: 'Favorite',
+  wordCount: 'Word count',
+  createdAt: 'Added',
+  lastOpenedAt: 'Last opened',
+  progress: 'Progress %',
+  highlightCount: 'Highlights',
+};
+
+function defaultRule(field: SmartCollectionRuleField): SmartCollectionRule {
+  switch (field) {
+    case 'format':
+      return { field, formats: [] };
+    case 'status':
+      return { field, statuses: [] };
+    case 'tags':
+      return { field, tagIds: [], match: 'any' };
+    case 'isFavorite':
+      return { field, value: true };
+    default:
+      // Ranges and date windows start unbounded
+      return { field };
+  }
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+}
+
+function parseNumber(text: string): number | undefined {
+  const value = parseInt(text, 10);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+export function SmartCollectionEditor({
+  visible,
+  onClose,
+  smartCollection,
+  onSaved,
+  onDeleted,
+}: SmartCollectionEditorProps) {
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
+  const { createSmartCollection, updateSmartCollectionById, deleteSmartCollectionById } = useSmartCollectionStore();
+  const { tags, loadTags } = useTagStore();
+
+  const [name, setName] = useState('');
+  const [matchMode, setMatchMode] = useState<SmartCollection['matchMode']>('all');
+  const [rules, setRules] = useState<SmartCollectionRule[]>([]);
+
+  useEffect(() => {
+    if (!visible) return;
+    loadTags();
+    setName(smartCollection?.name ?? '');
+    setMatchMode(smartCollection?.matchMode ?? 'all');
+    setRules(smartCollection?.rules ?? []);
+  }, [visible, smartCollection?.id]);
+
+  const updateRule = (index: number, rule: SmartCollectionRule) => {
+    setRules((current) => current.map((existing, i) => (i === index ? rule : existing)));
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      Alert.alert('Name Required', 'Give the smart collection a name.');
+      return;
+    }
+    if (smartCollection) {
+      await updateSmartCollectionById(smartCollection.id, { name: trimmed, matchMode, rules });
+      onSaved?.({ ...smartCollection, name: trimmed, matchMode, rules });
+    } else {
+      const created = await createSmartCollection(trimmed, rules, matchMode);
+      if (created) {
+        onSaved?.(created);
+      }
+    }
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!smartCollection) return;
+    Alert.alert('Delete Smart Collection', `Delete "${smartCollection.name}"? Documents are not affected.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteSmartCollectionById(smartCollection.id);
+          onDeleted?.();
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const renderOption = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      style={[styles.option, { backgroundColor: selected ? colors.primary : colors.background, borderColor: colors.border }]}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.optionText, { color: selected ? '#ffffff' : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderNumberInput = (placeholder: string, value: number | undefined, onChange: (value?: number) => void) => (
+    <TextInput
+      key={placeholder}
+      value={value === undefined ? '' : String(value)}
+      onChangeText={(text) => onChange(parseNumber(text))}
+      keyboardType="numeric"
+      placeholder={placeholder}
+      placeholderTextColor={colors.textSecondary}
+      style={[styles.numberInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+      accessibilityLabel={placeholder}
+    />
+  );
+
+  const renderRuleBody = (rule: SmartCollectionRule, index: number) => {
+    switch (rule.field) {
+      case 'format':
+        return FORMATS.map((format) =>
+          renderOption(format.toUpperCase(), rule.formats.includes(format), () =>
+            updateRule(index, { ...rule, formats: toggleValue(rule.formats, format) })
+          )
+        );
+      case 'status':
+        return STATUSES.map((status) =>
+          renderOption(status.charAt(0).toUpperCase() + status.slice(1), rule.statuses.includes(status), () =>
+            updateRule(index, { ...rule, statuses: toggleValue(rule.statuses, status) })
+          )
+        );
+      case 'tags':
+        return (
+          <View style={styles.ruleColumn}>
+            <View style={styles.optionRow}>
+              {(['any', 'all', 'none'] as const).map((match) =>
+                renderOption(match === 'none' ? 'None of' : match === 'all' ? 'All of' : 'Any of', rule.match === match, () =>
+                  updateRule(index, { ...rule, match })
+                )
+              )}
+            </View>
+            <View style={styles.optionRow}>
+              {tags.length === 0 ? (
+                <Text style={[styles.hint, { color: colors.textSecondary }]}>No tags yet</Text>
+              ) : (
+                tags.map((tag) => (
+                  <TagChip
+                    key={tag.id}
+                    tag={tag}
+                    size="medium"
+                    selected={rule.tagIds.includes(tag.id)}
+                    onPress={() => updateRule(index, { ...rule, tagIds: toggleValue(rule.tagIds, tag.id) })}
+                  />
+                ))
+              )}
+            </View>
+          </View>
+        );
+      case 'isFavorite':
+        return [
+          renderOption('Favorite', rule.value, () => updateRule(index, { ...rule, value: true })),
+          renderOption('Not favorite', !rule.value, () => updateRule(index, { ...rule, value: false })),
+        ];
+      case 'createdAt':
+      case 'lastOpenedAt':
+        return [
+          renderNumberInput('Within days', rule.withinDays, (withinDays) => updateRule(index, { ...rule, withinDays })),
+          renderNumberInput('Older than days', rule.olderThanDays, (olderThanDays) =>
+            updateRule(index, { ...rule, olderThanDays })
+          ),
+        ];
+      case 'wordCount':
+      case 'progress':
+      case 'highlightCount':
+        return [
+          renderNumberInput('Min', rule.min, (min) => updateRule(index, { ...rule, min })),
+          renderNumberInput('Max', rule.max, (max) => updateRule(index, { ...rule, max })),
+        ];
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: colors.surface }]}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <Text style={[styles.title, { color: colors.text }]}>
+              {smartCollection ? 'Edit Smart Collection' : 'New Smart Collection'}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <XIcon size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Name"
+              placeholderTextColor={colors.textSecondary}
+              style={[styles.nameInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+              accessibilityLabel="Smart collection name"
+            />
+
+            <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>Documents must match</Text>
+            <View style={styles.optionRow}>
+              {renderOption('All rules', matchMode === 'all', () => setMatchMode('all'))}
+              {renderOption('Any rule', matchMode === 'any', () => setMatchMode('any'))}
+            </View>
+
+            {rules.map((rule, index) => (
+              <View key={index} style={[styles.rule, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <View style={styles.ruleHeader}>
+                  <Text style={[styles.ruleTitle, { color: colors.text }]}>{FIELD_LABELS[rule.field]}</Text>
+                  <TouchableOpacity
+                    onPress={() => setRules((current) => current.filter((_, i) => i !== index))}
+                    accessibilityLabel={`Remove ${FIELD_LABELS[rule.field]} rule`}
+                  >
+                    <XIcon size={18} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.optionRow}>{renderRuleBody(rule, index)}</View>
+              </View>
+            ))}
+
+            <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>Add rule</Text>
+            <View style={styles.optionRow}>
+              {(Object.keys(FIELD_LABELS) as SmartCollectionRuleField[]).map((field) =>
+                renderOption(`+ ${FIELD_LABELS[field]}`, false, () => setRules((current) => [...current, defaultRule(field)]))
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={[styles.footer, { borderTopColor: colors.border }]}>
+            {smartCollection && (
+              <TouchableOpacity onPress={handleDelete} style={styles.deleteButton} accessibilityLabel="Delete smart collection">
+                <TrashIcon size={20} color={colors.error} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={handleSave} style={[styles.saveButton, { backgroundColor: colors.primary }]}>
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    maxHeight: '90%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rule: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    gap: 8,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ruleTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  ruleColumn: {
+    gap: 8,
+  },
+  numberInput: {
+    flex: 1,
+    minWidth: 100,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  hint: {
+    fontSize: 14,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+  },
+  deleteButton: {
+    padding: 8,
+  },
+  saveButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
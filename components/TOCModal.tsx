@@ -1,8 +1,9 @@
 /**
  * Table of Contents Modal Component
+ * Renders the (possibly nested) TOC as an expandable tree
  */
 
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -11,35 +12,184 @@ import {
   FlatList,
   StyleSheet,
 } from 'react-native';
-import { XIcon } from './Icons';
-import { EPUBChapter } from '@/services/epubParser';
+import { XIcon, ChevronRightIcon, ChevronDownIcon } from './Icons';
+import { EPUBNote } from '@/services/epubParser';
+import { TOCEntry } from '@/types';
 import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
 
 interface TOCModalProps {
   visible: boolean;
   onClose: () => void;
-  chapters: EPUBChapter[];
-  currentChapter: number;
-  onChapterSelect: (chapterIndex: number) => void;
+  entries: TOCEntry[];
+  currentPosition: number; // Page, chapter or heading index, matching TOCEntry.position
+  onEntrySelect: (entry: TOCEntry) => void;
   title?: string;
+  notes?: EPUBNote[]; // Notes referenced from the current chapter
+  onNoteSelect?: (note: EPUBNote) => void;
+}
+
+interface TOCRow {
+  key: string; // Path of sibling indices, unique even when entry ids repeat
+  entry: TOCEntry;
+  depth: number;
+  ancestorKeys: string[];
+}
+
+/**
+ * Flatten the TOC tree depth-first
+ */
+function buildTOCRows(entries: TOCEntry[]): TOCRow[] {
+  const rows: TOCRow[] = [];
+  const visit = (items: TOCEntry[], depth: number, ancestorKeys: string[]) => {
+    items.forEach((entry, index) => {
+      const key = ancestorKeys.length > 0 ? `${ancestorKeys[ancestorKeys.length - 1]}.${index}` : `${index}`;
+      rows.push({ key, entry, depth, ancestorKeys });
+      if (entry.children) visit(entry.children, depth + 1, [...ancestorKeys, key]);
+    });
+  };
+  visit(entries, 0, []);
+  return rows;
 }
 
 export function TOCModal({
   visible,
   onClose,
-  chapters,
-  currentChapter,
-  onChapterSelect,
+  entries,
+  currentPosition,
+  onEntrySelect,
   title = 'Table of Contents',
+  notes = [],
+  onNoteSelect,
 }: TOCModalProps) {
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
   const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
 
-  const handleChapterPress = (index: number) => {
-    onChapterSelect(index);
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+  const [activeTab, setActiveTab] = useState<'contents' | 'notes'>('contents');
+  const showNotesTab = notes.length > 0 && !!onNoteSelect;
+
+  useEffect(() => {
+    if (!showNotesTab) setActiveTab('contents');
+  }, [showNotesTab]);
+
+  const rows = useMemo(() => buildTOCRows(entries), [entries]);
+
+  // The first entry at the current position is marked active, otherwise the
+  // last one before it (e.g. a PDF page inside a bookmarked section)
+  const activeRow = useMemo(() => {
+    const exact = rows.find((row) => row.entry.position === currentPosition);
+    if (exact) return exact;
+    let preceding: TOCRow | undefined;
+    let precedingPosition = -Infinity;
+    for (const row of rows) {
+      const { position } = row.entry;
+      if (position !== undefined && position < currentPosition && position >= precedingPosition) {
+        preceding = row;
+        precedingPosition = position;
+      }
+    }
+    return preceding;
+  }, [rows, currentPosition]);
+
+  // Reveal the active entry whenever the modal opens
+  useEffect(() => {
+    if (visible && activeRow) {
+      setExpandedKeys((keys) => new Set([...keys, ...activeRow.ancestorKeys]));
+    }
+  }, [visible, activeRow]);
+
+  const visibleRows = useMemo(
+    () => rows.filter((row) => row.ancestorKeys.every((key) => expandedKeys.has(key))),
+    [rows, expandedKeys]
+  );
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys((keys) => {
+      const next = new Set(keys);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleRowPress = (row: TOCRow) => {
+    if (row.entry.position === undefined) {
+      if (row.entry.children) toggleExpanded(row.key);
+      return;
+    }
+    onEntrySelect(row.entry);
     onClose();
   };
 
+  const renderRow = ({ item }: { item: TOCRow }) => {
+    const isActive = item.key === activeRow?.key;
+    const isExpanded = expandedKeys.has(item.key);
+    const hasChildren = !!item.entry.children && item.entry.children.length > 0;
+    const isDisabled = item.entry.position === undefined && !hasChildren;
+    return (
+      <View
+        style={[
+          styles.chapterItem,
+          { marginLeft: item.depth * 16, backgroundColor: isActive ? colors.primary + '20' : 'transparent' },
+          isActive && { borderLeftColor: colors.primary, borderLeftWidth: 3 },
+        ]}
+      >
+        {hasChildren ? (
+          <TouchableOpacity
+            onPress={() => toggleExpanded(item.key)}
+            style={styles.expandButton}
+            accessibilityRole="button"
+            accessibilityLabel={`${isExpanded ? 'Collapse' : 'Expand'} ${item.entry.title}`}
+          >
+            {isExpanded ? (
+              <ChevronDownIcon size={18} color={colors.textSecondary} />
+            ) : (
+              <ChevronRightIcon size={18} color={colors.textSecondary} />
+            )}
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.expandSpacer} />
+        )}
+        <TouchableOpacity
+          style={styles.chapterButton}
+          onPress={() => handleRowPress(item)}
+          disabled={isDisabled}
+          accessibilityRole="button"
+          accessibilityState={{ selected: isActive, disabled: isDisabled }}
+        >
+          <Text
+            style={[
+              styles.chapterTitle,
+              item.depth > 0 && styles.nestedChapterTitle,
+              { color: isActive ? colors.primary : isDisabled ? colors.textSecondary : colors.text },
+            ]}
+          >
+            {item.entry.title}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const handleNotePress = (note: EPUBNote) => {
+    onClose();
+    onNoteSelect?.(note);
+  };
+
+  const renderNote = ({ item }: { item: EPUBNote }) => (
+    <TouchableOpacity
+      style={styles.noteItem}
+      onPress={() => handleNotePress(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`Note ${item.ref.label}`}
+    >
+      <Text style={[styles.noteLabel, { color: colors.primary }]}>{item.ref.label}</Text>
+      <Text style={[styles.noteText, { color: colors.text }]} numberOfLines={3}>
+        {item.text}
+      </Text>
+    </TouchableOpacity>
+  );
+
   return (
     <Modal
       visible={visible}
@@ -56,7 +206,32 @@ export function TOCModal({
             </TouchableOpacity>
           </View>
 
-          {chapters.length === 0 ? (
+          {showNotesTab && (
+            <View style={[styles.tabs, { borderBottomColor: colors.border }]}>
+              {(['contents', 'notes'] as const).map((tab) => (
+                <TouchableOpacity
+                  key={tab}
+                  onPress={() => setActiveTab(tab)}
+                  style={[styles.tab, activeTab === tab && { borderBottomColor: colors.primary }]}
+                  accessibilityRole="tab"
+                  accessibilityState={{ selected: activeTab === tab }}
+                >
+                  <Text style={[styles.tabText, { color: activeTab === tab ? colors.primary : colors.textSecondary }]}>
+                    {tab === 'contents' ? 'Contents' : `Notes (${notes.length})`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {activeTab === 'notes' && showNotesTab ? (
+            <FlatList
+              data={notes}
+              keyExtractor={(item, index) => `${item.ref.path}#${item.ref.fragment}:${index}`}
+              renderItem={renderNote}
+              contentContainerStyle={styles.listContent}
+            />
+          ) : rows.length === 0 ? (
             <View style={styles.emptyContainer}>
               <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
                 No table of contents available
@@ -64,27 +239,10 @@ export function TOCModal({
             </View>
           ) : (
             <FlatList
-              data={chapters}
-              keyExtractor={(item) => item.id}
-              renderItem={({ item, index }) => (
-                <TouchableOpacity
-                  style={[
-                    styles.chapterItem,
-                    { backgroundColor: index === currentChapter ? colors.primary + '20' : 'transparent' },
-                    index === currentChapter && { borderLeftColor: colors.primary, borderLeftWidth: 3 },
-                  ]}
-                  onPress={() => handleChapterPress(index)}
-                >
-                  <Text
-                    style={[
-                      styles.chapterTitle,
-                      { color: index === currentChapter ? colors.primary : colors.text },
-                    ]}
-                  >
-                    {item.title}
-                  </Text>
-                </TouchableOpacity>
-              )}
+              data={visibleRows}
+              keyExtractor={(item) => item.key}
+              renderItem={renderRow}
+              extraData={expandedKeys}
               contentContainerStyle={styles.listContent}
             />
           )}
@@ -123,14 +281,63 @@ const styles = StyleSheet.create({
     padding: 16,
   },
   chapterItem: {
-    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
     borderRadius: 8,
     marginBottom: 8,
   },
+  expandButton: {
+    paddingVertical: 16,
+    paddingLeft: 8,
+    paddingRight: 4,
+  },
+  expandSpacer: {
+    width: 30,
+  },
+  chapterButton: {
+    flex: 1,
+    paddingVertical: 16,
+    paddingRight: 16,
+  },
   chapterTitle: {
     fontSize: 16,
     fontWeight: '500',
   },
+  nestedChapterTitle: {
+    fontSize: 15,
+    fontWeight: '400',
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  noteItem: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  noteLabel: {
+    minWidth: 24,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  noteText: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 21,
+  },
   emptyContainer: {
     padding: 32,
     alignItems: 'center',
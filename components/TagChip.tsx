@@ -0,0 +1,76 @@
+/**
+ * Tag chip component
+ * Colored pill for a tag, optionally selectable
+ */
+
+import React from 'react';
+import { Text, TouchableOpacity, View, StyleSheet } from 'react-native';
+import { Tag } from '@/types';
+
+interface TagChipProps {
+  tag: Tag;
+  selected?: boolean;
+  size?: 'small' | 'medium';
+  onPress?: () => void;
+}
+
+export function TagChip({ tag, selected = false, size = 'small', onPress }: TagChipProps) {
+  const isSmall = size === 'small';
+  const chip = (
+    <View
+      style={[
+        styles.chip,
+        isSmall ? styles.chipSmall : styles.chipMedium,
+        { borderColor: tag.color, backgroundColor: selected ? tag.color : tag.color + '20' },
+      ]}
+    >
+      <Text
+        style={[styles.text, isSmall ? styles.textSmall : styles.textMedium, { color: selected ? '#ffffff' : tag.color }]}
+        numberOfLines={1}
+      >
+        {tag.name}
+      </Text>
+    </View>
+  );
+
+  if (!onPress) {
+    return chip;
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      accessibilityLabel={`Tag ${tag.name}`}
+    >
+      {chip}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    borderWidth: 1,
+    maxWidth: 160,
+  },
+  chipSmall: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  chipMedium: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  text: {
+    fontWeight: '500',
+  },
+  textSmall: {
+    fontSize: 11,
+  },
+  textMedium: {
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,435 @@
+/**
+ * Tag Editor Sheet Component
+ * Create, rename, recolor, merge and delete tags, and assign them to a document
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { XIcon, PlusIcon, CheckIcon, TrashIcon } from './Icons';
+import { TagChip } from './TagChip';
+import { Tag } from '@/types';
+import { useTagStore } from '@/stores/tagStore';
+import { useThemeStore, lightColors, darkColors } from '@/stores/themeStore';
+import { TAG_COLORS } from '@/utils/constants';
+
+interface TagEditorSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  documentId?: string | null; // When set, tags can be toggled on this document
+  documentTitle?: string;
+}
+
+export function TagEditorSheet({ visible, onClose, documentId, documentTitle }: TagEditorSheetProps) {
+  const resolvedTheme = useThemeStore((state) => state.resolvedTheme);
+  const colors = resolvedTheme === 'dark' ? darkColors : lightColors;
+  const { tags, documentTagIds, createTag, renameTag, recolorTag, mergeTags, deleteTagById, toggleDocumentTag } =
+    useTagStore();
+
+  const [newTagName, setNewTagName] = useState('');
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [mergingTagId, setMergingTagId] = useState<string | null>(null);
+
+  const assignedTagIds = documentId ? documentTagIds[documentId] ?? [] : [];
+
+  const showStoreError = (fallback: string) => {
+    Alert.alert('Error', useTagStore.getState().error ?? fallback);
+  };
+
+  const handleClose = () => {
+    setEditingTagId(null);
+    setMergingTagId(null);
+    setNewTagName('');
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    if (!newTagName.trim()) return;
+    const tag = await createTag(newTagName);
+    if (!tag) {
+      showStoreError('Could not create tag.');
+      return;
+    }
+    if (documentId && !assignedTagIds.includes(tag.id)) {
+      await toggleDocumentTag(documentId, tag.id);
+    }
+    setNewTagName('');
+  };
+
+  const handleStartEditing = (tag: Tag) => {
+    setMergingTagId(null);
+    if (editingTagId === tag.id) {
+      setEditingTagId(null);
+      return;
+    }
+    setEditingTagId(tag.id);
+    setEditingName(tag.name);
+  };
+
+  const handleRename = async (tag: Tag) => {
+    if (editingName.trim() === tag.name) return;
+    if (!(await renameTag(tag.id, editingName))) {
+      showStoreError('Could not rename tag.');
+      setEditingName(tag.name);
+    }
+  };
+
+  const handleRecolor = async (tag: Tag, color: string) => {
+    if (!(await recolorTag(tag.id, color))) {
+      showStoreError('Could not change tag color.');
+    }
+  };
+
+  const handleMerge = (source: Tag, target: Tag) => {
+    Alert.alert(
+      'Merge Tags',
+      `Move all documents tagged "${source.name}" to "${target.name}" and delete "${source.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          onPress: async () => {
+            if (await mergeTags(source.id, target.id)) {
+              setMergingTagId(null);
+              setEditingTagId(null);
+            } else {
+              showStoreError('Could not merge tags.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDelete = (tag: Tag) => {
+    Alert.alert('Delete Tag', `Delete "${tag.name}"? It will be removed from all documents.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteTagById(tag.id);
+          setEditingTagId(null);
+        },
+      },
+    ]);
+  };
+
+  const renderEditor = (tag: Tag) => (
+    <View style={[styles.editor, { borderTopColor: colors.border }]}>
+      <TextInput
+        value={editingName}
+        onChangeText={setEditingName}
+        onSubmitEditing={() => handleRename(tag)}
+        onBlur={() => handleRename(tag)}
+        style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+        placeholder="Tag name"
+        placeholderTextColor={colors.textSecondary}
+        returnKeyType="done"
+        accessibilityLabel="Tag name"
+      />
+
+      <View style={styles.swatches}>
+        {TAG_COLORS.map((color) => (
+          <TouchableOpacity
+            key={color}
+            onPress={() => handleRecolor(tag, color)}
+            style={[styles.swatch, { backgroundColor: color }, tag.color === color && styles.swatchSelected]}
+            accessibilityRole="button"
+            accessibilityLabel={`Color ${color}`}
+            accessibilityState={{ selected: tag.color === color }}
+          >
+            {tag.color === color && <CheckIcon size={14} color="#ffffff" />}
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mergingTagId === tag.id ? (
+        <View>
+          <Text style={[styles.hint, { color: colors.textSecondary }]}>Merge into:</Text>
+          <View style={styles.chipRow}>
+            {tags
+              .filter((target) => target.id !== tag.id)
+              .map((target) => (
+                <TagChip key={target.id} tag={target} size="medium" onPress={() => handleMerge(tag, target)} />
+              ))}
+          </View>
+        </View>
+      ) : (
+        <View style={styles.editorActions}>
+          <TouchableOpacity
+            onPress={() => setMergingTagId(tag.id)}
+            disabled={tags.length < 2}
+            style={[styles.textButton, tags.length < 2 && styles.disabled]}
+          >
+            <Text style={[styles.textButtonLabel, { color: colors.primary }]}>Merge…</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleDelete(tag)}
+            style={styles.textButton}
+            accessibilityLabel={`Delete tag ${tag.name}`}
+          >
+            <TrashIcon size={18} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderTag = ({ item }: { item: Tag }) => {
+    const isAssigned = assignedTagIds.includes(item.id);
+    return (
+      <View style={[styles.tagItem, { backgroundColor: colors.background, borderColor: colors.border }]}>
+        <View style={styles.tagRow}>
+          {documentId && (
+            <TouchableOpacity
+              onPress={() => toggleDocumentTag(documentId, item.id)}
+              style={[
+                styles.checkbox,
+                { borderColor: item.color, backgroundColor: isAssigned ? item.color : 'transparent' },
+              ]}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isAssigned }}
+              accessibilityLabel={`Tag with ${item.name}`}
+            >
+              {isAssigned && <CheckIcon size={14} color="#ffffff" />}
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.tagLabel}
+            onPress={() => handleStartEditing(item)}
+            accessibilityRole="button"
+            accessibilityLabel={`Edit tag ${item.name}`}
+          >
+            <View style={[styles.colorDot, { backgroundColor: item.color }]} />
+            <Text style={[styles.tagName, { color: colors.text }]} numberOfLines={1}>
+              {item.name}
+            </Text>
+            <Text style={[styles.editLabel, { color: colors.textSecondary }]}>
+              {editingTagId === item.id ? 'Done' : 'Edit'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {editingTagId === item.id && renderEditor(item)}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: colors.surface }]}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: colors.text }]}>Tags</Text>
+              {documentTitle && (
+                <Text style={[styles.subtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {documentTitle}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <XIcon size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.createRow}>
+            <TextInput
+              value={newTagName}
+              onChangeText={setNewTagName}
+              onSubmitEditing={handleCreate}
+              style={[
+                styles.input,
+                styles.createInput,
+                { color: colors.text, borderColor: colors.border, backgroundColor: colors.background },
+              ]}
+              placeholder="New tag"
+              placeholderTextColor={colors.textSecondary}
+              returnKeyType="done"
+              accessibilityLabel="New tag name"
+            />
+            <TouchableOpacity
+              onPress={handleCreate}
+              style={[styles.addButton, { backgroundColor: colors.primary }]}
+              accessibilityLabel="Create tag"
+            >
+              <PlusIcon size={20} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
+
+          {tags.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No tags yet</Text>
+            </View>
+          ) : (
+            <FlatList
+              data={tags}
+              keyExtractor={(item) => item.id}
+              renderItem={renderTag}
+              extraData={[editingTagId, mergingTagId, editingName, assignedTagIds]}
+              contentContainerStyle={styles.listContent}
+              keyboardShouldPersistTaps="handled"
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  createInput: {
+    flex: 1,
+  },
+  addButton: {
+    padding: 10,
+    borderRadius: 8,
+  },
+  listContent: {
+    padding: 16,
+  },
+  tagItem: {
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 12,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tagLabel: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  tagName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  editLabel: {
+    fontSize: 14,
+  },
+  editor: {
+    borderTopWidth: 1,
+    padding: 12,
+    gap: 12,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  swatchSelected: {
+    borderWidth: 2,
+    borderColor: '#ffffff',
+  },
+  hint: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  textButton: {
+    padding: 4,
+  },
+  textButtonLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  emptyContainer: {
+    padding: 32,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+  },
+});
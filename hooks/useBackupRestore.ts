@@ -0,0 +1,48 @@
+/**
+ * Backup restore hook
+ * Restores a backup archive, reloads the library stores and reports the
+ * outcome, for every screen that offers a restore
+ */
+
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useDocumentStore } from '@/stores/documentStore';
+import { useCollectionStore } from '@/stores/collectionStore';
+import { useSmartCollectionStore } from '@/stores/smartCollectionStore';
+import { useTagStore } from '@/stores/tagStore';
+import { restoreBackup, RestoreMode, RestoreResult } from '@/services/backupService';
+
+function countLabel(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describeRestore(result: RestoreResult): string {
+  const documents = countLabel(result.inserted.documents ?? 0, 'document');
+  const highlights = countLabel(result.inserted.highlights ?? 0, 'highlight');
+  return `Restored ${documents} and ${highlights}.`;
+}
+
+/**
+ * Returns a function that restores a backup and alerts with the result.
+ * Errors are reported to the user, not thrown.
+ */
+export function useBackupRestore(): (fileUri: string, mode: RestoreMode) => Promise<void> {
+  const loadDocuments = useDocumentStore((state) => state.loadDocuments);
+  const loadCollections = useCollectionStore((state) => state.loadCollections);
+  const loadSmartCollections = useSmartCollectionStore((state) => state.loadSmartCollections);
+  const loadTags = useTagStore((state) => state.loadTags);
+
+  return useCallback(
+    async (fileUri: string, mode: RestoreMode) => {
+      try {
+        const result = await restoreBackup(fileUri, mode);
+        await Promise.all([loadDocuments(), loadCollections(), loadSmartCollections(), loadTags()]);
+        Alert.alert('Restore Complete', describeRestore(result));
+      } catch (error) {
+        console.error('Error restoring backup:', error);
+        Alert.alert('Restore Failed', error instanceof Error ? error.message : 'Could not restore backup.');
+      }
+    },
+    [loadDocuments, loadCollections, loadSmartCollections, loadTags]
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Generate the Shift-JIS decoding table used for plain-text import
+ * Run with: node scripts/generate-shift-jis-table.js
+ *
+ * Needs a Node.js build with full ICU (the default), whose TextDecoder knows
+ * Shift-JIS. React Native's runtime only decodes UTF-8, so the app ships the
+ * table instead.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const decoder = new TextDecoder('shift_jis', { fatal: true });
+
+// Lead bytes of double-byte characters, and the trail bytes that follow them
+const leadBytes = [];
+for (let byte = 0x81; byte <= 0xfc; byte++) {
+  if (byte <= 0x9f || byte >= 0xe0) leadBytes.push(byte);
+}
+const trailBytes = [];
+for (let byte = 0x40; byte <= 0xfc; byte++) {
+  if (byte !== 0x7f) trailBytes.push(byte);
+}
+
+function escapeChar(char) {
+  const code = char.charCodeAt(0);
+  const invisible =
+    code < 0x20 ||
+    (code >= 0x7f && code <= 0x9f) ||
+    code === 0x2028 ||
+    code === 0x2029 ||
+    (code >= 0xe000 && code <= 0xf8ff) ||
+    code === 0xfffd;
+  if (invisible) return `\\u${code.toString(16).padStart(4, '0')}`;
+  if (char === '\\' || char === "'") return `\\${char}`;
+  return char;
+}
+
+const rows = leadBytes.map((lead) => {
+  let row = '';
+  for (const trail of trailBytes) {
+    let char = '�';
+    try {
+      const decoded = decoder.decode(new Uint8Array([lead, trail]));
+      if (decoded.length === 1) char = decoded;
+    } catch {
+      // Unassigned code: keep the replacement character
+    }
+    row += escapeChar(char);
+  }
+  return `  '${row}',`;
+});
+
+const output = `/**
+ * Shift-JIS Table
+ * Double-byte Shift-JIS characters, generated by scripts/generate-shift-jis-table.js.
+ * Do not edit by hand.
+ */
+
+// One row per lead byte (0x81-0x9F, 0xE0-0xFC), ${trailBytes.length} trail bytes
+// (0x40-0xFC without 0x7F) each; U+FFFD marks unassigned codes
+export const SHIFT_JIS_ROWS: string[] = [
+${rows.join('\n')}
+];
+`;
+
+const target = path.join(__dirname, '..', 'utils', 'shiftJISTable.ts');
+fs.writeFileSync(target, output);
+console.log(`Wrote ${leadBytes.length * trailBytes.length} entries to ${path.relative(process.cwd(), target)}`);
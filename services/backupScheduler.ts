@@ -0,0 +1,73 @@
+/**
+ * Backup Scheduler
+ * Writes automatic backups on app start and foreground when Auto Backup is enabled
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import { ReaderSettings } from '@/types';
+import { createLocalBackup, listBackups, pruneBackups } from './backupService';
+
+const DEFAULT_INTERVAL_HOURS = 24;
+const DEFAULT_KEEP_COUNT = 7;
+
+let isRunning = false;
+
+export type BackupRunResult =
+  | { status: 'created'; uri: string }
+  | { status: 'skipped'; reason: 'disabled' | 'running' | 'recent' }
+  | { status: 'failed'; error: unknown };
+
+/**
+ * Create a backup if Auto Backup is on and the newest backup is older than the
+ * configured interval, then rotate old backups. `force` skips both checks.
+ */
+export async function runScheduledBackup(
+  settings: ReaderSettings,
+  force: boolean = false
+): Promise<BackupRunResult> {
+  if (!settings.autoBackup && !force) {
+    return { status: 'skipped', reason: 'disabled' };
+  }
+  if (isRunning) {
+    return { status: 'skipped', reason: 'running' };
+  }
+
+  isRunning = true;
+  try {
+    const intervalMs = (settings.autoBackupIntervalHours ?? DEFAULT_INTERVAL_HOURS) * 60 * 60 * 1000;
+    const [latest] = await listBackups();
+    if (!force && latest && Date.now() - latest.createdAt.getTime() < intervalMs) {
+      return { status: 'skipped', reason: 'recent' };
+    }
+
+    // Document files make every copy as large as the library, so they are opt-in
+    const backupUri = await createLocalBackup({ includeDocuments: settings.autoBackupIncludeDocuments ?? false });
+    await pruneBackups(settings.autoBackupKeepCount ?? DEFAULT_KEEP_COUNT);
+    console.log('Automatic backup written:', backupUri);
+    return { status: 'created', uri: backupUri };
+  } catch (error) {
+    console.error('Automatic backup failed:', error);
+    return { status: 'failed', error };
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Run a backup check now and whenever the app returns to the foreground.
+ * Settings are read on every check so toggling Auto Backup takes effect immediately.
+ * Returns a function that stops the scheduler.
+ */
+export function startBackupScheduler(getSettings: () => ReaderSettings): () => void {
+  runScheduledBackup(getSettings());
+
+  let lastState: AppStateStatus = AppState.currentState;
+  const subscription = AppState.addEventListener('change', (nextState) => {
+    if (lastState.match(/inactive|background/) && nextState === 'active') {
+      runScheduledBackup(getSettings());
+    }
+    lastState = nextState;
+  });
+
+  return () => subscription.remove();
+}
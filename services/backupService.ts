@@ -0,0 +1,453 @@
+/**
+ * Backup Service
+ * Creates and restores versioned .readus archives with all tables, documents and thumbnails
+ */
+
+import { Platform, Alert } from 'react-native';
+import * as FileSystemLegacy from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+import { SmartCollectionRule } from '@/types';
+import {
+  BACKUP_TABLES,
+  BackupRows,
+  BackupTable,
+  getAllDocuments,
+  getAllTags,
+  getTableRows,
+  restoreTableRows,
+} from './database';
+
+// Conditional import for expo-document-picker
+let DocumentPicker: any = null;
+try {
+  if (Platform.OS === 'ios' || Platform.OS === 'android') {
+    DocumentPicker = require('expo-document-picker');
+  }
+} catch (e) {
+  console.warn('expo-document-picker not available:', e);
+}
+
+export const BACKUP_FORMAT = 'readus-backup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_EXTENSION = 'readus';
+
+// Directories (relative to the app document directory) whose files are archived
+const FILE_DIRECTORIES = ['documents', 'thumbnails'];
+
+// Already-compressed files, stored as they are instead of being deflated again
+const STORED_EXTENSIONS = new Set(['pdf', 'epub', 'cbz', 'docx', 'zip', 'jpg', 'jpeg', 'png', 'gif', 'webp']);
+
+// Local directory for automatic backups (never itself archived)
+export const BACKUPS_DIR = `${FileSystemLegacy.documentDirectory || ''}backups/`;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  platform: string;
+  tables: Partial<Record<BackupTable, number>>; // Row counts
+  files: string[]; // Paths relative to the document directory
+  directories?: string[]; // Directories archived in full; absent in backups that archived them all
+}
+
+export interface BackupOptions {
+  includeDocuments?: boolean; // Archive the document files themselves (default: true)
+}
+
+export interface BackupFileInfo {
+  name: string;
+  uri: string;
+  size: number; // bytes
+  createdAt: Date;
+}
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  manifest: BackupManifest;
+  inserted: Partial<Record<BackupTable, number>>;
+  filesRestored: number;
+}
+
+function getDocumentDirectory(): string {
+  if (!FileSystemLegacy.documentDirectory) {
+    throw new Error('Document directory not available');
+  }
+  return FileSystemLegacy.documentDirectory;
+}
+
+function getFileName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Point a stored file URI at the same file under the current document directory.
+ * App container paths change between installs, so only the last segments are kept.
+ */
+function relocatePath(path: string | null | undefined, directory: string): string | null | undefined {
+  if (!path || !path.includes(`/${directory}/`)) return path;
+  return `${getDocumentDirectory()}${directory}/${getFileName(path)}`;
+}
+
+function formatTimestamp(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Create a backup archive and return its file URI.
+ * Defaults to a timestamped file in the cache directory.
+ * Without document files a backup holds the library's data and covers only,
+ * and restoring it relies on the documents still being on the device.
+ */
+export async function createBackup(destinationUri?: string, options: BackupOptions = {}): Promise<string> {
+  const zip = new JSZip();
+  const directories =
+    options.includeDocuments === false
+      ? FILE_DIRECTORIES.filter((directory) => directory !== 'documents')
+      : FILE_DIRECTORIES;
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    platform: Platform.OS,
+    tables: {},
+    files: [],
+    directories,
+  };
+
+  for (const table of BACKUP_TABLES) {
+    const rows = await getTableRows(table);
+    manifest.tables[table] = rows.length;
+    zip.file(`tables/${table}.json`, JSON.stringify(rows));
+  }
+
+  const documentDirectory = getDocumentDirectory();
+  for (const directory of directories) {
+    const directoryUri = `${documentDirectory}${directory}/`;
+    const dirInfo = await FileSystemLegacy.getInfoAsync(directoryUri);
+    if (!dirInfo.exists) continue;
+
+    const fileNames = await FileSystemLegacy.readDirectoryAsync(directoryUri);
+    for (const fileName of fileNames) {
+      try {
+        const fileInfo = await FileSystemLegacy.getInfoAsync(`${directoryUri}${fileName}`);
+        if (!fileInfo.exists || fileInfo.isDirectory) continue;
+        const base64Data = await FileSystemLegacy.readAsStringAsync(`${directoryUri}${fileName}`, {
+          encoding: FileSystemLegacy.EncodingType.Base64,
+        });
+        const relativePath = `${directory}/${fileName}`;
+        const extension = fileName.substring(fileName.lastIndexOf('.') + 1).toLowerCase();
+        zip.file(`files/${relativePath}`, base64Data, {
+          base64: true,
+          compression: STORED_EXTENSIONS.has(extension) ? 'STORE' : 'DEFLATE',
+        });
+        manifest.files.push(relativePath);
+      } catch (error) {
+        console.warn(`Skipping ${directory}/${fileName} in backup:`, error);
+      }
+    }
+  }
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  const archive = await zip.generateAsync({ type: 'base64', compression: 'DEFLATE' });
+  const fileUri =
+    destinationUri ||
+    `${FileSystemLegacy.cacheDirectory}readus-backup-${formatTimestamp(new Date())}.${BACKUP_EXTENSION}`;
+  await FileSystemLegacy.writeAsStringAsync(fileUri, archive, {
+    encoding: FileSystemLegacy.EncodingType.Base64,
+  });
+  return fileUri;
+}
+
+/**
+ * Create a backup and open the share sheet for it
+ */
+export async function shareBackup(): Promise<void> {
+  await shareBackupFile(await createBackup());
+}
+
+/**
+ * Open the share sheet for an existing backup archive
+ */
+export async function shareBackupFile(fileUri: string): Promise<void> {
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'application/zip',
+    dialogTitle: 'Save Backup',
+  });
+}
+
+/**
+ * Create the local backups directory if needed
+ */
+export async function initBackupsDirectory(): Promise<void> {
+  const dirInfo = await FileSystemLegacy.getInfoAsync(BACKUPS_DIR);
+  if (!dirInfo.exists) {
+    await FileSystemLegacy.makeDirectoryAsync(BACKUPS_DIR, { intermediates: true });
+  }
+}
+
+/**
+ * Create a timestamped backup in the local backups directory
+ */
+export async function createLocalBackup(options: BackupOptions = {}): Promise<string> {
+  await initBackupsDirectory();
+  return createBackup(`${BACKUPS_DIR}readus-backup-${formatTimestamp(new Date())}.${BACKUP_EXTENSION}`, options);
+}
+
+/**
+ * List local backups, newest first
+ */
+export async function listBackups(): Promise<BackupFileInfo[]> {
+  const dirInfo = await FileSystemLegacy.getInfoAsync(BACKUPS_DIR);
+  if (!dirInfo.exists) return [];
+
+  const backups: BackupFileInfo[] = [];
+  for (const name of await FileSystemLegacy.readDirectoryAsync(BACKUPS_DIR)) {
+    if (!name.endsWith(`.${BACKUP_EXTENSION}`)) continue;
+    const uri = `${BACKUPS_DIR}${name}`;
+    const info = await FileSystemLegacy.getInfoAsync(uri);
+    if (!info.exists || info.isDirectory) continue;
+    backups.push({
+      name,
+      uri,
+      size: info.size ?? 0,
+      // modificationTime is in seconds
+      createdAt: new Date((info.modificationTime ?? 0) * 1000),
+    });
+  }
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function deleteBackup(fileUri: string): Promise<void> {
+  await FileSystemLegacy.deleteAsync(fileUri, { idempotent: true });
+}
+
+/**
+ * Delete all but the newest `keepCount` local backups. Returns how many were deleted.
+ */
+export async function pruneBackups(keepCount: number): Promise<number> {
+  const backups = await listBackups();
+  const expired = backups.slice(Math.max(1, keepCount));
+  for (const backup of expired) {
+    await deleteBackup(backup.uri);
+  }
+  return expired.length;
+}
+
+/**
+ * Ask how a backup should be restored. Resolves to null if cancelled.
+ */
+export function promptRestoreMode(): Promise<RestoreMode | null> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      'Restore Backup',
+      'Merge keeps your current library and adds anything missing. Replace deletes your current library first.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+        { text: 'Merge', onPress: () => resolve('merge') },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () =>
+            Alert.alert('Replace Library?', 'All current documents, highlights and notes will be deleted.', [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+              { text: 'Replace', style: 'destructive', onPress: () => resolve('replace') },
+            ]),
+        },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+}
+
+/**
+ * Let the user pick a backup archive. Returns its URI, or null if cancelled.
+ */
+export async function pickBackupFile(): Promise<string | null> {
+  if (!DocumentPicker) {
+    throw new Error('Document picker requires a development build.');
+  }
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/zip', 'application/octet-stream', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets || result.assets.length === 0) {
+    return null;
+  }
+  return result.assets[0].uri;
+}
+
+async function readManifest(zip: JSZip): Promise<BackupManifest> {
+  const manifestJson = await zip.file('manifest.json')?.async('string');
+  if (!manifestJson) {
+    throw new Error('This file is not a Readus backup.');
+  }
+  const manifest = JSON.parse(manifestJson) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Readus backup.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update and try again.');
+  }
+  return manifest;
+}
+
+/**
+ * Point tag rules in a smart collection's JSON-encoded rules at the mapped tag IDs
+ */
+function remapSmartCollectionTags(rulesJson: string, tagIdMap: Map<string, string>): string {
+  if (tagIdMap.size === 0) return rulesJson;
+  try {
+    const rules = JSON.parse(rulesJson) as SmartCollectionRule[];
+    return JSON.stringify(
+      rules.map((rule) =>
+        rule.field === 'tags' ? { ...rule, tagIds: rule.tagIds.map((id) => tagIdMap.get(id) ?? id) } : rule
+      )
+    );
+  } catch {
+    return rulesJson;
+  }
+}
+
+/**
+ * Rewrite backup rows so they fit into the existing library when merging.
+ * Documents already present (same ID or same file) and tags with the same name
+ * are mapped onto the local rows, and child rows follow the mapping.
+ */
+async function remapForMerge(rows: BackupRows): Promise<BackupRows> {
+  const existingDocuments = await getAllDocuments();
+  const documentIds = new Set(existingDocuments.map((doc) => doc.id));
+  const documentIdsByFile = new Map(existingDocuments.map((doc) => [getFileName(doc.filePath), doc.id]));
+  const tagIdsByName = new Map((await getAllTags()).map((tag) => [tag.name, tag.id]));
+
+  const documentIdMap = new Map<string, string>();
+  for (const doc of rows.documents || []) {
+    if (documentIds.has(doc.id)) continue;
+    const existingId = documentIdsByFile.get(getFileName(doc.filePath || ''));
+    if (existingId) {
+      documentIdMap.set(doc.id, existingId);
+    }
+  }
+
+  const tagIdMap = new Map<string, string>();
+  for (const tag of rows.tags || []) {
+    const existingId = tagIdsByName.get(tag.name);
+    if (existingId && existingId !== tag.id) {
+      tagIdMap.set(tag.id, existingId);
+    }
+  }
+
+  const mapDocument = (row: Record<string, any>) => ({
+    ...row,
+    documentId: documentIdMap.get(row.documentId) ?? row.documentId,
+  });
+
+  return {
+    ...rows,
+    documents: (rows.documents || []).filter((doc) => !documentIdMap.has(doc.id)),
+    tags: (rows.tags || []).filter((tag) => !tagIdMap.has(tag.id)),
+    document_tags: (rows.document_tags || []).map((row) => ({
+      ...mapDocument(row),
+      tagId: tagIdMap.get(row.tagId) ?? row.tagId,
+    })),
+    collection_documents: (rows.collection_documents || []).map(mapDocument),
+    smart_collections: (rows.smart_collections || []).map((row) => ({
+      ...row,
+      rules: remapSmartCollectionTags(row.rules, tagIdMap),
+    })),
+    reading_positions: (rows.reading_positions || []).map((row) => {
+      const mapped = mapDocument(row);
+      // Reading position IDs are derived from the document ID
+      return row.id === `${row.documentId}-position` ? { ...mapped, id: `${mapped.documentId}-position` } : mapped;
+    }),
+    highlights: (rows.highlights || []).map(mapDocument),
+    notes: (rows.notes || []).map(mapDocument),
+    bookmarks: (rows.bookmarks || []).map(mapDocument),
+    reading_sessions: (rows.reading_sessions || []).map(mapDocument),
+  };
+}
+
+async function clearFileDirectories(directories: string[]): Promise<void> {
+  const documentDirectory = getDocumentDirectory();
+  for (const directory of directories) {
+    const directoryUri = `${documentDirectory}${directory}/`;
+    const dirInfo = await FileSystemLegacy.getInfoAsync(directoryUri);
+    if (dirInfo.exists) {
+      await FileSystemLegacy.deleteAsync(directoryUri, { idempotent: true });
+    }
+  }
+}
+
+/**
+ * Restore a backup archive.
+ *
+ * `replace` wipes the library (tables, and the files of every directory the
+ * backup archived) before restoring. `merge` keeps local data and only adds
+ * what is missing from the backup.
+ */
+export async function restoreBackup(fileUri: string, mode: RestoreMode): Promise<RestoreResult> {
+  const archive = await FileSystemLegacy.readAsStringAsync(fileUri, {
+    encoding: FileSystemLegacy.EncodingType.Base64,
+  });
+  const zip = await JSZip.loadAsync(archive, { base64: true });
+  const manifest = await readManifest(zip);
+
+  // Read every table before touching local data so a damaged archive fails early
+  let rows: BackupRows = {};
+  for (const table of BACKUP_TABLES) {
+    const tableJson = await zip.file(`tables/${table}.json`)?.async('string');
+    rows[table] = tableJson ? JSON.parse(tableJson) : [];
+  }
+
+  rows.documents = (rows.documents || []).map((doc) => ({
+    ...doc,
+    filePath: relocatePath(doc.filePath, 'documents'),
+    coverImagePath: relocatePath(doc.coverImagePath, 'thumbnails'),
+  }));
+
+  if (mode === 'merge') {
+    rows = await remapForMerge(rows);
+  }
+
+  // Restore rows in a single transaction before any local files are removed
+  const inserted = await restoreTableRows(rows, mode === 'replace');
+  if (mode === 'replace') {
+    // Files left out of the backup (documents, for automatic backups) stay where they are
+    await clearFileDirectories(manifest.directories ?? FILE_DIRECTORIES);
+  }
+
+  const documentDirectory = getDocumentDirectory();
+  let filesRestored = 0;
+  for (const relativePath of manifest.files) {
+    const entry = zip.file(`files/${relativePath}`);
+    if (!entry || relativePath.includes('..')) continue;
+
+    // Keep local files when merging
+    const targetUri = `${documentDirectory}${relativePath}`;
+    const targetInfo = await FileSystemLegacy.getInfoAsync(targetUri);
+    if (targetInfo.exists) continue;
+
+    const directoryUri = targetUri.substring(0, targetUri.lastIndexOf('/') + 1);
+    const dirInfo = await FileSystemLegacy.getInfoAsync(directoryUri);
+    if (!dirInfo.exists) {
+      await FileSystemLegacy.makeDirectoryAsync(directoryUri, { intermediates: true });
+    }
+    await FileSystemLegacy.writeAsStringAsync(targetUri, await entry.async('base64'), {
+      encoding: FileSystemLegacy.EncodingType.Base64,
+    });
+    filesRestored++;
+  }
+
+  return { mode, manifest, inserted, filesRestored };
+}
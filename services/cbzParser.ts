@@ -0,0 +1,337 @@
+/**
+ * CBZ Parser Service
+ * Reads comic book archives: a ZIP of page images, read in file name order.
+ * Only the archive's directory and the pages being shown are read from the
+ * file, and pages are extracted to disk, so large comics never sit in memory.
+ */
+
+import * as FileSystemLegacy from 'expo-file-system/legacy';
+import { inflateRaw } from 'pako';
+import { base64ToBytes, bytesToBase64, toFileUri } from '@/utils/fileData';
+import { createTextDecoder } from '@/utils/textEncoding';
+import { compareNatural } from '@/utils/naturalSort';
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+};
+
+const PAGE_CACHE_DIR = FileSystemLegacy.cacheDirectory ? `${FileSystemLegacy.cacheDirectory}cbz-pages/` : null;
+
+// ZIP record signatures and sizes
+const END_OF_DIRECTORY = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+
+interface CBZEntry {
+  method: number; // 0 = stored, 8 = deflated
+  compressedSize: number;
+  size: number;
+  headerOffset: number; // Offset of the entry's local header in the file
+}
+
+interface CBZArchive {
+  fileUri: string;
+  entries: Map<string, CBZEntry>;
+  pages: string[];
+}
+
+// The directory of the open book; page images live on disk
+const ARCHIVE_CACHE_SIZE = 1;
+const archiveCache = new Map<string, Promise<CBZArchive>>();
+
+// Extracted pages by book and archive path, as URIs for <Image>
+const pageCache = new Map<string, Promise<string>>();
+
+async function readRange(fileUri: string, position: number, length: number): Promise<Uint8Array> {
+  if (length <= 0) return new Uint8Array(0);
+  const base64Data = await FileSystemLegacy.readAsStringAsync(fileUri, {
+    encoding: FileSystemLegacy.EncodingType.Base64,
+    position,
+    length,
+  });
+  return base64ToBytes(base64Data);
+}
+
+function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * Stable short key for a book's page directory
+ */
+function bookCacheKey(bookPath: string): string {
+  let hash = 5381;
+  for (let i = 0; i < bookPath.length; i++) {
+    hash = ((hash << 5) + hash + bookPath.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function imageType(path: string): string | undefined {
+  return IMAGE_TYPES[path.split('.').pop()?.toLowerCase() ?? ''];
+}
+
+/**
+ * Find where the central directory is and how many entries it has, from the
+ * end-of-directory record (and its ZIP64 counterpart for very large files)
+ */
+async function readDirectoryLocation(
+  fileUri: string,
+  fileSize: number
+): Promise<{ offset: number; size: number }> {
+  const tailLength = Math.min(fileSize, END_OF_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+  const tailStart = fileSize - tailLength;
+  const tail = await readRange(fileUri, tailStart, tailLength);
+  const view = dataView(tail);
+
+  let end = -1;
+  for (let i = tail.length - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  let size = view.getUint32(end + 12, true);
+  let offset = view.getUint32(end + 16, true);
+  if ((offset === 0xffffffff || size === 0xffffffff) && end >= 20 && view.getUint32(end - 20, true) === ZIP64_END_LOCATOR) {
+    const zip64End = await readRange(fileUri, readUint64(view, end - 12), 56);
+    const zip64View = dataView(zip64End);
+    size = readUint64(zip64View, 40);
+    offset = readUint64(zip64View, 48);
+  }
+  return { offset, size };
+}
+
+/**
+ * Read the archive's central directory: names, sizes and where each entry is
+ */
+async function readCBZArchive(filePath: string): Promise<CBZArchive> {
+  const fileUri = toFileUri(filePath);
+  const info = await FileSystemLegacy.getInfoAsync(fileUri);
+  if (!info.exists) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const location = await readDirectoryLocation(fileUri, info.size);
+  const directory = await readRange(fileUri, location.offset, location.size);
+  const view = dataView(directory);
+  const entries = new Map<string, CBZEntry>();
+
+  let position = 0;
+  while (position + 46 <= directory.length && view.getUint32(position, true) === DIRECTORY_ENTRY) {
+    const method = view.getUint16(position + 10, true);
+    let compressedSize = view.getUint32(position + 20, true);
+    let size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    let headerOffset = view.getUint32(position + 42, true);
+    const nameStart = position + 46;
+    const path = createTextDecoder('utf-8').decode(directory.subarray(nameStart, nameStart + nameLength), true);
+
+    // ZIP64 extra field: 64-bit values for whichever fields are saturated, in order
+    let extra = nameStart + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = view.getUint16(extra, true);
+      const length = view.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (size === 0xffffffff) {
+          size = readUint64(view, field);
+          field += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(view, field);
+          field += 8;
+        }
+        if (headerOffset === 0xffffffff) {
+          headerOffset = readUint64(view, field);
+        }
+      }
+      extra += 4 + length;
+    }
+
+    if (!path.endsWith('/')) {
+      entries.set(path, { method, compressedSize, size, headerOffset });
+    }
+    position = extraEnd + commentLength;
+  }
+
+  return { fileUri, entries, pages: listPages(entries) };
+}
+
+/**
+ * Get an archive's directory, reusing the open book
+ */
+function openCBZArchive(filePath: string): Promise<CBZArchive> {
+  const cached = archiveCache.get(filePath);
+  if (cached) return cached;
+
+  const pending = readCBZArchive(filePath);
+  archiveCache.set(filePath, pending);
+  pending.catch(() => {
+    if (archiveCache.get(filePath) === pending) archiveCache.delete(filePath);
+  });
+  while (archiveCache.size > ARCHIVE_CACHE_SIZE) {
+    archiveCache.delete(archiveCache.keys().next().value as string);
+  }
+  return pending;
+}
+
+/**
+ * Read one entry's contents as base64
+ */
+async function readEntry(archive: CBZArchive, path: string): Promise<string> {
+  const entry = archive.entries.get(path);
+  if (!entry) {
+    throw new Error(`Page not found in archive: ${path}`);
+  }
+
+  const header = await readRange(archive.fileUri, entry.headerOffset, LOCAL_HEADER_SIZE);
+  const view = dataView(header);
+  if (header.length < LOCAL_HEADER_SIZE || view.getUint32(0, true) !== LOCAL_HEADER) {
+    throw new Error(`Damaged archive entry: ${path}`);
+  }
+  const dataStart = entry.headerOffset + LOCAL_HEADER_SIZE + view.getUint16(26, true) + view.getUint16(28, true);
+
+  if (entry.method === 0) {
+    // Stored (usual for images): the file's bytes are the page's bytes
+    return FileSystemLegacy.readAsStringAsync(archive.fileUri, {
+      encoding: FileSystemLegacy.EncodingType.Base64,
+      position: dataStart,
+      length: entry.size,
+    });
+  }
+  if (entry.method === 8) {
+    return bytesToBase64(inflateRaw(await readRange(archive.fileUri, dataStart, entry.compressedSize)));
+  }
+  throw new Error(`Unsupported compression method ${entry.method}: ${path}`);
+}
+
+/**
+ * Archive paths of the page images in reading order. Folders (one per
+ * chapter, say) sort along with the names, and macOS resource forks and
+ * hidden files are skipped.
+ */
+function listPages(entries: Map<string, CBZEntry>): string[] {
+  const pages: string[] = [];
+  for (const path of entries.keys()) {
+    if (!imageType(path)) continue;
+    if (path.startsWith('__MACOSX/') || path.split('/').some((part) => part.startsWith('.'))) continue;
+    pages.push(path);
+  }
+  return pages.sort(compareNatural);
+}
+
+/**
+ * List a comic's pages as archive paths, in reading order
+ */
+export async function getCBZPages(filePath: string): Promise<string[]> {
+  try {
+    return (await openCBZArchive(filePath)).pages;
+  } catch (error) {
+    console.error('Error reading CBZ pages:', error);
+    return [];
+  }
+}
+
+/**
+ * Extract one page image for <Image>: a file in the book's page directory on
+ * native, a data URI where there is no cache directory
+ */
+export function getCBZPageImage(filePath: string, pagePath: string): Promise<string> {
+  const key = `${filePath}\n${pagePath}`;
+  const cached = pageCache.get(key);
+  if (cached) return cached;
+
+  const pending = openCBZArchive(filePath).then(async (archive) => {
+    if (!PAGE_CACHE_DIR) {
+      return `data:${imageType(pagePath)};base64,${await readEntry(archive, pagePath)}`;
+    }
+    const directory = `${PAGE_CACHE_DIR}${bookCacheKey(filePath)}/`;
+    const pageUri = `${directory}${archive.pages.indexOf(pagePath)}.${pagePath.split('.').pop()?.toLowerCase()}`;
+    const info = await FileSystemLegacy.getInfoAsync(pageUri);
+    if (!info.exists) {
+      await FileSystemLegacy.makeDirectoryAsync(directory, { intermediates: true });
+      await FileSystemLegacy.writeAsStringAsync(pageUri, await readEntry(archive, pagePath), {
+        encoding: FileSystemLegacy.EncodingType.Base64,
+      });
+    }
+    return pageUri;
+  });
+  pageCache.set(key, pending);
+  pending.catch(() => {
+    if (pageCache.get(key) === pending) pageCache.delete(key);
+  });
+  return pending;
+}
+
+/**
+ * Extract pages ahead of time so turning to them shows no loading state
+ */
+export function prefetchCBZPages(filePath: string, pagePaths: string[]): void {
+  for (const pagePath of pagePaths) {
+    getCBZPageImage(filePath, pagePath).catch((error) => {
+      console.warn('Error prefetching CBZ page:', error);
+    });
+  }
+}
+
+/**
+ * Write the first page to a file, for the cover thumbnail.
+ * Returns false when the comic has no pages.
+ */
+export async function saveCBZCoverImage(filePath: string, destinationUri: string): Promise<boolean> {
+  try {
+    const archive = await openCBZArchive(filePath);
+    const [firstPage] = archive.pages;
+    if (!firstPage) return false;
+    await FileSystemLegacy.writeAsStringAsync(destinationUri, await readEntry(archive, firstPage), {
+      encoding: FileSystemLegacy.EncodingType.Base64,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error reading CBZ cover:', error);
+    return false;
+  }
+}
+
+/**
+ * Drop a comic (or every comic) from the caches, deleting its extracted pages
+ */
+export async function evictCBZArchive(filePath?: string): Promise<void> {
+  if (filePath) {
+    archiveCache.delete(filePath);
+    for (const key of [...pageCache.keys()]) {
+      if (key.startsWith(`${filePath}\n`)) pageCache.delete(key);
+    }
+  } else {
+    archiveCache.clear();
+    pageCache.clear();
+  }
+  if (!PAGE_CACHE_DIR) return;
+  const directory = filePath ? `${PAGE_CACHE_DIR}${bookCacheKey(filePath)}/` : PAGE_CACHE_DIR;
+  try {
+    await FileSystemLegacy.deleteAsync(directory, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting extracted CBZ pages:', error);
+  }
+}
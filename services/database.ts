@@ -3,35 +3,55 @@
  * Handles all database operations for local-first storage
  */
 
-import { Platform } from 'react-native';
-import { Document, Tag, DocumentTag, ReadingPosition, Highlight, Note, Collection, Bookmark } from '@/types';
+import {
+  Document,
+  Tag,
+  DocumentTag,
+  ReadingPosition,
+  Highlight,
+  Note,
+  Collection,
+  SmartCollection,
+  SmartCollectionRule,
+  Bookmark,
+  TextLocator,
+  TOCEntry,
+} from '@/types';
 import { dbCache, cacheKeys } from './databaseCache';
-
-// Conditional import for expo-sqlite
-let SQLite: any = null;
-try {
-  if (Platform.OS === 'ios' || Platform.OS === 'android') {
-    SQLite = require('expo-sqlite');
-  }
-} catch (e) {
-  console.warn('expo-sqlite not available:', e);
-}
+import { parseLocator, serializeLocator } from '@/utils/textLocator';
+import { runMigrations } from './migrations';
+import { StorageAdapter, StorageAdapterFactory, SQLiteParams } from './storage/types';
+import { openDefaultStorageAdapter } from './storage/defaultAdapter';
 
 const DB_NAME = 'readus.db';
 
-let db: any = null;
+let db: StorageAdapter | null = null;
 let dbInitialized = false;
-let initPromise: Promise<any> | null = null;
+let initPromise: Promise<StorageAdapter> | null = null;
+let openStorageAdapter: StorageAdapterFactory = openDefaultStorageAdapter;
 
 /**
- * Initialize database connection and create tables
+ * Replace the storage backend, e.g. with openNodeStorageAdapter in tests.
+ * Closes any open database; the next call to initDatabase() uses the new backend.
  */
-export async function initDatabase(): Promise<any> {
-  if (!SQLite) {
-    console.error('expo-sqlite is not available. Database operations will not work.');
-    throw new Error('expo-sqlite is not available. Please use a development build.');
+export async function setStorageAdapterFactory(factory: StorageAdapterFactory): Promise<void> {
+  if (initPromise) {
+    await initPromise.catch(() => undefined);
+  }
+  if (db) {
+    await db.closeAsync();
   }
+  db = null;
+  dbInitialized = false;
+  initPromise = null;
+  openStorageAdapter = factory;
+  dbCache.clear();
+}
 
+/**
+ * Initialize database connection and create tables
+ */
+export async function initDatabase(): Promise<StorageAdapter> {
   // If already initialized, return existing db
   if (db && dbInitialized) {
     return db;
@@ -45,233 +65,19 @@ export async function initDatabase(): Promise<any> {
   // Start initialization
   initPromise = (async () => {
     try {
-      db = await SQLite.openDatabaseAsync(DB_NAME);
+      const database = await openStorageAdapter(DB_NAME);
+      db = database;
       console.log('Database opened:', DB_NAME);
 
       // Enable foreign keys
-      await db.execAsync('PRAGMA foreign_keys = ON;');
-
-      // Create tables
-      await db.execAsync(`
-    CREATE TABLE IF NOT EXISTS documents (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      filePath TEXT NOT NULL UNIQUE,
-      format TEXT NOT NULL,
-      status TEXT NOT NULL DEFAULT 'unread',
-      pageCount INTEGER DEFAULT 0,
-      wordCount INTEGER DEFAULT 0,
-      estimatedReadingTime INTEGER DEFAULT 0,
-      createdAt TEXT NOT NULL,
-      updatedAt TEXT NOT NULL,
-      lastOpenedAt TEXT,
-      coverImagePath TEXT,
-      extractedText TEXT
-    );
-
-    CREATE TABLE IF NOT EXISTS tags (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
-      color TEXT NOT NULL,
-      createdAt TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS document_tags (
-      documentId TEXT NOT NULL,
-      tagId TEXT NOT NULL,
-      PRIMARY KEY (documentId, tagId),
-      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE,
-      FOREIGN KEY (tagId) REFERENCES tags(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS reading_positions (
-      id TEXT PRIMARY KEY,
-      documentId TEXT NOT NULL,
-      position INTEGER NOT NULL DEFAULT 0,
-      progress REAL NOT NULL DEFAULT 0,
-      updatedAt TEXT NOT NULL,
-      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS highlights (
-      id TEXT PRIMARY KEY,
-      documentId TEXT NOT NULL,
-      type TEXT NOT NULL,
-      text TEXT NOT NULL,
-      startPosition INTEGER NOT NULL,
-      endPosition INTEGER NOT NULL,
-      color TEXT NOT NULL,
-      createdAt TEXT NOT NULL,
-      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS notes (
-      id TEXT PRIMARY KEY,
-      documentId TEXT NOT NULL,
-      highlightId TEXT,
-      text TEXT NOT NULL,
-      position INTEGER NOT NULL,
-      createdAt TEXT NOT NULL,
-      updatedAt TEXT NOT NULL,
-      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE,
-      FOREIGN KEY (highlightId) REFERENCES highlights(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS reading_sessions (
-      id TEXT PRIMARY KEY,
-      documentId TEXT NOT NULL,
-      startTime TEXT NOT NULL,
-      endTime TEXT,
-      pagesRead INTEGER DEFAULT 0,
-      wordsRead INTEGER DEFAULT 0,
-      durationSeconds INTEGER DEFAULT 0,
-      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS collections (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      color TEXT,
-      icon TEXT,
-      parentId TEXT,
-      createdAt TEXT NOT NULL,
-      updatedAt TEXT NOT NULL,
-      FOREIGN KEY (parentId) REFERENCES collections(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS collection_documents (
-      collectionId TEXT NOT NULL,
-      documentId TEXT NOT NULL,
-      orderIndex INTEGER DEFAULT 0,
-      addedAt TEXT NOT NULL,
-      PRIMARY KEY (collectionId, documentId),
-      FOREIGN KEY (collectionId) REFERENCES collections(id) ON DELETE CASCADE,
-      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
-    );
+      await database.execAsync('PRAGMA foreign_keys = ON;');
 
-    CREATE TABLE IF NOT EXISTS bookmarks (
-      id TEXT PRIMARY KEY,
-      documentId TEXT NOT NULL,
-      page INTEGER NOT NULL,
-      note TEXT,
-      createdAt TEXT NOT NULL,
-      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
-    );
-
-    -- Create indexes for search performance
-    CREATE INDEX IF NOT EXISTS idx_documents_status ON documents(status);
-    CREATE INDEX IF NOT EXISTS idx_documents_title ON documents(title);
-    CREATE INDEX IF NOT EXISTS idx_reading_positions_documentId ON reading_positions(documentId);
-    CREATE INDEX IF NOT EXISTS idx_highlights_documentId ON highlights(documentId);
-    CREATE INDEX IF NOT EXISTS idx_notes_documentId ON notes(documentId);
-    CREATE INDEX IF NOT EXISTS idx_document_tags_documentId ON document_tags(documentId);
-    CREATE INDEX IF NOT EXISTS idx_document_tags_tagId ON document_tags(tagId);
-    CREATE INDEX IF NOT EXISTS idx_collections_parentId ON collections(parentId);
-    CREATE INDEX IF NOT EXISTS idx_collection_documents_collectionId ON collection_documents(collectionId);
-    CREATE INDEX IF NOT EXISTS idx_collection_documents_documentId ON collection_documents(documentId);
-    CREATE INDEX IF NOT EXISTS idx_bookmarks_documentId ON bookmarks(documentId);
-      `);
-
-      // Migration: Add extractedText column if it doesn't exist
-      try {
-        const alterTableSql = 'ALTER TABLE documents ADD COLUMN extractedText TEXT;';
-        await db.execAsync(alterTableSql);
-        console.log('Migration: Added extractedText column to documents table');
-      } catch (error: any) {
-        // Column already exists or other error - ignore
-        if (!error?.message?.includes('duplicate column')) {
-          console.log('Migration: extractedText column may already exist or error:', error?.message);
-        }
-      }
-
-      // Migration: Add isFavorite column if it doesn't exist
-      try {
-        const alterTableSql = 'ALTER TABLE documents ADD COLUMN isFavorite INTEGER DEFAULT 0;';
-        await db.execAsync(alterTableSql);
-        console.log('Migration: Added isFavorite column to documents table');
-      } catch (error: any) {
-        // Column already exists or other error - ignore
-        if (!error?.message?.includes('duplicate column')) {
-          console.log('Migration: isFavorite column may already exist or error:', error?.message);
-        }
-      }
-    
-      // Create FTS5 virtual tables for full-text search
-      await db.execAsync(`
-    CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
-      id UNINDEXED,
-      title,
-      extractedText,
-      content='documents',
-      content_rowid='rowid'
-    );
-    
-    CREATE VIRTUAL TABLE IF NOT EXISTS highlights_fts USING fts5(
-      id UNINDEXED,
-      documentId UNINDEXED,
-      text,
-      content='highlights',
-      content_rowid='rowid'
-    );
-    
-    CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
-      id UNINDEXED,
-      documentId UNINDEXED,
-      text,
-      content='notes',
-      content_rowid='rowid'
-    );
-    
-    -- Create triggers to keep FTS5 tables in sync
-    CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
-      INSERT INTO documents_fts(rowid, id, title, extractedText)
-      VALUES (new.rowid, new.id, new.title, new.extractedText);
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
-      DELETE FROM documents_fts WHERE rowid = old.rowid;
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE ON documents BEGIN
-      DELETE FROM documents_fts WHERE rowid = old.rowid;
-      INSERT INTO documents_fts(rowid, id, title, extractedText)
-      VALUES (new.rowid, new.id, new.title, new.extractedText);
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS highlights_fts_insert AFTER INSERT ON highlights BEGIN
-      INSERT INTO highlights_fts(rowid, id, documentId, text)
-      VALUES (new.rowid, new.id, new.documentId, new.text);
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS highlights_fts_delete AFTER DELETE ON highlights BEGIN
-      DELETE FROM highlights_fts WHERE rowid = old.rowid;
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS highlights_fts_update AFTER UPDATE ON highlights BEGIN
-      DELETE FROM highlights_fts WHERE rowid = old.rowid;
-      INSERT INTO highlights_fts(rowid, id, documentId, text)
-      VALUES (new.rowid, new.id, new.documentId, new.text);
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS notes_fts_insert AFTER INSERT ON notes BEGIN
-      INSERT INTO notes_fts(rowid, id, documentId, text)
-      VALUES (new.rowid, new.id, new.documentId, new.text);
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS notes_fts_delete AFTER DELETE ON notes BEGIN
-      DELETE FROM notes_fts WHERE rowid = old.rowid;
-    END;
-    
-    CREATE TRIGGER IF NOT EXISTS notes_fts_update AFTER UPDATE ON notes BEGIN
-      DELETE FROM notes_fts WHERE rowid = old.rowid;
-      INSERT INTO notes_fts(rowid, id, documentId, text)
-      VALUES (new.rowid, new.id, new.documentId, new.text);
-    END;
-    `);
+      // Bring the schema up to date
+      await runMigrations(database);
 
       dbInitialized = true;
       console.log('Database initialized successfully');
-      return db;
+      return database;
     } catch (error) {
       console.error('Database initialization error:', error);
       db = null;
@@ -287,16 +93,20 @@ export async function initDatabase(): Promise<any> {
 /**
  * Get database instance
  */
-export function getDatabase(): any {
-  if (!SQLite) {
-    throw new Error('expo-sqlite is not available. Please use a development build.');
-  }
+export function getDatabase(): StorageAdapter {
   if (!db || !dbInitialized) {
     throw new Error('Database not initialized. Call initDatabase() first.');
   }
   return db;
 }
 
+/**
+ * Convert the stored locator JSON column of a row into a TextLocator
+ */
+function withLocator<T extends { locator?: TextLocator | null }>(row: any): T {
+  return { ...row, locator: parseLocator(row.locator) } as T;
+}
+
 /**
  * Wait for database to be initialized
  */
@@ -318,8 +128,8 @@ export async function insertDocument(document: Document): Promise<void> {
   const database = getDatabase();
   try {
     await database.runAsync(
-      `INSERT INTO documents (id, title, filePath, format, status, pageCount, wordCount, estimatedReadingTime, createdAt, updatedAt, lastOpenedAt, coverImagePath, extractedText, isFavorite)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO documents (id, title, filePath, format, status, pageCount, wordCount, estimatedReadingTime, createdAt, updatedAt, lastOpenedAt, coverImagePath, extractedText, isFavorite, author, description, siteName, sourceUrl, fileCreatedAt, fileModifiedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         document.id,
         document.title,
@@ -333,8 +143,14 @@ export async function insertDocument(document: Document): Promise<void> {
         document.updatedAt,
         document.lastOpenedAt,
         document.coverImagePath,
-        document.extractedText || null,
+        document.extractedText ?? null,
         document.isFavorite ? 1 : 0,
+        document.author ?? null,
+        document.description ?? null,
+        document.siteName ?? null,
+        document.sourceUrl ?? null,
+        document.fileCreatedAt ?? null,
+        document.fileModifiedAt ?? null,
       ]
     );
     console.log(`Document inserted successfully: ${document.title} (${document.id})`);
@@ -491,6 +307,45 @@ export async function removeTagFromDocument(documentId: string, tagId: string):
   );
 }
 
+export async function updateTag(id: string, updates: Partial<Pick<Tag, 'name' | 'color'>>): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  const keys = Object.keys(updates);
+  const values = Object.values(updates);
+  if (keys.length === 0) return;
+
+  const setClause = keys.map((key) => `${key} = ?`).join(', ');
+  await database.runAsync(`UPDATE tags SET ${setClause} WHERE id = ?`, [...values, id]);
+}
+
+export async function deleteTag(id: string): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  await database.runAsync('DELETE FROM tags WHERE id = ?', [id]);
+}
+
+/**
+ * Move every document from sourceId onto targetId, then delete sourceId
+ */
+export async function mergeTags(sourceId: string, targetId: string): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  await database.withTransactionAsync(async () => {
+    await database.runAsync(
+      `INSERT OR IGNORE INTO document_tags (documentId, tagId)
+       SELECT documentId, ? FROM document_tags WHERE tagId = ?`,
+      [targetId, sourceId]
+    );
+    await database.runAsync('DELETE FROM tags WHERE id = ?', [sourceId]);
+  });
+}
+
+export async function getAllDocumentTags(): Promise<DocumentTag[]> {
+  await waitForDatabase();
+  const database = getDatabase();
+  return (await database.getAllAsync('SELECT documentId, tagId FROM document_tags')) as DocumentTag[];
+}
+
 // Collection operations
 export async function insertCollection(collection: Collection): Promise<void> {
   await waitForDatabase();
@@ -577,6 +432,22 @@ export async function removeDocumentFromCollection(collectionId: string, documen
   ]);
 }
 
+/**
+ * Persist a manual order: each document's orderIndex becomes its position in documentIds
+ */
+export async function reorderCollectionDocuments(collectionId: string, documentIds: string[]): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  await database.withTransactionAsync(async () => {
+    for (let index = 0; index < documentIds.length; index++) {
+      await database.runAsync(
+        'UPDATE collection_documents SET orderIndex = ? WHERE collectionId = ? AND documentId = ?',
+        [index, collectionId, documentIds[index]]
+      );
+    }
+  });
+}
+
 export async function getCollectionDocuments(collectionId: string): Promise<Document[]> {
   await waitForDatabase();
   const database = getDatabase();
@@ -601,29 +472,212 @@ export async function getDocumentCollections(documentId: string): Promise<Collec
   )) as Collection[];
 }
 
+// Smart collection operations
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CompiledCondition {
+  sql: string;
+  params: SQLiteParams;
+}
+
+function rangeCondition(expression: string, min?: number, max?: number): CompiledCondition | null {
+  const clauses: string[] = [];
+  const params: SQLiteParams = [];
+  if (min !== undefined) {
+    clauses.push(`${expression} >= ?`);
+    params.push(min);
+  }
+  if (max !== undefined) {
+    clauses.push(`${expression} <= ?`);
+    params.push(max);
+  }
+  return clauses.length > 0 ? { sql: clauses.join(' AND '), params } : null;
+}
+
+function placeholders(count: number): string {
+  return Array(count).fill('?').join(', ');
+}
+
+/**
+ * Compile one rule into a condition on documents aliased as d.
+ * Returns null for rules that do not constrain anything yet (e.g. no formats picked).
+ */
+function compileSmartCollectionRule(rule: SmartCollectionRule, now: Date): CompiledCondition | null {
+  switch (rule.field) {
+    case 'format':
+      if (rule.formats.length === 0) return null;
+      return { sql: `d.format IN (${placeholders(rule.formats.length)})`, params: [...rule.formats] };
+    case 'status':
+      if (rule.statuses.length === 0) return null;
+      return { sql: `d.status IN (${placeholders(rule.statuses.length)})`, params: [...rule.statuses] };
+    case 'tags': {
+      if (rule.tagIds.length === 0) return null;
+      const tagFilter = `FROM document_tags dt WHERE dt.documentId = d.id AND dt.tagId IN (${placeholders(rule.tagIds.length)})`;
+      if (rule.match === 'all') {
+        return {
+          sql: `(SELECT COUNT(DISTINCT dt.tagId) ${tagFilter}) = ?`,
+          params: [...rule.tagIds, new Set(rule.tagIds).size],
+        };
+      }
+      return {
+        sql: `${rule.match === 'none' ? 'NOT EXISTS' : 'EXISTS'} (SELECT 1 ${tagFilter})`,
+        params: [...rule.tagIds],
+      };
+    }
+    case 'isFavorite':
+      return { sql: 'COALESCE(d.isFavorite, 0) = ?', params: [rule.value ? 1 : 0] };
+    case 'wordCount':
+      return rangeCondition('COALESCE(d.wordCount, 0)', rule.min, rule.max);
+    case 'createdAt':
+    case 'lastOpenedAt': {
+      // Timestamps are ISO strings, which compare chronologically
+      const column = `d.${rule.field}`;
+      const clauses: string[] = [];
+      const params: SQLiteParams = [];
+      if (rule.withinDays !== undefined) {
+        clauses.push(`${column} >= ?`);
+        params.push(new Date(now.getTime() - rule.withinDays * DAY_MS).toISOString());
+      }
+      if (rule.olderThanDays !== undefined) {
+        clauses.push(`(${column} IS NULL OR ${column} < ?)`);
+        params.push(new Date(now.getTime() - rule.olderThanDays * DAY_MS).toISOString());
+      }
+      return clauses.length > 0 ? { sql: clauses.join(' AND '), params } : null;
+    }
+    case 'progress':
+      return rangeCondition(
+        'COALESCE((SELECT MAX(rp.progress) FROM reading_positions rp WHERE rp.documentId = d.id), 0)',
+        rule.min,
+        rule.max
+      );
+    case 'highlightCount':
+      return rangeCondition('(SELECT COUNT(*) FROM highlights h WHERE h.documentId = d.id)', rule.min, rule.max);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compile smart collection rules into a WHERE clause over documents aliased as d.
+ * Date windows are relative to now, so results stay current each time they are queried.
+ */
+export function compileSmartCollectionRules(
+  rules: SmartCollectionRule[],
+  matchMode: SmartCollection['matchMode'],
+  now: Date = new Date()
+): CompiledCondition {
+  const conditions = rules
+    .map((rule) => compileSmartCollectionRule(rule, now))
+    .filter((condition): condition is CompiledCondition => condition !== null);
+  if (conditions.length === 0) {
+    return { sql: '1 = 1', params: [] };
+  }
+  return {
+    sql: conditions.map((condition) => `(${condition.sql})`).join(matchMode === 'any' ? ' OR ' : ' AND '),
+    params: conditions.flatMap((condition) => condition.params),
+  };
+}
+
+function toSmartCollection(row: any): SmartCollection {
+  let rules: SmartCollectionRule[] = [];
+  try {
+    const parsed = JSON.parse(row.rules || '[]');
+    rules = Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn(`Invalid rules for smart collection ${row.id}:`, error);
+  }
+  return { ...row, matchMode: row.matchMode === 'any' ? 'any' : 'all', rules };
+}
+
+export async function insertSmartCollection(smartCollection: SmartCollection): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  await database.runAsync(
+    'INSERT INTO smart_collections (id, name, color, matchMode, rules, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [
+      smartCollection.id,
+      smartCollection.name,
+      smartCollection.color,
+      smartCollection.matchMode,
+      JSON.stringify(smartCollection.rules),
+      smartCollection.createdAt,
+      smartCollection.updatedAt,
+    ]
+  );
+}
+
+export async function getAllSmartCollections(): Promise<SmartCollection[]> {
+  await waitForDatabase();
+  const database = getDatabase();
+  const rows = (await database.getAllAsync('SELECT * FROM smart_collections ORDER BY name')) as any[];
+  return rows.map(toSmartCollection);
+}
+
+export async function updateSmartCollection(
+  id: string,
+  updates: Partial<Pick<SmartCollection, 'name' | 'color' | 'matchMode' | 'rules'>>
+): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  const entries = Object.entries(updates).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) return;
+
+  const setClause = entries.map(([key]) => `${key} = ?`).join(', ');
+  const values = entries.map(([key, value]) => (key === 'rules' ? JSON.stringify(value) : (value as string | null)));
+  await database.runAsync(`UPDATE smart_collections SET ${setClause}, updatedAt = ? WHERE id = ?`, [
+    ...values,
+    new Date().toISOString(),
+    id,
+  ]);
+}
+
+export async function deleteSmartCollection(id: string): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  await database.runAsync('DELETE FROM smart_collections WHERE id = ?', [id]);
+}
+
+export async function getSmartCollectionDocuments(smartCollection: SmartCollection): Promise<Document[]> {
+  await waitForDatabase();
+  const database = getDatabase();
+  const { sql, params } = compileSmartCollectionRules(smartCollection.rules, smartCollection.matchMode);
+  const rows = (await database.getAllAsync(
+    `SELECT d.* FROM documents d
+     WHERE ${sql}
+     ORDER BY d.lastOpenedAt DESC, d.createdAt DESC`,
+    params
+  )) as any[];
+  return rows.map((doc) => ({
+    ...doc,
+    isFavorite: doc.isFavorite === 1 || doc.isFavorite === true,
+  })) as Document[];
+}
+
 // Bookmark operations
 export async function insertBookmark(bookmark: Bookmark): Promise<void> {
   await waitForDatabase();
   const database = getDatabase();
   await database.runAsync(
-    'INSERT INTO bookmarks (id, documentId, page, note, createdAt) VALUES (?, ?, ?, ?, ?)',
-    [bookmark.id, bookmark.documentId, bookmark.page, bookmark.note, bookmark.createdAt]
+    'INSERT INTO bookmarks (id, documentId, page, note, createdAt, locator) VALUES (?, ?, ?, ?, ?, ?)',
+    [bookmark.id, bookmark.documentId, bookmark.page, bookmark.note, bookmark.createdAt, serializeLocator(bookmark.locator)]
   );
 }
 
 export async function getBookmarksByDocumentId(documentId: string): Promise<Bookmark[]> {
   await waitForDatabase();
   const database = getDatabase();
-  return (await database.getAllAsync(
+  const rows = (await database.getAllAsync(
     'SELECT * FROM bookmarks WHERE documentId = ? ORDER BY page',
     [documentId]
-  )) as Bookmark[];
+  )) as any[];
+  return rows.map((row) => withLocator<Bookmark>(row));
 }
 
 export async function getAllBookmarks(): Promise<Bookmark[]> {
   await waitForDatabase();
   const database = getDatabase();
-  return (await database.getAllAsync('SELECT * FROM bookmarks ORDER BY createdAt DESC')) as Bookmark[];
+  const rows = (await database.getAllAsync('SELECT * FROM bookmarks ORDER BY createdAt DESC')) as any[];
+  return rows.map((row) => withLocator<Bookmark>(row));
 }
 
 export async function deleteBookmark(id: string): Promise<void> {
@@ -636,13 +690,21 @@ export async function deleteBookmark(id: string): Promise<void> {
 export async function upsertReadingPosition(position: ReadingPosition): Promise<void> {
   const database = getDatabase();
   await database.runAsync(
-    `INSERT INTO reading_positions (id, documentId, position, progress, updatedAt)
-     VALUES (?, ?, ?, ?, ?)
+    `INSERT INTO reading_positions (id, documentId, position, progress, updatedAt, locator)
+     VALUES (?, ?, ?, ?, ?, ?)
      ON CONFLICT(id) DO UPDATE SET
        position = excluded.position,
        progress = excluded.progress,
-       updatedAt = excluded.updatedAt`,
-    [position.id, position.documentId, position.position, position.progress, position.updatedAt]
+       updatedAt = excluded.updatedAt,
+       locator = excluded.locator`,
+    [
+      position.id,
+      position.documentId,
+      position.position,
+      position.progress,
+      position.updatedAt,
+      serializeLocator(position.locator),
+    ]
   );
 }
 
@@ -652,15 +714,76 @@ export async function getReadingPosition(documentId: string): Promise<ReadingPos
     'SELECT * FROM reading_positions WHERE documentId = ?',
     [documentId]
   );
-  return (result as ReadingPosition) || null;
+  return result ? withLocator<ReadingPosition>(result) : null;
+}
+
+// EPUB structure cache operations
+export interface EPUBStructureCacheEntry {
+  documentId: string;
+  fileSize: number;
+  modifiedAt: number;
+  parserVersion: number;
+  structure: string; // JSON-encoded EPUBStructure
+  updatedAt: string;
+}
+
+export async function getEPUBStructureCache(documentId: string): Promise<EPUBStructureCacheEntry | null> {
+  await waitForDatabase();
+  const database = getDatabase();
+  return await database.getFirstAsync<EPUBStructureCacheEntry>(
+    'SELECT * FROM epub_structures WHERE documentId = ?',
+    [documentId]
+  );
+}
+
+export async function saveEPUBStructureCache(entry: EPUBStructureCacheEntry): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT INTO epub_structures (documentId, fileSize, modifiedAt, parserVersion, structure, updatedAt)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(documentId) DO UPDATE SET
+       fileSize = excluded.fileSize,
+       modifiedAt = excluded.modifiedAt,
+       parserVersion = excluded.parserVersion,
+       structure = excluded.structure,
+       updatedAt = excluded.updatedAt`,
+    [entry.documentId, entry.fileSize, entry.modifiedAt, entry.parserVersion, entry.structure, entry.updatedAt]
+  );
+}
+
+/**
+ * Stored outline of a PDF, or null when it hasn't been read yet
+ */
+export async function getPDFOutlineCache(documentId: string): Promise<TOCEntry[] | null> {
+  await waitForDatabase();
+  const database = getDatabase();
+  const row = await database.getFirstAsync<{ outline: string }>(
+    'SELECT outline FROM pdf_outlines WHERE documentId = ?',
+    [documentId]
+  );
+  return row ? (JSON.parse(row.outline) as TOCEntry[]) : null;
+}
+
+export async function savePDFOutlineCache(documentId: string, outline: TOCEntry[]): Promise<void> {
+  await waitForDatabase();
+  const database = getDatabase();
+  await database.runAsync(
+    `INSERT INTO pdf_outlines (documentId, outline, updatedAt)
+     VALUES (?, ?, ?)
+     ON CONFLICT(documentId) DO UPDATE SET
+       outline = excluded.outline,
+       updatedAt = excluded.updatedAt`,
+    [documentId, JSON.stringify(outline), new Date().toISOString()]
+  );
 }
 
 // Highlight operations
 export async function insertHighlight(highlight: Highlight): Promise<void> {
   const database = getDatabase();
   await database.runAsync(
-    `INSERT INTO highlights (id, documentId, type, text, startPosition, endPosition, color, createdAt)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO highlights (id, documentId, type, text, startPosition, endPosition, color, createdAt, locator)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       highlight.id,
       highlight.documentId,
@@ -670,16 +793,18 @@ export async function insertHighlight(highlight: Highlight): Promise<void> {
       highlight.endPosition,
       highlight.color,
       highlight.createdAt,
+      serializeLocator(highlight.locator),
     ]
   );
 }
 
 export async function getHighlightsByDocumentId(documentId: string): Promise<Highlight[]> {
   const database = getDatabase();
-  return (await database.getAllAsync(
+  const rows = (await database.getAllAsync(
     'SELECT * FROM highlights WHERE documentId = ? ORDER BY startPosition',
     [documentId]
-  )) as Highlight[];
+  )) as any[];
+  return rows.map((row) => withLocator<Highlight>(row));
 }
 
 export async function getAllHighlights(): Promise<Highlight[]> {
@@ -690,9 +815,10 @@ export async function getAllHighlights(): Promise<Highlight[]> {
   }
 
   const database = getDatabase();
-  const result = (await database.getAllAsync(
+  const rows = (await database.getAllAsync(
     'SELECT * FROM highlights ORDER BY createdAt DESC'
-  )) as Highlight[];
+  )) as any[];
+  const result = rows.map((row) => withLocator<Highlight>(row));
   
   // Cache the result
   dbCache.set(cacheKeys.highlights(), result);
@@ -708,8 +834,8 @@ export async function deleteHighlight(id: string): Promise<void> {
 export async function insertNote(note: Note): Promise<void> {
   const database = getDatabase();
   await database.runAsync(
-    `INSERT INTO notes (id, documentId, highlightId, text, position, createdAt, updatedAt)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO notes (id, documentId, highlightId, text, position, createdAt, updatedAt, locator)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       note.id,
       note.documentId,
@@ -718,24 +844,27 @@ export async function insertNote(note: Note): Promise<void> {
       note.position,
       note.createdAt,
       note.updatedAt,
+      serializeLocator(note.locator),
     ]
   );
 }
 
 export async function getNotesByDocumentId(documentId: string): Promise<Note[]> {
   const database = getDatabase();
-  return (await database.getAllAsync(
+  const rows = (await database.getAllAsync(
     'SELECT * FROM notes WHERE documentId = ? ORDER BY position',
     [documentId]
-  )) as Note[];
+  )) as any[];
+  return rows.map((row) => withLocator<Note>(row));
 }
 
 export async function getNotesByHighlightId(highlightId: string): Promise<Note[]> {
   const database = getDatabase();
-  return (await database.getAllAsync(
+  const rows = (await database.getAllAsync(
     'SELECT * FROM notes WHERE highlightId = ? ORDER BY createdAt',
     [highlightId]
-  )) as Note[];
+  )) as any[];
+  return rows.map((row) => withLocator<Note>(row));
 }
 
 export async function getAllNotes(): Promise<Note[]> {
@@ -746,7 +875,8 @@ export async function getAllNotes(): Promise<Note[]> {
   }
 
   const database = getDatabase();
-  const result = (await database.getAllAsync('SELECT * FROM notes ORDER BY updatedAt DESC')) as Note[];
+  const rows = (await database.getAllAsync('SELECT * FROM notes ORDER BY updatedAt DESC')) as any[];
+  const result = rows.map((row) => withLocator<Note>(row));
   
   // Cache the result
   dbCache.set(cacheKeys.notes(), result);
@@ -766,6 +896,104 @@ export async function deleteNote(id: string): Promise<void> {
   await database.runAsync('DELETE FROM notes WHERE id = ?', [id]);
 }
 
+// Backup operations
+
+/**
+ * Tables included in backups, ordered so parents are restored before children
+ */
+export const BACKUP_TABLES = [
+  'documents',
+  'tags',
+  'collections',
+  'smart_collections',
+  'document_tags',
+  'collection_documents',
+  'reading_positions',
+  'highlights',
+  'notes',
+  'bookmarks',
+  'reading_sessions',
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export type BackupRows = Partial<Record<BackupTable, Record<string, any>[]>>;
+
+export async function getTableRows(table: BackupTable): Promise<Record<string, any>[]> {
+  await waitForDatabase();
+  const database = getDatabase();
+  return (await database.getAllAsync(`SELECT * FROM ${table}`)) as Record<string, any>[];
+}
+
+/**
+ * Order collection rows so every parent is inserted before its children,
+ * since collections.parentId is a foreign key checked on each insert
+ */
+function orderParentsFirst(rows: Record<string, any>[]): Record<string, any>[] {
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  const ordered: Record<string, any>[] = [];
+  const visited = new Set<unknown>();
+  const visit = (row: Record<string, any>) => {
+    if (visited.has(row.id)) return;
+    visited.add(row.id);
+    const parent = row.parentId != null ? rowsById.get(row.parentId) : undefined;
+    if (parent) visit(parent);
+    ordered.push(row);
+  };
+  rows.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Restore raw table rows from a backup.
+ *
+ * With `replace`, all backed-up tables are emptied first. Otherwise rows that
+ * conflict with existing primary keys or unique columns are skipped, so local
+ * data wins. Columns the current schema does not know are dropped.
+ * Returns the number of inserted rows per table.
+ */
+export async function restoreTableRows(
+  rowsByTable: BackupRows,
+  replace: boolean
+): Promise<Partial<Record<BackupTable, number>>> {
+  await waitForDatabase();
+  const database = getDatabase();
+  const inserted: Partial<Record<BackupTable, number>> = {};
+
+  await database.withTransactionAsync(async () => {
+    if (replace) {
+      // Delete children first so foreign keys never dangle mid-transaction
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        await database.runAsync(`DELETE FROM ${table}`);
+      }
+    }
+
+    for (const table of BACKUP_TABLES) {
+      const backedUpRows = rowsByTable[table];
+      if (!backedUpRows || backedUpRows.length === 0) continue;
+      const rows = table === 'collections' ? orderParentsFirst(backedUpRows) : backedUpRows;
+
+      const tableInfo = (await database.getAllAsync(`PRAGMA table_info(${table})`)) as { name: string }[];
+      const knownColumns = new Set(tableInfo.map((column) => column.name));
+      let count = 0;
+
+      for (const row of rows) {
+        const columns = Object.keys(row).filter((column) => knownColumns.has(column));
+        if (columns.length === 0) continue;
+        const result = await database.runAsync(
+          `INSERT OR IGNORE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+          columns.map((column) => row[column] ?? null)
+        );
+        count += result?.changes ?? 0;
+      }
+      inserted[table] = count;
+    }
+  });
+
+  dbCache.clear();
+  return inserted;
+}
+
 // Search operations
 export async function searchDocuments(query: string): Promise<any[]> {
   await waitForDatabase();
@@ -779,10 +1007,10 @@ export async function searchDocuments(query: string): Promise<any[]> {
               CASE WHEN fts.rank IS NOT NULL THEN fts.rank ELSE 0 END AS rank
        FROM documents_fts AS fts
        JOIN documents AS d ON fts.id = d.id
-       WHERE fts.title MATCH ? OR fts.extractedText MATCH ?
+       WHERE documents_fts MATCH ?
        ORDER BY rank DESC, d.title
        LIMIT 50`,
-      [ftsQuery, ftsQuery]
+      [ftsQuery]
     );
   } catch (error) {
     console.warn('FTS5 bm25() not available or query error, falling back to simple match:', error);
@@ -791,10 +1019,10 @@ export async function searchDocuments(query: string): Promise<any[]> {
       `SELECT d.*
        FROM documents_fts AS fts
        JOIN documents AS d ON fts.id = d.id
-       WHERE fts.title MATCH ? OR fts.extractedText MATCH ?
+       WHERE documents_fts MATCH ?
        ORDER BY d.title
        LIMIT 50`,
-      [ftsQuery, ftsQuery]
+      [ftsQuery]
     );
   }
 }
@@ -804,7 +1032,7 @@ export async function searchHighlights(query: string): Promise<Highlight[]> {
   const database = getDatabase();
   const ftsQuery = `${query}*`;
   try {
-    return await database.getAllAsync(
+    return (await database.getAllAsync(
       `SELECT h.*, 
               CASE WHEN fts.rank IS NOT NULL THEN fts.rank ELSE 0 END AS rank
        FROM highlights_fts AS fts
@@ -813,11 +1041,11 @@ export async function searchHighlights(query: string): Promise<Highlight[]> {
        ORDER BY rank DESC, h.createdAt DESC
        LIMIT 50`,
       [ftsQuery]
-    ) as Highlight[];
+    ) as any[]).map((row: any) => withLocator<Highlight>(row));
   } catch (error) {
     console.warn('FTS5 bm25() not available or query error for highlights, falling back to simple match:', error);
     // Fallback if bm25() is not available
-    return await database.getAllAsync(
+    return (await database.getAllAsync(
       `SELECT h.*
        FROM highlights_fts AS fts
        JOIN highlights AS h ON fts.id = h.id
@@ -825,7 +1053,7 @@ export async function searchHighlights(query: string): Promise<Highlight[]> {
        ORDER BY h.createdAt DESC
        LIMIT 50`,
       [ftsQuery]
-    ) as Highlight[];
+    ) as any[]).map((row: any) => withLocator<Highlight>(row));
   }
 }
 
@@ -834,7 +1062,7 @@ export async function searchNotes(query: string): Promise<Note[]> {
   const database = getDatabase();
   const ftsQuery = `${query}*`;
   try {
-    return await database.getAllAsync(
+    return (await database.getAllAsync(
       `SELECT n.*, 
               CASE WHEN fts.rank IS NOT NULL THEN fts.rank ELSE 0 END AS rank
        FROM notes_fts AS fts
@@ -843,11 +1071,11 @@ export async function searchNotes(query: string): Promise<Note[]> {
        ORDER BY rank DESC, n.updatedAt DESC
        LIMIT 50`,
       [ftsQuery]
-    ) as Note[];
+    ) as any[]).map((row: any) => withLocator<Note>(row));
   } catch (error) {
     console.warn('FTS5 bm25() not available or query error for notes, falling back to simple match:', error);
     // Fallback if bm25() is not available
-    return await database.getAllAsync(
+    return (await database.getAllAsync(
       `SELECT n.*
        FROM notes_fts AS fts
        JOIN notes AS n ON fts.id = n.id
@@ -855,6 +1083,6 @@ export async function searchNotes(query: string): Promise<Note[]> {
        ORDER BY n.updatedAt DESC
        LIMIT 50`,
       [ftsQuery]
-    ) as Note[];
+    ) as any[]).map((row: any) => withLocator<Note>(row));
   }
 }
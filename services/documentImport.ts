@@ -5,12 +5,27 @@
 
 import { Platform, Alert } from 'react-native';
 import * as FileSystemLegacy from 'expo-file-system/legacy';
-import { Document, DocumentFormat } from '@/types';
-import { insertDocument, waitForDatabase } from './database';
+import { Document, DocumentFormat, Tag, TOCEntry } from '@/types';
+import { TAG_COLORS } from '@/utils/constants';
+import {
+  insertDocument,
+  waitForDatabase,
+  getAllDocuments,
+  updateDocument,
+  savePDFOutlineCache,
+  getAllTags,
+  insertTag,
+  addTagToDocument,
+} from './database';
 import { extractEPUBText, getEPUBMetadata } from './epubParser';
-import { extractDOCXText, getDOCXMetadata } from './docxParser';
-// PDF text extraction is optional - import only when needed to avoid bundling issues
-// import { extractPDFText } from './pdfTextExtractor';
+import { deleteEPUBResourceCache } from './epubResources';
+import { extractDOCXData } from './docxParser';
+import { parseMarkdown } from './markdownParser';
+import { parseFB2 } from './fb2Parser';
+import { getCBZPages, evictCBZArchive } from './cbzParser';
+import { parseHTMLFile } from './htmlParser';
+import { parseTXTFile } from './txtParser';
+import { extractPDFData } from './pdfTextExtractor';
 
 // Conditional import for expo-document-picker
 let DocumentPicker: any = null;
@@ -46,47 +61,141 @@ function calculateReadingTime(wordCount: number): number {
   return Math.ceil(wordCount / wordsPerMinute);
 }
 
+/**
+ * Content extracted from a file during import
+ */
+interface ExtractedContent {
+  text: string;
+  pageCount?: number; // Actual page count when the format knows it
+  wordCount?: number; // Word count recorded in the file's own properties
+  title?: string; // Title from the file's own metadata, preferred over the file name
+  details?: Pick<Document, 'author' | 'description' | 'siteName' | 'sourceUrl' | 'fileCreatedAt' | 'fileModifiedAt'>;
+  outline?: TOCEntry[]; // PDF bookmarks, stored so the reader needn't parse them again
+  keywords?: string[]; // Keywords from the file's own metadata, added as tags
+}
+
+/**
+ * Tag a newly imported document with its keywords, reusing tags with the same
+ * name (ignoring case) and creating the rest
+ */
+async function tagImportedDocument(documentId: string, keywords: string[]): Promise<void> {
+  const tags = await getAllTags();
+  for (const keyword of keywords) {
+    let tag = tags.find((existing) => existing.name.toLowerCase() === keyword.toLowerCase());
+    if (!tag) {
+      const created: Tag = {
+        id: `tag-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name: keyword,
+        color: TAG_COLORS[tags.length % TAG_COLORS.length],
+        createdAt: new Date().toISOString(),
+      };
+      await insertTag(created);
+      tags.push(created);
+      tag = created;
+    }
+    await addTagToDocument(documentId, tag.id);
+  }
+}
+
 /**
  * Extract text from file based on format
  */
-async function extractText(filePath: string, format: DocumentFormat): Promise<string> {
+async function extractText(filePath: string, format: DocumentFormat): Promise<ExtractedContent> {
   try {
     switch (format) {
       case 'txt':
+        // Decoded from any common encoding, without Project Gutenberg boilerplate
         try {
-          return await FileSystemLegacy.readAsStringAsync(filePath);
+          const { text, title } = await parseTXTFile(filePath);
+          return { text, title: title || undefined };
         } catch (error) {
           console.error('Error reading TXT file:', error);
-          return '';
+          return { text: '' };
+        }
+      case 'pdf': {
+        // Pure-JS parser - scanned PDFs without a text layer yield empty text
+        const pdfData = await extractPDFData(filePath);
+        if (!pdfData) {
+          return { text: '' };
         }
-      case 'pdf':
-        // PDF text extraction requires pdf-parse which doesn't work in React Native
-        // For now, return empty - PDFs can still be viewed natively
-        // Text extraction can be added later with a React Native-compatible solution
-        // or server-side processing
-        return '';
+        return {
+          text: pdfData.text,
+          pageCount: pdfData.numPages > 0 ? pdfData.numPages : undefined,
+          outline: pdfData.outline,
+        };
+      }
       case 'epub':
         // Use EPUB parser to extract text
         try {
-          return await extractEPUBText(filePath);
+          return { text: await extractEPUBText(filePath) };
         } catch (error) {
           console.error('Error extracting EPUB text:', error);
-          return 'EPUB format is not yet fully supported. The file has been imported but text extraction is not available.';
+          return { text: 'EPUB format is not yet fully supported. The file has been imported but text extraction is not available.' };
         }
       case 'docx':
-        // Use DOCX parser to extract text
+        // Plain text and document properties only; the reader converts the body to HTML
         try {
-          return await extractDOCXText(filePath);
+          const { text, metadata } = await extractDOCXData(filePath);
+          return {
+            text,
+            pageCount: metadata.pageCount,
+            wordCount: metadata.wordCount,
+            title: metadata.title || undefined,
+            details: {
+              author: metadata.author !== 'Unknown' ? metadata.author : undefined,
+              description: metadata.subject || undefined,
+              fileCreatedAt: metadata.created,
+              fileModifiedAt: metadata.modified,
+            },
+            // Word separates keywords with semicolons, other editors with commas
+            keywords: [...new Set(metadata.keywords.split(/[;,]/).map((keyword) => keyword.trim()).filter(Boolean))],
+          };
         } catch (error) {
           console.error('Error extracting DOCX text:', error);
-          return 'DOCX format is not yet fully supported. The file has been imported but text extraction is not available.';
+          return { text: 'DOCX format is not yet fully supported. The file has been imported but text extraction is not available.' };
+        }
+      case 'md':
+        // Search text comes from the rendered HTML, so markup never reaches the index
+        try {
+          const { text, title } = parseMarkdown(await FileSystemLegacy.readAsStringAsync(filePath));
+          return { text, title: title || undefined };
+        } catch (error) {
+          console.error('Error reading Markdown file:', error);
+          return { text: '' };
         }
+      case 'fb2':
+        // Plain .fb2 or zipped .fb2.zip; the title comes from the book's description
+        try {
+          const { text, metadata } = await parseFB2(filePath);
+          return {
+            text,
+            title: metadata.title !== 'Unknown Title' ? metadata.title : undefined,
+            details: {
+              author: metadata.author !== 'Unknown Author' ? metadata.author : undefined,
+              description: metadata.annotation || undefined,
+            },
+          };
+        } catch (error) {
+          console.error('Error extracting FB2 text:', error);
+          return { text: '' };
+        }
+      case 'cbz': {
+        // Comics are images only: nothing to index, but the page count is exact
+        const pages = await getCBZPages(filePath);
+        return { text: '', pageCount: pages.length > 0 ? pages.length : undefined };
+      }
+      case 'html': {
+        // Only the extracted article is indexed, not the page's navigation and ads
+        const { text, metadata } = await parseHTMLFile(filePath);
+        const { title, ...details } = metadata;
+        return { text, title: title || undefined, details };
+      }
       default:
-        return '';
+        return { text: '' };
     }
   } catch (error) {
     console.error('Error extracting text:', error);
-    return '';
+    return { text: '' };
   }
 }
 
@@ -104,26 +213,30 @@ function countWords(text: string): number {
 async function generateMetadata(
   filePath: string,
   format: DocumentFormat,
-  text: string
+  text: string,
+  knownPageCount?: number,
+  knownWordCount?: number
 ): Promise<{
   wordCount: number;
   estimatedReadingTime: number;
   pageCount: number;
 }> {
-  const wordCount = countWords(text);
+  const wordCount = knownWordCount && knownWordCount > 0 ? knownWordCount : countWords(text);
   const estimatedReadingTime = calculateReadingTime(wordCount);
   
   // Estimate page count based on format
   let pageCount = 1;
-  if (format === 'pdf') {
+  if (knownPageCount && knownPageCount > 0) {
+    pageCount = knownPageCount;
+  } else if (format === 'pdf') {
     // For PDFs, we'll estimate based on file size if text extraction isn't available
     // Default to 10 pages if no text extracted
     pageCount = wordCount > 0 ? Math.max(1, Math.ceil(wordCount / 250)) : 10;
-  } else if (format === 'epub' || format === 'docx') {
-    // For EPUB/DOCX, estimate based on text if available, otherwise default
+  } else if (format === 'epub' || format === 'docx' || format === 'fb2') {
+    // For EPUB/DOCX/FB2, estimate based on text if available, otherwise default
     pageCount = wordCount > 0 ? Math.max(1, Math.ceil(wordCount / 250)) : 5;
   } else {
-    // For TXT and other text formats
+    // For TXT, Markdown and other text formats
     pageCount = Math.max(1, Math.ceil(wordCount / 250));
   }
 
@@ -149,7 +262,7 @@ export async function importDocument(): Promise<Document | null> {
 
   try {
     const result = await DocumentPicker.getDocumentAsync({
-      type: ['application/pdf', 'application/epub+zip', 'text/plain', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+      type: ['application/pdf', 'application/epub+zip', 'text/plain', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/markdown', 'text/x-markdown', 'application/x-fictionbook+xml', 'application/x-fictionbook', 'application/zip', 'application/vnd.comicbook+zip', 'application/x-cbz', 'text/html'],
       copyToCacheDirectory: true,
     });
 
@@ -166,6 +279,10 @@ export async function importDocument(): Promise<Document | null> {
     if (fileExtension === 'pdf') format = 'pdf';
     else if (fileExtension === 'epub') format = 'epub';
     else if (fileExtension === 'docx') format = 'docx';
+    else if (fileExtension === 'md' || fileExtension === 'markdown') format = 'md';
+    else if (fileExtension === 'fb2' || fileName.toLowerCase().endsWith('.fb2.zip')) format = 'fb2';
+    else if (fileExtension === 'cbz') format = 'cbz';
+    else if (fileExtension === 'html' || fileExtension === 'htm') format = 'html';
     else if (fileExtension === 'txt') format = 'txt';
 
     // Generate unique ID
@@ -180,12 +297,11 @@ export async function importDocument(): Promise<Document | null> {
     });
 
     // Extract text and generate metadata
-    const text = await extractText(newFilePath, format);
-    const metadata = await generateMetadata(newFilePath, format, text);
+    const { text, pageCount, wordCount, title, details, outline, keywords } = await extractText(newFilePath, format);
+    const metadata = await generateMetadata(newFilePath, format, text, pageCount, wordCount);
 
     // Generate thumbnail/cover image (async, non-blocking)
     const { getDocumentThumbnail } = await import('./imageOptimization');
-    const { updateDocument } = await import('./database');
     getDocumentThumbnail(id, newFilePath, format, fileName.replace(/\.[^/.]+$/, ''))
       .then((thumbnailPath) => {
         if (thumbnailPath) {
@@ -200,7 +316,7 @@ export async function importDocument(): Promise<Document | null> {
     // Create document object
     const document: Document = {
       id,
-      title: fileName.replace(/\.[^/.]+$/, ''), // Remove extension
+      title: title || fileName.replace(/\.[^/.]+$/, ''), // Remove extension
       filePath: newFilePath,
       format,
       status: 'unread',
@@ -211,7 +327,9 @@ export async function importDocument(): Promise<Document | null> {
       updatedAt: new Date().toISOString(),
       lastOpenedAt: null,
       coverImagePath: null, // Will be updated when thumbnail is generated
-      extractedText: text || undefined, // Store extracted text for FTS5 search
+      // Store extracted text for FTS5 search; an empty string marks a PDF without a text layer as processed
+      extractedText: text || (format === 'pdf' ? '' : undefined),
+      ...details,
     };
 
     // Ensure database is initialized before inserting
@@ -219,6 +337,8 @@ export async function importDocument(): Promise<Document | null> {
     
     // Save to database
     await insertDocument(document);
+    if (outline) await savePDFOutlineCache(document.id, outline);
+    if (keywords) await tagImportedDocument(document.id, keywords);
     console.log(`Document saved to database: ${document.title} (${document.id})`);
 
     return document;
@@ -240,6 +360,10 @@ export async function importDocumentFromUri(uri: string, fileName?: string): Pro
     if (fileExtension === 'pdf') format = 'pdf';
     else if (fileExtension === 'epub') format = 'epub';
     else if (fileExtension === 'docx') format = 'docx';
+    else if (fileExtension === 'md' || fileExtension === 'markdown') format = 'md';
+    else if (fileExtension === 'fb2' || (fileName || uri).toLowerCase().endsWith('.fb2.zip')) format = 'fb2';
+    else if (fileExtension === 'cbz') format = 'cbz';
+    else if (fileExtension === 'html' || fileExtension === 'htm') format = 'html';
     else if (fileExtension === 'txt') format = 'txt';
 
     const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -250,12 +374,12 @@ export async function importDocumentFromUri(uri: string, fileName?: string): Pro
       to: newFilePath,
     });
 
-    const text = await extractText(newFilePath, format);
-    const metadata = await generateMetadata(newFilePath, format, text);
+    const { text, pageCount, wordCount, title, details, outline, keywords } = await extractText(newFilePath, format);
+    const metadata = await generateMetadata(newFilePath, format, text, pageCount, wordCount);
 
     const document: Document = {
       id,
-      title: fileName || `Document ${id}`,
+      title: title || fileName || `Document ${id}`,
       filePath: newFilePath,
       format,
       status: 'unread',
@@ -266,13 +390,17 @@ export async function importDocumentFromUri(uri: string, fileName?: string): Pro
       updatedAt: new Date().toISOString(),
       lastOpenedAt: null,
       coverImagePath: null,
-      extractedText: text || undefined, // Store extracted text for FTS5 search
+      // Store extracted text for FTS5 search; an empty string marks a PDF without a text layer as processed
+      extractedText: text || (format === 'pdf' ? '' : undefined),
+      ...details,
     };
 
     // Ensure database is initialized before inserting
     await waitForDatabase();
     
     await insertDocument(document);
+    if (outline) await savePDFOutlineCache(document.id, outline);
+    if (keywords) await tagImportedDocument(document.id, keywords);
     console.log(`Document saved to database: ${document.title} (${document.id})`);
     return document;
   } catch (error) {
@@ -282,7 +410,44 @@ export async function importDocumentFromUri(uri: string, fileName?: string): Pro
 }
 
 /**
- * Delete document file
+ * Extract text for PDFs imported before text extraction was available,
+ * so they become searchable. Returns the number of documents updated.
+ */
+export async function reindexPDFDocuments(): Promise<number> {
+  await waitForDatabase();
+  const documents = await getAllDocuments();
+  // extractedText is NULL only for PDFs that were never processed
+  const pending = documents.filter((doc) => doc.format === 'pdf' && doc.extractedText == null);
+
+  let updated = 0;
+  for (const doc of pending) {
+    try {
+      const { text, pageCount, outline } = await extractText(doc.filePath, 'pdf');
+      const metadata = await generateMetadata(doc.filePath, 'pdf', text, pageCount || doc.pageCount);
+      await updateDocument(doc.id, {
+        // Empty string marks the PDF as processed even when it has no text layer
+        extractedText: text,
+        wordCount: metadata.wordCount,
+        estimatedReadingTime: metadata.estimatedReadingTime,
+        pageCount: metadata.pageCount,
+        updatedAt: new Date().toISOString(),
+      });
+      if (outline) await savePDFOutlineCache(doc.id, outline);
+      updated++;
+    } catch (error) {
+      console.error(`Error reindexing PDF ${doc.id}:`, error);
+    }
+  }
+
+  if (updated > 0) {
+    console.log(`Reindexed ${updated} PDF document(s) for search`);
+  }
+  return updated;
+}
+
+/**
+ * Delete document file, along with files extracted from it for reading
+ * (EPUB images, comic pages)
  */
 export async function deleteDocumentFile(filePath: string): Promise<void> {
   try {
@@ -293,4 +458,6 @@ export async function deleteDocumentFile(filePath: string): Promise<void> {
   } catch (error) {
     console.error('Error deleting document file:', error);
   }
+  await deleteEPUBResourceCache(filePath);
+  await evictCBZArchive(filePath);
 }
@@ -3,22 +3,105 @@
  * Handles DOCX file parsing and content extraction
  */
 
-import * as FileSystemLegacy from 'expo-file-system/legacy';
+import JSZip from 'jszip';
 import mammoth from 'mammoth';
+import { parseXML, findDescendant, getTextContent, XMLElement } from '@/utils/xmlParser';
+import { addHeadingAnchors, HeadingNode } from '@/utils/htmlOutline';
+import { readFileBytes } from '@/utils/fileData';
 
 export interface DOCXMetadata {
-  title: string;
+  title: string; // Empty when the document has no title property
   author: string;
   subject: string;
   keywords: string;
-  created: string;
-  modified: string;
+  created: string | null; // ISO date; null when the document doesn't record it
+  modified: string | null;
+  pageCount?: number; // From docProps/app.xml, as last saved by the editor
+  wordCount?: number;
 }
 
 export interface DOCXContent {
   metadata: DOCXMetadata;
   html: string;
   text: string;
+  outline: HeadingNode[]; // Nested heading tree, in document order
+}
+
+// Heading styles beyond mammoth's built-in "Heading N" mapping: the document
+// title and custom styles derived from the headings (e.g. "Heading 1 Numbered")
+const DOCX_STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name^='Heading 1'] => h1:fresh",
+  "p[style-name^='Heading 2'] => h2:fresh",
+  "p[style-name^='Heading 3'] => h3:fresh",
+  "p[style-name^='Heading 4'] => h4:fresh",
+  "p[style-name^='Heading 5'] => h5:fresh",
+  "p[style-name^='Heading 6'] => h6:fresh",
+];
+
+function defaultMetadata(): DOCXMetadata {
+  return {
+    title: '',
+    author: 'Unknown',
+    subject: '',
+    keywords: '',
+    created: null,
+    modified: null,
+  };
+}
+
+/**
+ * Read a DOCX file into an ArrayBuffer
+ */
+async function readDOCXFile(filePath: string): Promise<ArrayBuffer> {
+  const bytes = await readFileBytes(filePath);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function propertyText(root: XMLElement, localName: string): string {
+  const element = findDescendant(root, localName);
+  return element ? getTextContent(element) : '';
+}
+
+function propertyDate(root: XMLElement, localName: string): string | null {
+  const value = propertyText(root, localName);
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function propertyCount(root: XMLElement, localName: string): number | undefined {
+  const value = parseInt(propertyText(root, localName), 10);
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Read document properties from docProps/core.xml (title, author, dates) and
+ * docProps/app.xml (page and word counts). Mammoth ignores both parts.
+ */
+async function readDOCXMetadata(arrayBuffer: ArrayBuffer): Promise<DOCXMetadata> {
+  const metadata = defaultMetadata();
+  const zip = await JSZip.loadAsync(arrayBuffer);
+
+  const coreXml = await zip.file('docProps/core.xml')?.async('string');
+  if (coreXml) {
+    const core = parseXML(coreXml);
+    metadata.title = propertyText(core, 'title');
+    metadata.author = propertyText(core, 'creator') || metadata.author;
+    metadata.subject = propertyText(core, 'subject');
+    metadata.keywords = propertyText(core, 'keywords');
+    metadata.created = propertyDate(core, 'created');
+    metadata.modified = propertyDate(core, 'modified');
+  }
+
+  const appXml = await zip.file('docProps/app.xml')?.async('string');
+  if (appXml) {
+    const app = parseXML(appXml);
+    metadata.pageCount = propertyCount(app, 'Pages');
+    metadata.wordCount = propertyCount(app, 'Words');
+  }
+
+  return metadata;
 }
 
 /**
@@ -27,80 +110,64 @@ export interface DOCXContent {
  */
 export async function parseDOCX(filePath: string): Promise<DOCXContent> {
   try {
-    // Read DOCX file
-    let fileUri = filePath;
-    if (!filePath.startsWith('file://') && !filePath.startsWith('/')) {
-      fileUri = `${FileSystemLegacy.documentDirectory || ''}${filePath}`;
-    }
-    if (!fileUri.startsWith('file://')) {
-      fileUri = `file://${fileUri}`;
-    }
-    
-    const base64Data = await FileSystemLegacy.readAsStringAsync(fileUri, {
-      encoding: FileSystemLegacy.EncodingType.Base64,
-    });
-    
-    // Convert base64 to ArrayBuffer for mammoth
-    let arrayBuffer: ArrayBuffer;
-    if (typeof Buffer !== 'undefined' && (Buffer as any).from) {
-      const buffer = (Buffer as any).from(base64Data, 'base64');
-      arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
-    } else {
-      // Manual conversion
-      const binaryString = typeof global !== 'undefined' && (global as any).atob 
-        ? (global as any).atob(base64Data)
-        : (Buffer as any).from(base64Data, 'base64').toString('binary');
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      arrayBuffer = bytes.buffer;
-    }
+    const arrayBuffer = await readDOCXFile(filePath);
     
     // Parse DOCX with mammoth
     const result = await mammoth.extractRawText({ arrayBuffer });
-    const htmlResult = await mammoth.convertToHtml({ arrayBuffer });
+    const htmlResult = await mammoth.convertToHtml({ arrayBuffer }, { styleMap: DOCX_STYLE_MAP });
+    const { html, outline } = addHeadingAnchors(htmlResult.value, 'docx-heading');
     
-    // Extract metadata (mammoth doesn't extract metadata by default, so we'll use defaults)
-    const metadata: DOCXMetadata = {
-      title: 'Unknown DOCX',
-      author: 'Unknown',
-      subject: '',
-      keywords: '',
-      created: new Date().toISOString(),
-      modified: new Date().toISOString(),
-    };
+    // Missing or malformed properties shouldn't block reading the body
+    let metadata: DOCXMetadata;
+    try {
+      metadata = await readDOCXMetadata(arrayBuffer);
+    } catch (error) {
+      console.warn('Error reading DOCX properties:', error);
+      metadata = defaultMetadata();
+    }
     
     return {
       metadata,
-      html: htmlResult.value,
+      html,
       text: result.value,
+      outline,
     };
   } catch (error) {
     console.error('Error parsing DOCX:', error);
     // Return default structure on error
     return {
-      metadata: {
-        title: 'Unknown DOCX',
-        author: 'Unknown',
-        subject: '',
-        keywords: '',
-        created: new Date().toISOString(),
-        modified: new Date().toISOString(),
-      },
+      metadata: defaultMetadata(),
       html: '<p>Error parsing DOCX file. The file may be corrupted or in an unsupported format.</p>',
       text: 'Error parsing DOCX file. The file may be corrupted or in an unsupported format.',
+      outline: [],
     };
   }
 }
 
+/**
+ * Extract plain text and document properties without converting the body
+ * to HTML, for import and indexing
+ */
+export async function extractDOCXData(filePath: string): Promise<{ text: string; metadata: DOCXMetadata }> {
+  const arrayBuffer = await readDOCXFile(filePath);
+  const result = await mammoth.extractRawText({ arrayBuffer });
+
+  let metadata: DOCXMetadata;
+  try {
+    metadata = await readDOCXMetadata(arrayBuffer);
+  } catch (error) {
+    console.warn('Error reading DOCX properties:', error);
+    metadata = defaultMetadata();
+  }
+  return { text: result.value, metadata };
+}
+
 /**
  * Extract text content from DOCX
  */
 export async function extractDOCXText(filePath: string): Promise<string> {
   try {
-    const content = await parseDOCX(filePath);
-    return content.text;
+    return (await extractDOCXData(filePath)).text;
   } catch (error) {
     console.error('Error extracting DOCX text:', error);
     return '';
@@ -121,21 +188,13 @@ export async function extractDOCXHTML(filePath: string): Promise<string> {
 }
 
 /**
- * Get DOCX metadata
+ * Get DOCX metadata without converting the document body
  */
 export async function getDOCXMetadata(filePath: string): Promise<DOCXMetadata> {
   try {
-    const content = await parseDOCX(filePath);
-    return content.metadata;
+    return await readDOCXMetadata(await readDOCXFile(filePath));
   } catch (error) {
     console.error('Error getting DOCX metadata:', error);
-    return {
-      title: 'Unknown DOCX',
-      author: 'Unknown',
-      subject: '',
-      keywords: '',
-      created: new Date().toISOString(),
-      modified: new Date().toISOString(),
-    };
+    return defaultMetadata();
   }
 }
@@ -4,8 +4,18 @@
  */
 
 import * as FileSystemLegacy from 'expo-file-system/legacy';
-import { DocumentFormat } from '@/types';
+import { DocumentFormat, TOCEntry } from '@/types';
 import JSZip from 'jszip';
+import {
+  resolveEPUBHref,
+  directoryOf,
+  resolveEPUBChapterResources,
+  ResolvedEPUBChapter,
+  EPUBNoteRef,
+} from './epubResources';
+import { getEPUBStructureCache, saveEPUBStructureCache } from './database';
+import { XMLElement, parseXML, getAttribute, findChild, findChildren, findDescendant, findDescendants, getTextContent } from '@/utils/xmlParser';
+import { readFileBytes, toFileUri } from '@/utils/fileData';
 
 export interface EPUBMetadata {
   title: string;
@@ -14,225 +24,535 @@ export interface EPUBMetadata {
   language: string;
   publisher: string;
   date: string;
-  coverImage?: string;
+  coverImage?: string; // Archive path of the cover image
 }
 
 export interface EPUBChapter {
   id: string;
   title: string;
-  href: string;
+  href: string; // Archive path of the content file, without fragment
   order: number;
+  fragment?: string; // Anchor id within the file, for TOC entries pointing mid-chapter
+  playOrder?: number;
+  depth?: number; // TOC nesting level, 0 for top-level entries
+  children?: EPUBChapter[];
+  linear?: boolean; // False for spine items marked linear="no" (notes, answer keys)
 }
 
-export interface EPUBContent {
+interface ManifestItem {
+  id: string;
+  href: string; // Relative to the OPF directory, as written
+  mediaType: string;
+  properties: string[];
+}
+
+/**
+ * Everything needed to open a book without reading its chapters
+ */
+export interface EPUBStructure {
   metadata: EPUBMetadata;
   chapters: EPUBChapter[];
-  text: string;
   toc: EPUBChapter[];
 }
 
+export interface EPUBContent extends EPUBStructure {
+  text: string;
+}
+
+interface EPUBArchive {
+  zip: JSZip;
+  opfFile: string | null;
+  opfDir: string;
+}
+
+// Decoded archives kept in memory, least recently used first. Decoding a large
+// textbook takes seconds, so chapter turns reuse the open archive.
+const ARCHIVE_CACHE_SIZE = 2;
+const archiveCache = new Map<string, Promise<EPUBArchive>>();
+
+// Bump when parsing changes so structures persisted by older versions are rebuilt
+const STRUCTURE_CACHE_VERSION = 2;
+
 /**
- * Parse EPUB file and extract content
- * EPUB files are ZIP archives containing HTML/CSS/XML files
+ * Index the OPF manifest by item id, independent of attribute order
  */
-export async function parseEPUB(filePath: string): Promise<EPUBContent> {
-  try {
-    // Read EPUB file as binary
-    // Handle both file:// URIs and regular paths
-    let fileUri = filePath;
-    if (!filePath.startsWith('file://') && !filePath.startsWith('/')) {
-      fileUri = `${FileSystemLegacy.documentDirectory || ''}${filePath}`;
-    }
-    if (!fileUri.startsWith('file://')) {
-      fileUri = `file://${fileUri}`;
-    }
-    
-    const base64Data = await FileSystemLegacy.readAsStringAsync(fileUri, {
-      encoding: FileSystemLegacy.EncodingType.Base64,
+function parseManifest(opfRoot: XMLElement): Map<string, ManifestItem> {
+  const manifest = new Map<string, ManifestItem>();
+  const manifestElement = findDescendant(opfRoot, 'manifest');
+  for (const item of manifestElement ? findChildren(manifestElement, 'item') : []) {
+    const { id, href } = item.attributes;
+    if (!id || !href) continue;
+    manifest.set(id, {
+      id,
+      href,
+      mediaType: (item.attributes['media-type'] ?? '').trim().toLowerCase(),
+      properties: (item.attributes.properties ?? '').split(/\s+/).filter(Boolean),
     });
-    
-    // Convert base64 to binary (React Native compatible)
-    // Use Buffer if available, otherwise manual conversion
-    let bytes: Uint8Array;
-    if (typeof Buffer !== 'undefined' && (Buffer as any).from) {
-      bytes = new Uint8Array((Buffer as any).from(base64Data, 'base64'));
-    } else {
-      // Manual base64 decoding for React Native
-      let binaryString: string;
-      if (typeof global !== 'undefined' && (global as any).atob) {
-        binaryString = (global as any).atob(base64Data);
-      } else if (typeof Buffer !== 'undefined') {
-        binaryString = (Buffer as any).from(base64Data, 'base64').toString('binary');
+  }
+  return manifest;
+}
+
+function isContentDocument(mediaType: string): boolean {
+  return mediaType === 'application/xhtml+xml' || mediaType === 'text/html';
+}
+
+// SVG covers can't be shown as thumbnails
+function isRasterImage(mediaType: string): boolean {
+  return mediaType.startsWith('image/') && mediaType !== 'image/svg+xml';
+}
+
+/**
+ * Archive path of the first image shown by a content document, either an
+ * <img> or an SVG <image> (the usual cover page wrapper)
+ */
+async function findFirstImage(zip: JSZip, pagePath: string): Promise<string | undefined> {
+  const xml = await zip.file(pagePath)?.async('string');
+  if (!xml) return undefined;
+  const root = parseXML(xml);
+  for (const element of [...findDescendants(root, 'img'), ...findDescendants(root, 'image')]) {
+    const src = element.localName === 'img' ? getAttribute(element, 'src') : getAttribute(element, 'xlink:href');
+    if (!src || src.startsWith('data:')) continue;
+    const path = resolveEPUBHref(directoryOf(pagePath), src).path;
+    if (zip.file(path)) return path;
+  }
+  return undefined;
+}
+
+/**
+ * Locate the cover image, trying in order: the EPUB 3 cover-image property,
+ * EPUB 2 <meta name="cover">, the guide's cover page, image items named
+ * "cover", and the first image in the reading order
+ */
+async function findCoverImage(
+  zip: JSZip,
+  opfRoot: XMLElement,
+  opfDir: string,
+  manifest: Map<string, ManifestItem>,
+  chapters: EPUBChapter[]
+): Promise<string | undefined> {
+  const manifestItems = [...manifest.values()];
+  const toPath = (item: ManifestItem | undefined) =>
+    item && isRasterImage(item.mediaType) ? resolveEPUBHref(opfDir, item.href).path : undefined;
+
+  const coverImage = toPath(manifestItems.find((item) => item.properties.includes('cover-image')));
+  if (coverImage) return coverImage;
+
+  // Some writers put the href rather than the item id in the meta content
+  const coverMeta = findDescendants(opfRoot, 'meta').find((meta) => meta.attributes.name === 'cover');
+  const coverRef = coverMeta?.attributes.content;
+  const metaCover = coverRef
+    ? toPath(manifest.get(coverRef) ?? manifestItems.find((item) => item.href === coverRef))
+    : undefined;
+  if (metaCover) return metaCover;
+
+  const guideCover = findDescendants(opfRoot, 'reference').find(
+    (reference) => reference.attributes.type?.toLowerCase() === 'cover'
+  );
+  if (guideCover?.attributes.href) {
+    const guidePath = resolveEPUBHref(opfDir, guideCover.attributes.href).path;
+    const guideItem = manifestItems.find((item) => resolveEPUBHref(opfDir, item.href).path === guidePath);
+    if (guideItem && isRasterImage(guideItem.mediaType)) return guidePath;
+    const image = await findFirstImage(zip, guidePath);
+    if (image) return image;
+  }
+
+  const namedCover = toPath(
+    manifestItems.find((item) => isRasterImage(item.mediaType) && /cover/i.test(`${item.id} ${item.href}`))
+  );
+  if (namedCover) return namedCover;
+
+  // Last resort: an image on one of the first pages
+  for (const chapter of chapters.slice(0, 3)) {
+    const image = await findFirstImage(zip, chapter.href);
+    if (image) return image;
+  }
+  return undefined;
+}
+
+/**
+ * Index of the next (step 1) or previous (step -1) chapter in the linear reading
+ * flow, or null at either end. Non-linear chapters are skipped unless the book has
+ * nothing else.
+ */
+export function getAdjacentChapterIndex(chapters: EPUBChapter[], index: number, step: 1 | -1): number | null {
+  const hasLinear = chapters.some((chapter) => chapter.linear !== false);
+  for (let i = index + step; i >= 0 && i < chapters.length; i += step) {
+    if (!hasLinear || chapters[i].linear !== false) return i;
+  }
+  return null;
+}
+
+/**
+ * Number TOC entries in reading order and record their nesting depth
+ */
+function finalizeTOC(entries: EPUBChapter[]): EPUBChapter[] {
+  let order = 1;
+  const visit = (items: EPUBChapter[], depth: number) => {
+    for (const item of items) {
+      item.order = order++;
+      item.depth = depth;
+      if (item.children && item.children.length > 0) {
+        visit(item.children, depth + 1);
       } else {
-        // Fallback: simple base64 decode (may not work for all cases)
-        throw new Error('Base64 decoding not available. Please ensure Buffer or atob is available.');
-      }
-      bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
+        delete item.children;
       }
     }
-    
-    // Load ZIP file
-    const zip = await JSZip.loadAsync(bytes);
-    
-    // Find and parse OPF file (package document)
-    let opfFile: string | null = null;
-    const containerXml = await zip.file('META-INF/container.xml')?.async('string');
-    
-    if (containerXml) {
-      // Parse container.xml to find OPF file path
-      const opfMatch = containerXml.match(/full-path="([^"]+)"/);
-      if (opfMatch) {
-        opfFile = opfMatch[1];
-      }
+  };
+  visit(entries, 0);
+  return entries;
+}
+
+/**
+ * Flatten a nested TOC into reading order
+ */
+export function flattenTOC(toc: EPUBChapter[]): EPUBChapter[] {
+  const flat: EPUBChapter[] = [];
+  const visit = (items: EPUBChapter[]) => {
+    for (const item of items) {
+      flat.push(item);
+      if (item.children) visit(item.children);
     }
-    
-    // Default OPF location if not found in container
-    if (!opfFile) {
-      opfFile = 'OEBPS/content.opf';
-      if (!zip.file(opfFile)) {
-        // Try common alternatives
-        const possiblePaths = ['content.opf', 'package.opf', 'book.opf'];
-        for (const path of possiblePaths) {
-          if (zip.file(path)) {
-            opfFile = path;
-            break;
-          }
+  };
+  visit(toc);
+  return flat;
+}
+
+/**
+ * Convert the nested TOC to the reader's format-agnostic entries, pointing
+ * each at the spine index of its content file
+ */
+export function buildEPUBTOCEntries(chapters: EPUBChapter[], toc: EPUBChapter[] = chapters): TOCEntry[] {
+  const chapterIndexByHref = new Map<string, number>();
+  chapters.forEach((chapter, index) => {
+    if (!chapterIndexByHref.has(chapter.href)) chapterIndexByHref.set(chapter.href, index);
+  });
+  const convert = (items: EPUBChapter[], parentId: string): TOCEntry[] =>
+    items.map((item, index) => {
+      const id = parentId ? `${parentId}.${index}` : `${index}`;
+      return {
+        id,
+        title: item.title,
+        position: chapterIndexByHref.get(item.href),
+        fragment: item.fragment,
+        children: item.children ? convert(item.children, id) : undefined,
+      };
+    });
+  return convert(toc, '');
+}
+
+/**
+ * Parse the EPUB 3 navigation document (`<nav epub:type="toc">` with nested `<ol>`)
+ */
+function parseNavDocument(xml: string, navPath: string): EPUBChapter[] {
+  const root = parseXML(xml);
+  const navs = findDescendants(root, 'nav');
+  const tocNav =
+    navs.find((nav) => (getAttribute(nav, 'epub:type') ?? '').split(/\s+/).includes('toc')) ?? navs[0];
+  const list = tocNav && findDescendant(tocNav, 'ol');
+  if (!list) return [];
+
+  const navDir = directoryOf(navPath);
+  let counter = 0;
+  const buildList = (ol: XMLElement): EPUBChapter[] =>
+    findChildren(ol, 'li').map((li) => {
+      // Entries are an <a> link, or a <span> heading grouping its children
+      const label = findChild(li, 'a') ?? findChild(li, 'span') ?? findDescendant(li, 'a');
+      const href = label ? getAttribute(label, 'href') : undefined;
+      const target = href ? resolveEPUBHref(navDir, href) : null;
+      const nested = findChild(li, 'ol');
+      counter++;
+      return {
+        id: (label && getAttribute(label, 'id')) || getAttribute(li, 'id') || `nav-${counter}`,
+        title: (label && getTextContent(label)) || `Section ${counter}`,
+        href: target?.path ?? '',
+        fragment: target?.fragment,
+        playOrder: counter,
+        order: 0,
+        children: nested ? buildList(nested) : [],
+      };
+    });
+
+  return finalizeTOC(buildList(list));
+}
+
+/**
+ * Parse an EPUB 2 NCX file (`<navMap>` with nested `<navPoint>`, ordered by playOrder)
+ */
+function parseNCX(xml: string, ncxPath: string): EPUBChapter[] {
+  const root = parseXML(xml);
+  const navMap = findDescendant(root, 'navMap');
+  if (!navMap) return [];
+
+  const ncxDir = directoryOf(ncxPath);
+  let counter = 0;
+  const buildPoints = (parent: XMLElement): EPUBChapter[] =>
+    findChildren(parent, 'navPoint')
+      .map((point, index) => {
+        const labelElement = findChild(point, 'navLabel');
+        const textElement = labelElement && findDescendant(labelElement, 'text');
+        const src = findChild(point, 'content')?.attributes.src;
+        const target = src ? resolveEPUBHref(ncxDir, src) : null;
+        const playOrder = parseInt(getAttribute(point, 'playOrder') ?? '', 10);
+        counter++;
+        return {
+          index,
+          entry: {
+            id: getAttribute(point, 'id') || `ncx-${counter}`,
+            title: (textElement && getTextContent(textElement)) || `Section ${counter}`,
+            href: target?.path ?? '',
+            fragment: target?.fragment,
+            playOrder: Number.isNaN(playOrder) ? undefined : playOrder,
+            order: 0,
+            children: buildPoints(point),
+          } as EPUBChapter,
+        };
+      })
+      .sort((a, b) => {
+        const orderA = a.entry.playOrder ?? Number.MAX_SAFE_INTEGER;
+        const orderB = b.entry.playOrder ?? Number.MAX_SAFE_INTEGER;
+        return orderA - orderB || a.index - b.index;
+      })
+      .map(({ entry }) => entry);
+
+  return finalizeTOC(buildPoints(navMap));
+}
+
+async function loadTOCFile(
+  zip: JSZip,
+  path: string,
+  parse: (xml: string, path: string) => EPUBChapter[]
+): Promise<EPUBChapter[]> {
+  try {
+    const xml = await zip.file(path)?.async('string');
+    return xml ? parse(xml, path) : [];
+  } catch (error) {
+    console.warn(`Error parsing TOC ${path}:`, error);
+    return [];
+  }
+}
+
+function defaultMetadata(): EPUBMetadata {
+  return {
+    title: 'Unknown EPUB',
+    author: 'Unknown',
+    description: '',
+    language: 'en',
+    publisher: '',
+    date: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read and unzip an EPUB file and locate its OPF (package document)
+ */
+async function readEPUBArchive(filePath: string): Promise<EPUBArchive> {
+  const bytes = await readFileBytes(filePath);
+
+  // Load ZIP file
+  const zip = await JSZip.loadAsync(bytes);
+  
+  // Find OPF file (package document)
+  let opfFile: string | null = null;
+  const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+  
+  if (containerXml) {
+    // Parse container.xml to find OPF file path
+    const opfMatch = containerXml.match(/full-path="([^"]+)"/);
+    if (opfMatch) {
+      opfFile = opfMatch[1];
+    }
+  }
+  
+  // Default OPF location if not found in container
+  if (!opfFile) {
+    opfFile = 'OEBPS/content.opf';
+    if (!zip.file(opfFile)) {
+      // Try common alternatives
+      const possiblePaths = ['content.opf', 'package.opf', 'book.opf'];
+      for (const path of possiblePaths) {
+        if (zip.file(path)) {
+          opfFile = path;
+          break;
         }
       }
     }
+  }
+  
+  return { zip, opfFile, opfDir: opfFile ? directoryOf(opfFile) : '' };
+}
+
+/**
+ * Get a decoded archive, reusing one of the recently opened books
+ */
+function openEPUBArchive(filePath: string): Promise<EPUBArchive> {
+  const cached = archiveCache.get(filePath);
+  if (cached) {
+    // Move to most recently used
+    archiveCache.delete(filePath);
+    archiveCache.set(filePath, cached);
+    return cached;
+  }
+
+  const pending = readEPUBArchive(filePath);
+  archiveCache.set(filePath, pending);
+  pending.catch(() => {
+    if (archiveCache.get(filePath) === pending) archiveCache.delete(filePath);
+  });
+  while (archiveCache.size > ARCHIVE_CACHE_SIZE) {
+    archiveCache.delete(archiveCache.keys().next().value as string);
+  }
+  return pending;
+}
+
+/**
+ * Drop a book (or every book) from the in-memory archive cache
+ */
+export function evictEPUBArchive(filePath?: string): void {
+  if (filePath) {
+    archiveCache.delete(filePath);
+  } else {
+    archiveCache.clear();
+  }
+}
+
+/**
+ * Read metadata, spine and TOC from the OPF without touching chapter content
+ */
+async function readEPUBStructure({ zip, opfFile, opfDir }: EPUBArchive): Promise<EPUBStructure> {
+  const metadata = defaultMetadata();
+  let chapters: EPUBChapter[] = [];
+  let navPath: string | null = null;
+  let ncxPath: string | null = null;
+
+  const opfContent = opfFile ? await zip.file(opfFile)?.async('string') : undefined;
+  if (opfContent) {
+    // Parse metadata from OPF
+    const titleMatch = opfContent.match(/<dc:title[^>]*>([^<]+)<\/dc:title>/i);
+    if (titleMatch) metadata.title = titleMatch[1].trim();
     
-    // Parse OPF for metadata and manifest
-    let metadata: EPUBMetadata = {
-      title: 'Unknown EPUB',
-      author: 'Unknown',
-      description: '',
-      language: 'en',
-      publisher: '',
-      date: new Date().toISOString(),
-    };
+    const authorMatch = opfContent.match(/<dc:creator[^>]*>([^<]+)<\/dc:creator>/i);
+    if (authorMatch) metadata.author = authorMatch[1].trim();
     
-    let chapters: EPUBChapter[] = [];
-    let textContent = '';
+    const descMatch = opfContent.match(/<dc:description[^>]*>([^<]+)<\/dc:description>/i);
+    if (descMatch) metadata.description = descMatch[1].trim();
     
-    if (opfFile && zip.file(opfFile)) {
-      const opfContent = await zip.file(opfFile)?.async('string');
-      if (opfContent) {
-        // Parse metadata from OPF
-        const titleMatch = opfContent.match(/<dc:title[^>]*>([^<]+)<\/dc:title>/i);
-        if (titleMatch) metadata.title = titleMatch[1].trim();
-        
-        const authorMatch = opfContent.match(/<dc:creator[^>]*>([^<]+)<\/dc:creator>/i);
-        if (authorMatch) metadata.author = authorMatch[1].trim();
-        
-        const descMatch = opfContent.match(/<dc:description[^>]*>([^<]+)<\/dc:description>/i);
-        if (descMatch) metadata.description = descMatch[1].trim();
-        
-        const langMatch = opfContent.match(/<dc:language[^>]*>([^<]+)<\/dc:language>/i);
-        if (langMatch) metadata.language = langMatch[1].trim();
-        
-        const pubMatch = opfContent.match(/<dc:publisher[^>]*>([^<]+)<\/dc:publisher>/i);
-        if (pubMatch) metadata.publisher = pubMatch[1].trim();
-        
-        const dateMatch = opfContent.match(/<dc:date[^>]*>([^<]+)<\/dc:date>/i);
-        if (dateMatch) metadata.date = dateMatch[1].trim();
-        
-        // Extract cover image
-        const coverMatch = opfContent.match(/<meta[^>]*name=["']cover["'][^>]*content=["']([^"']+)["']/i);
-        if (coverMatch) {
-          const coverId = coverMatch[1];
-          const coverItemMatch = opfContent.match(new RegExp(`<item[^>]*id=["']${coverId}["'][^>]*href=["']([^"']+)["']`, 'i'));
-          if (coverItemMatch) {
-            metadata.coverImage = coverItemMatch[1];
-          }
-        }
-        
-        // Extract manifest items (chapters/content files)
-        const itemMatches = opfContent.matchAll(/<item[^>]*id=["']([^"']+)["'][^>]*href=["']([^"']+)["'][^>]*media-type=["']([^"']+)["']/gi);
-        const opfDir = opfFile.substring(0, opfFile.lastIndexOf('/') + 1);
-        
-        let order = 1;
-        for (const match of itemMatches) {
-          const [, id, href, mediaType] = match;
-          if (mediaType === 'application/xhtml+xml' || mediaType === 'text/html') {
-            const fullPath = href.startsWith('/') ? href.substring(1) : `${opfDir}${href}`;
-            chapters.push({
-              id,
-              title: `Chapter ${order}`,
-              href: fullPath,
-              order: order++,
-            });
-          }
-        }
-        
-        // Extract text from HTML content files
-        const textParts: string[] = [];
-        for (const chapter of chapters) {
-          try {
-            const htmlFile = zip.file(chapter.href);
-            if (htmlFile) {
-              const htmlContent = await htmlFile.async('string');
-              // Basic HTML to text extraction (remove tags)
-              const text = htmlContent
-                .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-                .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-                .replace(/<[^>]+>/g, ' ')
-                .replace(/\s+/g, ' ')
-                .trim();
-              textParts.push(text);
-            }
-          } catch (error) {
-            console.warn(`Error extracting text from ${chapter.href}:`, error);
-          }
-        }
-        textContent = textParts.join('\n\n');
+    const langMatch = opfContent.match(/<dc:language[^>]*>([^<]+)<\/dc:language>/i);
+    if (langMatch) metadata.language = langMatch[1].trim();
+    
+    const pubMatch = opfContent.match(/<dc:publisher[^>]*>([^<]+)<\/dc:publisher>/i);
+    if (pubMatch) metadata.publisher = pubMatch[1].trim();
+    
+    const dateMatch = opfContent.match(/<dc:date[^>]*>([^<]+)<\/dc:date>/i);
+    if (dateMatch) metadata.date = dateMatch[1].trim();
+    
+    const opfRoot = parseXML(opfContent);
+    const manifest = parseManifest(opfRoot);
+
+    // Locate the EPUB 3 navigation document and the NCX (referenced from the spine)
+    const spine = findDescendant(opfRoot, 'spine');
+    const manifestItems = [...manifest.values()];
+    const navItem = manifestItems.find((item) => item.properties.includes('nav'));
+    const spineTocId = spine?.attributes.toc;
+    const ncxItem =
+      (spineTocId ? manifest.get(spineTocId) : undefined) ??
+      manifestItems.find((item) => item.mediaType === 'application/x-dtbncx+xml');
+    if (navItem) navPath = resolveEPUBHref(opfDir, navItem.href).path;
+    if (ncxItem) ncxPath = resolveEPUBHref(opfDir, ncxItem.href).path;
+
+    // Reading order comes from the spine; linear="no" items stay reachable but are skipped when paging
+    for (const itemref of spine ? findChildren(spine, 'itemref') : []) {
+      const item = manifest.get(itemref.attributes.idref ?? '');
+      if (!item || !isContentDocument(item.mediaType)) continue;
+      chapters.push({
+        id: item.id,
+        title: `Chapter ${chapters.length + 1}`,
+        href: resolveEPUBHref(opfDir, item.href).path,
+        order: chapters.length + 1,
+        linear: itemref.attributes.linear?.trim().toLowerCase() !== 'no',
+      });
+    }
+
+    // Without a usable spine, fall back to manifest order minus the navigation document
+    if (chapters.length === 0) {
+      for (const item of manifestItems) {
+        const fullPath = resolveEPUBHref(opfDir, item.href).path;
+        if (!isContentDocument(item.mediaType) || fullPath === navPath) continue;
+        chapters.push({
+          id: item.id,
+          title: `Chapter ${chapters.length + 1}`,
+          href: fullPath,
+          order: chapters.length + 1,
+        });
       }
     }
-    
-    // Parse NCX for better TOC if available
-    let toc: EPUBChapter[] = chapters;
-    const ncxFiles = Object.keys(zip.files).filter(name => name.endsWith('.ncx'));
-    if (ncxFiles.length > 0) {
-      try {
-        const ncxContent = await zip.file(ncxFiles[0])?.async('string');
-        if (ncxContent) {
-          const navPointMatches = ncxContent.matchAll(/<navPoint[^>]*id=["']([^"']+)["'][^>]*>[\s\S]*?<navLabel>[\s\S]*?<text>([^<]+)<\/text>[\s\S]*?<\/navLabel>[\s\S]*?<content[^>]*src=["']([^"']+)["']/gi);
-          toc = [];
-          let tocOrder = 1;
-          for (const match of navPointMatches) {
-            const [, id, title, src] = match;
-            toc.push({
-              id,
-              title: title.trim(),
-              href: src,
-              order: tocOrder++,
-            });
-          }
-        }
-      } catch (error) {
-        console.warn('Error parsing NCX:', error);
+
+    metadata.coverImage = await findCoverImage(zip, opfRoot, opfDir, manifest, chapters);
+  }
+  
+  // Prefer the EPUB 3 navigation document, falling back to the NCX
+  let toc: EPUBChapter[] = navPath ? await loadTOCFile(zip, navPath, parseNavDocument) : [];
+  if (toc.length === 0) {
+    const ncxFile = ncxPath ?? Object.keys(zip.files).find((name) => name.endsWith('.ncx'));
+    if (ncxFile) toc = await loadTOCFile(zip, ncxFile, parseNCX);
+  }
+
+  // Label content files with the first TOC entry pointing into them
+  const tocTitles = new Map<string, string>();
+  for (const entry of flattenTOC(toc)) {
+    if (entry.href && !tocTitles.has(entry.href)) tocTitles.set(entry.href, entry.title);
+  }
+  chapters = chapters.map((chapter) => {
+    const title = tocTitles.get(chapter.href);
+    return title ? { ...chapter, title } : chapter;
+  });
+
+  return { metadata, chapters, toc: toc.length > 0 ? toc : chapters };
+}
+
+/**
+ * Extract plain text from every chapter, for search indexing
+ */
+async function extractChapterText(zip: JSZip, chapters: EPUBChapter[]): Promise<string> {
+  const textParts: string[] = [];
+  for (const chapter of chapters) {
+    try {
+      const htmlFile = zip.file(chapter.href);
+      if (htmlFile) {
+        const htmlContent = await htmlFile.async('string');
+        // Basic HTML to text extraction (remove tags)
+        const text = htmlContent
+          .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+          .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+          .replace(/<[^>]+>/g, ' ')
+          .replace(/\s+/g, ' ')
+          .trim();
+        textParts.push(text);
       }
+    } catch (error) {
+      console.warn(`Error extracting text from ${chapter.href}:`, error);
     }
-    
+  }
+  return textParts.join('\n\n');
+}
+
+/**
+ * Parse EPUB file and extract content
+ * EPUB files are ZIP archives containing HTML/CSS/XML files
+ */
+export async function parseEPUB(filePath: string): Promise<EPUBContent> {
+  try {
+    const archive = await openEPUBArchive(filePath);
+    const structure = await readEPUBStructure(archive);
+    const textContent = await extractChapterText(archive.zip, structure.chapters);
     return {
-      metadata,
-      chapters,
+      ...structure,
       text: textContent || 'No text content extracted from EPUB.',
-      toc: toc.length > 0 ? toc : chapters,
     };
   } catch (error) {
     console.error('Error parsing EPUB:', error);
     // Return default structure on error
     return {
-      metadata: {
-        title: 'Unknown EPUB',
-        author: 'Unknown',
-        description: '',
-        language: 'en',
-        publisher: '',
-        date: new Date().toISOString(),
-      },
+      metadata: defaultMetadata(),
       chapters: [],
       text: 'Error parsing EPUB file. The file may be corrupted or in an unsupported format.',
       toc: [],
@@ -240,6 +560,49 @@ export async function parseEPUB(filePath: string): Promise<EPUBContent> {
   }
 }
 
+/**
+ * Load a book's metadata, spine and TOC for reading. The structure is
+ * persisted per document and reused while the file's size and modification
+ * time are unchanged, so opening a book does not re-parse or read chapters.
+ */
+export async function loadEPUBStructure(documentId: string, filePath: string): Promise<EPUBStructure> {
+  let fileSize = 0;
+  let modifiedAt = 0;
+  try {
+    const info = await FileSystemLegacy.getInfoAsync(toFileUri(filePath));
+    if (info.exists) {
+      fileSize = info.size ?? 0;
+      modifiedAt = info.modificationTime ?? 0;
+    }
+    const cached = await getEPUBStructureCache(documentId);
+    if (
+      cached &&
+      cached.parserVersion === STRUCTURE_CACHE_VERSION &&
+      cached.fileSize === fileSize &&
+      cached.modifiedAt === modifiedAt
+    ) {
+      return JSON.parse(cached.structure) as EPUBStructure;
+    }
+  } catch (error) {
+    console.warn('Error reading cached EPUB structure:', error);
+  }
+
+  const structure = await readEPUBStructure(await openEPUBArchive(filePath));
+  try {
+    await saveEPUBStructureCache({
+      documentId,
+      fileSize,
+      modifiedAt,
+      parserVersion: STRUCTURE_CACHE_VERSION,
+      structure: JSON.stringify(structure),
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.warn('Error caching EPUB structure:', error);
+  }
+  return structure;
+}
+
 /**
  * Extract text content from EPUB
  */
@@ -258,18 +621,26 @@ export async function extractEPUBText(filePath: string): Promise<string> {
  */
 export async function getEPUBMetadata(filePath: string): Promise<EPUBMetadata> {
   try {
-    const content = await parseEPUB(filePath);
-    return content.metadata;
+    const structure = await readEPUBStructure(await openEPUBArchive(filePath));
+    return structure.metadata;
   } catch (error) {
     console.error('Error getting EPUB metadata:', error);
-    return {
-      title: 'Unknown EPUB',
-      author: 'Unknown',
-      description: '',
-      language: 'en',
-      publisher: '',
-      date: new Date().toISOString(),
-    };
+    return defaultMetadata();
+  }
+}
+
+/**
+ * Read the cover image as base64, or null when the book has none
+ */
+export async function getEPUBCoverImage(filePath: string): Promise<string | null> {
+  try {
+    const archive = await openEPUBArchive(filePath);
+    const { metadata } = await readEPUBStructure(archive);
+    const file = metadata.coverImage ? archive.zip.file(metadata.coverImage) : null;
+    return file ? await file.async('base64') : null;
+  } catch (error) {
+    console.error('Error reading EPUB cover:', error);
+    return null;
   }
 }
 
@@ -278,105 +649,142 @@ export async function getEPUBMetadata(filePath: string): Promise<EPUBMetadata> {
  */
 export async function getEPUBTOC(filePath: string): Promise<EPUBChapter[]> {
   try {
-    const content = await parseEPUB(filePath);
-    return content.toc;
+    const structure = await readEPUBStructure(await openEPUBArchive(filePath));
+    return structure.toc;
   } catch (error) {
     console.error('Error getting EPUB TOC:', error);
     return [];
   }
 }
 
+/**
+ * Find a chapter file by href: an archive path from parseEPUB, or a path relative to the OPF
+ */
+function findChapterFile(zip: JSZip, opfDir: string, chapterHref: string): { path: string; file: JSZip.JSZipObject } {
+  const candidates = [
+    chapterHref.startsWith('/') ? chapterHref.substring(1) : `${opfDir}${chapterHref}`,
+    chapterHref,
+    chapterHref.replace(/^\.\.\//, ''),
+    chapterHref.replace(/^\.\//, ''),
+  ];
+  for (const path of candidates) {
+    const file = zip.file(path);
+    if (file) {
+      return { path, file };
+    }
+  }
+  throw new Error(`Chapter file not found: ${chapterHref}`);
+}
+
 /**
  * Get HTML content for a specific EPUB chapter
  */
 export async function getEPUBChapterContent(filePath: string, chapterHref: string): Promise<string> {
   try {
-    // Read EPUB file as binary
-    let fileUri = filePath;
-    if (!filePath.startsWith('file://') && !filePath.startsWith('/')) {
-      fileUri = `${FileSystemLegacy.documentDirectory || ''}${filePath}`;
-    }
-    if (!fileUri.startsWith('file://')) {
-      fileUri = `file://${fileUri}`;
-    }
-    
-    const base64Data = await FileSystemLegacy.readAsStringAsync(fileUri, {
-      encoding: FileSystemLegacy.EncodingType.Base64,
-    });
-    
-    // Convert base64 to binary
-    let bytes: Uint8Array;
-    if (typeof Buffer !== 'undefined' && (Buffer as any).from) {
-      bytes = new Uint8Array((Buffer as any).from(base64Data, 'base64'));
-    } else {
-      let binaryString: string;
-      if (typeof global !== 'undefined' && (global as any).atob) {
-        binaryString = (global as any).atob(base64Data);
-      } else if (typeof Buffer !== 'undefined') {
-        binaryString = (Buffer as any).from(base64Data, 'base64').toString('binary');
-      } else {
-        throw new Error('Base64 decoding not available.');
-      }
-      bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
+    const { zip, opfDir } = await openEPUBArchive(filePath);
+    return await findChapterFile(zip, opfDir, chapterHref).file.async('string');
+  } catch (error) {
+    console.error(`Error getting EPUB chapter content for ${chapterHref}:`, error);
+    throw error;
+  }
+}
+
+export interface LoadedEPUBChapter extends ResolvedEPUBChapter {
+  loadMs: number; // Chapter-switch latency; the first chapter of a book also pays for opening the archive
+}
+
+/**
+ * Get a chapter's HTML with images, stylesheets and internal links resolved for the reader
+ */
+export async function getEPUBChapter(
+  filePath: string,
+  chapterHref: string,
+  fontSize?: number
+): Promise<LoadedEPUBChapter> {
+  try {
+    const startedAt = Date.now();
+    const { zip, opfDir } = await openEPUBArchive(filePath);
+    const { path, file } = findChapterFile(zip, opfDir, chapterHref);
+    const html = await file.async('string');
+    const resolved = await resolveEPUBChapterResources(zip, path, html, filePath, fontSize);
+    return { ...resolved, loadMs: Date.now() - startedAt };
+  } catch (error) {
+    console.error(`Error getting EPUB chapter ${chapterHref}:`, error);
+    throw error;
+  }
+}
+
+export interface EPUBNote {
+  ref: EPUBNoteRef;
+  text: string;
+}
+
+// Elements that hold a whole note when the target id sits on an inline anchor
+const NOTE_CONTAINERS = new Set(['aside', 'li', 'p', 'div', 'section', 'dd', 'td', 'blockquote']);
+
+/**
+ * Find the element for a note id, widening a bare anchor (`<a id="fn1"/>`) to its enclosing block
+ */
+function findNoteElement(root: XMLElement, id: string): XMLElement | undefined {
+  const visit = (node: XMLElement, path: XMLElement[]): XMLElement | undefined => {
+    for (const child of node.children) {
+      if (typeof child === 'string') continue;
+      if (child.attributes.id === id) {
+        if (NOTE_CONTAINERS.has(child.localName.toLowerCase()) || getTextContent(child).length > 3) return child;
+        return [...path].reverse().find((ancestor) => NOTE_CONTAINERS.has(ancestor.localName.toLowerCase())) ?? child;
       }
+      const found = visit(child, [...path, child]);
+      if (found) return found;
     }
-    
-    // Load ZIP file
-    const zip = await JSZip.loadAsync(bytes);
-    
-    // Find OPF file to resolve relative paths
-    let opfFile: string | null = null;
-    const containerXml = await zip.file('META-INF/container.xml')?.async('string');
-    
-    if (containerXml) {
-      const opfMatch = containerXml.match(/full-path="([^"]+)"/);
-      if (opfMatch) {
-        opfFile = opfMatch[1];
+    return undefined;
+  };
+  return visit(root, []);
+}
+
+/**
+ * Note text without "back to text" links
+ */
+function getNoteText(element: XMLElement): string {
+  const parts: string[] = [];
+  const visit = (node: XMLElement) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') {
+        parts.push(child);
+        continue;
       }
+      const types = `${getAttribute(child, 'epub:type') ?? ''} ${child.attributes.role ?? ''}`.toLowerCase();
+      if (/\b(?:doc-)?backlink\b/.test(types)) continue;
+      parts.push(' ');
+      visit(child);
     }
-    
-    if (!opfFile) {
-      opfFile = 'OEBPS/content.opf';
-      if (!zip.file(opfFile)) {
-        const possiblePaths = ['content.opf', 'package.opf', 'book.opf'];
-        for (const path of possiblePaths) {
-          if (zip.file(path)) {
-            opfFile = path;
-            break;
-          }
-        }
+  };
+  visit(element);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Look up the text of footnotes/endnotes, reading each referenced file once
+ */
+export async function getEPUBNotes(filePath: string, refs: EPUBNoteRef[]): Promise<EPUBNote[]> {
+  if (refs.length === 0) return [];
+  try {
+    const { zip } = await openEPUBArchive(filePath);
+    const documents = new Map<string, XMLElement | null>();
+    const notes: EPUBNote[] = [];
+    for (const ref of refs) {
+      if (!documents.has(ref.path)) {
+        const html = await zip.file(ref.path)?.async('string');
+        documents.set(ref.path, html ? parseXML(html) : null);
       }
-    }
-    
-    // Resolve chapter path relative to OPF directory
-    const opfDir = opfFile ? opfFile.substring(0, opfFile.lastIndexOf('/') + 1) : '';
-    const chapterPath = chapterHref.startsWith('/') 
-      ? chapterHref.substring(1) 
-      : `${opfDir}${chapterHref}`;
-    
-    // Get chapter HTML content
-    const htmlFile = zip.file(chapterPath);
-    if (!htmlFile) {
-      // Try alternative paths
-      const altPaths = [
-        chapterHref,
-        chapterHref.replace(/^\.\.\//, ''),
-        chapterHref.replace(/^\.\//, ''),
-      ];
-      for (const altPath of altPaths) {
-        const altFile = zip.file(altPath);
-        if (altFile) {
-          return await altFile.async('string');
-        }
+      const root = documents.get(ref.path);
+      const element = root ? findNoteElement(root, ref.fragment) : undefined;
+      if (element) {
+        notes.push({ ref, text: getNoteText(element) });
       }
-      throw new Error(`Chapter file not found: ${chapterHref}`);
     }
-    
-    return await htmlFile.async('string');
+    return notes;
   } catch (error) {
-    console.error(`Error getting EPUB chapter content for ${chapterHref}:`, error);
-    throw error;
+    console.error('Error loading EPUB notes:', error);
+    return [];
   }
 }
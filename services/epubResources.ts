@@ -0,0 +1,402 @@
+/**
+ * EPUB Resource Resolver
+ * Rewrites chapter HTML so images, stylesheets and internal links that point
+ * into the archive work inside the reader
+ */
+
+import * as FileSystemLegacy from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import type { MixedStyleDeclaration, MixedStyleRecord } from 'react-native-render-html';
+import JSZip from 'jszip';
+
+// Scheme given to rewritten internal links: `epub:<archive path>#<fragment>`
+export const EPUB_LINK_SCHEME = 'epub:';
+
+const RESOURCE_CACHE_DIR = FileSystemLegacy.cacheDirectory ? `${FileSystemLegacy.cacheDirectory}epub-resources/` : null;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+};
+
+type StyleRecord = Record<string, MixedStyleDeclaration>;
+
+/**
+ * A footnote/endnote reference (`epub:type="noteref"`) found in a chapter
+ */
+export interface EPUBNoteRef {
+  label: string; // Link text, usually the note number
+  path: string; // Archive path of the file holding the note
+  fragment: string; // Id of the note element
+}
+
+export interface ResolvedEPUBChapter {
+  html: string;
+  tagsStyles: MixedStyleRecord; // Safe subset of the book's CSS, keyed by tag
+  classesStyles: MixedStyleRecord; // Same, keyed by class name
+  noteRefs: EPUBNoteRef[]; // In document order
+}
+
+/**
+ * Resolve an href against the directory of the file containing it.
+ * Returns the archive path (percent-decoded, `.`/`..` collapsed) and the fragment, if any.
+ */
+export function resolveEPUBHref(baseDir: string, href: string): { path: string; fragment?: string } {
+  const hashIndex = href.indexOf('#');
+  const rawPath = hashIndex === -1 ? href : href.substring(0, hashIndex);
+  const fragment = hashIndex === -1 ? undefined : href.substring(hashIndex + 1) || undefined;
+
+  let decoded = rawPath;
+  try {
+    decoded = decodeURIComponent(rawPath);
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  const segments: string[] = [];
+  const combined = decoded.startsWith('/') ? decoded.substring(1) : `${baseDir}${decoded}`;
+  for (const segment of combined.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  // An empty path ("#note") refers to the containing document itself
+  return { path: rawPath === '' ? '' : segments.join('/'), fragment };
+}
+
+export function directoryOf(path: string): string {
+  return path.substring(0, path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Split an internal link produced by the resolver into archive path and fragment
+ */
+export function parseEPUBLink(href: string): { path: string; fragment?: string } | null {
+  if (!href.startsWith(EPUB_LINK_SCHEME)) return null;
+  const target = href.substring(EPUB_LINK_SCHEME.length);
+  const hashIndex = target.indexOf('#');
+  if (hashIndex === -1) return { path: target };
+  return { path: target.substring(0, hashIndex), fragment: target.substring(hashIndex + 1) || undefined };
+}
+
+/**
+ * Whether a link's attributes mark it as a note reference (EPUB 3 or DPUB-ARIA)
+ */
+export function isEPUBNoteRef(attributes: Record<string, string | undefined>): boolean {
+  const types = `${attributes['epub:type'] ?? ''} ${attributes.role ?? ''}`.toLowerCase().split(/\s+/);
+  return types.includes('noteref') || types.includes('doc-noteref');
+}
+
+function getTagAttribute(tag: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const value = tag.match(new RegExp(`\\s${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return value ? decodeAttribute(value[1] ?? value[2] ?? '') : undefined;
+}
+
+function isExternalHref(href: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('//');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Stable short key for a book's cache directory
+ */
+function bookCacheKey(bookPath: string): string {
+  let hash = 5381;
+  for (let i = 0; i < bookPath.length; i++) {
+    hash = ((hash << 5) + hash + bookPath.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Make an archive image loadable: a file in the per-book cache directory on
+ * native, a data URI where there is no file system (web)
+ */
+async function resolveImage(zip: JSZip, archivePath: string, bookPath: string): Promise<string | null> {
+  const file = zip.file(archivePath);
+  if (!file) return null;
+  const extension = archivePath.substring(archivePath.lastIndexOf('.') + 1).toLowerCase();
+
+  if (!RESOURCE_CACHE_DIR || Platform.OS === 'web') {
+    const mimeType = IMAGE_MIME_TYPES[extension] ?? 'application/octet-stream';
+    return `data:${mimeType};base64,${await file.async('base64')}`;
+  }
+
+  const cachedPath = `${RESOURCE_CACHE_DIR}${bookCacheKey(bookPath)}/${archivePath}`;
+  const info = await FileSystemLegacy.getInfoAsync(cachedPath);
+  if (!info.exists) {
+    await FileSystemLegacy.makeDirectoryAsync(directoryOf(cachedPath), { intermediates: true });
+    await FileSystemLegacy.writeAsStringAsync(cachedPath, await file.async('base64'), {
+      encoding: FileSystemLegacy.EncodingType.Base64,
+    });
+  }
+  return cachedPath;
+}
+
+/**
+ * Delete the images cached for a book, once the book itself is deleted
+ */
+export async function deleteEPUBResourceCache(bookPath: string): Promise<void> {
+  if (!RESOURCE_CACHE_DIR || Platform.OS === 'web') return;
+  try {
+    await FileSystemLegacy.deleteAsync(`${RESOURCE_CACHE_DIR}${bookCacheKey(bookPath)}/`, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting cached EPUB resources:', error);
+  }
+}
+
+/**
+ * Convert a CSS length to pixels, relative to the reader font size for em/rem
+ */
+function cssLengthToPixels(value: string, fontSize: number): number | null {
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|em|rem|pt)?$/i);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  switch ((match[2] ?? 'px').toLowerCase()) {
+    case 'em':
+    case 'rem':
+      return amount * fontSize;
+    case 'pt':
+      return (amount * 4) / 3;
+    default:
+      return amount;
+  }
+}
+
+const MAX_MARGIN_EMS = 4;
+
+/**
+ * Map one declaration onto a React Native style. Colors, fonts, sizes and
+ * positioning are dropped so the reader theme and settings stay in control.
+ */
+function applyDeclaration(style: MixedStyleDeclaration, property: string, value: string, fontSize: number): void {
+  const keyword = value.replace(/\s*!important\s*$/i, '').trim().toLowerCase();
+  const setMargin = (key: 'marginTop' | 'marginRight' | 'marginBottom' | 'marginLeft', raw: string) => {
+    const pixels = cssLengthToPixels(raw, fontSize);
+    if (pixels !== null && pixels >= 0) style[key] = Math.min(pixels, fontSize * MAX_MARGIN_EMS);
+  };
+
+  switch (property) {
+    case 'text-align':
+      if (['left', 'right', 'center', 'justify'].includes(keyword)) {
+        style.textAlign = keyword as MixedStyleDeclaration['textAlign'];
+      }
+      break;
+    case 'font-style':
+      if (keyword === 'italic' || keyword === 'normal') style.fontStyle = keyword;
+      break;
+    case 'font-weight':
+      if (keyword === 'bold' || keyword === 'normal' || /^[1-9]00$/.test(keyword)) {
+        style.fontWeight = keyword as MixedStyleDeclaration['fontWeight'];
+      }
+      break;
+    case 'text-decoration':
+    case 'text-decoration-line':
+      if (['none', 'underline', 'line-through'].includes(keyword)) {
+        style.textDecorationLine = keyword as MixedStyleDeclaration['textDecorationLine'];
+      }
+      break;
+    case 'text-transform':
+      if (['none', 'uppercase', 'lowercase', 'capitalize'].includes(keyword)) {
+        style.textTransform = keyword as MixedStyleDeclaration['textTransform'];
+      }
+      break;
+    case 'margin-top':
+      setMargin('marginTop', keyword);
+      break;
+    case 'margin-right':
+      setMargin('marginRight', keyword);
+      break;
+    case 'margin-bottom':
+      setMargin('marginBottom', keyword);
+      break;
+    case 'margin-left':
+      setMargin('marginLeft', keyword);
+      break;
+    case 'margin': {
+      const parts = keyword.split(/\s+/);
+      const [top, right = top, bottom = top, left = right] = parts;
+      setMargin('marginTop', top);
+      setMargin('marginRight', right);
+      setMargin('marginBottom', bottom);
+      setMargin('marginLeft', left);
+      break;
+    }
+  }
+}
+
+/**
+ * Parse a stylesheet into tag and class styles. Only simple selectors
+ * (`p`, `.note`, `p.note`) are kept; at-rules and combinators are skipped.
+ */
+function parseStylesheet(
+  css: string,
+  fontSize: number,
+  tagsStyles: StyleRecord,
+  classesStyles: StyleRecord
+): void {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let position = 0;
+  while (position < source.length) {
+    const open = source.indexOf('{', position);
+    if (open === -1) break;
+    const prelude = source.substring(position, open).trim();
+
+    // Find the matching close brace so nested @media blocks are skipped whole
+    let depth = 1;
+    let close = open + 1;
+    while (close < source.length && depth > 0) {
+      if (source[close] === '{') depth++;
+      else if (source[close] === '}') depth--;
+      close++;
+    }
+    const body = source.substring(open + 1, close - 1);
+    position = close;
+    if (prelude.startsWith('@')) continue;
+
+    const declarations: Array<[string, string]> = [];
+    for (const declaration of body.split(';')) {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) continue;
+      declarations.push([declaration.substring(0, colon).trim().toLowerCase(), declaration.substring(colon + 1).trim()]);
+    }
+
+    for (const selector of prelude.split(',')) {
+      const match = selector.trim().match(/^([a-z][a-z0-9]*)?(?:\.([\w-]+))?$/i);
+      if (!match || (!match[1] && !match[2])) continue;
+      const [, tag, className] = match;
+      const record = className ? classesStyles : tagsStyles;
+      const key = className ?? (tag ?? '').toLowerCase();
+      const style: MixedStyleDeclaration = { ...record[key] };
+      for (const [property, value] of declarations) {
+        applyDeclaration(style, property, value, fontSize);
+      }
+      if (Object.keys(style).length > 0) record[key] = style;
+    }
+  }
+}
+
+/**
+ * Rewrite a chapter's archive references:
+ * - `<img src>` (and SVG-wrapped cover images) become cached files or data URIs
+ * - linked and inline stylesheets are reduced to `tagsStyles`/`classesStyles`
+ * - links into the book become `epub:` links the reader navigates itself
+ * - footnote asides referenced from the chapter are removed from the flow and
+ *   reported as `noteRefs`, for the reader to show on demand
+ */
+export async function resolveEPUBChapterResources(
+  zip: JSZip,
+  chapterPath: string,
+  html: string,
+  bookPath: string,
+  fontSize: number = 16
+): Promise<ResolvedEPUBChapter> {
+  const chapterDir = directoryOf(chapterPath);
+  const tagsStyles: StyleRecord = {};
+  const classesStyles: StyleRecord = {};
+
+  // Stylesheets apply in document order: linked files and <style> blocks
+  const stylesheetPattern = /<link\b[^>]*>|<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+  for (const match of html.matchAll(stylesheetPattern)) {
+    try {
+      if (match[0].toLowerCase().startsWith('<style')) {
+        parseStylesheet(match[1] ?? '', fontSize, tagsStyles, classesStyles);
+        continue;
+      }
+      const rel = match[0].match(/\brel\s*=\s*["']([^"']*)["']/i)?.[1] ?? '';
+      const href = match[0].match(/\bhref\s*=\s*["']([^"']*)["']/i)?.[1];
+      if (!href || !rel.toLowerCase().split(/\s+/).includes('stylesheet') || isExternalHref(href)) continue;
+      const css = await zip.file(resolveEPUBHref(chapterDir, decodeAttribute(href)).path)?.async('string');
+      if (css) parseStylesheet(css, fontSize, tagsStyles, classesStyles);
+    } catch (error) {
+      console.warn(`Error loading stylesheet in ${chapterPath}:`, error);
+    }
+  }
+
+  // Note references, and the in-chapter footnotes they point at
+  const noteRefs: EPUBNoteRef[] = [];
+  const localNoteIds = new Set<string>();
+  for (const match of html.matchAll(/<a\b((?:[^>/]|\/(?!>))*)>([\s\S]*?)<\/a>/gi)) {
+    const openTag = match[1];
+    const href = getTagAttribute(openTag, 'href');
+    const attributes = { 'epub:type': getTagAttribute(openTag, 'epub:type'), role: getTagAttribute(openTag, 'role') };
+    if (!href || isExternalHref(href) || !isEPUBNoteRef(attributes)) continue;
+    const target = resolveEPUBHref(chapterDir, href);
+    if (!target.fragment) continue;
+    const path = target.path || chapterPath;
+    if (path === chapterPath) localNoteIds.add(target.fragment);
+    noteRefs.push({
+      label: decodeAttribute(match[2].replace(/<[^>]+>/g, '')).trim() || `${noteRefs.length + 1}`,
+      path,
+      fragment: target.fragment,
+    });
+  }
+
+  let resolved = html
+    // Footnote asides referenced from this chapter show in a popover instead of inline
+    .replace(/<aside\b([^>]*)>[\s\S]*?<\/aside>/gi, (aside, attributes: string) => {
+      const id = getTagAttribute(attributes, 'id');
+      const types = (getTagAttribute(attributes, 'epub:type') ?? getTagAttribute(attributes, 'role') ?? '').toLowerCase();
+      const isNote = /\b(?:doc-)?(?:footnote|endnote|rearnote)\b/.test(types);
+      return id && isNote && localNoteIds.has(id) ? '' : aside;
+    })
+    .replace(/<link\b[^>]*>/gi, '')
+    .replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, '')
+    // Full-page cover images are often an <svg> wrapping an <image>
+    .replace(/<svg\b[^>]*>[\s\S]*?<\/svg>/gi, (svg) => {
+      const href = svg.match(/<image\b[^>]*?\b(?:xlink:)?href\s*=\s*["']([^"']+)["']/i)?.[1];
+      return href ? `<img src="${href}" />` : svg;
+    });
+
+  // Images
+  const imageSources = new Map<string, string | null>();
+  for (const match of resolved.matchAll(/<img\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi)) {
+    const src = match[1];
+    if (imageSources.has(src) || isExternalHref(src)) continue;
+    try {
+      imageSources.set(src, await resolveImage(zip, resolveEPUBHref(chapterDir, decodeAttribute(src)).path, bookPath));
+    } catch (error) {
+      console.warn(`Error extracting image ${src}:`, error);
+      imageSources.set(src, null);
+    }
+  }
+  resolved = resolved.replace(
+    /(<img\b[^>]*?\bsrc\s*=\s*)(["'])([^"']+)\2/gi,
+    (tag, prefix: string, _quote: string, src: string) => {
+      const uri = imageSources.get(src);
+      return uri ? `${prefix}"${escapeAttribute(uri)}"` : tag;
+    }
+  );
+
+  // Internal links
+  resolved = resolved.replace(
+    /(<a\b[^>]*?\bhref\s*=\s*)(["'])([^"']*)\2/gi,
+    (tag, prefix: string, _quote: string, href: string) => {
+      if (!href || isExternalHref(href)) return tag;
+      const target = resolveEPUBHref(chapterDir, decodeAttribute(href));
+      const path = target.path || chapterPath;
+      const link = `${EPUB_LINK_SCHEME}${path}${target.fragment ? `#${target.fragment}` : ''}`;
+      return `${prefix}"${escapeAttribute(link)}"`;
+    }
+  );
+
+  return { html: resolved, tagsStyles, classesStyles, noteRefs };
+}
@@ -63,7 +63,11 @@ export async function exportToMarkdown(
           markdown += `*From: ${doc.title}*\n\n`;
         }
         markdown += `> ${highlight.text}\n\n`;
-        markdown += `*Page ${highlight.startPosition}*\n\n`;
+        if (!highlight.locator) {
+          markdown += `*Page ${highlight.startPosition}*\n\n`;
+        } else if (doc?.format === 'epub') {
+          markdown += `*Chapter ${highlight.locator.chapterIndex + 1}*\n\n`;
+        }
         markdown += '---\n\n';
       }
     }
@@ -149,26 +153,6 @@ export async function exportAllHighlights(): Promise<void> {
   await exportAndShare(markdown, 'all-highlights-notes.md', 'text/markdown');
 }
 
-/**
- * Backup database (export as JSON)
- */
-export async function backupDatabase(): Promise<string> {
-  const { getAllDocuments } = await import('./database');
-  const documents = await getAllDocuments();
-  const highlights = await getAllHighlights();
-  const notes = await getAllNotes();
-
-  const backup = {
-    version: '1.0',
-    exportedAt: new Date().toISOString(),
-    documents,
-    highlights,
-    notes,
-  };
-
-  return JSON.stringify(backup, null, 2);
-}
-
 /**
  * Share document file
  */
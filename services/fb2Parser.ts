@@ -0,0 +1,327 @@
+/**
+ * FB2 Parser Service
+ * Reads FictionBook 2 books (plain .fb2 or zipped .fb2.zip): description
+ * metadata, the cover binary, and the body converted to HTML for the reader
+ */
+
+import JSZip from 'jszip';
+import { XMLElement, XMLNode, parseXML, getAttribute, findChild, findChildren, getTextContent } from '@/utils/xmlParser';
+import { createTextDecoder, detectTextEncoding, encodingFromLabel } from '@/utils/textEncoding';
+import { addHeadingAnchors, HeadingNode } from '@/utils/htmlOutline';
+import { htmlToLocatorText } from '@/utils/textLocator';
+import { readFileBytes } from '@/utils/fileData';
+
+export interface FB2Metadata {
+  title: string;
+  author: string; // Authors from title-info, comma separated
+  annotation: string; // Plain text
+  language: string;
+  coverImage?: string; // Id of the cover's <binary>
+}
+
+export interface FB2Content {
+  html: string;
+  text: string; // Plain text, for search indexing
+  outline: HeadingNode[]; // Section titles, nested like the sections
+  metadata: FB2Metadata;
+}
+
+interface FB2Binary {
+  contentType: string;
+  data: string; // Base64
+}
+
+// Inline FB2 elements and the HTML tags they become
+const INLINE_TAGS: Record<string, string> = {
+  strong: 'strong',
+  emphasis: 'em',
+  strikethrough: 'del',
+  sub: 'sub',
+  sup: 'sup',
+  code: 'code',
+};
+
+function defaultMetadata(): FB2Metadata {
+  return {
+    title: 'Unknown Title',
+    author: 'Unknown Author',
+    annotation: '',
+    language: 'en',
+  };
+}
+
+/**
+ * Decode FB2 XML bytes using the encoding in the XML declaration (often
+ * windows-1251), falling back to detection
+ */
+function decodeFB2(bytes: Uint8Array): string {
+  const detected = detectTextEncoding(bytes);
+  let encoding = detected.encoding;
+  if (detected.bomLength === 0) {
+    const head = String.fromCharCode(...bytes.subarray(0, 200));
+    const declared = head.match(/^\s*<\?xml[^>]*\sencoding\s*=\s*["']([^"']+)["']/i);
+    encoding = (declared && encodingFromLabel(declared[1])) || encoding;
+  }
+  return createTextDecoder(encoding).decode(bytes.subarray(detected.bomLength), true);
+}
+
+/**
+ * Read the FictionBook XML, unzipping .fb2.zip archives
+ */
+async function readFB2Document(filePath: string): Promise<XMLElement> {
+  let bytes = await readFileBytes(filePath);
+  // Zip archives start with "PK"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    const zip = await JSZip.loadAsync(bytes);
+    const entry =
+      zip.file(/\.fb2$/i).find((file) => !file.dir) ?? Object.values(zip.files).find((file) => !file.dir);
+    if (!entry) {
+      throw new Error('No FB2 file found in archive');
+    }
+    bytes = await entry.async('uint8array');
+  }
+  const root = findChild(parseXML(decodeFB2(bytes)), 'FictionBook');
+  if (!root) {
+    throw new Error('Not a FictionBook document');
+  }
+  return root;
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Target of an l:href / xlink:href link, whatever the namespace prefix
+ */
+function linkTarget(element: XMLElement): string {
+  return getAttribute(element, 'l:href') ?? getAttribute(element, 'href') ?? '';
+}
+
+function authorName(author: XMLElement): string {
+  const parts = ['first-name', 'middle-name', 'last-name']
+    .map((name) => {
+      const part = findChild(author, name);
+      return part ? getTextContent(part) : '';
+    })
+    .filter(Boolean);
+  if (parts.length > 0) return parts.join(' ');
+  const nickname = findChild(author, 'nickname');
+  return nickname ? getTextContent(nickname) : '';
+}
+
+function readMetadata(root: XMLElement): FB2Metadata {
+  const metadata = defaultMetadata();
+  const titleInfo = findChild(findChild(root, 'description') ?? root, 'title-info');
+  if (!titleInfo) return metadata;
+
+  const title = findChild(titleInfo, 'book-title');
+  if (title && getTextContent(title)) metadata.title = getTextContent(title);
+  const authors = findChildren(titleInfo, 'author').map(authorName).filter(Boolean);
+  if (authors.length > 0) metadata.author = authors.join(', ');
+  const annotation = findChild(titleInfo, 'annotation');
+  if (annotation) {
+    metadata.annotation = findChildren(annotation, 'p').map(getTextContent).filter(Boolean).join('\n');
+  }
+  const language = findChild(titleInfo, 'lang');
+  if (language && getTextContent(language)) metadata.language = getTextContent(language);
+
+  const coverImage = findChild(findChild(titleInfo, 'coverpage') ?? titleInfo, 'image');
+  const coverId = coverImage ? linkTarget(coverImage).replace(/^#/, '') : '';
+  if (coverId) metadata.coverImage = coverId;
+  return metadata;
+}
+
+function readBinaries(root: XMLElement): Map<string, FB2Binary> {
+  const binaries = new Map<string, FB2Binary>();
+  for (const binary of findChildren(root, 'binary')) {
+    const id = getAttribute(binary, 'id');
+    if (!id) continue;
+    binaries.set(id, {
+      contentType: getAttribute(binary, 'content-type') || 'image/jpeg',
+      data: binary.children.filter((child): child is string => typeof child === 'string').join('').replace(/\s+/g, ''),
+    });
+  }
+  return binaries;
+}
+
+/**
+ * Converts body content to HTML. Section titles become headings by nesting
+ * depth; sections in a notes body keep plain titles so notes stay out of the TOC.
+ */
+class FB2HTMLWriter {
+  private parts: string[] = [];
+
+  constructor(private binaries: Map<string, FB2Binary>) {}
+
+  toString(): string {
+    return this.parts.join('');
+  }
+
+  writeBody(body: XMLElement, isNotes: boolean): void {
+    this.writeBlocks(body.children, 0, isNotes);
+  }
+
+  private writeBlocks(nodes: XMLNode[], depth: number, isNotes: boolean): void {
+    for (const node of nodes) {
+      if (typeof node !== 'string') this.writeBlock(node, depth, isNotes);
+    }
+  }
+
+  private writeBlock(element: XMLElement, depth: number, isNotes: boolean): void {
+    const id = getAttribute(element, 'id');
+    const idAttribute = id ? ` id="${escapeHTML(id)}"` : '';
+    switch (element.localName) {
+      case 'section':
+        this.parts.push(`<div${idAttribute}>`);
+        this.writeBlocks(element.children, depth + 1, isNotes);
+        this.parts.push('</div>');
+        break;
+      case 'title': {
+        const lines = findChildren(element, 'p').map((p) => this.inline(p.children));
+        if (isNotes) {
+          this.parts.push(`<p${idAttribute}><strong>${lines.join(' ')}</strong></p>`);
+        } else {
+          const level = Math.min(6, Math.max(1, depth));
+          this.parts.push(`<h${level}${idAttribute}>${lines.join('<br/>')}</h${level}>`);
+        }
+        break;
+      }
+      case 'p':
+        this.parts.push(`<p${idAttribute}>${this.inline(element.children)}</p>`);
+        break;
+      case 'subtitle':
+        this.parts.push(`<p${idAttribute}><strong>${this.inline(element.children)}</strong></p>`);
+        break;
+      case 'empty-line':
+        this.parts.push('<br/>');
+        break;
+      case 'image':
+        this.parts.push(this.image(element));
+        break;
+      case 'epigraph':
+      case 'cite':
+      case 'annotation':
+        this.parts.push(`<blockquote${idAttribute}>`);
+        this.writeBlocks(element.children, depth, isNotes);
+        this.parts.push('</blockquote>');
+        break;
+      case 'text-author':
+        this.parts.push(`<p><em>${this.inline(element.children)}</em></p>`);
+        break;
+      case 'poem':
+        this.parts.push(`<div${idAttribute}>`);
+        for (const child of element.children) {
+          if (typeof child === 'string') continue;
+          if (child.localName === 'title') {
+            const lines = findChildren(child, 'p').map((p) => this.inline(p.children));
+            this.parts.push(`<p><strong>${lines.join('<br/>')}</strong></p>`);
+          } else if (child.localName === 'stanza') {
+            const verses = findChildren(child, 'v').map((verse) => this.inline(verse.children));
+            this.parts.push(`<p>${verses.join('<br/>')}</p>`);
+          } else {
+            this.writeBlock(child, depth, isNotes);
+          }
+        }
+        this.parts.push('</div>');
+        break;
+      case 'date':
+        this.parts.push(`<p><em>${this.inline(element.children)}</em></p>`);
+        break;
+      case 'table':
+        this.parts.push(`<table${idAttribute}>`);
+        for (const row of findChildren(element, 'tr')) {
+          this.parts.push('<tr>');
+          for (const cell of row.children) {
+            if (typeof cell === 'string' || (cell.localName !== 'td' && cell.localName !== 'th')) continue;
+            this.parts.push(`<${cell.localName}>${this.inline(cell.children)}</${cell.localName}>`);
+          }
+          this.parts.push('</tr>');
+        }
+        this.parts.push('</table>');
+        break;
+      default:
+        // Unknown block: keep its text
+        this.writeBlocks(element.children, depth, isNotes);
+    }
+  }
+
+  private image(element: XMLElement): string {
+    const binary = this.binaries.get(linkTarget(element).replace(/^#/, ''));
+    if (!binary) return '';
+    const alt = getAttribute(element, 'alt');
+    return `<img src="data:${binary.contentType};base64,${binary.data}"${alt ? ` alt="${escapeHTML(alt)}"` : ''}/>`;
+  }
+
+  private inline(nodes: XMLNode[]): string {
+    return nodes
+      .map((node) => {
+        if (typeof node === 'string') return escapeHTML(node);
+        const tag = INLINE_TAGS[node.localName];
+        if (tag) return `<${tag}>${this.inline(node.children)}</${tag}>`;
+        if (node.localName === 'a') {
+          const content = this.inline(node.children);
+          const link = `<a href="${escapeHTML(linkTarget(node))}">${content}</a>`;
+          return getAttribute(node, 'type') === 'note' ? `<sup>${link}</sup>` : link;
+        }
+        if (node.localName === 'image') return this.image(node);
+        return this.inline(node.children);
+      })
+      .join('');
+  }
+}
+
+/**
+ * Parse an FB2 file into reader HTML, a section outline, search text and metadata
+ */
+export async function parseFB2(filePath: string): Promise<FB2Content> {
+  try {
+    const root = await readFB2Document(filePath);
+    const writer = new FB2HTMLWriter(readBinaries(root));
+    for (const body of findChildren(root, 'body')) {
+      const name = getAttribute(body, 'name');
+      writer.writeBody(body, name === 'notes' || name === 'comments');
+    }
+    const { html, outline } = addHeadingAnchors(writer.toString(), 'fb2-heading');
+    return {
+      html,
+      text: htmlToLocatorText(html),
+      outline,
+      metadata: readMetadata(root),
+    };
+  } catch (error) {
+    console.error('Error parsing FB2:', error);
+    return {
+      html: '<p>Error reading FB2 file.</p>',
+      text: 'Error reading FB2 file.',
+      outline: [],
+      metadata: defaultMetadata(),
+    };
+  }
+}
+
+/**
+ * Get FB2 metadata without converting the body
+ */
+export async function getFB2Metadata(filePath: string): Promise<FB2Metadata> {
+  try {
+    return readMetadata(await readFB2Document(filePath));
+  } catch (error) {
+    console.error('Error getting FB2 metadata:', error);
+    return defaultMetadata();
+  }
+}
+
+/**
+ * Read the cover image as base64, or null when the book has none
+ */
+export async function getFB2CoverImage(filePath: string): Promise<string | null> {
+  try {
+    const root = await readFB2Document(filePath);
+    const { coverImage } = readMetadata(root);
+    return coverImage ? readBinaries(root).get(coverImage)?.data ?? null : null;
+  } catch (error) {
+    console.error('Error reading FB2 cover:', error);
+    return null;
+  }
+}
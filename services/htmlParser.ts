@@ -0,0 +1,512 @@
+/**
+ * HTML Parser Service
+ * Extracts the article from a saved web page, readability-style: scripts,
+ * navigation, ads and other page furniture are dropped, and the main body
+ * with its headings, images and links is kept for the reader
+ */
+
+import {
+  XMLElement,
+  XMLNode,
+  parseXML,
+  findChild,
+  findDescendant,
+  findDescendants,
+  getTextContent,
+} from '@/utils/xmlParser';
+import { createTextDecoder, detectTextEncoding, encodingFromLabel } from '@/utils/textEncoding';
+import { addHeadingAnchors, HeadingNode } from '@/utils/htmlOutline';
+import { htmlToLocatorText } from '@/utils/textLocator';
+import { readFileBytes } from '@/utils/fileData';
+
+export interface HTMLMetadata {
+  title: string | null; // og:title, else the page <title>
+  author: string | null;
+  description: string | null;
+  siteName: string | null;
+  sourceUrl: string | null; // Canonical address of the page
+}
+
+export interface HTMLContent {
+  html: string; // The extracted article only
+  text: string; // Plain text, for search indexing
+  outline: HeadingNode[];
+  metadata: HTMLMetadata;
+}
+
+// Elements with raw text content, removed before parsing so a "<" inside a
+// script can't open a tag
+const RAW_TEXT_ELEMENTS = /<(script|style|noscript|template|svg|math|iframe|object|canvas)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+// Page furniture that is never part of an article
+const REMOVED_ELEMENTS = new Set([
+  'head', 'nav', 'aside', 'footer', 'form', 'button', 'input', 'select', 'textarea', 'label',
+  'dialog', 'menu', 'link', 'meta', 'title', 'embed', 'source', 'track', 'video', 'audio', 'map',
+]);
+
+// Landmark roles of page furniture
+const REMOVED_ROLES = new Set([
+  'navigation', 'banner', 'complementary', 'contentinfo', 'dialog', 'alertdialog', 'menu', 'menubar', 'search',
+]);
+
+// Elements passed through to the reader as they are
+const KEPT_ELEMENTS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'code', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'figure', 'figcaption', 'img', 'a', 'em',
+  'strong', 'b', 'i', 'u', 's', 'del', 'ins', 'sub', 'sup', 'mark', 'small', 'br', 'hr', 'div', 'q', 'cite',
+]);
+
+// Block elements whose start tag closes an open <p>
+const PARAGRAPH_CLOSERS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'dl', 'table', 'figure', 'blockquote', 'pre',
+  'section', 'article', 'header', 'footer', 'nav', 'aside', 'main', 'hr', 'form', 'address', 'details',
+  'li', 'dt', 'dd', 'tr', 'td', 'th',
+]);
+
+// Elements with an optional end tag, and the start tags that end them
+const IMPLIED_END_TAGS: Record<string, Set<string>> = {
+  p: PARAGRAPH_CLOSERS,
+  li: new Set(['li']),
+  dt: new Set(['dt', 'dd']),
+  dd: new Set(['dt', 'dd']),
+  tr: new Set(['tr', 'thead', 'tbody', 'tfoot']),
+  td: new Set(['td', 'th', 'tr', 'thead', 'tbody', 'tfoot']),
+  th: new Set(['td', 'th', 'tr', 'thead', 'tbody', 'tfoot']),
+};
+
+// Blocks dropped from the article when they hold neither text nor images
+const REMOVABLE_WHEN_EMPTY = new Set([
+  'p', 'div', 'section', 'article', 'header', 'main', 'ul', 'ol', 'li', 'dl', 'figure', 'blockquote', 'table',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+
+// Sectioning elements rendered as plain blocks; anything else not kept is unwrapped
+const BLOCK_ELEMENTS = new Set(['article', 'section', 'main', 'header', 'center', 'hgroup', 'details', 'summary', 'address']);
+
+// Class and id patterns, after Mozilla's Readability
+const UNLIKELY_CANDIDATE =
+  /-ad-|^ads?$|^ad-|advert|banner|breadcrumb|combx|comment|community|cookie|disqus|gdpr|header|legends|menu|modal|newsletter|outbrain|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|taboola|tool|widget/i;
+const MAYBE_CANDIDATE = /article|body|column|content|main|post|story|entry|text/i;
+const POSITIVE_WEIGHT = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_WEIGHT =
+  /-ad-|hidden|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+const BYLINE = /\bbyline\b|\bauthor\b|\bwriter\b/i;
+
+// Shortest paragraph that counts towards a container's score
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Named character references for U+00A0-U+00FF, in code point order
+const LATIN1_ENTITY_NAMES = (
+  'nbsp iexcl cent pound curren yen brvbar sect uml copy ordf laquo not shy reg macr deg plusmn sup2 sup3 ' +
+  'acute micro para middot cedil sup1 ordm raquo frac14 frac12 frac34 iquest Agrave Aacute Acirc Atilde Auml ' +
+  'Aring AElig Ccedil Egrave Eacute Ecirc Euml Igrave Iacute Icirc Iuml ETH Ntilde Ograve Oacute Ocirc Otilde ' +
+  'Ouml times Oslash Ugrave Uacute Ucirc Uuml Yacute THORN szlig agrave aacute acirc atilde auml aring aelig ' +
+  'ccedil egrave eacute ecirc euml igrave iacute icirc iuml eth ntilde ograve oacute ocirc otilde ouml divide ' +
+  'oslash ugrave uacute ucirc uuml yacute thorn yuml'
+).split(' ');
+
+// HTML references common in web text, beyond the five XML ones the XML parser decodes
+const HTML_ENTITIES: Record<string, string> = {
+  ...Object.fromEntries(LATIN1_ENTITY_NAMES.map((name, index) => [name, String.fromCharCode(0xa0 + index)])),
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”',
+  bdquo: '„', lsaquo: '‹', rsaquo: '›', bull: '•', dagger: '†', Dagger: '‡', prime: '′', Prime: '″',
+  permil: '‰', trade: '™', euro: '€', OElig: 'Œ', oelig: 'œ', Scaron: 'Š', scaron: 'š', Yuml: 'Ÿ',
+  larr: '←', rarr: '→', uarr: '↑', darr: '↓', harr: '↔', minus: '−', le: '≤', ge: '≥', ne: '≠',
+  asymp: '≈', infin: '∞', ensp: ' ', emsp: ' ', thinsp: ' ', zwnj: '‌', zwj: '‍',
+};
+
+function isElement(node: XMLNode): node is XMLElement {
+  return typeof node !== 'string';
+}
+
+function tagOf(element: XMLElement): string {
+  return element.localName.toLowerCase();
+}
+
+function classAndId(element: XMLElement): string {
+  return `${element.attributes.class ?? ''} ${element.attributes.id ?? ''}`;
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Decode HTML bytes using the charset declared in a <meta> tag, falling back
+ * to detection
+ */
+function decodeHTML(bytes: Uint8Array): string {
+  const detected = detectTextEncoding(bytes);
+  let encoding = detected.encoding;
+  if (detected.bomLength === 0) {
+    const head = String.fromCharCode(...bytes.subarray(0, 1024));
+    const declared = head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i);
+    encoding = (declared && encodingFromLabel(declared[1])) || encoding;
+  }
+  return createTextDecoder(encoding).decode(bytes.subarray(detected.bomLength), true);
+}
+
+/**
+ * HTML ends a <p>, <li>, <dt>, <dd>, <tr> or cell at the start of the element
+ * that follows it (the next block, item or row), where the XML parser nests
+ * everything after it inside: move those elements out after it. Inner
+ * elements are closed first, so a run of unclosed items ends up as siblings.
+ */
+function closeImpliedElements(element: XMLElement): void {
+  const children: XMLNode[] = [];
+  for (const child of element.children) {
+    children.push(child);
+    if (!isElement(child)) continue;
+    closeImpliedElements(child);
+    const closers = IMPLIED_END_TAGS[tagOf(child)];
+    if (closers) {
+      const blockIndex = child.children.findIndex((node) => isElement(node) && closers.has(tagOf(node)));
+      if (blockIndex !== -1) {
+        children.push(...child.children.slice(blockIndex));
+        child.children = child.children.slice(0, blockIndex);
+      }
+    }
+  }
+  element.children = children;
+}
+
+/**
+ * Parse tolerant HTML into the XML parser's tree: raw-text elements are
+ * removed, tag names lowercased (so </P> closes <p>), HTML-only named
+ * references decoded and unclosed paragraphs, list items and table cells ended
+ */
+function parseHTMLTree(source: string): XMLElement {
+  const prepared = source
+    .replace(RAW_TEXT_ELEMENTS, '')
+    .replace(/<(\/?)([a-z][\w:-]*)/gi, (_, slash: string, name: string) => `<${slash}${name.toLowerCase()}`)
+    // nbsp is left to the XML parser, which reads it as a plain space
+    .replace(/&([a-z][a-z0-9]*);/gi, (entity, name: string) => (name !== 'nbsp' && HTML_ENTITIES[name]) || entity);
+  const root = parseXML(prepared);
+  closeImpliedElements(root);
+  return root;
+}
+
+/**
+ * Resolve a link or image address against the page's address. Relative
+ * addresses are unusable without one, since the page's folder isn't imported.
+ */
+function resolveURL(url: string, base: string | null): string | null {
+  const trimmed = url.trim();
+  if (!trimmed || /^javascript:/i.test(trimmed)) return null;
+  // Absolute (including data: URIs) or an in-page anchor
+  if (/^(?:[a-z][a-z0-9+.-]*:|#)/i.test(trimmed)) return trimmed;
+
+  const origin = base?.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i)?.[0];
+  if (!base || !origin) return null;
+  if (trimmed.startsWith('//')) return `${origin.substring(0, origin.indexOf(':'))}:${trimmed}`;
+  if (trimmed.startsWith('/')) return `${origin}${trimmed}`;
+
+  const basePath = base.substring(origin.length).replace(/[?#].*$/, '');
+  const directory = basePath.substring(0, basePath.lastIndexOf('/') + 1) || '/';
+  const queryStart = trimmed.search(/[?#]/);
+  const path = queryStart === -1 ? trimmed : trimmed.substring(0, queryStart);
+  const suffix = queryStart === -1 ? '' : trimmed.substring(queryStart);
+  const segments: string[] = [];
+  for (const segment of `${directory}${path}`.split('/').slice(1)) {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.') segments.push(segment);
+  }
+  if (path.endsWith('/..') || path.endsWith('/.') || path === '..' || path === '.') segments.push('');
+  return `${origin}/${segments.join('/')}${suffix}`;
+}
+
+/**
+ * Metadata from <title>, Open Graph and author <meta> tags
+ */
+function readMetadata(root: XMLElement): HTMLMetadata & { baseUrl: string | null } {
+  const meta = new Map<string, string>();
+  for (const element of findDescendants(root, 'meta')) {
+    const key = (element.attributes.property ?? element.attributes.name ?? element.attributes.itemprop ?? '').toLowerCase();
+    const content = element.attributes.content?.replace(/\s+/g, ' ').trim();
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+  const first = (...keys: string[]) => keys.map((key) => meta.get(key)).find(Boolean) ?? null;
+
+  const canonical = findDescendants(root, 'link').find((link) => link.attributes.rel?.toLowerCase() === 'canonical');
+  const sourceUrl =
+    [canonical?.attributes.href, meta.get('og:url')].find((url) => url && /^https?:\/\//i.test(url)) ?? null;
+  const baseHref = findDescendant(root, 'base')?.attributes.href;
+  const baseUrl = baseHref && /^https?:\/\//i.test(baseHref) ? baseHref : sourceUrl;
+
+  const siteName = first('og:site_name', 'application-name');
+  let title = first('og:title', 'twitter:title', 'dc.title');
+  if (!title) {
+    const titleElement = findDescendant(root, 'title');
+    title = titleElement ? getTextContent(titleElement) || null : null;
+    // "Article title | Site name"
+    if (title && siteName) {
+      const escaped = siteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      title = title.replace(new RegExp(`\\s+[|\\-–—:»·]\\s+${escaped}$|^${escaped}\\s+[|\\-–—:»·]\\s+`, 'i'), '') || title;
+    }
+  }
+
+  // article:author is often a profile URL rather than a name
+  const authorMeta = first('author', 'article:author', 'byl', 'dc.creator', 'parsely-author', 'sailthru.author');
+  const author = authorMeta && !/^https?:\/\//i.test(authorMeta) ? authorMeta.replace(/^by\s+/i, '') : findByline(root);
+
+  return {
+    title,
+    author,
+    description: first('og:description', 'description', 'twitter:description'),
+    siteName,
+    sourceUrl,
+    baseUrl,
+  };
+}
+
+/**
+ * A short byline element (rel="author", or an author/byline class) for pages
+ * without author metadata
+ */
+function findByline(root: XMLElement): string | null {
+  let byline: string | null = null;
+  const visit = (element: XMLElement) => {
+    for (const child of element.children) {
+      if (byline || !isElement(child)) continue;
+      const { rel, itemprop } = child.attributes;
+      if (rel === 'author' || itemprop?.includes('author') || BYLINE.test(classAndId(child))) {
+        const text = getTextContent(child).replace(/^by\s+/i, '');
+        if (text.length > 0 && text.length < 100) {
+          byline = text;
+          return;
+        }
+      }
+      visit(child);
+    }
+  };
+  visit(root);
+  return byline;
+}
+
+function isHidden(element: XMLElement): boolean {
+  const { hidden, style } = element.attributes;
+  return (
+    hidden !== undefined ||
+    element.attributes['aria-hidden'] === 'true' ||
+    (style !== undefined && /display\s*:\s*none|visibility\s*:\s*hidden/i.test(style))
+  );
+}
+
+/**
+ * Remove page furniture in place: chrome elements and landmarks, hidden
+ * elements, and blocks whose class or id marks them as ads, sharing widgets,
+ * comments and the like
+ */
+function removeClutter(element: XMLElement): void {
+  element.children = element.children.filter((child) => {
+    if (!isElement(child)) return true;
+    const tag = tagOf(child);
+    if (REMOVED_ELEMENTS.has(tag) || isHidden(child)) return false;
+    if (REMOVED_ROLES.has((child.attributes.role ?? '').toLowerCase())) return false;
+    const names = classAndId(child);
+    if (
+      tag !== 'body' &&
+      tag !== 'article' &&
+      tag !== 'main' &&
+      UNLIKELY_CANDIDATE.test(names) &&
+      !MAYBE_CANDIDATE.test(names)
+    ) {
+      return false;
+    }
+    removeClutter(child);
+    return true;
+  });
+}
+
+function textLength(element: XMLElement): number {
+  return getTextContent(element).length;
+}
+
+/**
+ * Share of an element's text inside links to other pages
+ */
+function linkDensity(element: XMLElement): number {
+  const total = textLength(element);
+  if (total === 0) return 0;
+  const linked = findDescendants(element, 'a')
+    .filter((link) => !link.attributes.href?.startsWith('#'))
+    .reduce((sum, link) => sum + textLength(link), 0);
+  return linked / total;
+}
+
+function classWeight(element: XMLElement): number {
+  const names = classAndId(element);
+  return (POSITIVE_WEIGHT.test(names) ? 25 : 0) - (NEGATIVE_WEIGHT.test(names) ? 25 : 0);
+}
+
+/**
+ * The element holding the article: the longest <article>, else <main>, else
+ * the container scoring highest for the paragraphs inside it
+ */
+function findArticleRoot(body: XMLElement): XMLElement {
+  const articles = findDescendants(body, 'article');
+  if (articles.length > 0) {
+    return articles.reduce((best, article) => (textLength(article) > textLength(best) ? article : best));
+  }
+  const main =
+    findDescendant(body, 'main') ??
+    findDescendants(body, 'div').find((element) => element.attributes.role?.toLowerCase() === 'main');
+  if (main) return main;
+
+  // Paragraphs score their parent in full and their grandparent by half
+  const parents = new Map<XMLElement, XMLElement>();
+  const paragraphs: XMLElement[] = [];
+  const visit = (element: XMLElement) => {
+    for (const child of element.children) {
+      if (!isElement(child)) continue;
+      parents.set(child, element);
+      const tag = tagOf(child);
+      if (tag === 'p' || tag === 'pre' || tag === 'td') paragraphs.push(child);
+      visit(child);
+    }
+  };
+  visit(body);
+
+  const scores = new Map<XMLElement, number>();
+  const addScore = (element: XMLElement | undefined, score: number) => {
+    if (!element) return;
+    if (!scores.has(element)) {
+      const tag = tagOf(element);
+      const base = tag === 'div' ? 5 : tag === 'pre' || tag === 'td' || tag === 'blockquote' ? 3 : tag === 'ul' || tag === 'ol' || tag === 'dl' ? -3 : 0;
+      scores.set(element, base + classWeight(element));
+    }
+    scores.set(element, (scores.get(element) ?? 0) + score);
+  };
+  for (const paragraph of paragraphs) {
+    const text = getTextContent(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+    const score = 1 + text.split(/[,，、]/).length - 1 + Math.min(3, Math.floor(text.length / 100));
+    const parent = parents.get(paragraph);
+    addScore(parent, score);
+    addScore(parent ? parents.get(parent) : undefined, score / 2);
+  }
+
+  let best: XMLElement = body;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    // Link-heavy containers (menus, link lists) score less
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return best;
+}
+
+/**
+ * Drop what is left of the page around the article text: link lists, blocks
+ * of negative weight, and blocks without text or images
+ */
+function cleanArticle(element: XMLElement): void {
+  element.children = element.children.filter((child) => {
+    if (!isElement(child)) return true;
+    cleanArticle(child);
+    const tag = tagOf(child);
+    if (!REMOVABLE_WHEN_EMPTY.has(tag)) return true;
+
+    const length = textLength(child);
+    if (length === 0 && findDescendants(child, 'img').length === 0) return false;
+    if (['div', 'section', 'ul', 'ol', 'table', 'header'].includes(tag)) {
+      if (classWeight(child) < 0) return false;
+      // Short link-heavy blocks are "related articles" boxes and link lists
+      if (linkDensity(child) > 0.5 && length < 1000) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Source address of an image, including lazy-loaded ones whose src is a placeholder
+ */
+function imageSource(element: XMLElement): string | undefined {
+  const { src, srcset } = element.attributes;
+  const lazy = element.attributes['data-src'] ?? element.attributes['data-original'] ?? element.attributes['data-lazy-src'];
+  const fromSrcset = (srcset ?? element.attributes['data-srcset'])?.trim().split(/\s+/)[0];
+  // Tiny inline GIFs and SVGs stand in for lazy-loaded images
+  const placeholder = !src || (src.startsWith('data:') && src.length < 200);
+  return placeholder ? lazy ?? fromSrcset ?? src : src;
+}
+
+/**
+ * Serialize the article tree as reader HTML: known elements with a short list
+ * of attributes, sectioning elements as divs, anything else unwrapped
+ */
+function writeArticleHTML(nodes: XMLNode[], baseUrl: string | null): string {
+  return nodes
+    .map((node) => {
+      if (!isElement(node)) return escapeHTML(node);
+      const tag = tagOf(node);
+      const inner = () => writeArticleHTML(node.children, baseUrl);
+      const id = node.attributes.id ? ` id="${escapeHTML(node.attributes.id)}"` : '';
+
+      if (tag === 'img') {
+        const src = imageSource(node);
+        const resolved = src ? resolveURL(src, baseUrl) : null;
+        if (!resolved || resolved.startsWith('#')) return '';
+        const alt = node.attributes.alt ? ` alt="${escapeHTML(node.attributes.alt)}"` : '';
+        return `<img src="${escapeHTML(resolved)}"${alt}/>`;
+      }
+      if (tag === 'br' || tag === 'hr') return `<${tag}/>`;
+      if (tag === 'a') {
+        const href = node.attributes.href ? resolveURL(node.attributes.href, baseUrl) : null;
+        return href ? `<a href="${escapeHTML(href)}"${id}>${inner()}</a>` : `<span${id}>${inner()}</span>`;
+      }
+      if (tag === 'td' || tag === 'th') {
+        const span = ['colspan', 'rowspan']
+          .filter((name) => node.attributes[name])
+          .map((name) => ` ${name}="${escapeHTML(node.attributes[name])}"`)
+          .join('');
+        return `<${tag}${span}>${inner()}</${tag}>`;
+      }
+      if (KEPT_ELEMENTS.has(tag)) return `<${tag}${id}>${inner()}</${tag}>`;
+      if (BLOCK_ELEMENTS.has(tag)) return `<div${id}>${inner()}</div>`;
+      return inner();
+    })
+    .join('');
+}
+
+/**
+ * Extract the article and metadata from an HTML page
+ */
+export function parseHTMLArticle(source: string): HTMLContent {
+  const documentRoot = parseHTMLTree(source);
+  const { baseUrl, ...metadata } = readMetadata(documentRoot);
+
+  const htmlElement = findChild(documentRoot, 'html') ?? documentRoot;
+  const body = findChild(htmlElement, 'body') ?? htmlElement;
+  removeClutter(body);
+  const articleRoot = findArticleRoot(body);
+  cleanArticle(articleRoot);
+
+  let articleHTML = writeArticleHTML(articleRoot.children, baseUrl).trim();
+  if (!htmlToLocatorText(articleHTML)) {
+    // Nothing survived the extraction: fall back to the whole page, minus its furniture
+    articleHTML = writeArticleHTML(body.children, baseUrl).trim();
+  }
+  const { html, outline } = addHeadingAnchors(articleHTML || '<p>No readable content found.</p>', 'html-heading');
+  // Cells and definition list parts would otherwise run together in the search text
+  return { html, text: htmlToLocatorText(html.replace(/<\/(?:t[dh]|d[td])>/gi, '$& ')), outline, metadata };
+}
+
+/**
+ * Read a saved web page and extract its article
+ */
+export async function parseHTMLFile(filePath: string): Promise<HTMLContent> {
+  try {
+    return parseHTMLArticle(decodeHTML(await readFileBytes(filePath)));
+  } catch (error) {
+    console.error('Error parsing HTML:', error);
+    return {
+      html: '<p>Error reading HTML file.</p>',
+      text: 'Error reading HTML file.',
+      outline: [],
+      metadata: { title: null, author: null, description: null, siteName: null, sourceUrl: null },
+    };
+  }
+}
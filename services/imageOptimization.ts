@@ -6,6 +6,14 @@
 import * as FileSystem from 'expo-file-system';
 import * as FileSystemLegacy from 'expo-file-system/legacy';
 import { Platform } from 'react-native';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import PdfThumbnail from 'react-native-pdf-thumbnail';
+import { Document } from '@/types';
+import { toFileUri } from '@/utils/fileData';
+import { updateDocument } from './database';
+import { getEPUBCoverImage } from './epubParser';
+import { getFB2CoverImage } from './fb2Parser';
+import { saveCBZCoverImage } from './cbzParser';
 
 // Use documentDirectory for thumbnails (cacheDirectory may not be available in all versions)
 const THUMBNAILS_DIR = `${FileSystemLegacy.documentDirectory || ''}thumbnails/`;
@@ -48,27 +56,58 @@ export async function thumbnailExists(documentId: string): Promise<boolean> {
 }
 
 /**
- * Generate thumbnail from PDF first page
+ * Scale an image down to fit THUMBNAIL_WIDTH x THUMBNAIL_HEIGHT and save it
+ * as the document's JPEG thumbnail
+ */
+async function saveThumbnail(documentId: string, imageUri: string): Promise<string> {
+  await initThumbnailsDirectory();
+  const context = ImageManipulator.manipulate(imageUri);
+  let image = await context.renderAsync();
+  const scale = Math.min(THUMBNAIL_WIDTH / image.width, THUMBNAIL_HEIGHT / image.height);
+  if (scale < 1) {
+    image = await context
+      .resize({ width: Math.round(image.width * scale), height: Math.round(image.height * scale) })
+      .renderAsync();
+  }
+  const result = await image.saveAsync({ compress: THUMBNAIL_QUALITY, format: SaveFormat.JPEG });
+
+  const thumbnailPath = getThumbnailPath(documentId);
+  await FileSystemLegacy.deleteAsync(thumbnailPath, { idempotent: true });
+  await FileSystemLegacy.moveAsync({ from: result.uri, to: thumbnailPath });
+  return thumbnailPath;
+}
+
+/**
+ * Save base64 image data (a cover in any format) as the document's thumbnail
+ */
+async function writeThumbnail(documentId: string, base64Data: string): Promise<string> {
+  await initThumbnailsDirectory();
+  const sourcePath = `${THUMBNAILS_DIR}${documentId}.source`;
+  await FileSystemLegacy.writeAsStringAsync(sourcePath, base64Data, {
+    encoding: FileSystemLegacy.EncodingType.Base64,
+  });
+  try {
+    return await saveThumbnail(documentId, sourcePath);
+  } finally {
+    await FileSystemLegacy.deleteAsync(sourcePath, { idempotent: true });
+  }
+}
+
+/**
+ * Generate thumbnail from PDF first page, rendered natively
  */
 export async function generatePDFThumbnail(
   pdfPath: string,
   documentId: string
 ): Promise<string | null> {
   try {
-    await initThumbnailsDirectory();
-    
-    // For PDFs, we'll use react-native-pdf to render the first page
-    // This is a placeholder - actual implementation would use the PDF library
-    // to render page 1 to an image
-    
-    // For now, return null - this will be implemented when PDF rendering is available
-    // The actual implementation would:
-    // 1. Load PDF first page using react-native-pdf
-    // 2. Render to image using expo-image-manipulator or similar
-    // 3. Save compressed thumbnail
-    
-    console.log(`PDF thumbnail generation for ${documentId} - placeholder`);
-    return null;
+    // Page indexes are 0-based; render at full quality since the result is re-encoded
+    const page = await PdfThumbnail.generate(toFileUri(pdfPath), 0, 100);
+    try {
+      return await saveThumbnail(documentId, page.uri);
+    } finally {
+      await FileSystemLegacy.deleteAsync(page.uri, { idempotent: true });
+    }
   } catch (error) {
     console.error('Error generating PDF thumbnail:', error);
     return null;
@@ -83,23 +122,60 @@ export async function extractEPUBCover(
   documentId: string
 ): Promise<string | null> {
   try {
-    await initThumbnailsDirectory();
-    
-    // EPUB cover extraction would be done in epubParser
-    // This is a placeholder that would:
-    // 1. Parse EPUB metadata to find cover image
-    // 2. Extract cover image from EPUB archive
-    // 3. Resize and compress
-    // 4. Save as thumbnail
-    
-    console.log(`EPUB cover extraction for ${documentId} - placeholder`);
-    return null;
+    const cover = await getEPUBCoverImage(epubPath);
+    if (!cover) {
+      return null;
+    }
+    return await writeThumbnail(documentId, cover);
   } catch (error) {
     console.error('Error extracting EPUB cover:', error);
     return null;
   }
 }
 
+/**
+ * Extract and save the cover image from an FB2 book's <binary> section
+ */
+export async function extractFB2Cover(
+  fb2Path: string,
+  documentId: string
+): Promise<string | null> {
+  try {
+    const cover = await getFB2CoverImage(fb2Path);
+    if (!cover) {
+      return null;
+    }
+    return await writeThumbnail(documentId, cover);
+  } catch (error) {
+    console.error('Error extracting FB2 cover:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a comic's first page as its cover
+ */
+export async function extractCBZCover(
+  cbzPath: string,
+  documentId: string
+): Promise<string | null> {
+  try {
+    await initThumbnailsDirectory();
+    const sourcePath = `${THUMBNAILS_DIR}${documentId}.source`;
+    try {
+      if (!(await saveCBZCoverImage(cbzPath, sourcePath))) {
+        return null;
+      }
+      return await saveThumbnail(documentId, sourcePath);
+    } finally {
+      await FileSystemLegacy.deleteAsync(sourcePath, { idempotent: true });
+    }
+  } catch (error) {
+    console.error('Error extracting CBZ cover:', error);
+    return null;
+  }
+}
+
 /**
  * Generate a default thumbnail based on document format
  */
@@ -145,6 +221,10 @@ export async function getDocumentThumbnail(
       thumbnailPath = await generatePDFThumbnail(filePath, documentId);
     } else if (format === 'epub') {
       thumbnailPath = await extractEPUBCover(filePath, documentId);
+    } else if (format === 'fb2') {
+      thumbnailPath = await extractFB2Cover(filePath, documentId);
+    } else if (format === 'cbz') {
+      thumbnailPath = await extractCBZCover(filePath, documentId);
     }
     
     // Fallback to default thumbnail
@@ -159,6 +239,63 @@ export async function getDocumentThumbnail(
   }
 }
 
+// Documents waiting for a thumbnail, processed one at a time
+const backfillQueue: Document[] = [];
+const queuedIds = new Set<string>();
+let backfillRunning = false;
+
+/**
+ * Queue thumbnail generation for documents that never had one (imported
+ * before thumbnails existed, or while generation failed). Runs in the
+ * background one document at a time and reports each new thumbnail.
+ */
+export function queueThumbnailBackfill(
+  documents: Document[],
+  onThumbnail?: (documentId: string, thumbnailPath: string) => void
+): void {
+  // Thumbnails are files in the document directory, which web doesn't have
+  if (Platform.OS === 'web') return;
+  for (const document of documents) {
+    // null means never attempted; an empty string marks documents without a usable cover
+    if (document.coverImagePath != null || queuedIds.has(document.id)) continue;
+    if (document.format !== 'pdf' && document.format !== 'epub' && document.format !== 'fb2' && document.format !== 'cbz') continue;
+    queuedIds.add(document.id);
+    backfillQueue.push(document);
+  }
+  if (!backfillRunning && backfillQueue.length > 0) {
+    runThumbnailBackfill(onThumbnail);
+  }
+}
+
+async function runThumbnailBackfill(onThumbnail?: (documentId: string, thumbnailPath: string) => void): Promise<void> {
+  backfillRunning = true;
+  let generated = 0;
+  try {
+    let document: Document | undefined;
+    while ((document = backfillQueue.shift())) {
+      try {
+        const thumbnailPath = await getDocumentThumbnail(document.id, document.filePath, document.format, document.title);
+        await updateDocument(document.id, { coverImagePath: thumbnailPath ?? '' });
+        if (thumbnailPath) {
+          generated++;
+          onThumbnail?.(document.id, thumbnailPath);
+        }
+      } catch (error) {
+        console.error(`Error generating thumbnail for ${document.id}:`, error);
+      } finally {
+        queuedIds.delete(document.id);
+      }
+      // Parsing blocks the JS thread; let the UI catch up between documents
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    backfillRunning = false;
+  }
+  if (generated > 0) {
+    console.log(`Generated ${generated} thumbnail(s) in the background`);
+  }
+}
+
 /**
  * Clear thumbnail cache
  */
@@ -0,0 +1,439 @@
+/**
+ * Markdown Parser Service
+ * Converts Markdown to HTML for the reader: CommonMark blocks and inlines plus
+ * GitHub tables, fenced code and strikethrough. Not a full CommonMark
+ * implementation - edge cases favour readable output over spec conformance.
+ */
+
+import * as FileSystemLegacy from 'expo-file-system/legacy';
+import { addHeadingAnchors, HeadingNode } from '@/utils/htmlOutline';
+import { htmlToLocatorText } from '@/utils/textLocator';
+
+export interface MarkdownContent {
+  html: string;
+  text: string; // Plain text, for search indexing
+  outline: HeadingNode[]; // Nested heading tree, in document order
+  title: string | null; // First top-level heading
+}
+
+interface LinkDefinition {
+  href: string;
+  title?: string;
+}
+
+type LinkDefinitions = Map<string, LinkDefinition>;
+
+// Placeholders for finished inline HTML, so later passes don't touch it
+const PLACEHOLDER = '\u0000';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)[^`]*$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+const HTML_BLOCK = /^ {0,3}<\/?(address|article|aside|blockquote|details|dialog|div|dl|figure|footer|header|hr|main|nav|ol|p|pre|section|summary|table|ul|h[1-6])\b/i;
+const INDENTED_CODE = /^(?: {4}|\t)/;
+// Inline tags passed through as HTML; anything else (e.g. "List<T>") stays text
+const INLINE_HTML = /<\/?(?:a|abbr|b|br|code|del|em|i|img|ins|kbd|mark|s|small|span|strong|sub|sup|u)\b[^<>]*>|<!--[\s\S]*?-->/gi;
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeHTML(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * GitHub-style heading slug, unique within the document
+ */
+function slugify(text: string, used: Set<string>): string {
+  const base =
+    text
+      .toLowerCase()
+      .replace(/<[^>]+>/g, '')
+      .replace(/&[a-z#0-9]+;/gi, '')
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .trim()
+      .replace(/\s+/g, '-') || 'section';
+  let slug = base;
+  for (let i = 1; used.has(slug); i++) {
+    slug = `${base}-${i}`;
+  }
+  used.add(slug);
+  return slug;
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    ATX_HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    HTML_BLOCK.test(line) ||
+    // Only bullets and lists starting at 1 may interrupt a paragraph
+    /^ {0,3}([-+*]|1[.)])[ \t]+\S/.test(line)
+  );
+}
+
+/**
+ * Render inline Markdown (code spans, links, images, emphasis, breaks) to HTML
+ */
+function renderInline(text: string, links: LinkDefinitions): string {
+  const stash: string[] = [];
+  const hold = (html: string) => `${PLACEHOLDER}${stash.push(html) - 1}${PLACEHOLDER}`;
+
+  let result = text
+    // Code spans first: nothing inside them is Markdown
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_match, _ticks: string, code: string) => {
+      const trimmed = /^ .* $/.test(code) ? code.slice(1, -1) : code;
+      return hold(`<code>${escapeHTML(trimmed.replace(/\n/g, ' '))}</code>`);
+    })
+    .replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, (_match, char: string) => hold(escapeHTML(char)))
+    .replace(/\\\n/g, () => hold('<br>'))
+    .replace(/<((?:https?|mailto|ftp):[^\s<>]+)>/gi, (_match, url: string) =>
+      hold(`<a href="${escapeHTML(url)}">${escapeHTML(url)}</a>`)
+    )
+    .replace(INLINE_HTML, (tag) => hold(tag));
+
+  result = escapeHTML(result);
+
+  const linkHTML = (label: string, href: string, title: string | undefined, image: boolean) => {
+    const titleAttribute = title ? ` title="${escapeHTML(title)}"` : '';
+    if (image) {
+      const alt = label.replace(new RegExp(`${PLACEHOLDER}\\d+${PLACEHOLDER}`, 'g'), '');
+      return hold(`<img src="${escapeHTML(href)}" alt="${alt}"${titleAttribute}>`);
+    }
+    return hold(`<a href="${escapeHTML(href)}"${titleAttribute}>${label}</a>`);
+  };
+
+  // Inline links and images: [label](href "title")
+  const inlineLink = /(!?)\[((?:[^\[\]]|\[[^\]]*\])*)\]\(\s*(?:&lt;(.*?)&gt;|([^\s()]*(?:\([^\s()]*\)[^\s()]*)*))(?:\s+(?:&quot;(.*?)&quot;|'(.*?)'))?\s*\)/g;
+  // Reference links: [label][ref], [label][] and [label]
+  const referenceLink = /(!?)\[((?:[^\[\]]|\[[^\]]*\])*)\](?:\[([^\]]*)\])?/g;
+  for (let previous = ''; previous !== result; ) {
+    previous = result;
+    result = result
+      .replace(inlineLink, (_match, bang: string, label: string, angled?: string, plain?: string, title1?: string, title2?: string) =>
+        linkHTML(label, unescapeHTML(angled ?? plain ?? ''), title1 !== undefined || title2 !== undefined ? unescapeHTML(title1 ?? title2 ?? '') : undefined, bang === '!')
+      )
+      .replace(referenceLink, (match, bang: string, label: string, ref?: string) => {
+        const definition = links.get(normalizeLabel(ref || label));
+        return definition ? linkHTML(label, definition.href, definition.title, bang === '!') : match;
+      });
+  }
+
+  result = result
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/ {2,}\n/g, '<br>\n');
+
+  // Restore stashed HTML; stashed links may contain further placeholders
+  const placeholder = new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g');
+  while (result.includes(PLACEHOLDER)) {
+    result = result.replace(placeholder, (_match, index: string) => stash[parseInt(index, 10)]);
+  }
+  return result;
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.substring(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.substring(0, row.length - 1);
+  // Split on pipes that are not escaped
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function renderTable(lines: string[], links: LinkDefinitions): string {
+  const header = splitTableRow(lines[0]);
+  const aligns = splitTableRow(lines[1]).map((cell) => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+    if (cell.endsWith(':')) return 'right';
+    if (cell.startsWith(':')) return 'left';
+    return null;
+  });
+  const cell = (tag: string, content: string, index: number) => {
+    const align = aligns[index] ? ` style="text-align: ${aligns[index]}"` : '';
+    return `<${tag}${align}>${renderInline(content, links)}</${tag}>`;
+  };
+  const head = `<thead><tr>${header.map((content, index) => cell('th', content, index)).join('')}</tr></thead>`;
+  const rows = lines.slice(2).map((line) => {
+    const cells = splitTableRow(line);
+    return `<tr>${header.map((_, index) => cell('td', cells[index] ?? '', index)).join('')}</tr>`;
+  });
+  return `<table>${head}${rows.length > 0 ? `<tbody>${rows.join('')}</tbody>` : ''}</table>`;
+}
+
+/**
+ * Remove up to `width` columns of leading indentation (tabs count as 4)
+ */
+function outdent(line: string, width: number): string {
+  let column = 0;
+  let index = 0;
+  while (index < line.length && column < width && (line[index] === ' ' || line[index] === '\t')) {
+    column += line[index] === '\t' ? 4 - (column % 4) : 1;
+    index++;
+  }
+  return line.substring(index);
+}
+
+function indentWidth(line: string): number {
+  let column = 0;
+  for (const char of line) {
+    if (char === ' ') column++;
+    else if (char === '\t') column += 4 - (column % 4);
+    else break;
+  }
+  return column;
+}
+
+/**
+ * Render a sequence of lines as block-level HTML. In tight lists paragraphs
+ * are rendered without <p> wrappers.
+ */
+function renderBlocks(lines: string[], links: LinkDefinitions, slugs: Set<string>, tight = false): string {
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentWidth(line);
+      const code: string[] = [];
+      index++;
+      while (index < lines.length) {
+        const closing = lines[index].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+          index++;
+          break;
+        }
+        code.push(outdent(lines[index], indent));
+        index++;
+      }
+      const language = fence[2] ? ` class="language-${escapeHTML(fence[2])}"` : '';
+      output.push(`<pre><code${language}>${escapeHTML(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      const content = renderInline(heading[2] ?? '', links);
+      output.push(`<h${level} id="${slugify(content, slugs)}">${content}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      output.push('<hr>');
+      index++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      // Lazy continuation: unmarked paragraph lines stay in the quote
+      while (
+        index < lines.length &&
+        lines[index].trim() !== '' &&
+        (BLOCKQUOTE.test(lines[index]) || !isBlockStart(lines[index]))
+      ) {
+        quoted.push(lines[index].replace(BLOCKQUOTE, ''));
+        index++;
+      }
+      output.push(`<blockquote>${renderBlocks(quoted, links, slugs)}</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem && (!INDENTED_CODE.test(line) || listItem[1].length < 4)) {
+      const ordered = /\d/.test(listItem[2]);
+      const delimiter = listItem[2][listItem[2].length - 1];
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      const items: string[][] = [];
+      // Loose lists (blank lines between items or blocks) keep their paragraphs
+      let loose = false;
+      let endedWithBlank = false;
+
+      while (index < lines.length) {
+        const current = lines[index];
+        const marker = current.match(LIST_ITEM);
+        const sameList =
+          marker &&
+          indentWidth(current) < 4 &&
+          /\d/.test(marker[2]) === ordered &&
+          marker[2][marker[2].length - 1] === delimiter;
+        if (!sameList) break;
+        if (endedWithBlank) loose = true;
+
+        // Content is indented past the marker; 5+ spaces after it start indented code
+        const markerWidth = marker[1].length + marker[2].length;
+        const spacing = marker[3].length >= 5 || marker[3].length === 0 ? 1 : marker[3].length;
+        const contentIndent = markerWidth + spacing;
+        const item: string[] = [current.substring(Math.min(current.length, contentIndent))];
+        index++;
+
+        while (index < lines.length) {
+          const next = lines[index];
+          if (next.trim() === '') {
+            item.push('');
+          } else if (indentWidth(next) >= contentIndent) {
+            item.push(outdent(next, contentIndent));
+          } else if (item[item.length - 1] !== '' && !isBlockStart(next) && !LIST_ITEM.test(next)) {
+            // Lazy continuation of the item's paragraph
+            item.push(next.trim());
+          } else {
+            break;
+          }
+          index++;
+        }
+
+        endedWithBlank = item[item.length - 1] === '';
+        while (item.length > 0 && item[item.length - 1] === '') item.pop();
+        if (item.includes('')) loose = true;
+        items.push(item);
+      }
+
+      const tag = ordered ? 'ol' : 'ul';
+      const startAttribute = ordered && start !== 1 ? ` start="${start}"` : '';
+      const body = items.map((item) => `<li>${renderBlocks(item, links, slugs, !loose)}</li>`).join('');
+      output.push(`<${tag}${startAttribute}>${body}</${tag}>`);
+      continue;
+    }
+
+    if (HTML_BLOCK.test(line)) {
+      const block: string[] = [];
+      while (index < lines.length && lines[index].trim() !== '') {
+        block.push(lines[index]);
+        index++;
+      }
+      output.push(block.join('\n'));
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const code: string[] = [];
+      while (index < lines.length && (INDENTED_CODE.test(lines[index]) || lines[index].trim() === '')) {
+        code.push(outdent(lines[index], 4));
+        index++;
+      }
+      while (code.length > 0 && code[code.length - 1].trim() === '') code.pop();
+      output.push(`<pre><code>${escapeHTML(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]) && lines[index + 1].includes('-')) {
+      const table = [line, lines[index + 1]];
+      index += 2;
+      while (index < lines.length && lines[index].trim() !== '' && lines[index].includes('|')) {
+        table.push(lines[index]);
+        index++;
+      }
+      output.push(renderTable(table, links));
+      continue;
+    }
+
+    // Paragraph, possibly turned into a heading by a setext underline
+    const paragraph: string[] = [line.trim()];
+    index++;
+    let setextLevel = 0;
+    while (index < lines.length && lines[index].trim() !== '') {
+      const underline = lines[index].match(SETEXT_UNDERLINE);
+      if (underline) {
+        setextLevel = underline[1][0] === '=' ? 1 : 2;
+        index++;
+        break;
+      }
+      if (isBlockStart(lines[index])) break;
+      paragraph.push(lines[index].replace(/^[ \t]+/, ''));
+      index++;
+    }
+    const content = renderInline(paragraph.join('\n').replace(/[ \t]+$/, ''), links);
+    if (setextLevel > 0) {
+      output.push(`<h${setextLevel} id="${slugify(content, slugs)}">${content}</h${setextLevel}>`);
+    } else {
+      output.push(tight ? content : `<p>${content}</p>`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Collect [label]: href "title" definitions outside code, removing them from the source
+ */
+function extractLinkDefinitions(lines: string[]): { lines: string[]; links: LinkDefinitions } {
+  const links: LinkDefinitions = new Map();
+  const remaining: string[] = [];
+  let fence: string | null = null;
+  for (const line of lines) {
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch && (fence === null || fenceMatch[1][0] === fence[0])) {
+      fence = fence === null ? fenceMatch[1] : null;
+    }
+    const definition = fence === null ? line.match(LINK_DEFINITION) : null;
+    if (definition && !definition[1].startsWith('^')) {
+      const label = normalizeLabel(definition[1]);
+      if (!links.has(label)) {
+        links.set(label, { href: definition[2], title: definition[3] ?? definition[4] ?? definition[5] });
+      }
+      continue;
+    }
+    remaining.push(line);
+  }
+  return { lines: remaining, links };
+}
+
+/**
+ * Convert Markdown source to reader HTML with a heading outline and plain text
+ */
+export function parseMarkdown(source: string): MarkdownContent {
+  // Drop a YAML front matter block, common in docs sites
+  const body = source.replace(/^\uFEFF/, '').replace(/\u0000/g, '\uFFFD').replace(/^---\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/, '');
+  const { lines, links } = extractLinkDefinitions(body.split(/\r\n?|\n/));
+  const rendered = renderBlocks(lines, links, new Set());
+  const { html, outline } = addHeadingAnchors(rendered, 'md-heading');
+  const firstHeading = outline.find((heading) => heading.level === 1);
+  return {
+    html,
+    // Cells would otherwise run together ("NameAge"); rows already end in line breaks
+    text: htmlToLocatorText(html.replace(/<\/t[dh]>/gi, '$& ')),
+    outline,
+    title: firstHeading ? firstHeading.title : null,
+  };
+}
+
+/**
+ * Read and convert a Markdown file
+ */
+export async function parseMarkdownFile(filePath: string): Promise<MarkdownContent> {
+  try {
+    return parseMarkdown(await FileSystemLegacy.readAsStringAsync(filePath));
+  } catch (error) {
+    console.error('Error parsing Markdown:', error);
+    return {
+      html: '<p>Error reading Markdown file.</p>',
+      text: 'Error reading Markdown file.',
+      outline: [],
+      title: null,
+    };
+  }
+}
@@ -0,0 +1,459 @@
+/**
+ * Database migrations
+ * Ordered schema changes for readus.db, tracked with PRAGMA user_version
+ */
+
+import { StorageAdapter } from './storage/types';
+
+export interface Migration {
+  version: number; // PRAGMA user_version after this migration has run
+  name: string;
+  up: (db: StorageAdapter) => Promise<void>;
+}
+
+/**
+ * Add a column unless it already exists.
+ * Databases created before migrations were tracked may already have it.
+ */
+export async function addColumnIfMissing(
+  db: StorageAdapter,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const columns = (await db.getAllAsync(`PRAGMA table_info(${table})`)) as { name: string }[];
+  if (!columns.some((existing) => existing.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  }
+}
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: async (db) => {
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS documents (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      filePath TEXT NOT NULL UNIQUE,
+      format TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'unread',
+      pageCount INTEGER DEFAULT 0,
+      wordCount INTEGER DEFAULT 0,
+      estimatedReadingTime INTEGER DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      lastOpenedAt TEXT,
+      coverImagePath TEXT,
+      extractedText TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      color TEXT NOT NULL,
+      createdAt TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS document_tags (
+      documentId TEXT NOT NULL,
+      tagId TEXT NOT NULL,
+      PRIMARY KEY (documentId, tagId),
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE,
+      FOREIGN KEY (tagId) REFERENCES tags(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS reading_positions (
+      id TEXT PRIMARY KEY,
+      documentId TEXT NOT NULL,
+      position INTEGER NOT NULL DEFAULT 0,
+      progress REAL NOT NULL DEFAULT 0,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS highlights (
+      id TEXT PRIMARY KEY,
+      documentId TEXT NOT NULL,
+      type TEXT NOT NULL,
+      text TEXT NOT NULL,
+      startPosition INTEGER NOT NULL,
+      endPosition INTEGER NOT NULL,
+      color TEXT NOT NULL,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS notes (
+      id TEXT PRIMARY KEY,
+      documentId TEXT NOT NULL,
+      highlightId TEXT,
+      text TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE,
+      FOREIGN KEY (highlightId) REFERENCES highlights(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS reading_sessions (
+      id TEXT PRIMARY KEY,
+      documentId TEXT NOT NULL,
+      startTime TEXT NOT NULL,
+      endTime TEXT,
+      pagesRead INTEGER DEFAULT 0,
+      wordsRead INTEGER DEFAULT 0,
+      durationSeconds INTEGER DEFAULT 0,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS collections (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      color TEXT,
+      icon TEXT,
+      parentId TEXT,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (parentId) REFERENCES collections(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS collection_documents (
+      collectionId TEXT NOT NULL,
+      documentId TEXT NOT NULL,
+      orderIndex INTEGER DEFAULT 0,
+      addedAt TEXT NOT NULL,
+      PRIMARY KEY (collectionId, documentId),
+      FOREIGN KEY (collectionId) REFERENCES collections(id) ON DELETE CASCADE,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS bookmarks (
+      id TEXT PRIMARY KEY,
+      documentId TEXT NOT NULL,
+      page INTEGER NOT NULL,
+      note TEXT,
+      createdAt TEXT NOT NULL,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
+    );
+
+    -- Create indexes for search performance
+    CREATE INDEX IF NOT EXISTS idx_documents_status ON documents(status);
+    CREATE INDEX IF NOT EXISTS idx_documents_title ON documents(title);
+    CREATE INDEX IF NOT EXISTS idx_reading_positions_documentId ON reading_positions(documentId);
+    CREATE INDEX IF NOT EXISTS idx_highlights_documentId ON highlights(documentId);
+    CREATE INDEX IF NOT EXISTS idx_notes_documentId ON notes(documentId);
+    CREATE INDEX IF NOT EXISTS idx_document_tags_documentId ON document_tags(documentId);
+    CREATE INDEX IF NOT EXISTS idx_document_tags_tagId ON document_tags(tagId);
+    CREATE INDEX IF NOT EXISTS idx_collections_parentId ON collections(parentId);
+    CREATE INDEX IF NOT EXISTS idx_collection_documents_collectionId ON collection_documents(collectionId);
+    CREATE INDEX IF NOT EXISTS idx_collection_documents_documentId ON collection_documents(documentId);
+    CREATE INDEX IF NOT EXISTS idx_bookmarks_documentId ON bookmarks(documentId);
+  `);
+  },
+};
+
+export const documentsExtractedText: Migration = {
+  version: 2,
+  name: 'documents_extracted_text',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'documents', 'extractedText', 'TEXT');
+  },
+};
+
+export const documentsIsFavorite: Migration = {
+  version: 3,
+  name: 'documents_is_favorite',
+  up: async (db) => {
+    await addColumnIfMissing(db, 'documents', 'isFavorite', 'INTEGER DEFAULT 0');
+  },
+};
+
+/**
+ * Whether this SQLite build ships FTS5. The sql.js build used on web and in
+ * Node only has FTS4.
+ */
+async function hasFTS5(db: StorageAdapter): Promise<boolean> {
+  try {
+    await db.execAsync('CREATE VIRTUAL TABLE temp.fts5_probe USING fts5(x); DROP TABLE temp.fts5_probe;');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const fullTextSearch: Migration = {
+  version: 4,
+  name: 'full_text_search',
+  up: async (db) => {
+    const fts5 = await hasFTS5(db);
+
+    if (fts5) {
+      // FTS5 virtual tables backed by the content tables
+      await db.execAsync(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+      id UNINDEXED,
+      title,
+      extractedText,
+      content='documents',
+      content_rowid='rowid'
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS highlights_fts USING fts5(
+      id UNINDEXED,
+      documentId UNINDEXED,
+      text,
+      content='highlights',
+      content_rowid='rowid'
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+      id UNINDEXED,
+      documentId UNINDEXED,
+      text,
+      content='notes',
+      content_rowid='rowid'
+    );
+  `);
+    } else {
+      // FTS4 tables that keep their own copy of the text, so the same
+      // AFTER triggers can delete old rows by rowid
+      await db.execAsync(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts4(
+      id, title, extractedText, notindexed=id
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS highlights_fts USING fts4(
+      id, documentId, text, notindexed=id, notindexed=documentId
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts4(
+      id, documentId, text, notindexed=id, notindexed=documentId
+    );
+  `);
+    }
+
+    // Triggers to keep the FTS tables in sync
+    await db.execAsync(`
+    CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+      INSERT INTO documents_fts(rowid, id, title, extractedText)
+      VALUES (new.rowid, new.id, new.title, new.extractedText);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+      DELETE FROM documents_fts WHERE rowid = old.rowid;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE ON documents BEGIN
+      DELETE FROM documents_fts WHERE rowid = old.rowid;
+      INSERT INTO documents_fts(rowid, id, title, extractedText)
+      VALUES (new.rowid, new.id, new.title, new.extractedText);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS highlights_fts_insert AFTER INSERT ON highlights BEGIN
+      INSERT INTO highlights_fts(rowid, id, documentId, text)
+      VALUES (new.rowid, new.id, new.documentId, new.text);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS highlights_fts_delete AFTER DELETE ON highlights BEGIN
+      DELETE FROM highlights_fts WHERE rowid = old.rowid;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS highlights_fts_update AFTER UPDATE ON highlights BEGIN
+      DELETE FROM highlights_fts WHERE rowid = old.rowid;
+      INSERT INTO highlights_fts(rowid, id, documentId, text)
+      VALUES (new.rowid, new.id, new.documentId, new.text);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS notes_fts_insert AFTER INSERT ON notes BEGIN
+      INSERT INTO notes_fts(rowid, id, documentId, text)
+      VALUES (new.rowid, new.id, new.documentId, new.text);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS notes_fts_delete AFTER DELETE ON notes BEGIN
+      DELETE FROM notes_fts WHERE rowid = old.rowid;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS notes_fts_update AFTER UPDATE ON notes BEGIN
+      DELETE FROM notes_fts WHERE rowid = old.rowid;
+      INSERT INTO notes_fts(rowid, id, documentId, text)
+      VALUES (new.rowid, new.id, new.documentId, new.text);
+    END;
+  `);
+
+    // Index rows that existed before the triggers did
+    if (fts5) {
+      await db.execAsync(`
+    INSERT INTO documents_fts(documents_fts) VALUES('rebuild');
+    INSERT INTO highlights_fts(highlights_fts) VALUES('rebuild');
+    INSERT INTO notes_fts(notes_fts) VALUES('rebuild');
+  `);
+    } else {
+      await db.execAsync(`
+    INSERT INTO documents_fts(rowid, id, title, extractedText)
+      SELECT rowid, id, title, extractedText FROM documents;
+    INSERT INTO highlights_fts(rowid, id, documentId, text)
+      SELECT rowid, id, documentId, text FROM highlights;
+    INSERT INTO notes_fts(rowid, id, documentId, text)
+      SELECT rowid, id, documentId, text FROM notes;
+  `);
+    }
+  },
+};
+
+export const textLocators: Migration = {
+  version: 5,
+  name: 'text_locators',
+  up: async (db) => {
+    // JSON-encoded TextLocator for character-offset anchoring
+    for (const table of ['highlights', 'notes', 'bookmarks', 'reading_positions']) {
+      await addColumnIfMissing(db, table, 'locator', 'TEXT');
+    }
+  },
+};
+
+export const smartCollections: Migration = {
+  version: 6,
+  name: 'smart_collections',
+  up: async (db) => {
+    // rules holds the JSON-encoded SmartCollectionRule[]
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS smart_collections (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      color TEXT,
+      matchMode TEXT NOT NULL DEFAULT 'all',
+      rules TEXT NOT NULL DEFAULT '[]',
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+    );
+  `);
+  },
+};
+
+export const epubStructures: Migration = {
+  version: 7,
+  name: 'epub_structures',
+  up: async (db) => {
+    // Parsed spine/TOC/metadata (JSON) per EPUB, keyed to the file's size and mtime
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS epub_structures (
+      documentId TEXT PRIMARY KEY,
+      fileSize INTEGER NOT NULL,
+      modifiedAt REAL NOT NULL,
+      parserVersion INTEGER NOT NULL,
+      structure TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
+    );
+  `);
+  },
+};
+
+export const documentDetails: Migration = {
+  version: 8,
+  name: 'document_details',
+  up: async (db) => {
+    // Metadata read from the file at import, such as a saved article's byline and address
+    for (const column of ['author', 'description', 'siteName', 'sourceUrl']) {
+      await addColumnIfMissing(db, 'documents', column, 'TEXT');
+    }
+  },
+};
+
+export const pdfThumbnailRetry: Migration = {
+  version: 9,
+  name: 'pdf_thumbnail_retry',
+  up: async (db) => {
+    // PDF thumbnails used to come only from embedded page images, so text PDFs
+    // were marked as having no cover. Clear the mark so the backfill renders them.
+    await db.runAsync(`UPDATE documents SET coverImagePath = NULL WHERE format = 'pdf' AND coverImagePath = ''`);
+  },
+};
+
+export const pdfOutlines: Migration = {
+  version: 10,
+  name: 'pdf_outlines',
+  up: async (db) => {
+    // PDF bookmarks (JSON TOC entries) read at import, so opening a PDF needn't parse it
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS pdf_outlines (
+      documentId TEXT PRIMARY KEY,
+      outline TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (documentId) REFERENCES documents(id) ON DELETE CASCADE
+    );
+  `);
+  },
+};
+
+export const documentFileDates: Migration = {
+  version: 11,
+  name: 'document_file_dates',
+  up: async (db) => {
+    // Creation and last-saved dates from the file's own properties, such as a DOCX's core properties
+    await addColumnIfMissing(db, 'documents', 'fileCreatedAt', 'TEXT');
+    await addColumnIfMissing(db, 'documents', 'fileModifiedAt', 'TEXT');
+  },
+};
+
+/**
+ * All migrations in order. Append new ones; never edit or reorder shipped ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  documentsExtractedText,
+  documentsIsFavorite,
+  fullTextSearch,
+  textLocators,
+  smartCollections,
+  epubStructures,
+  documentDetails,
+  pdfThumbnailRetry,
+  pdfOutlines,
+  documentFileDates,
+];
+
+export async function getSchemaVersion(db: StorageAdapter): Promise<number> {
+  const row = (await db.getFirstAsync('PRAGMA user_version')) as { user_version: number } | null;
+  return row?.user_version ?? 0;
+}
+
+/**
+ * Run every migration newer than the database's user_version.
+ *
+ * Each migration runs in its own transaction together with the user_version
+ * bump, so a failure leaves the database at the last completed version and
+ * the error is rethrown with the failing migration's name.
+ * Returns the resulting schema version.
+ */
+export async function runMigrations(db: StorageAdapter, migrations: Migration[] = MIGRATIONS): Promise<number> {
+  const latestVersion = migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+  let currentVersion = await getSchemaVersion(db);
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${latestVersion}). Please update the app.`
+    );
+  }
+
+  const pending = migrations
+    .filter((migration) => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+      currentVersion = migration.version;
+      console.log(`Migration ${migration.version} (${migration.name}) applied`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    }
+  }
+
+  return currentVersion;
+}
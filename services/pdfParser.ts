@@ -0,0 +1,1121 @@
+/**
+ * PDF Parser
+ * Pure-JS PDF reader used for text extraction (works in React Native and Node)
+ *
+ * Supports classic and compressed (object stream) cross-references, FlateDecode,
+ * ASCIIHexDecode and ASCII85Decode streams, ToUnicode CMaps, simple font
+ * encodings with Differences, and form XObjects. Encrypted documents report
+ * their page count but no text.
+ */
+
+import { inflate, inflateRaw } from 'pako';
+
+export interface PDFOutlineItem {
+  title: string;
+  page: number | null; // 1-based destination page, null when it can't be resolved
+  children: PDFOutlineItem[];
+}
+
+export interface PDFParseResult {
+  numPages: number;
+  pages: string[]; // Text per page, in reading order of the page tree
+  info: Record<string, string>; // Info dictionary (Title, Author, CreationDate, ...)
+  outline: PDFOutlineItem[]; // Document outline (bookmarks)
+  encrypted: boolean;
+}
+
+class PDFName {
+  constructor(public readonly name: string) {}
+}
+
+class PDFRef {
+  constructor(public readonly num: number, public readonly gen: number) {}
+}
+
+class PDFString {
+  constructor(public readonly value: string) {} // Binary string, one char per byte
+}
+
+class PDFOperator {
+  constructor(public readonly op: string) {}
+}
+
+class PDFStream {
+  constructor(public readonly dict: PDFDict, public readonly raw: string) {}
+}
+
+type PDFDict = Map<string, PDFValue>;
+type PDFValue = null | boolean | number | PDFName | PDFRef | PDFString | PDFStream | PDFDict | PDFValue[];
+
+const EOF = Symbol('EOF');
+
+interface IndexedObject {
+  value: PDFValue;
+  offset: number;
+}
+
+interface PDFDocumentModel {
+  objects: Map<number, IndexedObject>;
+  trailer: PDFDict;
+}
+
+interface FontDecoder {
+  decode: (bytes: string) => string;
+}
+
+// Characters 0x80-0x9F of WinAnsiEncoding (the rest matches Latin-1)
+const WIN_ANSI_HIGH =
+  '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f' +
+  '\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+// Characters 0x80-0xFF of MacRomanEncoding
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéè' +
+  'êëíìîïñóòôöõúùûü' +
+  '†°¢£§•¶ß®©™´¨≠ÆØ' +
+  '∞±≤≥¥µ∂∑∏π∫ªºΩæø' +
+  '¿¡¬√ƒ≈∆«»… ÀÃÕŒœ' +
+  '–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ' +
+  '‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ' +
+  'ÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+// Glyph names that commonly appear in /Differences arrays
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/', zero: '0', one: '1',
+  two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8',
+  nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']',
+  asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|',
+  braceright: '}', asciitilde: '~', quoteleft: '‘', quoteright: '’',
+  quotedblleft: '“', quotedblright: '”', quotesinglbase: '‚',
+  quotedblbase: '„', endash: '–', emdash: '—', bullet: '•',
+  ellipsis: '…', dagger: '†', daggerdbl: '‡', trademark: '™',
+  copyright: '©', registered: '®', degree: '°', section: '§',
+  paragraph: '¶', periodcentered: '·', minus: '−', multiply: '×',
+  divide: '÷', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  germandbls: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ',
+  oslash: 'ø', Oslash: 'Ø', dotlessi: 'ı', nbspace: ' ',
+  guillemotleft: '«', guillemotright: '»', exclamdown: '¡',
+  questiondown: '¿', cent: '¢', sterling: '£', yen: '¥',
+  Euro: '€', florin: 'ƒ', perthousand: '‰',
+};
+
+// Combining marks for accented glyph names such as "eacute" or "Udieresis"
+const GLYPH_ACCENTS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', tilde: '\u0303',
+  dieresis: '\u0308', ring: '\u030a', cedilla: '\u0327', caron: '\u030c',
+};
+
+/**
+ * Convert bytes to a binary string (one char per byte) in chunks to avoid
+ * exceeding the argument limit of String.fromCharCode
+ */
+function bytesToBinaryString(bytes: Uint8Array): string {
+  const chunkSize = 8192;
+  let result = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return result;
+}
+
+function binaryStringToBytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09 || code === 0x0c || code === 0x00;
+}
+
+function isDelimiter(code: number): boolean {
+  return (
+    code === 0x28 || code === 0x29 || code === 0x3c || code === 0x3e || code === 0x5b ||
+    code === 0x5d || code === 0x7b || code === 0x7d || code === 0x2f || code === 0x25
+  );
+}
+
+/**
+ * Tokenizer and object parser for PDF syntax.
+ * Used both for file-level objects and for content streams (where keywords
+ * are returned as operators).
+ */
+class PDFLexer {
+  pos = 0;
+
+  constructor(private readonly s: string) {}
+
+  private skipWhitespace(): void {
+    const s = this.s;
+    while (this.pos < s.length) {
+      const code = s.charCodeAt(this.pos);
+      if (isWhitespace(code)) {
+        this.pos++;
+      } else if (code === 0x25) {
+        // Comment runs until end of line
+        while (this.pos < s.length && s.charCodeAt(this.pos) !== 0x0a && s.charCodeAt(this.pos) !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.s.length) {
+      const code = this.s.charCodeAt(this.pos);
+      if (isWhitespace(code) || isDelimiter(code)) break;
+      this.pos++;
+    }
+    return this.s.substring(start, this.pos);
+  }
+
+  readValue(): PDFValue | PDFOperator | typeof EOF {
+    this.skipWhitespace();
+    if (this.pos >= this.s.length) return EOF;
+
+    const ch = this.s[this.pos];
+    switch (ch) {
+      case '(':
+        return this.readLiteralString();
+      case '<':
+        return this.s[this.pos + 1] === '<' ? this.readDictionary() : this.readHexString();
+      case '[':
+        return this.readArray();
+      case '/':
+        return this.readName();
+      case ']':
+      case '>':
+      case ')':
+      case '{':
+      case '}':
+        this.pos++;
+        return new PDFOperator(ch);
+    }
+
+    if ((ch >= '0' && ch <= '9') || ch === '+' || ch === '-' || ch === '.') {
+      return this.readNumberOrRef();
+    }
+
+    const keyword = this.readRegular();
+    if (keyword.length === 0) {
+      // Stray byte - skip it so parsing always makes progress
+      this.pos++;
+      return new PDFOperator(ch);
+    }
+    if (keyword === 'true') return true;
+    if (keyword === 'false') return false;
+    if (keyword === 'null') return null;
+    return new PDFOperator(keyword);
+  }
+
+  private readNumberOrRef(): number | PDFRef {
+    const token = this.readRegular();
+    const value = parseFloat(token.replace(/^([+-])+/, '$1').replace(/^-+/, '-'));
+    const number = isNaN(value) ? 0 : value;
+
+    // "num gen R" is an indirect reference
+    if (/^\d+$/.test(token)) {
+      const saved = this.pos;
+      this.skipWhitespace();
+      const gen = this.readRegular();
+      if (/^\d+$/.test(gen)) {
+        this.skipWhitespace();
+        if (this.s[this.pos] === 'R') {
+          const next = this.s.charCodeAt(this.pos + 1);
+          if (isNaN(next) || isWhitespace(next) || isDelimiter(next)) {
+            this.pos++;
+            return new PDFRef(number, parseInt(gen, 10));
+          }
+        }
+      }
+      this.pos = saved;
+    }
+    return number;
+  }
+
+  private readName(): PDFName {
+    this.pos++; // Skip '/'
+    const raw = this.readRegular();
+    return new PDFName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readLiteralString(): PDFString {
+    const s = this.s;
+    this.pos++; // Skip '('
+    let depth = 1;
+    let result = '';
+    while (this.pos < s.length) {
+      const ch = s[this.pos++];
+      if (ch === '\\') {
+        const next = s[this.pos++];
+        switch (next) {
+          case 'n': result += '\n'; break;
+          case 'r': result += '\r'; break;
+          case 't': result += '\t'; break;
+          case 'b': result += '\b'; break;
+          case 'f': result += '\f'; break;
+          case '\r':
+            // Line continuation
+            if (s[this.pos] === '\n') this.pos++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (next >= '0' && next <= '7') {
+              let octal = next;
+              while (octal.length < 3 && s[this.pos] >= '0' && s[this.pos] <= '7') {
+                octal += s[this.pos++];
+              }
+              result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else if (next !== undefined) {
+              result += next;
+            }
+        }
+      } else if (ch === '(') {
+        depth++;
+        result += ch;
+      } else if (ch === ')') {
+        depth--;
+        if (depth === 0) break;
+        result += ch;
+      } else {
+        result += ch;
+      }
+    }
+    return new PDFString(result);
+  }
+
+  private readHexString(): PDFString {
+    const end = this.s.indexOf('>', this.pos);
+    const stop = end === -1 ? this.s.length : end;
+    let hex = this.s.substring(this.pos + 1, stop).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = stop + 1;
+    if (hex.length % 2 === 1) hex += '0';
+    let result = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      result += String.fromCharCode(parseInt(hex.substr(i, 2), 16));
+    }
+    return new PDFString(result);
+  }
+
+  private readArray(): PDFValue[] {
+    this.pos++; // Skip '['
+    const items: PDFValue[] = [];
+    for (;;) {
+      const value = this.readValue();
+      if (value === EOF) break;
+      if (value instanceof PDFOperator) {
+        if (value.op === ']') break;
+        continue;
+      }
+      items.push(value);
+    }
+    return items;
+  }
+
+  private readDictionary(): PDFDict | PDFStream {
+    this.pos += 2; // Skip '<<'
+    const dict: PDFDict = new Map();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.s.length) break;
+      if (this.s.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.readValue();
+      if (key === EOF) break;
+      if (!(key instanceof PDFName)) continue;
+      const value = this.readValue();
+      if (value === EOF) break;
+      if (value instanceof PDFOperator) continue;
+      dict.set(key.name, value);
+    }
+
+    const saved = this.pos;
+    this.skipWhitespace();
+    if (this.s.startsWith('stream', this.pos)) {
+      return this.readStream(dict);
+    }
+    this.pos = saved;
+    return dict;
+  }
+
+  private readStream(dict: PDFDict): PDFStream {
+    const s = this.s;
+    this.pos += 'stream'.length;
+    if (s[this.pos] === '\r') this.pos++;
+    if (s[this.pos] === '\n') this.pos++;
+    const start = this.pos;
+
+    // Trust /Length only when it is direct and lands on "endstream"
+    let end = -1;
+    const length = dict.get('Length');
+    if (typeof length === 'number' && length >= 0) {
+      let check = start + length;
+      while (check < s.length && isWhitespace(s.charCodeAt(check))) check++;
+      if (s.startsWith('endstream', check)) {
+        end = start + length;
+      }
+    }
+    if (end === -1) {
+      const marker = s.indexOf('endstream', start);
+      end = marker === -1 ? s.length : marker;
+      // Drop the end-of-line that precedes "endstream"
+      if (s[end - 1] === '\n') end--;
+      if (s[end - 1] === '\r') end--;
+    }
+
+    const endMarker = s.indexOf('endstream', end);
+    this.pos = endMarker === -1 ? s.length : endMarker + 'endstream'.length;
+    return new PDFStream(dict, s.substring(start, end));
+  }
+
+  /**
+   * Skip inline image data following an ID operator
+   */
+  skipInlineImageData(): void {
+    const match = /\sEI(?=[\s]|$)/g;
+    match.lastIndex = this.pos + 1;
+    const found = match.exec(this.s);
+    this.pos = found ? found.index + found[0].length : this.s.length;
+  }
+}
+
+function resolve(doc: PDFDocumentModel, value: PDFValue | undefined): PDFValue {
+  let current: PDFValue | undefined = value;
+  // Bounded to guard against reference cycles
+  for (let i = 0; i < 32 && current instanceof PDFRef; i++) {
+    current = doc.objects.get(current.num)?.value;
+  }
+  return current === undefined || current instanceof PDFRef ? null : current;
+}
+
+function resolveDict(doc: PDFDocumentModel, value: PDFValue | undefined): PDFDict | null {
+  const resolved = resolve(doc, value);
+  if (resolved instanceof Map) return resolved;
+  if (resolved instanceof PDFStream) return resolved.dict;
+  return null;
+}
+
+function nameOf(value: PDFValue | undefined): string | null {
+  return value instanceof PDFName ? value.name : null;
+}
+
+function decodeASCIIHex(data: string): string {
+  const end = data.indexOf('>');
+  let hex = (end === -1 ? data : data.substring(0, end)).replace(/[^0-9a-fA-F]/g, '');
+  if (hex.length % 2 === 1) hex += '0';
+  let result = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    result += String.fromCharCode(parseInt(hex.substr(i, 2), 16));
+  }
+  return result;
+}
+
+function decodeASCII85(data: string): string {
+  const end = data.indexOf('~>');
+  const input = (end === -1 ? data : data.substring(0, end)).replace(/^<~/, '').replace(/\s/g, '');
+  let result = '';
+  let group: number[] = [];
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    result += String.fromCharCode(...bytes.slice(0, count));
+    group = [];
+  };
+  for (const ch of input) {
+    if (ch === 'z' && group.length === 0) {
+      result += '\0\0\0\0';
+      continue;
+    }
+    const code = ch.charCodeAt(0) - 33;
+    if (code < 0 || code > 84) continue;
+    group.push(code);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+  return result;
+}
+
+function decodeFlate(data: string): string {
+  const bytes = binaryStringToBytes(data);
+  try {
+    return bytesToBinaryString(inflate(bytes));
+  } catch {
+    // Some producers write a broken zlib header or checksum
+    try {
+      return bytesToBinaryString(inflateRaw(bytes.subarray(2)));
+    } catch (error) {
+      console.warn('Could not inflate PDF stream:', error);
+      return '';
+    }
+  }
+}
+
+/**
+ * Decode stream data through its /Filter chain.
+ * Returns null when a filter is not supported (e.g. image codecs).
+ */
+function decodeStream(doc: PDFDocumentModel, stream: PDFStream): string | null {
+  const filterValue = resolve(doc, stream.dict.get('Filter'));
+  const filters = Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [];
+  let data = stream.raw;
+  for (const filter of filters) {
+    switch (nameOf(filter)) {
+      case 'FlateDecode':
+      case 'Fl':
+        data = decodeFlate(data);
+        break;
+      case 'ASCIIHexDecode':
+      case 'AHx':
+        data = decodeASCIIHex(data);
+        break;
+      case 'ASCII85Decode':
+      case 'A85':
+        data = decodeASCII85(data);
+        break;
+      default:
+        return null;
+    }
+  }
+  return data;
+}
+
+/**
+ * Build the object table by scanning for "n g obj" definitions, then expand
+ * compressed object streams. Later definitions win, matching incremental updates.
+ */
+function loadDocument(s: string): PDFDocumentModel {
+  const objects = new Map<number, IndexedObject>();
+  const trailers: IndexedObject[] = [];
+  const doc: PDFDocumentModel = { objects, trailer: new Map() };
+
+  const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = objectPattern.exec(s)) !== null) {
+    const lexer = new PDFLexer(s);
+    lexer.pos = match.index + match[0].length;
+    try {
+      const value = lexer.readValue();
+      if (value !== EOF && !(value instanceof PDFOperator)) {
+        objects.set(parseInt(match[1], 10), { value, offset: match.index });
+        if (value instanceof PDFStream && nameOf(value.dict.get('Type')) === 'XRef') {
+          trailers.push({ value: value.dict, offset: match.index });
+        }
+      }
+    } catch (error) {
+      console.warn(`Skipping unreadable PDF object ${match[1]}:`, error);
+    }
+    objectPattern.lastIndex = Math.max(objectPattern.lastIndex, lexer.pos);
+  }
+
+  const trailerPattern = /trailer\s*<</g;
+  while ((match = trailerPattern.exec(s)) !== null) {
+    const lexer = new PDFLexer(s);
+    lexer.pos = match.index + match[0].length - 2;
+    const value = lexer.readValue();
+    if (value instanceof Map) {
+      trailers.push({ value, offset: match.index });
+    }
+  }
+
+  // Expand object streams (PDF 1.5+)
+  for (const [, entry] of Array.from(objects)) {
+    const stream = entry.value;
+    if (!(stream instanceof PDFStream) || nameOf(stream.dict.get('Type')) !== 'ObjStm') continue;
+    const data = decodeStream(doc, stream);
+    const count = resolve(doc, stream.dict.get('N'));
+    const first = resolve(doc, stream.dict.get('First'));
+    if (data === null || typeof count !== 'number' || typeof first !== 'number') continue;
+
+    const header = new PDFLexer(data);
+    const entries: Array<[number, number]> = [];
+    for (let i = 0; i < count; i++) {
+      const num = header.readValue();
+      const offset = header.readValue();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      entries.push([num, offset]);
+    }
+    for (const [num, offset] of entries) {
+      const existing = objects.get(num);
+      if (existing && existing.offset > entry.offset) continue;
+      const lexer = new PDFLexer(data);
+      lexer.pos = first + offset;
+      const value = lexer.readValue();
+      if (value !== EOF && !(value instanceof PDFOperator)) {
+        objects.set(num, { value, offset: entry.offset });
+      }
+    }
+  }
+
+  // Merge trailer entries, later ones overriding earlier ones
+  trailers.sort((a, b) => a.offset - b.offset);
+  for (const trailer of trailers) {
+    for (const [key, value] of trailer.value as PDFDict) {
+      doc.trailer.set(key, value);
+    }
+  }
+  return doc;
+}
+
+interface PageEntry {
+  dict: PDFDict;
+  resources: PDFDict | null;
+}
+
+/**
+ * Walk the page tree, carrying inherited /Resources down to each page
+ */
+function collectPages(doc: PDFDocumentModel): PageEntry[] {
+  const pages: PageEntry[] = [];
+  const visited = new Set<PDFDict>();
+
+  const visit = (node: PDFDict | null, inherited: PDFDict | null) => {
+    if (!node || visited.has(node)) return;
+    visited.add(node);
+    const resources = resolveDict(doc, node.get('Resources')) ?? inherited;
+    const kids = resolve(doc, node.get('Kids'));
+    if (nameOf(node.get('Type')) !== 'Page' && Array.isArray(kids)) {
+      for (const kid of kids) {
+        visit(resolveDict(doc, kid), resources);
+      }
+    } else {
+      pages.push({ dict: node, resources });
+    }
+  };
+
+  const root = resolveDict(doc, doc.trailer.get('Root'));
+  visit(resolveDict(doc, root?.get('Pages')), null);
+
+  if (pages.length === 0) {
+    // Damaged page tree - fall back to page objects in file order
+    const candidates = Array.from(doc.objects.values())
+      .filter((entry) => entry.value instanceof Map && nameOf(entry.value.get('Type')) === 'Page')
+      .sort((a, b) => a.offset - b.offset);
+    for (const entry of candidates) {
+      const dict = entry.value as PDFDict;
+      pages.push({ dict, resources: resolveDict(doc, dict.get('Resources')) });
+    }
+  }
+  return pages;
+}
+
+function utf16BEToString(value: string): string {
+  let result = '';
+  for (let i = 0; i + 1 < value.length; i += 2) {
+    result += String.fromCharCode((value.charCodeAt(i) << 8) | value.charCodeAt(i + 1));
+  }
+  return result;
+}
+
+/**
+ * Decode a PDF text string (Info values, outline titles): UTF-16BE with BOM
+ * or PDFDocEncoding, which is close enough to Latin-1 for metadata
+ */
+export function decodePDFTextString(value: string): string {
+  if (value.charCodeAt(0) === 0xfe && value.charCodeAt(1) === 0xff) {
+    return utf16BEToString(value.substring(2));
+  }
+  return value;
+}
+
+function hexToUnicode(hex: string): string {
+  if (hex.length <= 2) {
+    return String.fromCharCode(parseInt(hex || '0', 16));
+  }
+  let result = '';
+  for (let i = 0; i < hex.length; i += 4) {
+    result += String.fromCharCode(parseInt(hex.substr(i, 4), 16));
+  }
+  return result;
+}
+
+interface ToUnicodeMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+function parseToUnicodeCMap(cmap: string): ToUnicodeMap {
+  const map = new Map<number, string>();
+  let codeLength = 2;
+
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  if (codespace) {
+    codeLength = Math.max(1, Math.ceil(codespace[1].length / 2));
+  }
+
+  const charBlocks = cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g);
+  for (const block of charBlocks) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(entry[1], 16), hexToUnicode(entry[2]));
+    }
+  }
+
+  const rangeBlocks = cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g);
+  for (const block of rangeBlocks) {
+    const entries = block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g);
+    for (const entry of entries) {
+      const low = parseInt(entry[1], 16);
+      const high = Math.min(parseInt(entry[2], 16), low + 0xffff);
+      const target = entry[3];
+      if (target.startsWith('[')) {
+        const values = Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g));
+        values.forEach((value, index) => {
+          if (low + index <= high) map.set(low + index, hexToUnicode(value[1]));
+        });
+      } else {
+        const base = hexToUnicode(target.slice(1, -1));
+        const prefix = base.slice(0, -1);
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = low; code <= high; code++) {
+          map.set(code, prefix + String.fromCharCode(last + (code - low)));
+        }
+      }
+    }
+  }
+
+  return { codeLength, map };
+}
+
+function glyphNameToUnicode(glyph: string): string {
+  const name = glyph.split('.')[0];
+  if (GLYPH_NAMES[name] !== undefined) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+
+  const uni = /^uni([0-9A-Fa-f]{4,})$/.exec(name);
+  if (uni) return hexToUnicode(uni[1]);
+  const u = /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+
+  const accented = /^([A-Za-z])(acute|grave|circumflex|tilde|dieresis|ring|cedilla|caron)$/.exec(name);
+  if (accented) {
+    const combined = accented[1] + GLYPH_ACCENTS[accented[2]];
+    return typeof combined.normalize === 'function' ? combined.normalize('NFC') : accented[1];
+  }
+  return '';
+}
+
+function buildEncodingTable(doc: PDFDocumentModel, font: PDFDict): string[] {
+  const encoding = resolve(doc, font.get('Encoding'));
+  const baseName = encoding instanceof Map ? nameOf(encoding.get('BaseEncoding')) : nameOf(encoding);
+
+  const table: string[] = [];
+  for (let code = 0; code < 256; code++) {
+    if (baseName === 'MacRomanEncoding' && code >= 0x80) {
+      table[code] = MAC_ROMAN_HIGH[code - 0x80];
+    } else if (code >= 0x80 && code <= 0x9f) {
+      table[code] = WIN_ANSI_HIGH[code - 0x80];
+    } else {
+      table[code] = String.fromCharCode(code);
+    }
+  }
+
+  if (encoding instanceof Map) {
+    const differences = resolve(doc, encoding.get('Differences'));
+    if (Array.isArray(differences)) {
+      let code = 0;
+      for (const item of differences) {
+        if (typeof item === 'number') {
+          code = item;
+        } else if (item instanceof PDFName) {
+          if (code >= 0 && code < 256) table[code] = glyphNameToUnicode(item.name);
+          code++;
+        }
+      }
+    }
+  }
+  return table;
+}
+
+function buildFontDecoder(doc: PDFDocumentModel, font: PDFDict): FontDecoder {
+  const toUnicodeStream = resolve(doc, font.get('ToUnicode'));
+  let toUnicode: ToUnicodeMap | null = null;
+  if (toUnicodeStream instanceof PDFStream) {
+    const data = decodeStream(doc, toUnicodeStream);
+    if (data) toUnicode = parseToUnicodeCMap(data);
+  }
+
+  if (nameOf(font.get('Subtype')) === 'Type0') {
+    const encodingName = nameOf(resolve(doc, font.get('Encoding'))) || '';
+    const isUnicodeEncoding = /UCS2|UTF16/.test(encodingName);
+    const codeLength = toUnicode?.codeLength ?? 2;
+    return {
+      decode: (bytes) => {
+        let result = '';
+        for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+          let code = 0;
+          for (let j = 0; j < codeLength; j++) code = (code << 8) | bytes.charCodeAt(i + j);
+          const mapped = toUnicode?.map.get(code);
+          if (mapped !== undefined) {
+            result += mapped;
+          } else if (isUnicodeEncoding) {
+            result += String.fromCharCode(code);
+          }
+          // Identity-encoded CIDs without a ToUnicode map cannot be recovered
+        }
+        return result;
+      },
+    };
+  }
+
+  const table = buildEncodingTable(doc, font);
+  return {
+    decode: (bytes) => {
+      let result = '';
+      for (let i = 0; i < bytes.length; i++) {
+        const code = bytes.charCodeAt(i);
+        const mapped = toUnicode?.map.get(code);
+        result += mapped !== undefined ? mapped : table[code] ?? '';
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Accumulates extracted text while collapsing redundant separators
+ */
+class TextBuilder {
+  private parts: string[] = [];
+  private last = '';
+
+  text(value: string): void {
+    if (!value) return;
+    this.parts.push(value);
+    this.last = value;
+  }
+
+  space(): void {
+    if (this.last && !/\s$/.test(this.last)) this.text(' ');
+  }
+
+  newline(): void {
+    if (this.last && !this.last.endsWith('\n')) this.text('\n');
+  }
+
+  toString(): string {
+    return this.parts
+      .join('')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
+
+const MAX_FORM_DEPTH = 8;
+
+class ContentTextExtractor {
+  private fonts = new Map<PDFDict, FontDecoder>();
+
+  constructor(private readonly doc: PDFDocumentModel) {}
+
+  private getFont(resources: PDFDict | null, name: PDFValue | undefined): FontDecoder | null {
+    const fontName = nameOf(name);
+    const fontResources = resolveDict(this.doc, resources?.get('Font'));
+    const font = fontName ? resolveDict(this.doc, fontResources?.get(fontName)) : null;
+    if (!font) return null;
+    let decoder = this.fonts.get(font);
+    if (!decoder) {
+      decoder = buildFontDecoder(this.doc, font);
+      this.fonts.set(font, decoder);
+    }
+    return decoder;
+  }
+
+  extract(content: string, resources: PDFDict | null, out: TextBuilder, depth = 0, seen = new Set<PDFStream>()): void {
+    const lexer = new PDFLexer(content);
+    let operands: PDFValue[] = [];
+    let font: FontDecoder | null = null;
+    let lineY: number | null = null;
+
+    const show = (value: PDFValue | undefined) => {
+      if (value instanceof PDFString) {
+        out.text(font ? font.decode(value.value) : value.value);
+      }
+    };
+
+    for (;;) {
+      const token = lexer.readValue();
+      if (token === EOF) break;
+      if (!(token instanceof PDFOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.op) {
+        case 'Tf':
+          font = this.getFont(resources, operands[0]);
+          break;
+        case 'Td':
+        case 'TD': {
+          const ty = operands[1];
+          if (typeof ty === 'number' && Math.abs(ty) > 0.01) {
+            out.newline();
+            lineY = lineY === null ? ty : lineY + ty;
+          } else {
+            out.space();
+          }
+          break;
+        }
+        case 'Tm': {
+          const y = operands[5];
+          if (typeof y === 'number') {
+            if (lineY !== null && Math.abs(y - lineY) > 1) {
+              out.newline();
+            } else {
+              out.space();
+            }
+            lineY = y;
+          }
+          break;
+        }
+        case 'T*':
+          out.newline();
+          break;
+        case 'Tj':
+          show(operands[0]);
+          break;
+        case "'":
+          out.newline();
+          show(operands[0]);
+          break;
+        case '"':
+          out.newline();
+          show(operands[2]);
+          break;
+        case 'TJ': {
+          const items = operands[0];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              if (typeof item === 'number') {
+                // Large negative adjustments (thousandths of an em) act as word gaps
+                if (item < -200) out.space();
+              } else {
+                show(item);
+              }
+            }
+          }
+          break;
+        }
+        case 'ET':
+          out.space();
+          break;
+        case 'Do': {
+          if (depth >= MAX_FORM_DEPTH) break;
+          const xobjects = resolveDict(this.doc, resources?.get('XObject'));
+          const name = nameOf(operands[0]);
+          const xobject = name ? resolve(this.doc, xobjects?.get(name)) : null;
+          if (xobject instanceof PDFStream && nameOf(xobject.dict.get('Subtype')) === 'Form' && !seen.has(xobject)) {
+            seen.add(xobject);
+            const data = decodeStream(this.doc, xobject);
+            if (data) {
+              const formResources = resolveDict(this.doc, xobject.dict.get('Resources')) ?? resources;
+              this.extract(data, formResources, out, depth + 1, seen);
+            }
+          }
+          break;
+        }
+        case 'ID':
+          lexer.skipInlineImageData();
+          break;
+      }
+      operands = [];
+    }
+  }
+}
+
+// Guards against malformed or cyclic outline and name trees
+const MAX_OUTLINE_ITEMS = 5000;
+const MAX_NAME_TREE_DEPTH = 32;
+
+/**
+ * Look up a key in a name tree (e.g. the /Dests tree under /Names)
+ */
+function lookupNameTree(doc: PDFDocumentModel, node: PDFDict | null, key: string, depth = 0): PDFValue | undefined {
+  if (!node || depth > MAX_NAME_TREE_DEPTH) return undefined;
+  const names = resolve(doc, node.get('Names'));
+  if (Array.isArray(names)) {
+    for (let i = 0; i + 1 < names.length; i += 2) {
+      const name = resolve(doc, names[i]);
+      if (name instanceof PDFString && name.value === key) return names[i + 1];
+    }
+  }
+  const kids = resolve(doc, node.get('Kids'));
+  if (Array.isArray(kids)) {
+    for (const kid of kids) {
+      const kidDict = resolveDict(doc, kid);
+      const limits = resolve(doc, kidDict?.get('Limits'));
+      if (Array.isArray(limits) && limits.length === 2) {
+        const [low, high] = limits.map((limit) => resolve(doc, limit));
+        if (low instanceof PDFString && high instanceof PDFString && (key < low.value || key > high.value)) continue;
+      }
+      const found = lookupNameTree(doc, kidDict, key, depth + 1);
+      if (found !== undefined) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve an outline destination (explicit array, named destination or GoTo
+ * action) to a 1-based page number
+ */
+function resolveDestinationPage(
+  doc: PDFDocumentModel,
+  catalog: PDFDict | null,
+  destination: PDFValue | undefined,
+  pageIndexes: Map<PDFDict, number>
+): number | null {
+  let dest = resolve(doc, destination);
+  if (dest instanceof PDFName || dest instanceof PDFString) {
+    // Named destination: PDF 1.1 /Dests dictionary or the PDF 1.2+ name tree
+    const key = dest instanceof PDFName ? dest.name : dest.value;
+    const legacy = resolveDict(doc, catalog?.get('Dests'));
+    const names = resolveDict(doc, catalog?.get('Names'));
+    dest = resolve(doc, legacy?.get(key) ?? lookupNameTree(doc, resolveDict(doc, names?.get('Dests')), key));
+  }
+  if (dest instanceof Map) {
+    dest = resolve(doc, dest.get('D'));
+  }
+  if (!Array.isArray(dest) || dest.length === 0) return null;
+
+  const target = dest[0];
+  if (typeof target === 'number') {
+    // Page index, as used by remote destinations and some writers
+    return target >= 0 && target < pageIndexes.size ? target + 1 : null;
+  }
+  const page = resolveDict(doc, target);
+  const index = page ? pageIndexes.get(page) : undefined;
+  return index === undefined ? null : index + 1;
+}
+
+/**
+ * Read the outline (bookmark) tree from the document catalog
+ */
+function readOutline(doc: PDFDocumentModel, pageEntries: PageEntry[]): PDFOutlineItem[] {
+  const catalog = resolveDict(doc, doc.trailer.get('Root'));
+  const outlines = resolveDict(doc, catalog?.get('Outlines'));
+  if (!outlines) return [];
+
+  const pageIndexes = new Map<PDFDict, number>();
+  pageEntries.forEach((entry, index) => pageIndexes.set(entry.dict, index));
+
+  const visited = new Set<PDFDict>();
+  const readSiblings = (first: PDFValue | undefined): PDFOutlineItem[] => {
+    const items: PDFOutlineItem[] = [];
+    let node = resolveDict(doc, first);
+    while (node && !visited.has(node) && visited.size < MAX_OUTLINE_ITEMS) {
+      visited.add(node);
+      const title = resolve(doc, node.get('Title'));
+      let destination = node.get('Dest');
+      const action = resolveDict(doc, node.get('A'));
+      if (destination === undefined && action && nameOf(action.get('S')) === 'GoTo') {
+        destination = action.get('D');
+      }
+      items.push({
+        title: title instanceof PDFString ? decodePDFTextString(title.value).replace(/\0/g, '').trim() : '',
+        page: resolveDestinationPage(doc, catalog, destination, pageIndexes),
+        children: readSiblings(node.get('First')),
+      });
+      node = resolveDict(doc, node.get('Next'));
+    }
+    return items;
+  };
+
+  return readSiblings(outlines.get('First'));
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolvePromise) => setTimeout(resolvePromise, 0));
+}
+
+/**
+ * Parse a PDF file and extract per-page text and the Info dictionary
+ */
+export async function parsePDF(data: Uint8Array): Promise<PDFParseResult> {
+  const s = bytesToBinaryString(data);
+  if (!s.startsWith('%PDF') && s.indexOf('%PDF') === -1) {
+    throw new Error('Not a PDF file');
+  }
+
+  const doc = loadDocument(s);
+  const pageEntries = collectPages(doc);
+  const encrypted = doc.trailer.has('Encrypt');
+
+  const info: Record<string, string> = {};
+  const infoDict = resolveDict(doc, doc.trailer.get('Info'));
+  if (infoDict && !encrypted) {
+    for (const [key, value] of infoDict) {
+      const resolved = resolve(doc, value);
+      if (resolved instanceof PDFString) {
+        info[key] = decodePDFTextString(resolved.value).replace(/\0/g, '').trim();
+      }
+    }
+  }
+
+  // Outline titles are encrypted strings too
+  const outline = encrypted ? [] : readOutline(doc, pageEntries);
+
+  const pages: string[] = [];
+  const extractor = new ContentTextExtractor(doc);
+  for (let i = 0; i < pageEntries.length; i++) {
+    if (encrypted) {
+      // Streams are encrypted - text cannot be recovered without the key
+      pages.push('');
+      continue;
+    }
+    const { dict, resources } = pageEntries[i];
+    const contents = resolve(doc, dict.get('Contents'));
+    const streams = Array.isArray(contents) ? contents.map((item) => resolve(doc, item)) : [contents];
+    const content = streams
+      .filter((item): item is PDFStream => item instanceof PDFStream)
+      .map((stream) => decodeStream(doc, stream) ?? '')
+      .join('\n');
+
+    const out = new TextBuilder();
+    try {
+      extractor.extract(content, resources, out);
+    } catch (error) {
+      console.warn(`Error extracting text from PDF page ${i + 1}:`, error);
+    }
+    pages.push(out.toString());
+
+    // Keep the JS thread responsive on long documents
+    if (i % 10 === 9) {
+      await yieldToEventLoop();
+    }
+  }
+
+  return {
+    numPages: pageEntries.length,
+    pages,
+    info,
+    outline,
+    encrypted,
+  };
+}
+
+/**
+ * Read only the outline, without extracting page text
+ */
+export function parsePDFOutline(data: Uint8Array): PDFOutlineItem[] {
+  const s = bytesToBinaryString(data);
+  if (!s.startsWith('%PDF') && s.indexOf('%PDF') === -1) {
+    throw new Error('Not a PDF file');
+  }
+
+  const doc = loadDocument(s);
+  if (doc.trailer.has('Encrypt')) return [];
+  return readOutline(doc, collectPages(doc));
+}
@@ -3,19 +3,16 @@
  * Extracts text content from PDF files for search indexing
  */
 
-import * as FileSystemLegacy from 'expo-file-system/legacy';
-
-// pdf-parse is a Node.js library that doesn't work in React Native/Metro bundler
-// PDF text extraction is disabled for now
-// Future implementation options:
-// 1. Use react-native-pdf's text extraction API if available
-// 2. Server-side processing
-// 3. Native module for PDF text extraction
-const pdfParse: any = null;
+import { TOCEntry } from '@/types';
+import { readFileBytes } from '@/utils/fileData';
+import { parsePDF, parsePDFOutline, PDFOutlineItem } from './pdfParser';
+import { getPDFOutlineCache, savePDFOutlineCache } from './database';
 
 export interface PDFTextData {
   text: string;
   numPages: number;
+  pages: string[]; // Text content per page
+  outline: TOCEntry[]; // Bookmarks as table of contents entries
   info: {
     Title?: string;
     Author?: string;
@@ -24,111 +21,61 @@ export interface PDFTextData {
     Producer?: string;
     CreationDate?: string;
     ModDate?: string;
+    [key: string]: string | undefined;
   };
   metadata: {
     [key: string]: any;
   };
 }
 
+/**
+ * Convert outline items to table of contents entries.
+ * Entries whose destination can't be resolved keep no position.
+ */
+function outlineToTOCEntries(items: PDFOutlineItem[], parentId: string = ''): TOCEntry[] {
+  return items.map((item, index) => {
+    const id = parentId ? `${parentId}.${index}` : `${index}`;
+    return {
+      id,
+      title: item.title || `Page ${item.page ?? '?'}`,
+      position: item.page ?? undefined,
+      children: item.children.length > 0 ? outlineToTOCEntries(item.children, id) : undefined,
+    };
+  });
+}
+
 /**
  * Extract text from PDF file
- * Note: pdf-parse requires Buffer, which may not be available in React Native
- * This implementation handles both Node.js and React Native environments
  */
 export async function extractPDFText(filePath: string): Promise<string> {
-  if (!pdfParse) {
-    console.warn('pdf-parse is not available. PDF text extraction disabled.');
-    return '';
-  }
-  try {
-    // Read PDF file
-    let fileUri = filePath;
-    if (!filePath.startsWith('file://') && !filePath.startsWith('/')) {
-      fileUri = `${FileSystemLegacy.documentDirectory || ''}${filePath}`;
-    }
-    if (!fileUri.startsWith('file://')) {
-      fileUri = `file://${fileUri}`;
-    }
-    
-    const base64Data = await FileSystemLegacy.readAsStringAsync(fileUri, {
-      encoding: FileSystemLegacy.EncodingType.Base64,
-    });
-    
-    // Convert base64 to Buffer for pdf-parse
-    let buffer: Buffer;
-    if (typeof Buffer !== 'undefined' && (Buffer as any).from) {
-      buffer = (Buffer as any).from(base64Data, 'base64');
-    } else {
-      // Fallback: manual conversion
-      const binaryString = typeof global !== 'undefined' && (global as any).atob 
-        ? (global as any).atob(base64Data)
-        : '';
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      // Convert Uint8Array to Buffer-like object
-      buffer = bytes as any;
-    }
-    
-    // Parse PDF
-    const data = await (pdfParse.default || pdfParse)(buffer);
-    return data.text || '';
-  } catch (error) {
-    console.error('Error extracting PDF text:', error);
-    // Return empty string on error - PDFs can still be viewed natively
-    return '';
-  }
+  const data = await extractPDFData(filePath);
+  return data?.text || '';
 }
 
 /**
- * Extract full PDF data including metadata
+ * Extract full PDF data including per-page text and metadata
  */
 export async function extractPDFData(filePath: string): Promise<PDFTextData | null> {
-  if (!pdfParse) {
-    console.warn('pdf-parse is not available. PDF data extraction disabled.');
-    return null;
-  }
   try {
-    // Read PDF file
-    let fileUri = filePath;
-    if (!filePath.startsWith('file://') && !filePath.startsWith('/')) {
-      fileUri = `${FileSystemLegacy.documentDirectory || ''}${filePath}`;
-    }
-    if (!fileUri.startsWith('file://')) {
-      fileUri = `file://${fileUri}`;
+    const bytes = await readFileBytes(filePath);
+    const result = await parsePDF(bytes);
+    if (result.encrypted) {
+      console.warn('PDF is encrypted - text extraction is not available.');
     }
-    
-    const base64Data = await FileSystemLegacy.readAsStringAsync(fileUri, {
-      encoding: FileSystemLegacy.EncodingType.Base64,
-    });
-    
-    // Convert base64 to Buffer
-    let buffer: Buffer;
-    if (typeof Buffer !== 'undefined' && (Buffer as any).from) {
-      buffer = (Buffer as any).from(base64Data, 'base64');
-    } else {
-      const binaryString = typeof global !== 'undefined' && (global as any).atob 
-        ? (global as any).atob(base64Data)
-        : '';
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      buffer = bytes as any;
-    }
-    
-    // Parse PDF
-    const data = await (pdfParse.default || pdfParse)(buffer);
-    
+
     return {
-      text: data.text || '',
-      numPages: data.numpages || 0,
-      info: data.info || {},
-      metadata: data.metadata || {},
+      text: result.pages.filter((page) => page.length > 0).join('\n\n'),
+      numPages: result.numPages,
+      pages: result.pages,
+      outline: outlineToTOCEntries(result.outline),
+      info: result.info,
+      metadata: {
+        encrypted: result.encrypted,
+      },
     };
   } catch (error) {
     console.error('Error extracting PDF data:', error);
+    // Return null on error - PDFs can still be viewed natively
     return null;
   }
 }
@@ -145,3 +92,20 @@ export async function getPDFMetadata(filePath: string): Promise<PDFTextData['inf
     return null;
   }
 }
+
+/**
+ * Get the PDF outline (bookmarks) as table of contents entries. The outline
+ * is stored at import; PDFs imported earlier are parsed once and stored then.
+ */
+export async function getPDFOutline(documentId: string, filePath: string): Promise<TOCEntry[]> {
+  try {
+    const cached = await getPDFOutlineCache(documentId);
+    if (cached) return cached;
+    const outline = outlineToTOCEntries(parsePDFOutline(await readFileBytes(filePath)));
+    await savePDFOutlineCache(documentId, outline);
+    return outline;
+  } catch (error) {
+    console.error('Error reading PDF outline:', error);
+    return [];
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Default storage backend for native builds.
+ * Metro picks defaultAdapter.web.ts instead when bundling for web.
+ */
+
+import { openExpoSQLiteAdapter } from './expoSQLiteAdapter';
+
+export const openDefaultStorageAdapter = openExpoSQLiteAdapter;
@@ -0,0 +1,7 @@
+/**
+ * Default storage backend for web builds
+ */
+
+import { openWebStorageAdapter } from './webAdapter';
+
+export const openDefaultStorageAdapter = openWebStorageAdapter;
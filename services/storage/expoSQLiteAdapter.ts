@@ -0,0 +1,34 @@
+/**
+ * expo-sqlite storage adapter
+ * Native (iOS/Android) backend
+ */
+
+import { StorageAdapter } from './types';
+
+export async function openExpoSQLiteAdapter(name: string): Promise<StorageAdapter> {
+  // Required lazily so the data layer can be loaded where expo-sqlite is unavailable
+  let SQLite: any = null;
+  try {
+    SQLite = require('expo-sqlite');
+  } catch (e) {
+    console.warn('expo-sqlite not available:', e);
+  }
+  if (!SQLite) {
+    console.error('expo-sqlite is not available. Database operations will not work.');
+    throw new Error('expo-sqlite is not available. Please use a development build.');
+  }
+
+  const db = await SQLite.openDatabaseAsync(name);
+
+  return {
+    execAsync: (sql) => db.execAsync(sql),
+    runAsync: async (sql, params = []) => {
+      const result = await db.runAsync(sql, params);
+      return { changes: result.changes, lastInsertRowId: result.lastInsertRowId };
+    },
+    getAllAsync: (sql, params = []) => db.getAllAsync(sql, params),
+    getFirstAsync: async (sql, params = []) => (await db.getFirstAsync(sql, params)) ?? null,
+    withTransactionAsync: (task) => db.withTransactionAsync(task),
+    closeAsync: () => db.closeAsync(),
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Node storage adapter
+ * sql.js database for running stores and services outside the app, e.g. in tests.
+ * Not imported by the app bundle.
+ */
+
+import { StorageAdapter } from './types';
+import { createSqlJsAdapter, loadSqlJs } from './sqlJsAdapter';
+
+/**
+ * Open a database in memory, or backed by filePath when given.
+ * A missing file starts an empty database that is written on change.
+ */
+export async function openNodeStorageAdapter(filePath?: string): Promise<StorageAdapter> {
+  const SQL = await loadSqlJs();
+  if (!filePath) {
+    return createSqlJsAdapter(new SQL.Database());
+  }
+
+  const fs = require('fs');
+  const saved: Uint8Array | undefined = fs.existsSync(filePath) ? fs.readFileSync(filePath) : undefined;
+
+  return createSqlJsAdapter(new SQL.Database(saved), {
+    save: async (data) => {
+      await fs.promises.writeFile(filePath, data);
+    },
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * sql.js storage adapter
+ * Wraps an in-memory sql.js database; web and Node supply how it is persisted
+ */
+
+import type { Database } from 'sql.js';
+import { StorageAdapter, SQLiteParams } from './types';
+
+const PERSIST_DELAY = 500; // ms to batch writes before exporting the database
+
+export interface SqlJsPersistence {
+  save: (data: Uint8Array) => Promise<void>;
+}
+
+/**
+ * Load the pure-JS (asm.js) build of sql.js.
+ * It needs no .wasm asset, so the same code runs in the browser bundle and in Node.
+ */
+export async function loadSqlJs(): Promise<any> {
+  const initSqlJs = require('sql.js/dist/sql-asm.js');
+  return await (initSqlJs.default ?? initSqlJs)();
+}
+
+export function createSqlJsAdapter(db: Database, persistence?: SqlJsPersistence): StorageAdapter {
+  let transactionDepth = 0;
+  let dirty = false;
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const persist = async () => {
+    persistTimer = null;
+    if (!persistence || !dirty || transactionDepth > 0) return;
+    dirty = false;
+    // export() reopens the database, which resets connection pragmas
+    const foreignKeys = db.exec('PRAGMA foreign_keys')[0]?.values[0]?.[0];
+    const data = db.export();
+    if (foreignKeys) {
+      db.run('PRAGMA foreign_keys = ON');
+    }
+    try {
+      await persistence.save(data);
+    } catch (error) {
+      console.error('Error persisting database:', error);
+      dirty = true;
+    }
+  };
+
+  const markDirty = () => {
+    if (!persistence) return;
+    dirty = true;
+    if (transactionDepth === 0 && !persistTimer) {
+      persistTimer = setTimeout(persist, PERSIST_DELAY);
+    }
+  };
+
+  // expo-sqlite binds undefined as NULL; sql.js rejects it
+  const bindable = (params: SQLiteParams) => params.map((value) => (value === undefined ? null : value)) as any[];
+
+  const query = <T>(sql: string, params: SQLiteParams, limit?: number): T[] => {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(bindable(params));
+      const rows: T[] = [];
+      while ((limit === undefined || rows.length < limit) && statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    execAsync: async (sql) => {
+      db.exec(sql);
+      markDirty();
+    },
+    runAsync: async (sql, params = []) => {
+      db.run(sql, bindable(params));
+      const changes = db.getRowsModified();
+      const lastInsertRowId = Number(db.exec('SELECT last_insert_rowid()')[0]?.values[0]?.[0] ?? 0);
+      markDirty();
+      return { changes, lastInsertRowId };
+    },
+    getAllAsync: async (sql, params = []) => query(sql, params),
+    getFirstAsync: async (sql, params = []) => query<any>(sql, params, 1)[0] ?? null,
+    withTransactionAsync: async (task) => {
+      db.exec('BEGIN');
+      transactionDepth++;
+      try {
+        await task();
+        db.exec('COMMIT');
+      } catch (error) {
+        try {
+          db.exec('ROLLBACK');
+        } catch {
+          // SQLite already rolled back on its own
+        }
+        throw error;
+      } finally {
+        transactionDepth--;
+        markDirty();
+      }
+    },
+    closeAsync: async () => {
+      if (persistTimer) {
+        clearTimeout(persistTimer);
+      }
+      await persist();
+      db.close();
+    },
+  };
+}
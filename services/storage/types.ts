@@ -0,0 +1,31 @@
+/**
+ * Storage adapter types
+ * The async SQLite surface the data layer is written against
+ */
+
+export type SQLiteValue = string | number | null | boolean | Uint8Array;
+
+export type SQLiteParams = SQLiteValue[];
+
+export interface RunResult {
+  changes: number;
+  lastInsertRowId: number;
+}
+
+/**
+ * Minimal async SQLite API shared by every backend.
+ * Mirrors the subset of expo-sqlite's SQLiteDatabase that the app uses.
+ */
+export interface StorageAdapter {
+  /** Execute one or more statements without parameters */
+  execAsync(sql: string): Promise<void>;
+  /** Execute a single statement that does not return rows */
+  runAsync(sql: string, params?: SQLiteParams): Promise<RunResult>;
+  getAllAsync<T = any>(sql: string, params?: SQLiteParams): Promise<T[]>;
+  getFirstAsync<T = any>(sql: string, params?: SQLiteParams): Promise<T | null>;
+  /** Run task inside BEGIN/COMMIT, rolling back if it throws */
+  withTransactionAsync(task: () => Promise<void>): Promise<void>;
+  closeAsync(): Promise<void>;
+}
+
+export type StorageAdapterFactory = (name: string) => Promise<StorageAdapter>;
@@ -0,0 +1,48 @@
+/**
+ * Web storage adapter
+ * sql.js database persisted to IndexedDB
+ */
+
+import { StorageAdapter } from './types';
+import { createSqlJsAdapter, loadSqlJs } from './sqlJsAdapter';
+
+const IDB_NAME = 'readus';
+const IDB_STORE = 'databases';
+
+function openIndexedDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IDB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbRequest<T>(
+  idb: IDBDatabase,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = run(idb.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function openWebStorageAdapter(name: string): Promise<StorageAdapter> {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error('IndexedDB is not available in this browser.');
+  }
+
+  const [SQL, idb] = await Promise.all([loadSqlJs(), openIndexedDB()]);
+  const saved = await idbRequest<Uint8Array | undefined>(idb, 'readonly', (store) => store.get(name));
+
+  return createSqlJsAdapter(new SQL.Database(saved), {
+    save: async (data) => {
+      await idbRequest(idb, 'readwrite', (store) => store.put(data, name));
+    },
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Plain Text Parser Service
+ * Decodes TXT files in any common encoding, strips Project Gutenberg
+ * boilerplate and finds chapter headings for the table of contents
+ */
+
+import * as FileSystemLegacy from 'expo-file-system/legacy';
+import { TOCEntry } from '@/types';
+import { createTextDecoder, detectTextEncoding, TextEncoding, TextStreamDecoder } from '@/utils/textEncoding';
+import { base64ToBytes, toFileUri } from '@/utils/fileData';
+import { parsePlainText, PlainTextContent, TXTChapter } from '@/utils/plainText';
+
+export interface TXTContent extends PlainTextContent {
+  encoding: TextEncoding;
+}
+
+// Bytes read from disk at a time
+const READ_WINDOW_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Read and decode a TXT file window by window, so a huge file never sits in
+ * memory as one base64 string. The encoding is detected from the first window.
+ */
+async function readTXTText(filePath: string): Promise<{ text: string; encoding: TextEncoding }> {
+  const fileUri = toFileUri(filePath);
+  const info = await FileSystemLegacy.getInfoAsync(fileUri);
+  if (!info.exists) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  let decoder: TextStreamDecoder | null = null;
+  let encoding: TextEncoding = 'utf-8';
+  const parts: string[] = [];
+  for (let position = 0; position < info.size; position += READ_WINDOW_SIZE) {
+    const base64Data = await FileSystemLegacy.readAsStringAsync(fileUri, {
+      encoding: FileSystemLegacy.EncodingType.Base64,
+      position,
+      length: Math.min(READ_WINDOW_SIZE, info.size - position),
+    });
+    let bytes = base64ToBytes(base64Data);
+    if (!decoder) {
+      const detected = detectTextEncoding(bytes);
+      encoding = detected.encoding;
+      decoder = createTextDecoder(encoding);
+      bytes = bytes.subarray(detected.bomLength);
+    }
+    parts.push(decoder.decode(bytes, position + READ_WINDOW_SIZE >= info.size));
+  }
+  return { text: parts.join(''), encoding };
+}
+
+/**
+ * Read, decode and parse a TXT file
+ */
+export async function parseTXTFile(filePath: string): Promise<TXTContent> {
+  const { text, encoding } = await readTXTText(filePath);
+  return { ...parsePlainText(text), encoding };
+}
+
+/**
+ * Convert chapters to the reader's format-agnostic entries, positioned by
+ * chapter index
+ */
+export function buildTXTTOCEntries(chapters: TXTChapter[]): TOCEntry[] {
+  return chapters.map((chapter, index) => ({
+    id: `txt-chapter-${index}`,
+    title: chapter.title,
+    position: index,
+  }));
+}
@@ -13,6 +13,7 @@ import {
   deleteCollection,
   addDocumentToCollection,
   removeDocumentFromCollection,
+  reorderCollectionDocuments,
   getCollectionDocuments,
   getDocumentCollections,
   waitForDatabase,
@@ -32,7 +33,9 @@ interface CollectionStore {
   setCurrentCollection: (collection: Collection | null) => void;
   addDocument: (collectionId: string, documentId: string) => Promise<void>;
   removeDocument: (collectionId: string, documentId: string) => Promise<void>;
+  reorderDocuments: (collectionId: string, documentIds: string[]) => Promise<void>;
   getDocuments: (collectionId: string) => Promise<Document[]>;
+  getChildCollections: (parentId: string | null) => Promise<Collection[]>;
   getCollectionsForDocument: (documentId: string) => Promise<Collection[]>;
   refreshCollections: () => Promise<void>;
 }
@@ -132,6 +135,17 @@ export const useCollectionStore = create<CollectionStore>((set, get) => ({
     }
   },
 
+  reorderDocuments: async (collectionId, documentIds) => {
+    try {
+      await reorderCollectionDocuments(collectionId, documentIds);
+    } catch (error) {
+      console.error('Error reordering collection documents:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to reorder documents',
+      });
+    }
+  },
+
   getDocuments: async (collectionId) => {
     try {
       return await getCollectionDocuments(collectionId);
@@ -141,6 +155,15 @@ export const useCollectionStore = create<CollectionStore>((set, get) => ({
     }
   },
 
+  getChildCollections: async (parentId) => {
+    try {
+      return await getCollectionsByParentId(parentId);
+    } catch (error) {
+      console.error('Error getting child collections:', error);
+      return [];
+    }
+  },
+
   getCollectionsForDocument: async (documentId) => {
     try {
       return await getDocumentCollections(documentId);
@@ -25,6 +25,7 @@ interface DocumentStore {
   setCurrentDocument: (document: Document | null) => void;
   updateDocumentStatus: (id: string, status: DocumentStatus) => Promise<void>;
   updateDocumentPageCount: (id: string, pageCount: number) => Promise<void>;
+  setDocumentCover: (id: string, coverImagePath: string) => void;
   toggleFavorite: (id: string) => Promise<void>;
   deleteDocument: (id: string) => Promise<void>;
   removeFromLibrary: (id: string) => Promise<void>;
@@ -89,6 +90,15 @@ export const useDocumentStore = create<DocumentStore>((set, get) => ({
     }
   },
 
+  // Cover paths are saved by the thumbnail service; this only refreshes the list
+  setDocumentCover: (id, coverImagePath) => {
+    set((state) => ({
+      documents: state.documents.map((doc) =>
+        doc.id === id ? { ...doc, coverImagePath } : doc
+      ),
+    }));
+  },
+
   toggleFavorite: async (id) => {
     try {
       const newStatus = await toggleFavoriteInDB(id);
@@ -25,7 +25,7 @@ interface HighlightStore {
   // Actions
   loadHighlights: (documentId?: string) => Promise<void>;
   loadNotes: (documentId?: string) => Promise<void>;
-  addHighlight: (highlight: Omit<Highlight, 'id' | 'createdAt'>) => Promise<void>;
+  addHighlight: (highlight: Omit<Highlight, 'id' | 'createdAt'>) => Promise<Highlight | null>;
   deleteHighlight: (id: string) => Promise<void>;
   addNote: (note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateNote: (id: string, text: string) => Promise<void>;
@@ -77,10 +77,12 @@ export const useHighlightStore = create<HighlightStore>((set, get) => ({
       };
       await insertHighlight(highlight);
       await get().loadHighlights(highlightData.documentId);
+      return highlight;
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to add highlight',
       });
+      return null;
     }
   },
 
@@ -19,6 +19,9 @@ const defaultSettings: ReaderSettings = {
   fontFamily: 'System', // Default to system font
   readingMode: 'page', // Default to page mode
   autoScrollSpeed: 200, // Default auto-scroll speed (WPM)
+  autoBackupIntervalHours: 24, // Back up at most once a day
+  autoBackupKeepCount: 7, // Keep a week of daily backups
+  autoBackupIncludeDocuments: false, // Library data and covers only; documents stay on the device
 };
 
 interface ReaderStore {
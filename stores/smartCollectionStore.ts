@@ -0,0 +1,112 @@
+/**
+ * Zustand store for rule-based smart collections
+ */
+
+import { create } from 'zustand';
+import { Document, SmartCollection, SmartCollectionRule } from '@/types';
+import {
+  getAllSmartCollections,
+  insertSmartCollection,
+  updateSmartCollection,
+  deleteSmartCollection,
+  getSmartCollectionDocuments,
+  waitForDatabase,
+} from '@/services/database';
+
+type SmartCollectionUpdates = Partial<Pick<SmartCollection, 'name' | 'color' | 'matchMode' | 'rules'>>;
+
+interface SmartCollectionStore {
+  smartCollections: SmartCollection[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadSmartCollections: () => Promise<void>;
+  createSmartCollection: (
+    name: string,
+    rules: SmartCollectionRule[],
+    matchMode?: SmartCollection['matchMode'],
+    color?: string
+  ) => Promise<SmartCollection | null>;
+  updateSmartCollectionById: (id: string, updates: SmartCollectionUpdates) => Promise<void>;
+  deleteSmartCollectionById: (id: string) => Promise<void>;
+  getDocuments: (smartCollection: SmartCollection) => Promise<Document[]>;
+}
+
+export const useSmartCollectionStore = create<SmartCollectionStore>((set, get) => ({
+  smartCollections: [],
+  isLoading: false,
+  error: null,
+
+  loadSmartCollections: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      await waitForDatabase();
+      const smartCollections = await getAllSmartCollections();
+      set({ smartCollections, isLoading: false });
+    } catch (error) {
+      console.error('Error loading smart collections:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load smart collections',
+        isLoading: false,
+      });
+    }
+  },
+
+  createSmartCollection: async (name, rules, matchMode = 'all', color) => {
+    try {
+      await waitForDatabase();
+      const smartCollection: SmartCollection = {
+        id: `smart-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        color: color || null,
+        matchMode,
+        rules,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      await insertSmartCollection(smartCollection);
+      await get().loadSmartCollections();
+      return smartCollection;
+    } catch (error) {
+      console.error('Error creating smart collection:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to create smart collection',
+      });
+      return null;
+    }
+  },
+
+  updateSmartCollectionById: async (id, updates) => {
+    try {
+      await updateSmartCollection(id, updates);
+      await get().loadSmartCollections();
+    } catch (error) {
+      console.error('Error updating smart collection:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update smart collection',
+      });
+    }
+  },
+
+  deleteSmartCollectionById: async (id) => {
+    try {
+      await deleteSmartCollection(id);
+      await get().loadSmartCollections();
+    } catch (error) {
+      console.error('Error deleting smart collection:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete smart collection',
+      });
+    }
+  },
+
+  getDocuments: async (smartCollection) => {
+    try {
+      return await getSmartCollectionDocuments(smartCollection);
+    } catch (error) {
+      console.error('Error evaluating smart collection:', error);
+      return [];
+    }
+  },
+}));
@@ -0,0 +1,186 @@
+/**
+ * Zustand store for tags management
+ */
+
+import { create } from 'zustand';
+import { Tag } from '@/types';
+import {
+  getAllTags,
+  getAllDocumentTags,
+  insertTag,
+  updateTag,
+  deleteTag,
+  mergeTags as mergeTagsInDatabase,
+  addTagToDocument,
+  removeTagFromDocument,
+  waitForDatabase,
+} from '@/services/database';
+import { TAG_COLORS } from '@/utils/constants';
+
+interface TagStore {
+  tags: Tag[];
+  documentTagIds: Record<string, string[]>; // documentId -> tagIds
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadTags: () => Promise<void>;
+  createTag: (name: string, color?: string) => Promise<Tag | null>;
+  renameTag: (id: string, name: string) => Promise<boolean>;
+  recolorTag: (id: string, color: string) => Promise<boolean>;
+  mergeTags: (sourceId: string, targetId: string) => Promise<boolean>;
+  deleteTagById: (id: string) => Promise<void>;
+  toggleDocumentTag: (documentId: string, tagId: string) => Promise<void>;
+  getTagsForDocument: (documentId: string) => Tag[];
+}
+
+function findTagByName(tags: Tag[], name: string, excludeId?: string): Tag | undefined {
+  const normalized = name.trim().toLowerCase();
+  return tags.find((tag) => tag.id !== excludeId && tag.name.toLowerCase() === normalized);
+}
+
+export const useTagStore = create<TagStore>((set, get) => ({
+  tags: [],
+  documentTagIds: {},
+  isLoading: false,
+  error: null,
+
+  loadTags: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      await waitForDatabase();
+      const [tags, documentTags] = await Promise.all([getAllTags(), getAllDocumentTags()]);
+      const documentTagIds: Record<string, string[]> = {};
+      for (const { documentId, tagId } of documentTags) {
+        (documentTagIds[documentId] ??= []).push(tagId);
+      }
+      set({ tags, documentTagIds, isLoading: false });
+    } catch (error) {
+      console.error('Error loading tags:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load tags',
+        isLoading: false,
+      });
+    }
+  },
+
+  createTag: async (name, color) => {
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+
+    // Tag names are unique; reuse an existing tag instead of failing
+    const existing = findTagByName(get().tags, trimmed);
+    if (existing) return existing;
+
+    try {
+      await waitForDatabase();
+      const tag: Tag = {
+        id: `tag-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name: trimmed,
+        color: color || TAG_COLORS[get().tags.length % TAG_COLORS.length],
+        createdAt: new Date().toISOString(),
+      };
+      await insertTag(tag);
+      await get().loadTags();
+      return tag;
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to create tag',
+      });
+      return null;
+    }
+  },
+
+  renameTag: async (id, name) => {
+    const trimmed = name.trim();
+    if (!trimmed) return false;
+    if (findTagByName(get().tags, trimmed, id)) {
+      set({ error: `A tag named "${trimmed}" already exists. Merge the tags instead.` });
+      return false;
+    }
+
+    try {
+      await updateTag(id, { name: trimmed });
+      await get().loadTags();
+      return true;
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to rename tag',
+      });
+      return false;
+    }
+  },
+
+  recolorTag: async (id, color) => {
+    try {
+      await updateTag(id, { color });
+      set((state) => ({
+        tags: state.tags.map((tag) => (tag.id === id ? { ...tag, color } : tag)),
+      }));
+      return true;
+    } catch (error) {
+      console.error('Error recoloring tag:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to recolor tag',
+      });
+      return false;
+    }
+  },
+
+  mergeTags: async (sourceId, targetId) => {
+    if (sourceId === targetId) return false;
+    try {
+      await mergeTagsInDatabase(sourceId, targetId);
+      await get().loadTags();
+      return true;
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to merge tags',
+      });
+      return false;
+    }
+  },
+
+  deleteTagById: async (id) => {
+    try {
+      await deleteTag(id);
+      await get().loadTags();
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete tag',
+      });
+    }
+  },
+
+  toggleDocumentTag: async (documentId, tagId) => {
+    const current = get().documentTagIds[documentId] ?? [];
+    const hasTag = current.includes(tagId);
+    try {
+      if (hasTag) {
+        await removeTagFromDocument(documentId, tagId);
+      } else {
+        await addTagToDocument(documentId, tagId);
+      }
+      set((state) => ({
+        documentTagIds: {
+          ...state.documentTagIds,
+          [documentId]: hasTag ? current.filter((id) => id !== tagId) : [...current, tagId],
+        },
+      }));
+    } catch (error) {
+      console.error('Error updating document tags:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update document tags',
+      });
+    }
+  },
+
+  getTagsForDocument: (documentId) => {
+    const tagIds = get().documentTagIds[documentId] ?? [];
+    return get().tags.filter((tag) => tagIds.includes(tag.id));
+  },
+}));
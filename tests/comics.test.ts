@@ -0,0 +1,62 @@
+/**
+ * Comic tests
+ * Page order within an archive and how pages pair up into spreads
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getAdjacentSpread, getSpreadPages } from '../utils/comicSpreads';
+import { compareNatural } from '../utils/naturalSort';
+
+describe('compareNatural', () => {
+  test('orders numbers by value', () => {
+    assert.deepEqual(['page10.jpg', 'page2.jpg', 'page1.jpg'].sort(compareNatural), [
+      'page1.jpg',
+      'page2.jpg',
+      'page10.jpg',
+    ]);
+    assert.deepEqual(['v2/c10/1.png', 'v2/c9/1.png', 'v10/c1/1.png'].sort(compareNatural), [
+      'v2/c9/1.png',
+      'v2/c10/1.png',
+      'v10/c1/1.png',
+    ]);
+  });
+
+  test('ignores case and sorts the shorter spelling of equal numbers first', () => {
+    assert.ok(compareNatural('Page1.jpg', 'page2.jpg') < 0);
+    assert.ok(compareNatural('page1.jpg', 'page01.jpg') < 0);
+    assert.equal(compareNatural('PAGE1.JPG', 'page1.jpg'), 0);
+  });
+
+  test('sorts a name before its longer continuations', () => {
+    assert.deepEqual(['cover-b.jpg', 'cover.jpg', 'cover'].sort(compareNatural), ['cover', 'cover-b.jpg', 'cover.jpg']);
+  });
+});
+
+describe('comic spreads', () => {
+  test('the cover stands alone and the following pages pair up', () => {
+    assert.deepEqual(getSpreadPages(1, 6, true), [1]);
+    assert.deepEqual(getSpreadPages(2, 6, true), [2, 3]);
+    assert.deepEqual(getSpreadPages(3, 6, true), [2, 3]);
+    // An odd last page after the pairs stands alone too
+    assert.deepEqual(getSpreadPages(6, 6, true), [6]);
+    assert.deepEqual(getSpreadPages(5, 5, true), [4, 5]);
+  });
+
+  test('single-page mode and out-of-range pages', () => {
+    assert.deepEqual(getSpreadPages(3, 6, false), [3]);
+    assert.deepEqual(getSpreadPages(0, 6, true), [1]);
+    assert.deepEqual(getSpreadPages(9, 6, true), [6]);
+  });
+
+  test('steps from spread to spread and stops at either end', () => {
+    assert.equal(getAdjacentSpread(1, 6, true, 1), 2);
+    assert.equal(getAdjacentSpread(3, 6, true, 1), 4);
+    assert.equal(getAdjacentSpread(4, 6, true, 1), 6);
+    assert.equal(getAdjacentSpread(6, 6, true, 1), null);
+    assert.equal(getAdjacentSpread(5, 6, true, -1), 2);
+    assert.equal(getAdjacentSpread(2, 6, true, -1), 1);
+    assert.equal(getAdjacentSpread(1, 6, true, -1), null);
+    assert.equal(getAdjacentSpread(3, 6, false, 1), 4);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Migration tests
+ * Runs the schema migrations one version at a time on an in-memory sql.js
+ * database and checks what each version adds
+ */
+
+import assert from 'node:assert/strict';
+import { before, describe, mock, test } from 'node:test';
+import { getSchemaVersion, MIGRATIONS, runMigrations } from '../services/migrations';
+import { createSqlJsAdapter, loadSqlJs } from '../services/storage/sqlJsAdapter';
+import { StorageAdapter } from '../services/storage/types';
+
+interface SchemaStep {
+  version: number;
+  seed?: (db: StorageAdapter) => Promise<void>; // Rows the migration should act on, added before it runs
+  check: (db: StorageAdapter) => Promise<void>;
+}
+
+async function openDatabase(): Promise<StorageAdapter> {
+  const SQL = await loadSqlJs();
+  return createSqlJsAdapter(new SQL.Database());
+}
+
+async function tableNames(db: StorageAdapter): Promise<string[]> {
+  const rows = (await db.getAllAsync("SELECT name FROM sqlite_master WHERE type = 'table'")) as { name: string }[];
+  return rows.map((row) => row.name);
+}
+
+async function columnNames(db: StorageAdapter, table: string): Promise<string[]> {
+  const rows = (await db.getAllAsync(`PRAGMA table_info(${table})`)) as { name: string }[];
+  return rows.map((row) => row.name);
+}
+
+async function assertColumns(db: StorageAdapter, table: string, columns: string[]): Promise<void> {
+  const existing = await columnNames(db, table);
+  for (const column of columns) {
+    assert.ok(existing.includes(column), `${table}.${column} is missing`);
+  }
+}
+
+async function insertDocument(db: StorageAdapter, id: string, fields: Record<string, string> = {}): Promise<void> {
+  const row: Record<string, string> = {
+    id,
+    title: `Document ${id}`,
+    filePath: `documents/${id}.txt`,
+    format: 'txt',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  };
+  const columns = Object.keys(row);
+  await db.runAsync(
+    `INSERT INTO documents (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    Object.values(row)
+  );
+}
+
+const SCHEMA_STEPS: SchemaStep[] = [
+  {
+    version: 1,
+    check: async (db) => {
+      const tables = await tableNames(db);
+      for (const table of [
+        'documents',
+        'tags',
+        'document_tags',
+        'reading_positions',
+        'highlights',
+        'notes',
+        'reading_sessions',
+        'collections',
+        'collection_documents',
+        'bookmarks',
+      ]) {
+        assert.ok(tables.includes(table), `${table} is missing`);
+      }
+      await insertDocument(db, 'doc-1');
+      const document = (await db.getFirstAsync('SELECT status, pageCount FROM documents WHERE id = ?', ['doc-1'])) as any;
+      assert.deepEqual({ ...document }, { status: 'unread', pageCount: 0 });
+    },
+  },
+  {
+    version: 2,
+    check: async (db) => {
+      await assertColumns(db, 'documents', ['extractedText']);
+    },
+  },
+  {
+    version: 3,
+    check: async (db) => {
+      await assertColumns(db, 'documents', ['isFavorite']);
+      const document = (await db.getFirstAsync('SELECT isFavorite FROM documents WHERE id = ?', ['doc-1'])) as any;
+      assert.equal(document.isFavorite, 0);
+    },
+  },
+  {
+    version: 4,
+    check: async (db) => {
+      const tables = await tableNames(db);
+      for (const table of ['documents_fts', 'highlights_fts', 'notes_fts']) {
+        assert.ok(tables.includes(table), `${table} is missing`);
+      }
+      // Rows from before the migration are indexed, and the triggers index new ones
+      await db.runAsync('UPDATE documents SET extractedText = ? WHERE id = ?', ['Call me Ishmael', 'doc-1']);
+      await insertDocument(db, 'doc-2', { extractedText: 'It was a dark and stormy night' });
+      const matches = (await db.getAllAsync(
+        "SELECT id FROM documents_fts WHERE documents_fts MATCH 'ishmael OR stormy' ORDER BY id"
+      )) as { id: string }[];
+      assert.deepEqual(
+        matches.map((match) => match.id),
+        ['doc-1', 'doc-2']
+      );
+    },
+  },
+  {
+    version: 5,
+    check: async (db) => {
+      for (const table of ['highlights', 'notes', 'bookmarks', 'reading_positions']) {
+        await assertColumns(db, table, ['locator']);
+      }
+    },
+  },
+  {
+    version: 6,
+    check: async (db) => {
+      await assertColumns(db, 'smart_collections', ['id', 'name', 'color', 'matchMode', 'rules', 'createdAt', 'updatedAt']);
+      await db.runAsync('INSERT INTO smart_collections (id, name, createdAt, updatedAt) VALUES (?, ?, ?, ?)', [
+        'smart-1',
+        'Unread',
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-01T00:00:00.000Z',
+      ]);
+      const row = (await db.getFirstAsync('SELECT matchMode, rules FROM smart_collections')) as any;
+      assert.deepEqual({ ...row }, { matchMode: 'all', rules: '[]' });
+    },
+  },
+  {
+    version: 7,
+    check: async (db) => {
+      await assertColumns(db, 'epub_structures', [
+        'documentId',
+        'fileSize',
+        'modifiedAt',
+        'parserVersion',
+        'structure',
+        'updatedAt',
+      ]);
+    },
+  },
+  {
+    version: 8,
+    check: async (db) => {
+      await assertColumns(db, 'documents', ['author', 'description', 'siteName', 'sourceUrl']);
+    },
+  },
+  {
+    version: 9,
+    seed: async (db) => {
+      await insertDocument(db, 'pdf-1', { format: 'pdf', filePath: 'documents/pdf-1.pdf', coverImagePath: '' });
+      await insertDocument(db, 'epub-1', { format: 'epub', filePath: 'documents/epub-1.epub', coverImagePath: '' });
+    },
+    check: async (db) => {
+      // Only PDFs marked as having no cover are retried
+      const rows = (await db.getAllAsync(
+        "SELECT id, coverImagePath FROM documents WHERE id IN ('pdf-1', 'epub-1') ORDER BY id"
+      )) as any[];
+      assert.deepEqual(
+        rows.map((row) => [row.id, row.coverImagePath]),
+        [
+          ['epub-1', ''],
+          ['pdf-1', null],
+        ]
+      );
+    },
+  },
+  {
+    version: 10,
+    check: async (db) => {
+      await assertColumns(db, 'pdf_outlines', ['documentId', 'outline', 'updatedAt']);
+      await db.execAsync('PRAGMA foreign_keys = ON');
+      await db.runAsync('INSERT INTO pdf_outlines (documentId, outline, updatedAt) VALUES (?, ?, ?)', [
+        'pdf-1',
+        '[]',
+        '2024-01-01T00:00:00.000Z',
+      ]);
+      await db.runAsync('DELETE FROM documents WHERE id = ?', ['pdf-1']);
+      assert.equal(await db.getFirstAsync('SELECT documentId FROM pdf_outlines'), null);
+    },
+  },
+  {
+    version: 11,
+    check: async (db) => {
+      await assertColumns(db, 'documents', ['fileCreatedAt', 'fileModifiedAt']);
+    },
+  },
+];
+
+describe('migrations', () => {
+  before(() => {
+    // runMigrations logs every applied migration
+    mock.method(console, 'log', () => {});
+  });
+
+  test('every migration has a schema check', () => {
+    assert.deepEqual(
+      SCHEMA_STEPS.map((step) => step.version),
+      MIGRATIONS.map((migration) => migration.version)
+    );
+  });
+
+  test('each version applies on top of the previous one', async () => {
+    const db = await openDatabase();
+    for (const step of SCHEMA_STEPS) {
+      await step.seed?.(db);
+      const migrations = MIGRATIONS.filter((migration) => migration.version <= step.version);
+      assert.equal(await runMigrations(db, migrations), step.version);
+      assert.equal(await getSchemaVersion(db), step.version);
+      await step.check(db);
+    }
+    await db.closeAsync();
+  });
+
+  test('a fresh database migrates straight to the latest version', async () => {
+    const db = await openDatabase();
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+    assert.equal(await runMigrations(db), latest);
+    // Running again finds nothing to do
+    assert.equal(await runMigrations(db), latest);
+    await db.closeAsync();
+  });
+
+  test('a failing migration leaves the database at the last completed version', async () => {
+    const db = await openDatabase();
+    const broken = {
+      version: 2,
+      name: 'broken',
+      up: async (database: StorageAdapter) => {
+        await database.execAsync('CREATE TABLE half_done (id TEXT)');
+        throw new Error('disk full');
+      },
+    };
+    await assert.rejects(runMigrations(db, [MIGRATIONS[0], broken]), /Migration 2 \(broken\) failed: disk full/);
+    assert.equal(await getSchemaVersion(db), 1);
+    assert.ok(!(await tableNames(db)).includes('half_done'));
+    await db.closeAsync();
+  });
+
+  test('a database newer than the app is refused', async () => {
+    const db = await openDatabase();
+    await db.execAsync(`PRAGMA user_version = ${MIGRATIONS[MIGRATIONS.length - 1].version + 1}`);
+    await assert.rejects(runMigrations(db), /newer than this app supports/);
+    await db.closeAsync();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Plain text tests
+ * Encoding detection and streamed decoding of TXT files, and the structure
+ * found in the decoded text
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { findTXTChapters, parsePlainText } from '../utils/plainText';
+import { createTextDecoder, detectTextEncoding, TextEncoding } from '../utils/textEncoding';
+
+function bytes(...values: number[]): Uint8Array {
+  return new Uint8Array(values);
+}
+
+function decodeInWindows(data: Uint8Array, encoding: TextEncoding, windowSize: number): string {
+  const decoder = createTextDecoder(encoding);
+  let text = '';
+  for (let position = 0; position < data.length; position += windowSize) {
+    text += decoder.decode(data.subarray(position, position + windowSize), position + windowSize >= data.length);
+  }
+  return text;
+}
+
+// "日本語のテキストです" in Shift-JIS
+const SHIFT_JIS_TEXT = bytes(
+  0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea, 0x82, 0xcc, 0x83, 0x65, 0x83, 0x4c, 0x83, 0x58, 0x83, 0x67, 0x82, 0xc5,
+  0x82, 0xb7
+);
+
+describe('detectTextEncoding', () => {
+  test('reads byte order marks', () => {
+    assert.deepEqual(detectTextEncoding(bytes(0xef, 0xbb, 0xbf, 0x41)), { encoding: 'utf-8', bomLength: 3 });
+    assert.deepEqual(detectTextEncoding(bytes(0xff, 0xfe, 0x41, 0x00)), { encoding: 'utf-16le', bomLength: 2 });
+    assert.deepEqual(detectTextEncoding(bytes(0xfe, 0xff, 0x00, 0x41)), { encoding: 'utf-16be', bomLength: 2 });
+  });
+
+  test('guesses UTF-16 byte order without a BOM', () => {
+    assert.equal(detectTextEncoding(new Uint8Array(Buffer.from('Plain text', 'utf16le'))).encoding, 'utf-16le');
+    const bigEndian = new Uint8Array(Buffer.from('Plain text', 'utf16le')).reverse();
+    assert.equal(detectTextEncoding(bigEndian).encoding, 'utf-16be');
+  });
+
+  test('tells UTF-8, Shift-JIS and the single-byte encodings apart', () => {
+    assert.equal(detectTextEncoding(new Uint8Array(Buffer.from('Déjà vu — naïve café'))).encoding, 'utf-8');
+    assert.equal(detectTextEncoding(SHIFT_JIS_TEXT).encoding, 'shift_jis');
+    // "café “quoted”": curly quotes only exist in Windows-1252
+    assert.equal(detectTextEncoding(bytes(0x63, 0x61, 0x66, 0xe9, 0x20, 0x93, 0x71, 0x94)).encoding, 'windows-1252');
+    assert.equal(detectTextEncoding(bytes(0x63, 0x61, 0x66, 0xe9, 0x21)).encoding, 'iso-8859-1');
+    // A lead byte at the very end may be a character cut off by the window
+    assert.equal(detectTextEncoding(bytes(0x63, 0x61, 0x66, 0xc3)).encoding, 'utf-8');
+  });
+});
+
+describe('createTextDecoder', () => {
+  test('carries characters split between windows over to the next one', () => {
+    const utf8 = new Uint8Array(Buffer.from('Déjà vu — naïve café'));
+    for (const windowSize of [1, 2, 3, 5]) {
+      assert.equal(decodeInWindows(utf8, 'utf-8', windowSize), 'Déjà vu — naïve café');
+    }
+    assert.equal(decodeInWindows(new Uint8Array(Buffer.from('Ünïcødé', 'utf16le')), 'utf-16le', 3), 'Ünïcødé');
+    assert.equal(decodeInWindows(SHIFT_JIS_TEXT, 'shift_jis', 3), '日本語のテキストです');
+  });
+
+  test('decodes single-byte encodings', () => {
+    assert.equal(createTextDecoder('windows-1252').decode(bytes(0x93, 0x68, 0x69, 0x94, 0x80), true), '“hi”€');
+    assert.equal(createTextDecoder('iso-8859-1').decode(bytes(0x63, 0x61, 0x66, 0xe9), true), 'café');
+  });
+
+  test('replaces invalid and truncated UTF-8 with U+FFFD', () => {
+    assert.equal(createTextDecoder('utf-8').decode(bytes(0x61, 0xff, 0x62, 0xc3), true), 'a�b�');
+  });
+});
+
+describe('findTXTChapters', () => {
+  test('finds headings set off by blank lines', () => {
+    const text = [
+      'CHAPTER I.',
+      '',
+      'Down the Rabbit-Hole',
+      '',
+      'Alice was beginning to get very tired.',
+      '',
+      'Chapter 2: The Pool of Tears',
+      '',
+      'Curiouser and curiouser!',
+      '',
+      'Epilogue',
+      '',
+      'The end.',
+    ].join('\n');
+    assert.deepEqual(findTXTChapters(text), [
+      { title: 'CHAPTER I: Down the Rabbit-Hole', offset: 0 },
+      { title: 'Chapter 2: The Pool of Tears', offset: text.indexOf('Chapter 2') },
+      { title: 'Epilogue', offset: text.indexOf('Epilogue') },
+    ]);
+  });
+
+  test('skips contents lists, prose mentions and a lone match', () => {
+    const contents = ['Contents', '', 'Chapter 1', 'Chapter 2', 'Chapter 3', '', 'Some text.'].join('\n');
+    assert.deepEqual(findTXTChapters(contents), []);
+    const prose = ['It began.', '', 'chapter two was where it got going.', '', 'Chapter 3', '', 'More.'].join('\n');
+    assert.deepEqual(findTXTChapters(prose), []);
+  });
+
+  test('finds Japanese headings', () => {
+    const text = ['第一章', '本文です。', '', '第二章 旅立ち', '本文です。'].join('\n');
+    assert.deepEqual(
+      findTXTChapters(text).map((chapter) => chapter.title),
+      ['第一章', '第二章 旅立ち']
+    );
+  });
+});
+
+describe('parsePlainText', () => {
+  test('strips Project Gutenberg boilerplate and keeps its title', () => {
+    const source = [
+      'The Project Gutenberg eBook of Alice',
+      '',
+      "Title: Alice's Adventures",
+      '       in Wonderland',
+      '',
+      '*** START OF THE PROJECT GUTENBERG EBOOK ALICE ***',
+      '',
+      '',
+      'The story.',
+      '',
+      '*** END OF THE PROJECT GUTENBERG EBOOK ALICE ***',
+      'License text.',
+    ].join('\r\n');
+    assert.deepEqual(parsePlainText(source), {
+      text: 'The story.',
+      title: "Alice's Adventures in Wonderland",
+      chapters: [],
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Smart collection rule tests
+ * Compiles rules and runs the resulting WHERE clause against a migrated
+ * in-memory sql.js database of known documents
+ */
+
+import assert from 'node:assert/strict';
+import { before, describe, mock, test } from 'node:test';
+import { compileSmartCollectionRules } from '../services/database';
+import { runMigrations } from '../services/migrations';
+import { createSqlJsAdapter, loadSqlJs } from '../services/storage/sqlJsAdapter';
+import { StorageAdapter } from '../services/storage/types';
+import { SmartCollection, SmartCollectionRule } from '../types';
+
+const NOW = new Date('2024-06-30T12:00:00.000Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+interface SeedDocument {
+  id: string;
+  createdAt: string;
+  lastOpenedAt: string | null;
+  tagIds: string[];
+  progress?: number; // No reading position when omitted
+}
+
+const DOCUMENTS: SeedDocument[] = [
+  { id: 'fresh', createdAt: daysAgo(2), lastOpenedAt: daysAgo(1), tagIds: ['fiction', 'classic'], progress: 100 },
+  { id: 'stale', createdAt: daysAgo(60), lastOpenedAt: daysAgo(45), tagIds: ['fiction'], progress: 40 },
+  { id: 'unopened', createdAt: daysAgo(10), lastOpenedAt: null, tagIds: [] },
+  { id: 'untagged', createdAt: daysAgo(100), lastOpenedAt: daysAgo(5), tagIds: [], progress: 0 },
+];
+
+async function openLibrary(): Promise<StorageAdapter> {
+  const SQL = await loadSqlJs();
+  const db = createSqlJsAdapter(new SQL.Database());
+  await runMigrations(db);
+  for (const tagId of ['fiction', 'classic', 'unused']) {
+    await db.runAsync('INSERT INTO tags (id, name, color, createdAt) VALUES (?, ?, ?, ?)', [
+      tagId,
+      tagId,
+      '#000000',
+      daysAgo(200),
+    ]);
+  }
+  for (const doc of DOCUMENTS) {
+    await db.runAsync(
+      `INSERT INTO documents (id, title, filePath, format, createdAt, updatedAt, lastOpenedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [doc.id, doc.id, `documents/${doc.id}.txt`, 'txt', doc.createdAt, doc.createdAt, doc.lastOpenedAt]
+    );
+    for (const tagId of doc.tagIds) {
+      await db.runAsync('INSERT INTO document_tags (documentId, tagId) VALUES (?, ?)', [doc.id, tagId]);
+    }
+    if (doc.progress !== undefined) {
+      await db.runAsync(
+        'INSERT INTO reading_positions (id, documentId, position, progress, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        [`${doc.id}-position`, doc.id, 1, doc.progress, doc.createdAt]
+      );
+    }
+  }
+  return db;
+}
+
+describe('smart collection rules', () => {
+  let db: StorageAdapter;
+
+  before(async () => {
+    // runMigrations logs every applied migration
+    mock.method(console, 'log', () => {});
+    db = await openLibrary();
+  });
+
+  async function matching(
+    rules: SmartCollectionRule[],
+    matchMode: SmartCollection['matchMode'] = 'all'
+  ): Promise<string[]> {
+    const { sql, params } = compileSmartCollectionRules(rules, matchMode, NOW);
+    const rows = (await db.getAllAsync(`SELECT d.id FROM documents d WHERE ${sql} ORDER BY d.id`, params)) as {
+      id: string;
+    }[];
+    return rows.map((row) => row.id);
+  }
+
+  test('no constraining rules match every document', async () => {
+    assert.deepEqual(await matching([]), ['fresh', 'stale', 'unopened', 'untagged']);
+    assert.deepEqual(await matching([{ field: 'tags', tagIds: [], match: 'all' }]), [
+      'fresh',
+      'stale',
+      'unopened',
+      'untagged',
+    ]);
+  });
+
+  test('tags: any, all and none', async () => {
+    const fictionOrClassic: SmartCollectionRule = { field: 'tags', tagIds: ['fiction', 'classic'], match: 'any' };
+    assert.deepEqual(await matching([fictionOrClassic]), ['fresh', 'stale']);
+    assert.deepEqual(await matching([{ field: 'tags', tagIds: ['fiction', 'classic'], match: 'all' }]), ['fresh']);
+    // A repeated tag ID still needs only that one tag
+    const repeated: SmartCollectionRule = { field: 'tags', tagIds: ['fiction', 'fiction'], match: 'all' };
+    assert.deepEqual(await matching([repeated]), ['fresh', 'stale']);
+    assert.deepEqual(await matching([{ field: 'tags', tagIds: ['unused'], match: 'all' }]), []);
+    assert.deepEqual(await matching([{ field: 'tags', tagIds: ['fiction'], match: 'none' }]), ['unopened', 'untagged']);
+  });
+
+  test('date windows count never-opened documents as older', async () => {
+    assert.deepEqual(await matching([{ field: 'lastOpenedAt', withinDays: 7 }]), ['fresh', 'untagged']);
+    assert.deepEqual(await matching([{ field: 'lastOpenedAt', olderThanDays: 30 }]), ['stale', 'unopened']);
+    assert.deepEqual(await matching([{ field: 'lastOpenedAt', withinDays: 30, olderThanDays: 3 }]), ['untagged']);
+    assert.deepEqual(await matching([{ field: 'createdAt', withinDays: 30 }]), ['fresh', 'unopened']);
+  });
+
+  test('progress treats documents without a reading position as 0%', async () => {
+    assert.deepEqual(await matching([{ field: 'progress', max: 0 }]), ['unopened', 'untagged']);
+    assert.deepEqual(await matching([{ field: 'progress', min: 1, max: 99 }]), ['stale']);
+    assert.deepEqual(await matching([{ field: 'progress', min: 100 }]), ['fresh']);
+  });
+
+  test('match mode joins rules with AND or OR', async () => {
+    const rules: SmartCollectionRule[] = [
+      { field: 'tags', tagIds: ['fiction'], match: 'any' },
+      { field: 'progress', max: 50 },
+    ];
+    assert.deepEqual(await matching(rules, 'all'), ['stale']);
+    assert.deepEqual(await matching(rules, 'any'), ['fresh', 'stale', 'unopened', 'untagged']);
+  });
+});
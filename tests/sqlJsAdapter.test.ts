@@ -0,0 +1,114 @@
+/**
+ * sql.js adapter tests
+ * Exercises the StorageAdapter surface the data layer relies on, running on
+ * the same pure-JS sql.js build the web app uses
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+import { openNodeStorageAdapter } from '../services/storage/nodeAdapter';
+import { createSqlJsAdapter, loadSqlJs } from '../services/storage/sqlJsAdapter';
+import { StorageAdapter } from '../services/storage/types';
+
+async function openDatabase(): Promise<StorageAdapter> {
+  const SQL = await loadSqlJs();
+  const db = createSqlJsAdapter(new SQL.Database());
+  await db.execAsync('CREATE TABLE items (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, note TEXT)');
+  return db;
+}
+
+describe('sql.js adapter', () => {
+  test('inserts, reads, updates and deletes rows', async () => {
+    const db = await openDatabase();
+
+    const first = await db.runAsync('INSERT INTO items (name, note) VALUES (?, ?)', ['first', 'a note']);
+    assert.deepEqual(first, { changes: 1, lastInsertRowId: 1 });
+    const second = await db.runAsync('INSERT INTO items (name) VALUES (?)', ['second']);
+    assert.equal(second.lastInsertRowId, 2);
+
+    assert.deepEqual(await db.getAllAsync('SELECT id, name, note FROM items ORDER BY id'), [
+      { id: 1, name: 'first', note: 'a note' },
+      { id: 2, name: 'second', note: null },
+    ]);
+    assert.deepEqual(await db.getFirstAsync('SELECT name FROM items WHERE id = ?', [2]), { name: 'second' });
+    assert.equal(await db.getFirstAsync('SELECT name FROM items WHERE id = ?', [3]), null);
+
+    const updated = await db.runAsync('UPDATE items SET note = ? WHERE note IS NULL', ['filled in']);
+    assert.equal(updated.changes, 1);
+    assert.deepEqual(await db.getFirstAsync('SELECT note FROM items WHERE id = 2'), { note: 'filled in' });
+
+    const deleted = await db.runAsync('DELETE FROM items WHERE id = ?', [1]);
+    assert.equal(deleted.changes, 1);
+    assert.deepEqual(await db.getAllAsync('SELECT id FROM items'), [{ id: 2 }]);
+
+    await db.closeAsync();
+  });
+
+  test('binds undefined as NULL, like expo-sqlite', async () => {
+    const db = await openDatabase();
+    await db.runAsync('INSERT INTO items (name, note) VALUES (?, ?)', ['item', undefined as unknown as null]);
+    assert.deepEqual(await db.getFirstAsync('SELECT note FROM items'), { note: null });
+    await db.closeAsync();
+  });
+
+  test('commits a transaction whose task succeeds', async () => {
+    const db = await openDatabase();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('INSERT INTO items (name) VALUES (?)', ['one']);
+      await db.runAsync('INSERT INTO items (name) VALUES (?)', ['two']);
+    });
+    assert.deepEqual(await db.getFirstAsync('SELECT COUNT(*) AS count FROM items'), { count: 2 });
+    await db.closeAsync();
+  });
+
+  test('rolls back a transaction whose task throws', async () => {
+    const db = await openDatabase();
+    await db.runAsync('INSERT INTO items (name) VALUES (?)', ['kept']);
+
+    await assert.rejects(
+      db.withTransactionAsync(async () => {
+        await db.runAsync('INSERT INTO items (name) VALUES (?)', ['discarded']);
+        await db.runAsync('UPDATE items SET name = ? WHERE name = ?', ['changed', 'kept']);
+        throw new Error('task failed');
+      }),
+      /task failed/
+    );
+
+    assert.deepEqual(await db.getAllAsync('SELECT name FROM items'), [{ name: 'kept' }]);
+    await db.closeAsync();
+  });
+
+  test('rolls back when a statement in the transaction fails', async () => {
+    const db = await openDatabase();
+    await assert.rejects(
+      db.withTransactionAsync(async () => {
+        await db.runAsync('INSERT INTO items (name) VALUES (?)', ['discarded']);
+        await db.runAsync('INSERT INTO items (name) VALUES (?)', [null]);
+      }),
+      /NOT NULL/
+    );
+    assert.deepEqual(await db.getFirstAsync('SELECT COUNT(*) AS count FROM items'), { count: 0 });
+    await db.closeAsync();
+  });
+
+  test('persists a file-backed database on close and reopens it', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'readus-storage-'));
+    const filePath = path.join(directory, 'test.db');
+    try {
+      const db = await openNodeStorageAdapter(filePath);
+      await db.execAsync('CREATE TABLE items (name TEXT NOT NULL)');
+      await db.runAsync('INSERT INTO items (name) VALUES (?)', ['saved']);
+      await db.closeAsync();
+      assert.ok(fs.existsSync(filePath));
+
+      const reopened = await openNodeStorageAdapter(filePath);
+      assert.deepEqual(await reopened.getAllAsync('SELECT name FROM items'), [{ name: 'saved' }]);
+      await reopened.closeAsync();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -9,7 +9,7 @@ export type HighlightType = 'idea' | 'definition' | 'quote';
 export type ReaderTheme = 'light' | 'dark' | 'sepia';
 export type ReadingMode = 'page' | 'scroll' | 'column' | 'auto-scroll';
 
-export type DocumentFormat = 'pdf' | 'epub' | 'txt' | 'docx';
+export type DocumentFormat = 'pdf' | 'epub' | 'txt' | 'docx' | 'md' | 'fb2' | 'cbz' | 'html';
 
 export interface Document {
   id: string;
@@ -26,6 +26,12 @@ export interface Document {
   coverImagePath: string | null;
   extractedText?: string; // Full text content for search indexing
   isFavorite?: boolean; // Favorite status
+  author?: string | null; // Byline from the file's own metadata
+  description?: string | null; // Summary from the file's own metadata
+  siteName?: string | null; // Website a saved page came from
+  sourceUrl?: string | null; // Original address of a saved page
+  fileCreatedAt?: string | null; // When the file says it was written (ISO date)
+  fileModifiedAt?: string | null; // When the file says it was last saved (ISO date)
 }
 
 export interface Tag {
@@ -45,17 +51,71 @@ export interface Collection {
   updatedAt: string;
 }
 
+/**
+ * One condition of a smart collection. Ranges and windows are inclusive and
+ * either bound may be omitted.
+ */
+export type SmartCollectionRule =
+  | { field: 'format'; formats: DocumentFormat[] }
+  | { field: 'status'; statuses: DocumentStatus[] }
+  | { field: 'tags'; tagIds: string[]; match: 'any' | 'all' | 'none' }
+  | { field: 'isFavorite'; value: boolean }
+  | { field: 'wordCount'; min?: number; max?: number }
+  | { field: 'createdAt' | 'lastOpenedAt'; withinDays?: number; olderThanDays?: number } // never-opened counts as older
+  | { field: 'progress'; min?: number; max?: number } // 0-100 percentage
+  | { field: 'highlightCount'; min?: number; max?: number };
+
+export type SmartCollectionRuleField = SmartCollectionRule['field'];
+
+export interface SmartCollection {
+  id: string;
+  name: string;
+  color: string | null;
+  matchMode: 'all' | 'any'; // Whether documents must satisfy every rule or at least one
+  rules: SmartCollectionRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface DocumentTag {
   documentId: string;
   tagId: string;
 }
 
+/**
+ * Character-offset anchor into a document's text.
+ * Offsets index the plain text of one chapter (EPUB spine item) or of the
+ * whole document for single-flow formats. The prefix/suffix quotes allow
+ * re-anchoring when the text or layout changes.
+ */
+export interface TextLocator {
+  chapterIndex: number;
+  startOffset: number;
+  endOffset: number; // Equal to startOffset for positions
+  prefix: string;
+  suffix: string;
+}
+
+/**
+ * Table of contents entry, shared by all formats.
+ * `position` is the reading unit the entry opens: the page for PDF, the
+ * spine index for EPUB, the heading index for DOCX.
+ */
+export interface TOCEntry {
+  id: string;
+  title: string;
+  position?: number; // Undefined when the entry doesn't point into the document
+  fragment?: string; // Anchor id within the unit (EPUB fragment, DOCX heading)
+  children?: TOCEntry[];
+}
+
 export interface ReadingPosition {
   id: string;
   documentId: string;
   position: number; // page number or character position
   progress: number; // 0-100 percentage
   updatedAt: string;
+  locator?: TextLocator | null; // Precise position for text formats
 }
 
 export interface Bookmark {
@@ -64,6 +124,7 @@ export interface Bookmark {
   page: number;
   note: string | null;
   createdAt: string;
+  locator?: TextLocator | null;
 }
 
 export interface Highlight {
@@ -75,6 +136,7 @@ export interface Highlight {
   endPosition: number;
   color: string;
   createdAt: string;
+  locator?: TextLocator | null;
 }
 
 export interface Note {
@@ -85,6 +147,7 @@ export interface Note {
   position: number; // character position in document
   createdAt: string;
   updatedAt: string;
+  locator?: TextLocator | null;
 }
 
 export interface SearchResult {
@@ -108,6 +171,11 @@ export interface ReaderSettings {
   fontFamily?: string; // Font family name
   readingMode?: ReadingMode; // Reading mode
   autoScrollSpeed?: number; // Words per minute for auto-scroll (default: 200)
+  comicRightToLeft?: boolean; // Comic pages advance to the left, as in manga (default: false)
+  comicSpreads?: boolean; // Two comic pages side by side on wide screens (default: true)
+  autoBackupIntervalHours?: number; // Minimum age of the newest backup before another is made (default: 24)
+  autoBackupKeepCount?: number; // Number of automatic backups to keep (default: 7)
+  autoBackupIncludeDocuments?: boolean; // Automatic backups archive document files too (default: false)
 }
 
 export interface AIService {
@@ -0,0 +1,37 @@
+/**
+ * Comic Spreads
+ * Groups comic pages into what the reader shows at once. In two-page mode
+ * the cover stands alone and the following pages pair up (2-3, 4-5, ...),
+ * the way printed comics face each other.
+ */
+
+/**
+ * First page of the spread containing a page (1-based)
+ */
+export function getSpreadStart(page: number, pageCount: number, spreads: boolean): number {
+  const clamped = Math.max(1, Math.min(pageCount, page));
+  if (!spreads || clamped <= 1) return clamped;
+  return clamped % 2 === 0 ? clamped : clamped - 1;
+}
+
+/**
+ * Pages shown together with a page, in reading order
+ */
+export function getSpreadPages(page: number, pageCount: number, spreads: boolean): number[] {
+  const start = getSpreadStart(page, pageCount, spreads);
+  return spreads && start > 1 && start < pageCount ? [start, start + 1] : [start];
+}
+
+/**
+ * First page of the next or previous spread, or null at either end
+ */
+export function getAdjacentSpread(
+  page: number,
+  pageCount: number,
+  spreads: boolean,
+  direction: -1 | 1
+): number | null {
+  const current = getSpreadPages(page, pageCount, spreads);
+  const next = direction === 1 ? current[current.length - 1] + 1 : current[0] - 1;
+  return next >= 1 && next <= pageCount ? getSpreadStart(next, pageCount, spreads) : null;
+}
@@ -22,6 +22,17 @@ export const COLORS = {
   },
 } as const;
 
+export const TAG_COLORS = [
+  '#88755d',
+  '#b45309',
+  '#b91c1c',
+  '#be185d',
+  '#7c3aed',
+  '#1d4ed8',
+  '#0e7490',
+  '#15803d',
+] as const;
+
 export const READING_SPEED = 200; // words per minute
 
 export const WORDS_PER_PAGE = 250; // average words per page
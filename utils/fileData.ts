@@ -0,0 +1,63 @@
+/**
+ * File Data
+ * Reads document files as bytes. expo-file-system hands binary data over as
+ * base64, so these convert with Buffer where the runtime has it and with
+ * atob/btoa otherwise (Hermes).
+ */
+
+import * as FileSystemLegacy from 'expo-file-system/legacy';
+
+/**
+ * Turn a stored document path into a file:// URI. Paths may already be URIs,
+ * absolute, or relative to the documents directory.
+ */
+export function toFileUri(filePath: string): string {
+  let fileUri = filePath;
+  if (!filePath.startsWith('file://') && !filePath.startsWith('/')) {
+    fileUri = `${FileSystemLegacy.documentDirectory || ''}${filePath}`;
+  }
+  if (!fileUri.startsWith('file://')) {
+    fileUri = `file://${fileUri}`;
+  }
+  return fileUri;
+}
+
+export function base64ToBytes(base64Data: string): Uint8Array {
+  if (typeof Buffer !== 'undefined') {
+    return new Uint8Array(Buffer.from(base64Data, 'base64'));
+  }
+  if (typeof atob !== 'function') {
+    throw new Error('Base64 decoding not available. Please ensure Buffer or atob is available.');
+  }
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+  if (typeof btoa !== 'function') {
+    throw new Error('Base64 encoding not available. Please ensure Buffer or btoa is available.');
+  }
+  let binaryString = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binaryString);
+}
+
+/**
+ * Read a whole file into memory
+ */
+export async function readFileBytes(filePath: string): Promise<Uint8Array> {
+  const base64Data = await FileSystemLegacy.readAsStringAsync(toFileUri(filePath), {
+    encoding: FileSystemLegacy.EncodingType.Base64,
+  });
+  return base64ToBytes(base64Data);
+}
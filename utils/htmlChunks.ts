@@ -0,0 +1,90 @@
+/**
+ * HTML Chunks
+ * Splits converted document HTML into segments for virtualized rendering.
+ * Cuts fall between blocks; wrappers still open at a cut (sections, the
+ * body) are closed there and reopened in the next chunk, so each chunk
+ * renders on its own.
+ */
+
+import { TextChunk } from './textChunks';
+import { htmlToLocatorText } from './textLocator';
+
+export interface HTMLChunk extends TextChunk {
+  html: string; // Well-formed HTML of this chunk; start/end are locator text offsets
+}
+
+// Text characters aimed for per chunk: about a screen or two
+const CHUNK_LENGTH = 3000;
+
+// An image takes up about as much room as this many characters
+const IMAGE_LENGTH = 500;
+
+// Elements a cut may fall inside of
+const CONTAINER_TAGS = new Set([
+  'html', 'body', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'blockquote',
+]);
+
+// Elements after whose end a cut may fall
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'dl', 'table', 'pre', 'figure',
+  'blockquote', 'section', 'article', 'header', 'footer', 'aside', 'nav', 'main',
+]);
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+/**
+ * Split HTML into chunks of roughly `targetLength` characters of text. Chunk
+ * offsets index into htmlToLocatorText(html), like every other locator.
+ */
+export function splitHTMLChunks(html: string, targetLength: number = CHUNK_LENGTH): HTMLChunk[] {
+  const chunks: HTMLChunk[] = [];
+  const open: { name: string; tag: string }[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)[^>]*>/g;
+  let chunkStart = 0;
+  let reopened = '';
+  let length = 0;
+  let offset = 0;
+  let textStart = 0;
+
+  const addChunk = (chunkHTML: string) => {
+    const text = htmlToLocatorText(chunkHTML);
+    chunks.push({ start: offset, end: offset + text.length, html: chunkHTML });
+    // Blocks are separated by one line break in the locator text
+    if (text.length > 0) offset += text.length + 1;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    const [tag, closing, rawName] = match;
+    const name = rawName.toLowerCase();
+    length += match.index - textStart;
+    textStart = tagPattern.lastIndex;
+
+    if (closing) {
+      const index = open.map((element) => element.name).lastIndexOf(name);
+      if (index !== -1) open.length = index;
+    } else if (name === 'img') {
+      length += IMAGE_LENGTH;
+    } else if (!VOID_TAGS.has(name) && !tag.endsWith('/>')) {
+      open.push({ name, tag });
+    }
+
+    const blockEnd = closing ? BLOCK_TAGS.has(name) : name === 'hr';
+    if (blockEnd && length >= targetLength && open.every((element) => CONTAINER_TAGS.has(element.name))) {
+      const end = tagPattern.lastIndex;
+      const closingTags = [...open].reverse().map((element) => `</${element.name}>`).join('');
+      addChunk(reopened + html.substring(chunkStart, end) + closingTags);
+      reopened = open.map((element) => element.tag).join('');
+      chunkStart = end;
+      length = 0;
+    }
+  }
+
+  const rest = html.substring(chunkStart);
+  if (chunks.length === 0 || rest.replace(/<\/[^>]+>/g, '').trim()) {
+    addChunk(reopened + rest);
+  }
+  return chunks;
+}
@@ -0,0 +1,73 @@
+/**
+ * HTML Outline
+ * Heading trees for single-flow HTML documents (DOCX, Markdown, FB2, web
+ * articles), used for the table of contents
+ */
+
+import { TOCEntry } from '@/types';
+import { decodeXMLEntities } from '@/utils/xmlParser';
+
+export interface HeadingNode {
+  id: string; // Anchor id of the heading element
+  title: string;
+  level: number; // 1-6, from the h1-h6 tag
+  children: HeadingNode[];
+}
+
+/**
+ * Give every heading an anchor id (keeping existing ones) and build the
+ * heading tree. Headings without text are anchored but left out of the outline.
+ */
+export function addHeadingAnchors(html: string, idPrefix: string): { html: string; outline: HeadingNode[] } {
+  const outline: HeadingNode[] = [];
+  const stack: HeadingNode[] = [];
+  let count = 0;
+
+  const anchored = html.replace(/<h([1-6])([^>]*)>([\s\S]*?)<\/h\1>/gi, (match, levelText: string, attributes: string, inner: string) => {
+    const existingId = attributes.match(/\sid\s*=\s*["']([^"']+)["']/i)?.[1];
+    const id = existingId ?? `${idPrefix}-${++count}`;
+    const title = decodeXMLEntities(inner.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+    if (title) {
+      const heading: HeadingNode = { id, title, level: parseInt(levelText, 10), children: [] };
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      (stack.length > 0 ? stack[stack.length - 1].children : outline).push(heading);
+      stack.push(heading);
+    }
+    return existingId ? match : `<h${levelText} id="${id}"${attributes}>${inner}</h${levelText}>`;
+  });
+
+  return { html: anchored, outline };
+}
+
+/**
+ * Headings in document order (depth-first)
+ */
+export function flattenHeadings(outline: HeadingNode[]): HeadingNode[] {
+  const flat: HeadingNode[] = [];
+  const visit = (headings: HeadingNode[]) =>
+    headings.forEach((heading) => {
+      flat.push(heading);
+      visit(heading.children);
+    });
+  visit(outline);
+  return flat;
+}
+
+/**
+ * Convert the heading tree to the reader's format-agnostic entries. Headings
+ * are numbered in document order and anchored by their id.
+ */
+export function buildHeadingTOCEntries(outline: HeadingNode[]): TOCEntry[] {
+  let position = 0;
+  const convert = (headings: HeadingNode[]): TOCEntry[] =>
+    headings.map((heading) => ({
+      id: heading.id,
+      title: heading.title,
+      position: position++,
+      fragment: heading.id,
+      children: heading.children.length > 0 ? convert(heading.children) : undefined,
+    }));
+  return convert(outline);
+}
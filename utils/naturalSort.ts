@@ -0,0 +1,26 @@
+/**
+ * Natural Sort
+ * Orders names with embedded numbers by their numeric value
+ */
+
+/**
+ * Compare file names the way people number pages: "page2" before "page10"
+ */
+export function compareNatural(a: string, b: string): number {
+  const partsA = a.toLowerCase().match(/\d+|\D+/g) ?? [];
+  const partsB = b.toLowerCase().match(/\d+|\D+/g) ?? [];
+  for (let i = 0; i < Math.min(partsA.length, partsB.length); i++) {
+    const partA = partsA[i];
+    const partB = partsB[i];
+    if (partA === partB) continue;
+    const numberA = /^\d/.test(partA);
+    const numberB = /^\d/.test(partB);
+    if (numberA && numberB) {
+      const difference = Number(partA) - Number(partB);
+      // "01" and "1" are equal numbers; the shorter spelling sorts first
+      return difference !== 0 ? difference : partA.length - partB.length;
+    }
+    return partA < partB ? -1 : 1;
+  }
+  return partsA.length - partsB.length;
+}
@@ -0,0 +1,154 @@
+/**
+ * Plain Text
+ * Structure of decoded plain text: Project Gutenberg boilerplate is
+ * stripped and chapter headings are found for the table of contents
+ */
+
+export interface TXTChapter {
+  title: string;
+  offset: number; // Character offset of the heading line in the text
+}
+
+export interface PlainTextContent {
+  text: string; // Normalized text with "\n" line endings
+  title: string | null; // From a Project Gutenberg header
+  chapters: TXTChapter[];
+}
+
+// Longest line considered as a chapter heading or heading subtitle
+const MAX_HEADING_LENGTH = 80;
+
+// Guard against texts where nearly every paragraph looks like a heading
+const MAX_CHAPTERS = 2000;
+
+const GUTENBERG_START = /^[ \t]*\*{3}[ \t]*START OF (?:THE |THIS )?PROJECT GUTENBERG E-?BOOK[^\n]*\n|^\*END\*THE SMALL PRINT![^\n]*\n/im;
+const GUTENBERG_END = /^[ \t]*(?:\*{3}[ \t]*)?END OF (?:THE |THIS )?PROJECT GUTENBERG E-?BOOK/im;
+const GUTENBERG_TITLE = /^Title:[ \t]*(.+(?:\n[ \t]+\S.*)*)/m;
+
+const ROMAN_NUMERAL = 'm{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})';
+const UNITS = 'one|two|three|four|five|six|seven|eight|nine';
+const NUMBER_WORD =
+  `(?:twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety)(?:[- ](?:${UNITS}))?|${UNITS}|` +
+  'ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|' +
+  '(?:the )?(?:first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|twelfth|last|final)';
+
+// "CHAPTER IV.", "Chapter 12: Title", "Part Two", "Book the First"
+const NUMBERED_HEADING = new RegExp(
+  `^(?:chapter|part|book|volume|section|act|canto|letter)[ \\t]+(?:\\d+|${ROMAN_NUMERAL}|${NUMBER_WORD})\\b[.:)]?(?:[ \\t]+(?:[-–—:][ \\t]*)?(.*))?$`,
+  'i'
+);
+const NAMED_HEADING = /^(?:prologue|epilogue|preface|foreword|introduction|afterword|conclusion|appendix)[.:]?$/i;
+// "第一章", "第3部"
+const JAPANESE_HEADING = /^第[0-9０-９一二三四五六七八九十百千]+[章部編話幕]/;
+// Sentence punctuation (optionally inside a closing quote) ends prose, not titles
+const SENTENCE_END = /[.!?;,:…]["'”’)]*$/;
+// Words a title-cased heading may leave lowercase
+const MINOR_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'from', 'in', 'into', 'nor',
+  'of', 'on', 'or', 'over', 'the', 'to', 'upon', 'with',
+]);
+/**
+ * Remove the Project Gutenberg license header and footer, keeping the title
+ * from the header. Text without the markers is returned unchanged.
+ */
+function stripGutenbergBoilerplate(text: string): { text: string; title: string | null } {
+  const start = GUTENBERG_START.exec(text);
+  if (!start) return { text, title: null };
+
+  const header = text.substring(0, start.index);
+  const titleMatch = GUTENBERG_TITLE.exec(header);
+  const body = text.substring(start.index + start[0].length);
+  const end = GUTENBERG_END.exec(body);
+  return {
+    text: end ? body.substring(0, end.index) : body,
+    title: titleMatch ? titleMatch[1].replace(/\s+/g, ' ').trim() : null,
+  };
+}
+
+function isBlank(line: string | undefined): boolean {
+  return line === undefined || line.trim().length === 0;
+}
+
+/**
+ * Whether a line reads like a title: title case or all capitals, and not
+ * ending like a sentence. Scripts without case pass the case check.
+ */
+function isTitleLike(line: string): boolean {
+  if (SENTENCE_END.test(line)) return false;
+  const words = line.split(/\s+/);
+  return words.every((word, position) => {
+    const first = word.match(/\p{L}/u)?.[0];
+    if (!first || first === first.toUpperCase()) return true;
+    return position > 0 && MINOR_WORDS.has(word.toLowerCase());
+  });
+}
+
+/**
+ * Title of a numbered heading line whose own title is missing, taken from a
+ * short one-line paragraph right after it ("CHAPTER I." / "Down the Rabbit-Hole")
+ */
+function findSubtitle(lines: string[], index: number): string | null {
+  let next = index + 1;
+  if (isBlank(lines[next])) next++;
+  const candidate = lines[next]?.trim();
+  if (!candidate || candidate.length > MAX_HEADING_LENGTH || !isBlank(lines[next + 1])) return null;
+  // The next entry of a list of headings is not a subtitle
+  if (NUMBERED_HEADING.test(candidate)) return null;
+  // A short opening line of the chapter's text is not a subtitle either
+  return isTitleLike(candidate) ? candidate : null;
+}
+
+/**
+ * Find chapter headings: short lines set off by blank lines that look like
+ * "CHAPTER IV", "Part Two", "Epilogue" or "第一章". Adjacent lines (such as
+ * a printed contents list) are not headings.
+ */
+export function findTXTChapters(text: string): TXTChapter[] {
+  const chapters: TXTChapter[] = [];
+  const lines = text.split('\n');
+  let offset = 0;
+
+  for (let index = 0; index < lines.length && chapters.length < MAX_CHAPTERS; index++) {
+    const line = lines[index];
+    const lineOffset = offset;
+    offset += line.length + 1;
+
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > MAX_HEADING_LENGTH || !isBlank(lines[index - 1])) continue;
+    // Headings start with a capital; "chapter two was..." mid-prose doesn't
+    if (trimmed[0] !== trimmed[0].toUpperCase()) continue;
+
+    let title: string | null = null;
+    const numbered = NUMBERED_HEADING.exec(trimmed);
+    if (numbered && numbered[1]?.trim()) {
+      title = isBlank(lines[index + 1]) ? trimmed : null;
+    } else if (numbered) {
+      const subtitle = findSubtitle(lines, index);
+      if (subtitle) {
+        title = `${trimmed.replace(/[.:]$/, '')}: ${subtitle}`;
+      } else if (isBlank(lines[index + 1])) {
+        title = trimmed;
+      }
+    } else if (NAMED_HEADING.test(trimmed) || JAPANESE_HEADING.test(trimmed)) {
+      title = isBlank(lines[index + 1]) || JAPANESE_HEADING.test(trimmed) ? trimmed : null;
+    }
+
+    if (title) {
+      chapters.push({ title: title.replace(/\s+/g, ' '), offset: lineOffset + line.indexOf(trimmed) });
+    }
+  }
+
+  // A lone match is more likely a stray line than a chapter structure
+  return chapters.length >= 2 ? chapters : [];
+}
+
+/**
+ * Normalize decoded text and infer its structure
+ */
+export function parsePlainText(source: string): PlainTextContent {
+  const normalized = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const { text, title } = stripGutenbergBoilerplate(normalized);
+  // Drop leading and trailing blank lines, keeping the first line's indentation
+  const trimmed = text.replace(/^(?:[ \t]*\n)+/, '').trimEnd();
+  return { text: trimmed, title, chapters: findTXTChapters(trimmed) };
+}
@@ -0,0 +1,68 @@
+/**
+ * Text Chunks
+ * Splits long plain text into segments for virtualized rendering
+ */
+
+export interface TextChunk {
+  start: number; // Offset of the first character in the full text
+  end: number; // Offset just past the last rendered character
+}
+
+// Characters aimed for per chunk: about a screen of text
+const CHUNK_LENGTH = 1500;
+
+/**
+ * Split text into chunks of roughly `targetLength` characters, preferring to
+ * cut at line breaks, then at spaces. A line break at a cut is left out of
+ * both chunks, since each chunk renders as its own block.
+ */
+export function splitTextChunks(text: string, targetLength: number = CHUNK_LENGTH): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < text.length) {
+    const limit = start + targetLength;
+    if (limit >= text.length) {
+      chunks.push({ start, end: text.length });
+      break;
+    }
+
+    // Last line break in the second half of the window, else the next one shortly after it
+    let cut = text.lastIndexOf('\n', limit);
+    if (cut < start + targetLength / 2) {
+      const next = text.indexOf('\n', limit);
+      cut = next !== -1 && next < limit + targetLength / 2 ? next : -1;
+    }
+    if (cut !== -1) {
+      chunks.push({ start, end: cut });
+      start = cut + 1;
+      continue;
+    }
+
+    // One long line (e.g. a log without breaks): cut after a space, or anywhere
+    const space = text.lastIndexOf(' ', limit);
+    let end = space > start ? space + 1 : limit;
+    // Keep surrogate pairs together
+    const code = text.charCodeAt(end - 1);
+    if (code >= 0xd800 && code <= 0xdbff) end++;
+    chunks.push({ start, end });
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * Index of the chunk containing a text offset
+ */
+export function findChunkIndex(chunks: TextChunk[], offset: number): number {
+  let low = 0;
+  let high = chunks.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (chunks[middle].start <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(0, low);
+}
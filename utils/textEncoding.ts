@@ -0,0 +1,354 @@
+/**
+ * Text Encoding
+ * Detects and decodes the character encoding of imported plain-text files
+ */
+
+import { SHIFT_JIS_ROWS } from '@/utils/shiftJISTable';
+
+export type TextEncoding =
+  | 'utf-8'
+  | 'utf-16le'
+  | 'utf-16be'
+  | 'windows-1252'
+  | 'iso-8859-1'
+  | 'windows-1251'
+  | 'shift_jis';
+
+// Encoding labels (lowercase) as written in XML declarations and MIME types
+const ENCODING_LABELS: Record<string, TextEncoding> = {
+  'utf-8': 'utf-8',
+  utf8: 'utf-8',
+  'utf-16': 'utf-16le',
+  'utf-16le': 'utf-16le',
+  'utf-16be': 'utf-16be',
+  'windows-1252': 'windows-1252',
+  cp1252: 'windows-1252',
+  'iso-8859-1': 'iso-8859-1',
+  latin1: 'iso-8859-1',
+  'windows-1251': 'windows-1251',
+  cp1251: 'windows-1251',
+  shift_jis: 'shift_jis',
+  'shift-jis': 'shift_jis',
+  sjis: 'shift_jis',
+  'x-sjis': 'shift_jis',
+};
+
+// Bytes inspected when guessing a BOM-less UTF-16 file
+const UTF16_SAMPLE_SIZE = 4096;
+
+// Code units collected before flushing them into the output string
+const DECODE_CHUNK_SIZE = 8192;
+
+const REPLACEMENT = 0xfffd;
+
+// Windows-1252 characters for bytes 0x80-0x9F (C1 controls in Latin-1)
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+// Windows-1251 characters for bytes 0x80-0xBF; 0xC0-0xFF are А-я (U+0410-U+044F)
+const WINDOWS_1251_HIGH = [
+  0x0402, 0x0403, 0x201a, 0x0453, 0x201e, 0x2026, 0x2020, 0x2021, 0x20ac, 0x2030, 0x0409, 0x2039, 0x040a, 0x040c, 0x040b, 0x040f,
+  0x0452, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x0098, 0x2122, 0x0459, 0x203a, 0x045a, 0x045c, 0x045b, 0x045f,
+  0x00a0, 0x040e, 0x045e, 0x0408, 0x00a4, 0x0490, 0x00a6, 0x00a7, 0x0401, 0x00a9, 0x0404, 0x00ab, 0x00ac, 0x00ad, 0x00ae, 0x0407,
+  0x00b0, 0x00b1, 0x0406, 0x0456, 0x0491, 0x00b5, 0x00b6, 0x00b7, 0x0451, 0x2116, 0x0454, 0x00bb, 0x0458, 0x0405, 0x0455, 0x0457,
+];
+
+/**
+ * Collects UTF-16 code units into a string without building a huge array
+ */
+class StringBuilder {
+  private parts: string[] = [];
+  private units: number[] = [];
+
+  push(unit: number): void {
+    this.units.push(unit);
+    if (this.units.length >= DECODE_CHUNK_SIZE) this.flush();
+  }
+
+  pushCodePoint(codePoint: number): void {
+    if (codePoint > 0xffff) {
+      const offset = codePoint - 0x10000;
+      this.push(0xd800 + (offset >> 10));
+      this.push(0xdc00 + (offset & 0x3ff));
+    } else {
+      this.push(codePoint);
+    }
+  }
+
+  toString(): string {
+    this.flush();
+    return this.parts.join('');
+  }
+
+  private flush(): void {
+    if (this.units.length === 0) return;
+    this.parts.push(String.fromCharCode.apply(null, this.units));
+    this.units = [];
+  }
+}
+
+/**
+ * Length of the valid UTF-8 sequence starting at `index`, or 0 if the bytes
+ * there are not valid UTF-8 (overlong forms and surrogates included)
+ */
+function utf8SequenceLength(bytes: Uint8Array, index: number): number {
+  const byte = bytes[index];
+  if (byte < 0x80) return 1;
+  let length: number;
+  let lower = 0x80;
+  let upper = 0xbf;
+  if (byte >= 0xc2 && byte <= 0xdf) {
+    length = 2;
+  } else if (byte >= 0xe0 && byte <= 0xef) {
+    length = 3;
+    if (byte === 0xe0) lower = 0xa0;
+    if (byte === 0xed) upper = 0x9f;
+  } else if (byte >= 0xf0 && byte <= 0xf4) {
+    length = 4;
+    if (byte === 0xf0) lower = 0x90;
+    if (byte === 0xf4) upper = 0x8f;
+  } else {
+    return 0;
+  }
+  if (index + length > bytes.length) return 0;
+  if (bytes[index + 1] < lower || bytes[index + 1] > upper) return 0;
+  for (let i = 2; i < length; i++) {
+    if ((bytes[index + i] & 0xc0) !== 0x80) return 0;
+  }
+  return length;
+}
+
+/**
+ * Whether the bytes from `index` are the start of a UTF-8 sequence cut off by
+ * the end of the buffer (completed by the next window of a streamed file)
+ */
+function isIncompleteUTF8(bytes: Uint8Array, index: number): boolean {
+  const byte = bytes[index];
+  const length = byte >= 0xc2 && byte <= 0xdf ? 2 : byte >= 0xe0 && byte <= 0xef ? 3 : byte >= 0xf0 && byte <= 0xf4 ? 4 : 0;
+  if (length === 0 || index + length <= bytes.length) return false;
+  for (let i = index + 1; i < bytes.length; i++) {
+    if ((bytes[i] & 0xc0) !== 0x80) return false;
+  }
+  return true;
+}
+
+function isValidUTF8(bytes: Uint8Array): boolean {
+  let index = 0;
+  while (index < bytes.length) {
+    const length = utf8SequenceLength(bytes, index);
+    if (length === 0) return isIncompleteUTF8(bytes, index);
+    index += length;
+  }
+  return true;
+}
+
+// Decoders append to `output` and return the number of bytes consumed; unless
+// `final`, bytes of an incomplete trailing character are left for the next call
+
+function decodeUTF8(bytes: Uint8Array, output: StringBuilder, final: boolean): number {
+  let index = 0;
+  while (index < bytes.length) {
+    const length = utf8SequenceLength(bytes, index);
+    const byte = bytes[index];
+    if (length === 0) {
+      if (!final && isIncompleteUTF8(bytes, index)) break;
+      output.push(REPLACEMENT);
+      index++;
+    } else if (length === 1) {
+      output.push(byte);
+      index++;
+    } else {
+      let codePoint = byte & (0xff >> (length + 1));
+      for (let i = 1; i < length; i++) {
+        codePoint = (codePoint << 6) | (bytes[index + i] & 0x3f);
+      }
+      output.pushCodePoint(codePoint);
+      index += length;
+    }
+  }
+  return index;
+}
+
+function decodeUTF16(bytes: Uint8Array, output: StringBuilder, final: boolean, littleEndian: boolean): number {
+  let index = 0;
+  for (; index + 1 < bytes.length; index += 2) {
+    output.push(littleEndian ? bytes[index] | (bytes[index + 1] << 8) : (bytes[index] << 8) | bytes[index + 1]);
+  }
+  if (index < bytes.length && final) {
+    output.push(REPLACEMENT);
+    index++;
+  }
+  return index;
+}
+
+function decodeSingleByte(bytes: Uint8Array, output: StringBuilder, encoding: TextEncoding): number {
+  for (let index = 0; index < bytes.length; index++) {
+    const byte = bytes[index];
+    if (byte < 0x80 || encoding === 'iso-8859-1') {
+      output.push(byte);
+    } else if (encoding === 'windows-1251') {
+      output.push(byte >= 0xc0 ? 0x0410 + byte - 0xc0 : WINDOWS_1251_HIGH[byte - 0x80]);
+    } else {
+      output.push(byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : byte);
+    }
+  }
+  return bytes.length;
+}
+
+function isShiftJISLead(byte: number): boolean {
+  return (byte >= 0x81 && byte <= 0x9f) || (byte >= 0xe0 && byte <= 0xfc);
+}
+
+/**
+ * Character for a Shift-JIS double-byte code, or U+FFFD when unassigned
+ */
+function shiftJISChar(lead: number, trail: number): number {
+  if (trail < 0x40 || trail > 0xfc || trail === 0x7f) return REPLACEMENT;
+  const row = SHIFT_JIS_ROWS[lead <= 0x9f ? lead - 0x81 : lead - 0xe0 + 0x1f];
+  return row.charCodeAt(trail < 0x7f ? trail - 0x40 : trail - 0x41);
+}
+
+function decodeShiftJIS(bytes: Uint8Array, output: StringBuilder, final: boolean): number {
+  let index = 0;
+  while (index < bytes.length) {
+    const byte = bytes[index];
+    if (byte < 0x80) {
+      // JIS X 0201 puts the yen sign at 0x5C, but files almost always mean a backslash
+      output.push(byte);
+      index++;
+    } else if (byte >= 0xa1 && byte <= 0xdf) {
+      // Half-width katakana
+      output.push(0xff61 + byte - 0xa1);
+      index++;
+    } else if (isShiftJISLead(byte) && index + 1 === bytes.length && !final) {
+      break;
+    } else if (isShiftJISLead(byte) && index + 1 < bytes.length) {
+      const char = shiftJISChar(byte, bytes[index + 1]);
+      output.push(char);
+      // Only consume an ASCII trail byte that actually formed a character
+      index += char === REPLACEMENT && bytes[index + 1] < 0x80 ? 1 : 2;
+    } else {
+      output.push(REPLACEMENT);
+      index++;
+    }
+  }
+  return index;
+}
+
+/**
+ * Guess UTF-16 byte order from the NUL bytes ASCII characters leave behind
+ */
+function guessUTF16(bytes: Uint8Array): TextEncoding | null {
+  const sampleSize = Math.min(bytes.length, UTF16_SAMPLE_SIZE) & ~1;
+  if (sampleSize < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < sampleSize; index += 2) {
+    if (bytes[index] === 0) evenZeros++;
+    if (bytes[index + 1] === 0) oddZeros++;
+  }
+  const pairs = sampleSize / 2;
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Whether non-UTF-8 bytes read as Shift-JIS: every lead byte must start an
+ * assigned character, and enough of them must pair with a high trail byte.
+ * Accented Latin letters followed by ASCII also form valid pairs, but
+ * Japanese text is dominated by pairs whose trail byte is 0x80 or above.
+ */
+function looksLikeShiftJIS(bytes: Uint8Array): boolean {
+  let pairs = 0;
+  let highTrailPairs = 0;
+  let invalid = 0;
+  let index = 0;
+  while (index < bytes.length) {
+    const byte = bytes[index];
+    if (byte < 0x80 || (byte >= 0xa1 && byte <= 0xdf)) {
+      index++;
+    } else if (isShiftJISLead(byte) && index + 1 < bytes.length && shiftJISChar(byte, bytes[index + 1]) !== REPLACEMENT) {
+      pairs++;
+      if (bytes[index + 1] >= 0x80) highTrailPairs++;
+      index += 2;
+    } else {
+      // A lead byte cut off at the end of a sample is not evidence either way
+      if (!(isShiftJISLead(byte) && index + 1 === bytes.length)) invalid++;
+      index++;
+    }
+  }
+  return pairs > 0 && invalid <= pairs * 0.01 && highTrailPairs * 3 >= pairs;
+}
+
+/**
+ * Detect the encoding of a text file (or of its first window): byte order
+ * marks first, then BOM-less UTF-16, valid UTF-8, Shift-JIS, and finally
+ * Windows-1252 or Latin-1.
+ */
+export function detectTextEncoding(bytes: Uint8Array): { encoding: TextEncoding; bomLength: number } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', bomLength: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', bomLength: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', bomLength: 2 };
+
+  const utf16 = guessUTF16(bytes);
+  if (utf16) return { encoding: utf16, bomLength: 0 };
+  if (isValidUTF8(bytes)) return { encoding: 'utf-8', bomLength: 0 };
+  if (looksLikeShiftJIS(bytes)) return { encoding: 'shift_jis', bomLength: 0 };
+
+  // Bytes 0x80-0x9F are control codes in Latin-1 but printable in Windows-1252
+  const hasWindowsBytes = bytes.some((byte) => byte >= 0x80 && byte <= 0x9f);
+  return { encoding: hasWindowsBytes ? 'windows-1252' : 'iso-8859-1', bomLength: 0 };
+}
+
+/**
+ * Encoding for a declared label such as "windows-1251", or null if unsupported
+ */
+export function encodingFromLabel(label: string): TextEncoding | null {
+  return ENCODING_LABELS[label.trim().toLowerCase()] ?? null;
+}
+
+export interface TextStreamDecoder {
+  /** Decode the next bytes; pass `final` with the last window of the file */
+  decode(bytes: Uint8Array, final?: boolean): string;
+}
+
+/**
+ * Decoder for a file read in windows, carrying characters split between
+ * windows over to the next call
+ */
+export function createTextDecoder(encoding: TextEncoding): TextStreamDecoder {
+  let pending = new Uint8Array(0);
+  return {
+    decode(chunk: Uint8Array, final = false): string {
+      let bytes = chunk;
+      if (pending.length > 0) {
+        bytes = new Uint8Array(pending.length + chunk.length);
+        bytes.set(pending);
+        bytes.set(chunk, pending.length);
+      }
+      const output = new StringBuilder();
+      let consumed: number;
+      switch (encoding) {
+        case 'utf-16le':
+        case 'utf-16be':
+          consumed = decodeUTF16(bytes, output, final, encoding === 'utf-16le');
+          break;
+        case 'shift_jis':
+          consumed = decodeShiftJIS(bytes, output, final);
+          break;
+        case 'windows-1252':
+        case 'iso-8859-1':
+        case 'windows-1251':
+          consumed = decodeSingleByte(bytes, output, encoding);
+          break;
+        default:
+          consumed = decodeUTF8(bytes, output, final);
+      }
+      pending = bytes.slice(consumed);
+      return output.toString();
+    },
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Text Locators
+ * Character-offset anchors for highlights, notes, bookmarks and reading positions
+ */
+
+import { TextLocator } from '@/types';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Characters of surrounding context stored with each locator
+const CONTEXT_LENGTH = 32;
+
+// Upper bound on candidate matches scored during re-anchoring
+const MAX_CANDIDATES = 500;
+
+/**
+ * Convert chapter HTML into the plain text that locator offsets index into.
+ * Every consumer must use this so offsets stay comparable.
+ */
+export function htmlToLocatorText(html: string): string {
+  return html
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    .replace(/<head[^>]*>[\s\S]*?<\/head>/gi, '')
+    .replace(/<(br|\/p|\/div|\/h[1-6]|\/li|\/tr)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t\r]+/g, ' ')
+    .replace(/ *\n[\n ]*/g, '\n')
+    .trim();
+}
+
+/**
+ * Offset in the locator text of the element with the given id (a `#fragment`
+ * target), or null when the HTML has no such element
+ */
+export function findAnchorOffset(html: string, anchorId: string): number | null {
+  const escaped = anchorId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`<[^>]+\\s(?:id|name)\\s*=\\s*["']${escaped}["']`, 'i').exec(html);
+  if (!match) return null;
+  return htmlToLocatorText(html.substring(0, match.index)).length;
+}
+
+/**
+ * Create a locator for a range of text
+ */
+export function createTextLocator(
+  text: string,
+  start: number,
+  end: number,
+  chapterIndex: number = 0
+): TextLocator {
+  const startOffset = Math.max(0, Math.min(start, text.length));
+  const endOffset = Math.max(startOffset, Math.min(end, text.length));
+  return {
+    chapterIndex,
+    startOffset,
+    endOffset,
+    prefix: text.substring(Math.max(0, startOffset - CONTEXT_LENGTH), startOffset),
+    suffix: text.substring(endOffset, endOffset + CONTEXT_LENGTH),
+  };
+}
+
+/**
+ * Create a zero-length locator marking a position (bookmarks, reading position)
+ */
+export function createPositionLocator(text: string, offset: number, chapterIndex: number = 0): TextLocator {
+  return createTextLocator(text, offset, offset, chapterIndex);
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Score a candidate range by how well its surroundings match the stored
+ * context, preferring candidates close to the original offset
+ */
+function scoreCandidate(text: string, range: TextRange, locator: TextLocator | null): number {
+  if (!locator) return -range.start / Math.max(1, text.length);
+  const before = text.substring(Math.max(0, range.start - locator.prefix.length), range.start);
+  const after = text.substring(range.end, range.end + locator.suffix.length);
+  const contextScore = commonSuffixLength(locator.prefix, before) + commonPrefixLength(locator.suffix, after);
+  const distance = Math.abs(range.start - locator.startOffset) / Math.max(1, text.length);
+  return contextScore - distance;
+}
+
+function findOccurrences(text: string, quote: string): number[] {
+  const indexes: number[] = [];
+  if (!quote) return indexes;
+  let index = text.indexOf(quote);
+  while (index !== -1 && indexes.length < MAX_CANDIDATES) {
+    indexes.push(index);
+    index = text.indexOf(quote, index + 1);
+  }
+  return indexes;
+}
+
+/**
+ * Lowercase and collapse whitespace, keeping a map back to original offsets
+ */
+function normalizeWithMap(text: string): { normalized: string; map: number[] } {
+  let normalized = '';
+  const map: number[] = [];
+  let inSpace = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      if (!inSpace) {
+        normalized += ' ';
+        map.push(i);
+      }
+      inSpace = true;
+    } else {
+      normalized += ch.toLowerCase();
+      map.push(i);
+      inSpace = false;
+    }
+  }
+  map.push(text.length);
+  return { normalized, map };
+}
+
+function pickBest(text: string, candidates: TextRange[], locator: TextLocator | null): TextRange | null {
+  let best: TextRange | null = null;
+  let bestScore = -Infinity;
+  for (const candidate of candidates) {
+    const score = scoreCandidate(text, candidate, locator);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Re-anchor a zero-length position locator using its context
+ */
+function resolvePosition(text: string, locator: TextLocator): number {
+  const { startOffset, prefix, suffix } = locator;
+  if (
+    startOffset <= text.length &&
+    text.substring(startOffset - prefix.length, startOffset) === prefix &&
+    text.substring(startOffset, startOffset + suffix.length) === suffix
+  ) {
+    return startOffset;
+  }
+
+  const anchor = prefix + suffix;
+  const exact = findOccurrences(text, anchor).map((index) => ({
+    start: index + prefix.length,
+    end: index + prefix.length,
+  }));
+  const fromSuffix = findOccurrences(text, suffix).map((index) => ({ start: index, end: index }));
+  const fromPrefix = findOccurrences(text, prefix).map((index) => ({
+    start: index + prefix.length,
+    end: index + prefix.length,
+  }));
+  const best = pickBest(text, exact.length > 0 ? exact : [...fromSuffix, ...fromPrefix], locator);
+
+  // Fall back to the same relative place if the text changed beyond recognition
+  return best ? best.start : Math.min(startOffset, text.length);
+}
+
+/**
+ * Find the current range for a locator in (possibly changed) text.
+ *
+ * Tries the stored offsets first, then exact occurrences of the quote scored
+ * by surrounding context and distance, then a case- and whitespace-insensitive
+ * search. Returns null when the quote no longer appears in the text.
+ */
+export function resolveTextLocator(
+  text: string,
+  locator: TextLocator | null | undefined,
+  quote?: string
+): TextRange | null {
+  if (!text) return null;
+
+  if (quote === undefined || quote.length === 0) {
+    if (!locator) return null;
+    const offset = resolvePosition(text, locator);
+    return { start: offset, end: offset };
+  }
+
+  // Fast path: text unchanged at the stored offsets
+  if (locator && text.substring(locator.startOffset, locator.endOffset) === quote) {
+    return { start: locator.startOffset, end: locator.endOffset };
+  }
+
+  const exact = findOccurrences(text, quote).map((index) => ({ start: index, end: index + quote.length }));
+  if (exact.length > 0) {
+    return pickBest(text, exact, locator ?? null);
+  }
+
+  // Tolerate case and whitespace differences (e.g. re-extracted text)
+  const { normalized, map } = normalizeWithMap(text);
+  const normalizedQuote = normalizeWithMap(quote.trim()).normalized;
+  const fuzzy = findOccurrences(normalized, normalizedQuote).map((index) => ({
+    start: map[index],
+    end: map[index + normalizedQuote.length - 1] + 1,
+  }));
+  return pickBest(text, fuzzy, locator ?? null);
+}
+
+/**
+ * Parse a locator stored as JSON in SQLite
+ */
+export function parseLocator(value: unknown): TextLocator | null {
+  if (!value || typeof value !== 'string') return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed?.startOffset !== 'number' || typeof parsed?.endOffset !== 'number') {
+      return null;
+    }
+    return {
+      chapterIndex: typeof parsed.chapterIndex === 'number' ? parsed.chapterIndex : 0,
+      startOffset: parsed.startOffset,
+      endOffset: parsed.endOffset,
+      prefix: typeof parsed.prefix === 'string' ? parsed.prefix : '',
+      suffix: typeof parsed.suffix === 'string' ? parsed.suffix : '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize a locator for storage
+ */
+export function serializeLocator(locator: TextLocator | null | undefined): string | null {
+  return locator ? JSON.stringify(locator) : null;
+}
@@ -6,10 +6,30 @@
 import React from 'react';
 import { Text, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { Highlight } from '@/types';
+import { resolveTextLocator, TextRange } from './textLocator';
+
+export interface ResolvedHighlight {
+  highlight: Highlight;
+  range: TextRange;
+}
+
+/**
+ * Re-anchor each highlight in the current text, dropping ones that no longer
+ * match, in text order
+ */
+export function resolveHighlights(text: string, highlights: Highlight[]): ResolvedHighlight[] {
+  return highlights
+    .map((highlight) => ({ highlight, range: resolveTextLocator(text, highlight.locator, highlight.text) }))
+    .filter((item): item is ResolvedHighlight => item.range !== null)
+    .sort((a, b) => a.range.start - b.range.start);
+}
 
 interface HighlightedTextProps {
   text: string;
   highlights: Highlight[];
+  // Highlights already resolved against a larger text that `text` is a part of
+  resolved?: ResolvedHighlight[];
+  offset?: number; // Offset of `text` within that larger text
   onHighlightPress?: (highlight: Highlight) => void;
   style?: any;
   fontSize?: number;
@@ -21,6 +41,8 @@ interface HighlightedTextProps {
 export function HighlightedText({
   text,
   highlights,
+  resolved: resolvedHighlights,
+  offset = 0,
   onHighlightPress,
   style,
   fontSize = 16,
@@ -28,7 +50,7 @@ export function HighlightedText({
   color = '#1a1a1a',
   fontFamily,
 }: HighlightedTextProps) {
-  if (!highlights || highlights.length === 0) {
+  if (!resolvedHighlights && (!highlights || highlights.length === 0)) {
     return (
       <Text
         style={[
@@ -46,41 +68,39 @@ export function HighlightedText({
     );
   }
 
-  // Sort highlights by start position
-  const sortedHighlights = [...highlights].sort((a, b) => a.startPosition - b.startPosition);
-  
+  const resolved = resolvedHighlights ?? resolveHighlights(text, highlights);
+
   // Build segments with highlights
   const segments: Array<{ text: string; highlight?: Highlight; start: number; end: number }> = [];
   let lastIndex = 0;
 
-  sortedHighlights.forEach((highlight) => {
-    // Find highlight text in the main text (case-insensitive search)
-    const highlightTextLower = highlight.text.toLowerCase();
-    const textLower = text.toLowerCase();
-    const startIndex = textLower.indexOf(highlightTextLower, lastIndex);
-    
-    if (startIndex !== -1 && startIndex >= lastIndex) {
-      const endIndex = startIndex + highlight.text.length;
-      
-      // Add text before highlight
-      if (startIndex > lastIndex) {
-        segments.push({
-          text: text.substring(lastIndex, startIndex),
-          start: lastIndex,
-          end: startIndex,
-        });
-      }
-      
-      // Add highlighted text
+  resolved.forEach(({ highlight, range: fullRange }) => {
+    // Clip to this part of the text
+    const range = {
+      start: Math.max(0, fullRange.start - offset),
+      end: Math.min(text.length, fullRange.end - offset),
+    };
+    // Skip highlights outside it or overlapping one already rendered
+    if (range.start < lastIndex || range.end <= range.start) return;
+
+    // Add text before highlight
+    if (range.start > lastIndex) {
       segments.push({
-        text: text.substring(startIndex, endIndex),
-        highlight,
-        start: startIndex,
-        end: endIndex,
+        text: text.substring(lastIndex, range.start),
+        start: lastIndex,
+        end: range.start,
       });
-      
-      lastIndex = endIndex;
     }
+
+    // Add highlighted text
+    segments.push({
+      text: text.substring(range.start, range.end),
+      highlight,
+      start: range.start,
+      end: range.end,
+    });
+
+    lastIndex = range.end;
   });
 
   // Add remaining text
@@ -0,0 +1,225 @@
+/**
+ * Lightweight XML Parser
+ * Builds a simple element tree for the XML documents inside EPUB/Office archives.
+ * React Native has no DOMParser, so this is a small tolerant parser rather than
+ * a validating one: unclosed tags are closed by their parent and unknown
+ * entities are left as-is.
+ */
+
+export interface XMLElement {
+  name: string; // Qualified name, e.g. "dc:title"
+  localName: string; // Name without namespace prefix, e.g. "title"
+  attributes: Record<string, string>;
+  children: XMLNode[];
+}
+
+export type XMLNode = XMLElement | string;
+
+// HTML elements that never have content, for XHTML written without self-closing tags
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode character and predefined entity references
+ */
+export function decodeXMLEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+      try {
+        return String.fromCodePoint(point);
+      } catch {
+        return entity;
+      }
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function localNameOf(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.substring(colon + 1);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+    attributes[name] = decodeXMLEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse an XML (or XHTML) string into a tree under a synthetic "#document" root
+ */
+export function parseXML(source: string): XMLElement {
+  const root: XMLElement = { name: '#document', localName: '#document', attributes: {}, children: [] };
+  const stack: XMLElement[] = [root];
+  let position = 0;
+
+  const appendText = (text: string) => {
+    if (text.length > 0) stack[stack.length - 1].children.push(decodeXMLEntities(text));
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    if (tagStart === -1) {
+      appendText(source.substring(position));
+      break;
+    }
+    appendText(source.substring(position, tagStart));
+
+    if (source.startsWith('<!--', tagStart)) {
+      const end = source.indexOf('-->', tagStart + 4);
+      position = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart + 9);
+      const text = source.substring(tagStart + 9, end === -1 ? source.length : end);
+      if (text.length > 0) stack[stack.length - 1].children.push(text);
+      position = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<?', tagStart)) {
+      const end = source.indexOf('?>', tagStart + 2);
+      position = end === -1 ? source.length : end + 2;
+      continue;
+    }
+    if (source.startsWith('<!', tagStart)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', tagStart);
+      const close = source.indexOf('>', tagStart);
+      if (bracket !== -1 && close !== -1 && bracket < close) {
+        const subsetEnd = source.indexOf(']>', bracket);
+        position = subsetEnd === -1 ? source.length : subsetEnd + 2;
+      } else {
+        position = close === -1 ? source.length : close + 1;
+      }
+      continue;
+    }
+
+    // Find the end of the tag, skipping '>' inside quoted attribute values
+    let tagEnd = tagStart + 1;
+    let quote: string | null = null;
+    while (tagEnd < source.length) {
+      const char = source[tagEnd];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        break;
+      }
+      tagEnd++;
+    }
+    const body = source.substring(tagStart + 1, tagEnd);
+    position = tagEnd + 1;
+
+    if (body.startsWith('/')) {
+      const name = body.substring(1).trim();
+      // Pop to the matching element; ignore stray closing tags
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const selfClosing = body.endsWith('/');
+    const content = selfClosing ? body.substring(0, body.length - 1) : body;
+    const nameMatch = content.match(/^[^\s/>]+/);
+    if (!nameMatch) {
+      appendText(`<${body}>`);
+      continue;
+    }
+    const name = nameMatch[0];
+    const element: XMLElement = {
+      name,
+      localName: localNameOf(name),
+      attributes: parseAttributes(content.substring(name.length)),
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing && !VOID_ELEMENTS.has(element.localName.toLowerCase())) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Get an attribute by qualified name, falling back to any prefix with the same local name
+ */
+export function getAttribute(element: XMLElement, name: string): string | undefined {
+  if (name in element.attributes) return element.attributes[name];
+  const local = localNameOf(name);
+  for (const [key, value] of Object.entries(element.attributes)) {
+    if (localNameOf(key) === local) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Direct child elements with the given local name (case-insensitive)
+ */
+export function findChildren(element: XMLElement, localName: string): XMLElement[] {
+  const target = localName.toLowerCase();
+  return element.children.filter(
+    (child): child is XMLElement => typeof child !== 'string' && child.localName.toLowerCase() === target
+  );
+}
+
+export function findChild(element: XMLElement, localName: string): XMLElement | undefined {
+  return findChildren(element, localName)[0];
+}
+
+/**
+ * All descendant elements with the given local name, in document order
+ */
+export function findDescendants(element: XMLElement, localName: string): XMLElement[] {
+  const target = localName.toLowerCase();
+  const results: XMLElement[] = [];
+  const visit = (node: XMLElement) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') continue;
+      if (child.localName.toLowerCase() === target) results.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return results;
+}
+
+export function findDescendant(element: XMLElement, localName: string): XMLElement | undefined {
+  return findDescendants(element, localName)[0];
+}
+
+/**
+ * Concatenated text of an element and its descendants, whitespace collapsed
+ */
+export function getTextContent(element: XMLElement): string {
+  const parts: string[] = [];
+  const visit = (node: XMLElement) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') parts.push(child);
+      else visit(child);
+    }
+  };
+  visit(element);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}